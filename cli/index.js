@@ -6,10 +6,19 @@
  * - setup-standard: Initialize classic document management structure
  * - setup-axioma: Initialize AI features and intelligent metrics
  * - audit-check: Verify multi-tenant isolation compliance
+ * - export-report: Export the predictive analysis report (JSON, CSV, PDF)
+ * - export-pop: Export the active version of a POP for printing (PDF, HTML)
+ * - set-video-provider: Select the POP extraction provider of an organization
+ * - backfill-history-order: Fill versaoOrdem on legacy history entries
+ * - backfill-search-tokens: Fill tituloBusca on documents created before title search
  */
 
+const fs = require('fs');
+const path = require('path');
 const admin = require('firebase-admin');
 
+const FUNCTIONS_DIR = path.join(__dirname, '..', 'functions');
+
 // Initialize Firebase Admin if not already initialized
 function initializeFirebase() {
   if (admin.apps.length === 0) {
@@ -143,6 +152,8 @@ async function setupAxioma() {
       nome: 'Configuração Axioma',
       videoProcessing: {
         enabled: true,
+        // Provedor de extração: 'gemini' ou 'fake' (fixtures, para emuladores)
+        provider: 'gemini',
         modelVersion: 'gemini-1.5-pro',
         autoGeneratePOP: true,
         minConfidenceScore: 70,
@@ -158,11 +169,47 @@ async function setupAxioma() {
       predictiveAnalysis: {
         enabled: true,
         checkIntervalDays: 30,
+        // Regras de revisão: as padrão usam os thresholds resolvidos por tipo;
+        // sobrescreva pelo id ou acrescente regras com expressões próprias
         failureIndicators: [
-          'score_conformidade < 70',
-          'nao_conformidades > 3',
-          'tempo_execucao > tempo_estimado * 1.5',
+          {
+            id: 'conformidade-baixa',
+            expressao: 'score_conformidade < score_minimo',
+            recomendacao: 'Revisar procedimentos para aumentar conformidade',
+          },
+          {
+            id: 'nao-conformidades',
+            expressao: 'nao_conformidades > max_nao_conformidades',
+            recomendacao: 'Tratar as não-conformidades em aberto (causa raiz e plano de ação)',
+          },
+          {
+            id: 'tempo-execucao',
+            expressao: 'razao_tempo > razao_tempo_maxima && execucoes >= execucoes_minimas',
+            recomendacao: 'Revisar etapas e tempo estimado do procedimento',
+          },
         ],
+        // Thresholds globais; organizações podem sobrescrever em axiomaConfigs/{orgId}
+        thresholds: {
+          daysUntilRevisionWarning: 90,
+          daysUntilRevisionRequired: 180,
+          minConformityScore: 70,
+          maxNonConformities: 3,
+          maxExecutionTimeRatio: 1.5,
+          minExecutionSamples: 3,
+        },
+        thresholdsPorTipo: {
+          Checklist: { daysUntilRevisionWarning: 180, daysUntilRevisionRequired: 365 },
+          'Política': { daysUntilRevisionWarning: 365, daysUntilRevisionRequired: 730 },
+        },
+        // Pesos do score de risco (0-100), normalizados para somar 100
+        riskWeights: {
+          idade: 30,
+          conformidade: 25,
+          naoConformidades: 20,
+          impactoMargem: 15,
+          custoManutencao: 10,
+        },
+        custoReferencia: 1000,
       },
       ativo: true,
     };
@@ -193,6 +240,8 @@ async function setupAxioma() {
     const videoLinkConfig = {
       configId: 'video-document-integration',
       nome: 'Integração Vídeo-Documento',
+      // Aplicada pelo trigger onVideoPOPCompleted; organizações podem
+      // sobrescrever em videoLinkConfigs/{orgId}
       autoLink: true,
       generatePOPOnComplete: true,
       requireManualReview: false,
@@ -207,7 +256,7 @@ async function setupAxioma() {
     console.log('\nPróximos passos:');
     console.log('  1. Faça upload de vídeos para gs://bucket/companies/{companyId}/videos/');
     console.log('  2. VideoProcessor irá extrair POPs automaticamente');
-    console.log('  3. Use DocumentService para vincular POPs a documentos');
+    console.log('  3. POPs concluídos geram documentos conforme videoLinkConfigs');
     console.log('  4. Análises preditivas serão executadas automaticamente');
     
   } catch (error) {
@@ -324,6 +373,175 @@ async function auditCheck() {
   }
 }
 
+/**
+ * Carrega um módulo dos serviços compilados (functions/lib)
+ * Os serviços usam o firebase-admin de functions/node_modules, que é
+ * inicializado aqui caso ainda não tenha sido.
+ */
+function requireFunctionsModule(modulePath) {
+  let service;
+  try {
+    service = require(path.join(FUNCTIONS_DIR, 'lib', modulePath));
+  } catch (error) {
+    if (error.code === 'MODULE_NOT_FOUND') {
+      throw new Error('Serviços não compilados. Execute: cd functions && npm run build');
+    }
+    throw error;
+  }
+
+  const functionsAdmin = require(require.resolve('firebase-admin', { paths: [FUNCTIONS_DIR] }));
+  if (functionsAdmin.apps.length === 0) {
+    functionsAdmin.initializeApp();
+  }
+  return service;
+}
+
+/**
+ * Export Report: Relatório de Análise Preditiva da organização
+ * Formatos: pdf (resumo executivo e tabela), csv (planilhas) e json
+ */
+async function exportReport(orgId, formato = 'pdf', arquivo) {
+  if (!orgId) {
+    throw new Error('Informe a organização: export-report <orgId> [pdf|csv|json] [arquivo]');
+  }
+
+  const { PredictiveAnalysisService } = requireFunctionsModule('services/PredictiveAnalysisService');
+  const {
+    REPORT_FORMATS,
+    buildAnalysisReport,
+    renderAnalysisReport,
+  } = requireFunctionsModule('services/AnalysisReportBuilder');
+
+  if (!REPORT_FORMATS.includes(formato)) {
+    throw new Error(`Formato inválido: ${formato} (use ${REPORT_FORMATS.join(', ')})`);
+  }
+
+  console.log(`📋 Gerando relatório de análise preditiva de ${orgId} (${formato})...`);
+
+  const { analyses, falhas } = await new PredictiveAnalysisService().analyzeOrganization(orgId);
+  const relatorio = renderAnalysisReport(buildAnalysisReport(orgId, analyses, falhas), formato);
+  const destino = path.resolve(arquivo || relatorio.nomeArquivo);
+
+  fs.writeFileSync(destino, relatorio.conteudo);
+
+  console.log(`  ✓ ${analyses.length} documentos analisados`);
+  if (falhas.length > 0) {
+    console.log(`  ⚠️ ${falhas.length} documento(s) não analisado(s)`);
+  }
+  console.log(`  ✓ Relatório salvo em ${destino}`);
+}
+
+/**
+ * Export POP: versão ativa de um POP no layout padronizado
+ * Formatos: pdf (impressão no chão de fábrica) e html
+ */
+async function exportPop(docId, formato = 'pdf', arquivo) {
+  if (!docId) {
+    throw new Error('Informe o documento: export-pop <docId> [pdf|html] [arquivo]');
+  }
+
+  const { DocumentService } = requireFunctionsModule('services/DocumentService');
+  const {
+    POP_RENDER_FORMATS,
+    buildPopLayout,
+    renderPopDocument,
+  } = requireFunctionsModule('services/PopDocumentRenderer');
+
+  if (!POP_RENDER_FORMATS.includes(formato)) {
+    throw new Error(`Formato inválido: ${formato} (use ${POP_RENDER_FORMATS.join(', ')})`);
+  }
+
+  const document = await new DocumentService().getActiveVersion(docId);
+  const pop = buildPopLayout(document);
+  const renderizado = renderPopDocument(pop, formato);
+  const destino = path.resolve(arquivo || renderizado.nomeArquivo);
+
+  fs.writeFileSync(destino, renderizado.conteudo);
+
+  console.log(`✓ ${pop.codigo} v${pop.versao} (${pop.etapas.length} etapas) salvo em ${destino}`);
+}
+
+/**
+ * Set Video Provider: provedor e modelo de extração de POPs da organização
+ * Grava em axiomaConfigs/{orgId}; use 'fake' com os emuladores
+ */
+async function setVideoProvider(orgId, provider, modelVersion) {
+  if (!orgId || !provider) {
+    throw new Error('Informe organização e provedor: set-video-provider <orgId> <gemini|fake> [modelVersion]');
+  }
+
+  const { validateVideoProcessingConfig } = requireFunctionsModule('services/AxiomaConfigService');
+  const videoProcessing = validateVideoProcessingConfig(orgId, {
+    provider,
+    ...(modelVersion ? { modelVersion } : {}),
+  });
+
+  const db = initializeFirebase();
+  await db.collection('axiomaConfigs').doc(orgId).set(
+    { configId: orgId, orgId, ativo: true, videoProcessing },
+    { merge: true }
+  );
+
+  console.log(`✓ ${orgId}: extração de POPs com ${provider}${modelVersion ? ` (${modelVersion})` : ''}`);
+}
+
+/**
+ * Backfill History Order: grava `versaoOrdem` nas entradas de histórico
+ * legadas, que sem o campo ficam fora da linha do tempo do webapp
+ * (ordenada por versaoOrdem). Idempotente; reexecutar não altera nada.
+ */
+async function backfillHistoryOrder() {
+  const { versionSortKey } = requireFunctionsModule('utils/version');
+  const db = initializeFirebase();
+
+  console.log('🔢 Preenchendo versaoOrdem no histórico de versões...');
+
+  const snapshot = await db.collectionGroup('history').get();
+  const pendentes = snapshot.docs.filter(
+    (entry) => entry.get('versaoOrdem') !== versionSortKey(entry.get('versao'))
+  );
+
+  // Lotes dentro do limite de 500 escritas por batch
+  for (let i = 0; i < pendentes.length; i += 400) {
+    const batch = db.batch();
+    pendentes.slice(i, i + 400).forEach((entry) => {
+      batch.update(entry.ref, { versaoOrdem: versionSortKey(entry.get('versao')) });
+    });
+    await batch.commit();
+  }
+
+  console.log(`  ✓ ${pendentes.length} de ${snapshot.size} entradas atualizadas`);
+}
+
+/**
+ * Backfill Search Tokens: grava `tituloBusca` nos documentos criados antes
+ * da busca por título, que sem o campo não aparecem nas buscas do webapp.
+ * Idempotente; só atualiza documentos com tokens ausentes ou desatualizados.
+ */
+async function backfillSearchTokens() {
+  const { buildSearchTokens } = requireFunctionsModule('utils/search');
+  const db = initializeFirebase();
+
+  console.log('🔎 Preenchendo tituloBusca nos documentos...');
+
+  const snapshot = await db.collection('documents').select('titulo', 'tituloBusca').get();
+  const pendentes = snapshot.docs.filter(
+    (document) => JSON.stringify(document.get('tituloBusca') || null) !==
+      JSON.stringify(buildSearchTokens(document.get('titulo') || ''))
+  );
+
+  // Lotes dentro do limite de 500 escritas por batch
+  for (let i = 0; i < pendentes.length; i += 400) {
+    const batch = db.batch();
+    pendentes.slice(i, i + 400).forEach((document) => {
+      batch.update(document.ref, { tituloBusca: buildSearchTokens(document.get('titulo') || '') });
+    });
+    await batch.commit();
+  }
+
+  console.log(`  ✓ ${pendentes.length} de ${snapshot.size} documentos atualizados`);
+}
+
 /**
  * Main CLI handler
  */
@@ -336,7 +554,15 @@ async function main() {
     console.log('Comandos disponíveis:');
     console.log('  setup-standard  - Iniciar estrutura de gestão documental clássica');
     console.log('  setup-axioma    - Implementar lógica de IA e métricas');
-    console.log('  audit-check     - Verificar isolamento multi-tenant\n');
+    console.log('  audit-check     - Verificar isolamento multi-tenant');
+    console.log('  export-report   - Exportar relatório de análise preditiva');
+    console.log('                    (export-report <orgId> [pdf|csv|json] [arquivo])');
+    console.log('  export-pop      - Exportar a versão ativa de um POP para impressão');
+    console.log('                    (export-pop <docId> [pdf|html] [arquivo])');
+    console.log('  set-video-provider - Selecionar o provedor de extração de POPs');
+    console.log('                    (set-video-provider <orgId> <gemini|fake> [modelVersion])');
+    console.log('  backfill-history-order - Preencher versaoOrdem no histórico legado');
+    console.log('  backfill-search-tokens - Preencher tituloBusca nos documentos existentes\n');
     process.exit(1);
   }
   
@@ -352,6 +578,21 @@ async function main() {
         const isCompliant = await auditCheck();
         process.exit(isCompliant ? 0 : 1);
         break;
+      case 'export-report':
+        await exportReport(process.argv[3], process.argv[4], process.argv[5]);
+        break;
+      case 'export-pop':
+        await exportPop(process.argv[3], process.argv[4], process.argv[5]);
+        break;
+      case 'set-video-provider':
+        await setVideoProvider(process.argv[3], process.argv[4], process.argv[5]);
+        break;
+      case 'backfill-history-order':
+        await backfillHistoryOrder();
+        break;
+      case 'backfill-search-tokens':
+        await backfillSearchTokens();
+        break;
       default:
         console.error(`❌ Comando desconhecido: ${command}`);
         console.log('Execute sem argumentos para ver a lista de comandos disponíveis.');
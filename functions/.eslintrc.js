@@ -10,6 +10,9 @@ module.exports = {
     "eslint:recommended",
     "google",
   ],
+  "ignorePatterns": [
+    "/lib/**/*", // Compiled TypeScript output.
+  ],
   "rules": {
     "no-restricted-globals": ["error", "name", "length"],
     "prefer-arrow-callback": "error",
@@ -17,7 +20,7 @@ module.exports = {
   },
   "overrides": [
     {
-      "files": ["**/*.spec.*"],
+      "files": ["**/*.spec.*", "test/**/*.js"],
       "env": {
         "mocha": true,
       },
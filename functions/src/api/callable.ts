@@ -0,0 +1,121 @@
+/**
+ * Infraestrutura comum das funções callable
+ *
+ * - Exige autenticação e a claim `orgId` no token (isolamento multi-tenant)
+ * - Converte erros de domínio em HttpsError com código estável
+ * - Serializa Timestamps como { seconds, nanoseconds } para o webapp
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { CallableRequest, HttpsError, onCall } from 'firebase-functions/v2/https';
+import { toHttpsError } from '../errors/errorMapping';
+import { PermissionDeniedError, TenantMismatchError } from '../errors/DomainError';
+import { UserRole } from '../types/document.types';
+import { asPayload, Payload } from './validation';
+
+/**
+ * Contexto autenticado de uma chamada
+ */
+export interface CallerContext {
+  /** UID do usuário autenticado */
+  uid: string;
+  /** Organização do usuário, lida do token (nunca do payload) */
+  orgId: string;
+  /** Token decodificado (claims adicionais como papel) */
+  token: Record<string, unknown>;
+}
+
+/**
+ * Extrai o contexto autenticado, lançando HttpsError se ausente
+ */
+export function requireCaller(request: CallableRequest<unknown>): CallerContext {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Autenticação obrigatória');
+  }
+
+  const orgId = request.auth.token.orgId;
+  if (typeof orgId !== 'string' || orgId === '') {
+    throw new HttpsError('permission-denied', 'Token sem organização (claim orgId)');
+  }
+
+  return {
+    uid: request.auth.uid,
+    orgId,
+    token: request.auth.token as unknown as Record<string, unknown>,
+  };
+}
+
+/**
+ * Garante que um recurso pertence à organização do usuário
+ */
+export function assertSameTenant(
+  caller: CallerContext,
+  resourceOrgId: string,
+  recurso: string,
+  id: string
+): void {
+  if (resourceOrgId !== caller.orgId) {
+    throw new TenantMismatchError(recurso, id);
+  }
+}
+
+/**
+ * Garante que o papel do usuário (claim `role`) permite a operação
+ */
+export function requireRole(caller: CallerContext, papeis: readonly UserRole[], operacao: string): void {
+  const role = caller.token.role;
+  if (typeof role !== 'string' || !papeis.includes(role as UserRole)) {
+    throw new PermissionDeniedError(typeof role === 'string' ? role : null, papeis, operacao);
+  }
+}
+
+/**
+ * Converte Timestamps em { seconds, nanoseconds } recursivamente
+ */
+export function serialize(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return { seconds: value.seconds, nanoseconds: value.nanoseconds };
+  }
+  if (Array.isArray(value)) {
+    return value.map(serialize);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, serialize(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Cria uma função callable autenticada
+ *
+ * @param name - Nome da operação (para logs)
+ * @param handler - Implementação que recebe o payload validado como objeto
+ */
+export function authenticatedCall(
+  name: string,
+  handler: (data: Payload, caller: CallerContext) => Promise<unknown>
+) {
+  return onCall(async (request) => {
+    const caller = requireCaller(request);
+
+    try {
+      const result = await handler(asPayload(request.data ?? {}), caller);
+      return serialize(result);
+    } catch (error) {
+      const httpsError = toHttpsError(error);
+      if (httpsError.code === 'internal' || httpsError.code === 'unavailable') {
+        logger.error(`${name} falhou`, { uid: caller.uid, orgId: caller.orgId, error });
+      } else {
+        logger.warn(`${name} rejeitado`, {
+          uid: caller.uid,
+          orgId: caller.orgId,
+          details: httpsError.details,
+        });
+      }
+      throw httpsError;
+    }
+  });
+}
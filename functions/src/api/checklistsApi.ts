@@ -0,0 +1,160 @@
+/**
+ * API de Checklists - Funções Callable
+ *
+ * Expõe a execução de checklists ao webapp: início a partir de um modelo
+ * de norma ou de um documento do tipo Checklist, respostas por item,
+ * fotos de evidência (enviadas em base64), conclusão com score de
+ * conformidade e abertura de não-conformidades a partir de itens
+ * reprovados. As execuções são conferidas contra a organização do token.
+ */
+
+import { CHECKLIST_EVIDENCE_MAX_BYTES, ChecklistService } from '../services/ChecklistService';
+import { assertSameTenant, authenticatedCall, CallerContext } from './callable';
+import {
+  CHECKLIST_ANSWERS,
+  CHECKLIST_RUN_STATUSES,
+  NC_SEVERITIES,
+  optionalOneOf,
+  optionalString,
+  requireBase64,
+  requireInteger,
+  requireOneOf,
+  requireString,
+} from './validation';
+
+/**
+ * Carrega a execução e confere a organização do usuário
+ */
+async function requireOwnRun(service: ChecklistService, runId: string, caller: CallerContext) {
+  const run = await service.getRun(runId);
+  assertSameTenant(caller, run.orgId, 'Checklist', runId);
+  return run;
+}
+
+/**
+ * Lista os modelos de checklist ativos (ISO 9001, 14001, 45001...)
+ */
+export const listChecklistTemplates = authenticatedCall('listChecklistTemplates', async () => {
+  return new ChecklistService().listTemplates();
+});
+
+/**
+ * Inicia uma execução a partir de um modelo (templateId) ou da versão
+ * ativa de um documento do tipo Checklist (docId)
+ */
+export const startChecklistRun = authenticatedCall('startChecklistRun', async (data, caller) => {
+  return new ChecklistService().startRun({
+    orgId: caller.orgId,
+    templateId: optionalString(data, 'templateId', 128),
+    docId: optionalString(data, 'docId', 128),
+    titulo: optionalString(data, 'titulo', 200),
+    iniciadoPor: caller.uid,
+  });
+});
+
+/**
+ * Lista as execuções da organização (filtros: status, docId)
+ */
+export const listChecklistRuns = authenticatedCall('listChecklistRuns', async (data, caller) => {
+  return new ChecklistService().listByOrg(caller.orgId, {
+    status: optionalOneOf(data, 'status', CHECKLIST_RUN_STATUSES),
+    docId: optionalString(data, 'docId', 128),
+  });
+});
+
+/**
+ * Recupera uma execução com as respostas
+ */
+export const getChecklistRun = authenticatedCall('getChecklistRun', async (data, caller) => {
+  return requireOwnRun(new ChecklistService(), requireString(data, 'runId', 128), caller);
+});
+
+/**
+ * Responde um item (conforme, nao_conforme ou na) com comentário opcional
+ */
+export const answerChecklistItem = authenticatedCall('answerChecklistItem', async (data, caller) => {
+  const service = new ChecklistService();
+  const runId = requireString(data, 'runId', 128);
+  await requireOwnRun(service, runId, caller);
+
+  return service.answerItem(
+    runId,
+    requireInteger(data, 'ordem', 1),
+    {
+      resposta: requireOneOf(data, 'resposta', CHECKLIST_ANSWERS),
+      comentario: optionalString(data, 'comentario', 2000),
+    },
+    caller.uid
+  );
+});
+
+/**
+ * Anexa uma foto de evidência a um item (conteúdo em base64)
+ */
+export const addChecklistEvidence = authenticatedCall('addChecklistEvidence', async (data, caller) => {
+  const service = new ChecklistService();
+  const runId = requireString(data, 'runId', 128);
+  await requireOwnRun(service, runId, caller);
+
+  return service.addEvidence(
+    runId,
+    requireInteger(data, 'ordem', 1),
+    requireString(data, 'nome', 200),
+    requireBase64(data, 'conteudo', CHECKLIST_EVIDENCE_MAX_BYTES),
+    requireString(data, 'contentType', 100),
+    caller.uid
+  );
+});
+
+/**
+ * URL assinada e temporária de uma foto de evidência
+ */
+export const getChecklistEvidenceUrl = authenticatedCall('getChecklistEvidenceUrl', async (data, caller) => {
+  const service = new ChecklistService();
+  const run = await requireOwnRun(service, requireString(data, 'runId', 128), caller);
+
+  return service.getEvidenceUrl(run, requireInteger(data, 'ordem', 1), requireString(data, 'evidenciaId', 128));
+});
+
+/**
+ * Conclui a execução (bloqueada com itens obrigatórios sem resposta)
+ */
+export const completeChecklistRun = authenticatedCall('completeChecklistRun', async (data, caller) => {
+  const service = new ChecklistService();
+  const runId = requireString(data, 'runId', 128);
+  await requireOwnRun(service, runId, caller);
+
+  return service.complete(runId, caller.uid);
+});
+
+/**
+ * Cancela uma execução em andamento
+ */
+export const cancelChecklistRun = authenticatedCall('cancelChecklistRun', async (data, caller) => {
+  const service = new ChecklistService();
+  const runId = requireString(data, 'runId', 128);
+  await requireOwnRun(service, runId, caller);
+
+  return service.cancel(runId, requireString(data, 'motivo', 1000), caller.uid);
+});
+
+/**
+ * Abre uma não-conformidade a partir de um item reprovado
+ */
+export const openChecklistNonConformity = authenticatedCall('openChecklistNonConformity', async (data, caller) => {
+  const service = new ChecklistService();
+  const runId = requireString(data, 'runId', 128);
+  await requireOwnRun(service, runId, caller);
+
+  return service.openNonConformity(
+    runId,
+    requireInteger(data, 'ordem', 1),
+    {
+      severidade: requireOneOf(data, 'severidade', NC_SEVERITIES),
+      responsavel: requireString(data, 'responsavel', 128),
+      titulo: optionalString(data, 'titulo', 200),
+      descricao: optionalString(data, 'descricao', 4000),
+    },
+    caller.uid
+  );
+});
@@ -0,0 +1,323 @@
+/**
+ * API de Documentos - Funções Callable
+ *
+ * Expõe DocumentService, PredictiveAnalysisService e
+ * VideoPOPIntegrationService ao webapp. Em toda chamada a organização
+ * vem do token de autenticação e os documentos acessados são
+ * conferidos contra ela; o usuário responsável pela operação é sempre
+ * o usuário autenticado.
+ */
+
+import { DocumentService } from '../services/DocumentService';
+import { ExecutionTimeService } from '../services/ExecutionTimeService';
+import { PredictiveAnalysisService } from '../services/PredictiveAnalysisService';
+import { VideoPOPIntegrationService } from '../services/VideoPOPIntegrationService';
+import { UserRole } from '../types/document.types';
+import { assertSameTenant, authenticatedCall, CallerContext, requireRole } from './callable';
+import {
+  DOCUMENT_STATUSES,
+  DOCUMENT_TYPES,
+  IMPACTOS_MARGEM,
+  REVIEW_DECISIONS,
+  VERSION_CHANGE_TYPES,
+  optionalNumber,
+  optionalOneOf,
+  optionalString,
+  requireContent,
+  requireDuration,
+  requireOneOf,
+  requireReviewers,
+  requireString,
+} from './validation';
+
+/**
+ * Papéis que podem executar cada operação que altera documentos
+ * (as do fluxo de aprovação são as oferecidas pelo webapp em lib/permissions.ts)
+ */
+const WORKFLOW_ROLES: Record<
+  'create' | 'execute' | 'submit' | 'sign' | 'approve' | 'obsolete' | 'restore',
+  readonly UserRole[]
+> = {
+  create: ['elaborador', 'gestor'],
+  execute: ['elaborador', 'revisor', 'aprovador', 'gestor'],
+  submit: ['elaborador', 'gestor'],
+  sign: ['revisor', 'aprovador', 'gestor'],
+  approve: ['aprovador', 'gestor'],
+  obsolete: ['gestor'],
+  restore: ['elaborador', 'gestor'],
+};
+
+/**
+ * Carrega o documento e confere a organização do usuário
+ */
+async function requireOwnDocument(
+  service: DocumentService,
+  docId: string,
+  caller: CallerContext
+) {
+  const document = await service.getDocument(docId);
+  assertSameTenant(caller, document.orgId, 'Documento', docId);
+  return document;
+}
+
+/**
+ * Cria um documento em rascunho na organização do usuário
+ */
+export const createDocument = authenticatedCall('createDocument', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.create, 'criar documentos');
+  const service = new DocumentService();
+
+  return service.createDocument({
+    orgId: caller.orgId,
+    tipo: requireOneOf(data, 'tipo', DOCUMENT_TYPES),
+    titulo: requireString(data, 'titulo', 200),
+    conteudo: requireContent(data),
+    criadoPor: caller.uid,
+    custoManutencao: optionalNumber(data, 'custoManutencao', 0),
+    impactoMargem: optionalOneOf(data, 'impactoMargem', IMPACTOS_MARGEM),
+  });
+});
+
+/**
+ * Submete um documento para revisão
+ */
+export const submitDocumentForReview = authenticatedCall('submitDocumentForReview', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.submit, 'submeter para revisão');
+  const service = new DocumentService();
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(service, docId, caller);
+
+  return service.submitForReview(
+    docId,
+    caller.uid,
+    requireReviewers(data),
+    optionalString(data, 'versaoEsperada', 20)
+  );
+});
+
+/**
+ * Registra a decisão do usuário na rodada de revisão
+ */
+export const recordReviewDecision = authenticatedCall('recordReviewDecision', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.sign, 'assinar a revisão');
+  const service = new DocumentService();
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(service, docId, caller);
+
+  return service.recordReviewDecision(
+    docId,
+    caller.uid,
+    requireOneOf(data, 'decisao', REVIEW_DECISIONS),
+    optionalString(data, 'comentario')
+  );
+});
+
+/**
+ * Aprova um documento em revisão
+ */
+export const approveDocument = authenticatedCall('approveDocument', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.approve, 'aprovar documentos');
+  const service = new DocumentService();
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(service, docId, caller);
+
+  return service.approveDocument(
+    docId,
+    caller.uid,
+    optionalString(data, 'motivoMudanca'),
+    optionalOneOf(data, 'tipoMudanca', VERSION_CHANGE_TYPES),
+    optionalString(data, 'versaoEsperada', 20)
+  );
+});
+
+/**
+ * Abre uma nova versão de um documento ativo para edição
+ */
+export const startDocumentRevision = authenticatedCall('startDocumentRevision', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.submit, 'abrir revisão');
+  const service = new DocumentService();
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(service, docId, caller);
+
+  return service.startRevision(
+    docId,
+    caller.uid,
+    optionalString(data, 'motivo'),
+    optionalString(data, 'versaoEsperada', 20)
+  );
+});
+
+/**
+ * Restaura uma versão arquivada como novo rascunho
+ */
+export const restoreDocumentVersion = authenticatedCall('restoreDocumentVersion', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.restore, 'restaurar versões');
+  const service = new DocumentService();
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(service, docId, caller);
+
+  return service.restoreVersion(
+    docId,
+    requireString(data, 'versao', 100),
+    caller.uid,
+    requireString(data, 'motivo', 2000),
+    data.signatarios === undefined ? undefined : requireReviewers(data),
+    optionalString(data, 'versaoEsperada', 20)
+  );
+});
+
+/**
+ * Marca um documento como obsoleto
+ */
+export const obsoleteDocument = authenticatedCall('obsoleteDocument', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.obsolete, 'tornar documentos obsoletos');
+  const service = new DocumentService();
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(service, docId, caller);
+
+  return service.obsoleteDocument(
+    docId,
+    optionalString(data, 'motivo'),
+    optionalString(data, 'versaoEsperada', 20),
+    caller.uid
+  );
+});
+
+/**
+ * Lista os documentos da organização do usuário
+ */
+export const listDocuments = authenticatedCall('listDocuments', async (data, caller) => {
+  const service = new DocumentService();
+
+  return service.getDocumentsByOrg(
+    caller.orgId,
+    optionalOneOf(data, 'status', DOCUMENT_STATUSES)
+  );
+});
+
+/**
+ * Recupera o histórico de versões de um documento
+ */
+export const getDocumentHistory = authenticatedCall('getDocumentHistory', async (data, caller) => {
+  const service = new DocumentService();
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(service, docId, caller);
+
+  return service.getDocumentHistory(docId);
+});
+
+/**
+ * Compara duas versões de um documento
+ */
+export const compareDocumentVersions = authenticatedCall('compareDocumentVersions', async (data, caller) => {
+  const service = new DocumentService();
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(service, docId, caller);
+
+  return service.compareVersions(
+    docId,
+    requireString(data, 'de', 100),
+    requireString(data, 'para', 100)
+  );
+});
+
+/**
+ * Registra o tempo de uma execução do procedimento
+ */
+export const recordExecutionTime = authenticatedCall('recordExecutionTime', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.execute, 'registrar execuções');
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(new DocumentService(), docId, caller);
+
+  return new ExecutionTimeService().recordExecution(
+    docId,
+    requireDuration(data),
+    caller.uid,
+    optionalString(data, 'observacao')
+  );
+});
+
+/**
+ * Lista as execuções mais recentes de um procedimento
+ */
+export const listExecutionTimes = authenticatedCall('listExecutionTimes', async (data, caller) => {
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(new DocumentService(), docId, caller);
+
+  return new ExecutionTimeService().getRecentExecutions(
+    docId,
+    optionalNumber(data, 'limite', 1, 100)
+  );
+});
+
+/**
+ * Executa a análise preditiva de um documento
+ */
+export const analyzeDocument = authenticatedCall('analyzeDocument', async (data, caller) => {
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(new DocumentService(), docId, caller);
+
+  return new PredictiveAnalysisService().analyzeDocument(docId);
+});
+
+/**
+ * Executa a análise preditiva de todos os documentos da organização
+ */
+export const analyzeOrganization = authenticatedCall('analyzeOrganization', async (_data, caller) => {
+  return new PredictiveAnalysisService().analyzeOrganization(caller.orgId);
+});
+
+/**
+ * Recupera a evolução do risco de um documento nas análises agendadas
+ */
+export const getDocumentRiskTrend = authenticatedCall('getDocumentRiskTrend', async (data, caller) => {
+  const docId = requireString(data, 'docId', 128);
+  await requireOwnDocument(new DocumentService(), docId, caller);
+
+  return new PredictiveAnalysisService().getRiskTrend(
+    caller.orgId,
+    docId,
+    optionalNumber(data, 'limite', 1, 100)
+  );
+});
+
+/**
+ * Lista as execuções da análise agendada da organização
+ */
+export const listAnalysisRuns = authenticatedCall('listAnalysisRuns', async (data, caller) => {
+  return new PredictiveAnalysisService().listAnalysisRuns(
+    caller.orgId,
+    optionalNumber(data, 'limite', 1, 100)
+  );
+});
+
+/**
+ * Cria um documento POP a partir de um vídeo processado da organização
+ * Se o vídeo já estiver vinculado, devolve o documento existente
+ */
+export const createDocumentFromVideo = authenticatedCall('createDocumentFromVideo', async (data, caller) => {
+  requireRole(caller, WORKFLOW_ROLES.create, 'criar documentos');
+  return new VideoPOPIntegrationService().createDocumentFromVideoPOP(
+    caller.orgId,
+    requireString(data, 'videoId', 128),
+    caller.uid
+  );
+});
+
+/**
+ * Lista os POPs de vídeo da organização na fila de revisão manual
+ */
+export const listVideoPOPsForReview = authenticatedCall('listVideoPOPsForReview', async (_data, caller) => {
+  return new VideoPOPIntegrationService().findPOPsAwaitingReview(caller.orgId);
+});
+
+/**
+ * URL assinada para reproduzir o vídeo vinculado ao documento
+ * (player com navegação pelas etapas do POP)
+ */
+export const getDocumentVideoUrl = authenticatedCall('getDocumentVideoUrl', async (data, caller) => {
+  const service = new DocumentService();
+  const document = await requireOwnDocument(service, requireString(data, 'docId', 128), caller);
+
+  return new VideoPOPIntegrationService().getVideoPlayback(document);
+});
@@ -0,0 +1,91 @@
+/**
+ * Infraestrutura comum dos endpoints HTTP autenticados
+ *
+ * Para respostas que não cabem em uma função callable (ex: downloads).
+ * O cliente envia o ID token do Firebase Auth em `Authorization: Bearer`;
+ * a organização vem da claim `orgId`, como nas callables, e erros de
+ * domínio são respondidos com `toHttpError`.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { onRequest, Request } from 'firebase-functions/v2/https';
+import type { Response } from 'express';
+import { ErrorResponseBody, toHttpError } from '../errors/errorMapping';
+import { CallerContext } from './callable';
+import { asPayload, Payload } from './validation';
+
+/**
+ * Responde 401/403 sem passar pelo mapeamento de erros de domínio
+ */
+function sendAuthError(response: Response, status: 401 | 403, message: string): void {
+  const body: ErrorResponseBody = {
+    error: { code: status === 401 ? 'UNAUTHENTICATED' : 'PERMISSION_DENIED', message, retryable: false },
+  };
+  response.status(status).json(body);
+}
+
+/**
+ * Valida o ID token do cabeçalho Authorization
+ *
+ * @returns Contexto autenticado ou null (resposta de erro já enviada)
+ */
+async function authenticate(request: Request, response: Response): Promise<CallerContext | null> {
+  const match = /^Bearer (.+)$/.exec(request.get('Authorization') ?? '');
+  if (!match) {
+    sendAuthError(response, 401, 'Autenticação obrigatória');
+    return null;
+  }
+
+  let token: admin.auth.DecodedIdToken;
+  try {
+    token = await admin.auth().verifyIdToken(match[1]);
+  } catch {
+    sendAuthError(response, 401, 'Token inválido ou expirado');
+    return null;
+  }
+
+  const orgId = token.orgId;
+  if (typeof orgId !== 'string' || orgId === '') {
+    sendAuthError(response, 403, 'Token sem organização (claim orgId)');
+    return null;
+  }
+
+  return { uid: token.uid, orgId, token: token as unknown as Record<string, unknown> };
+}
+
+/**
+ * Cria um endpoint GET autenticado
+ *
+ * @param name - Nome da operação (para logs)
+ * @param handler - Recebe os parâmetros da query e responde diretamente
+ */
+export function authenticatedRequest(
+  name: string,
+  handler: (query: Payload, caller: CallerContext, response: Response) => Promise<void>,
+  options: { timeoutSeconds?: number; memory?: '256MiB' | '512MiB' | '1GiB' | '2GiB' } = {}
+) {
+  return onRequest({ cors: true, ...options }, async (request, response) => {
+    if (request.method !== 'GET') {
+      response.set('Allow', 'GET').status(405).end();
+      return;
+    }
+
+    const caller = await authenticate(request, response);
+    if (!caller) {
+      return;
+    }
+
+    try {
+      await handler(asPayload(request.query ?? {}), caller, response);
+    } catch (error) {
+      const { status, body } = toHttpError(error);
+      if (status >= 500) {
+        logger.error(`${name} falhou`, { uid: caller.uid, orgId: caller.orgId, error });
+      } else {
+        logger.warn(`${name} rejeitado`, { uid: caller.uid, orgId: caller.orgId, details: body.error.details });
+      }
+      response.status(status).json(body);
+    }
+  });
+}
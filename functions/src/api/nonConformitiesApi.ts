@@ -0,0 +1,181 @@
+/**
+ * API de Não-Conformidades - Funções Callable
+ *
+ * Expõe o registro de não-conformidades e o plano de ação (CAPA) ao
+ * webapp. As NCs acessadas são conferidas contra a organização do token;
+ * o usuário responsável por cada registro é o usuário autenticado.
+ */
+
+import { NonConformityService } from '../services/NonConformityService';
+import { UserRole } from '../types/document.types';
+import { assertSameTenant, authenticatedCall, CallerContext, requireRole } from './callable';
+import {
+  CORRECTIVE_ACTION_TYPES,
+  NC_SEVERITIES,
+  NC_STATUSES,
+  optionalDate,
+  optionalNumber,
+  optionalOneOf,
+  optionalString,
+  requireDate,
+  requireOneOf,
+  requireRootCause,
+  requireString,
+} from './validation';
+
+/**
+ * Papéis que podem registrar e tratar NCs: todos exceto leitor
+ * (os mesmos que o webapp habilita em NonConformityActions)
+ */
+const NC_ROLES: readonly UserRole[] = ['elaborador', 'revisor', 'aprovador', 'gestor'];
+
+/**
+ * Carrega a não-conformidade e confere a organização do usuário
+ */
+async function requireOwnNonConformity(
+  service: NonConformityService,
+  ncId: string,
+  caller: CallerContext
+) {
+  const nc = await service.getNonConformity(ncId);
+  assertSameTenant(caller, nc.orgId, 'Não-conformidade', ncId);
+  return nc;
+}
+
+/**
+ * Registra uma não-conformidade (já aberta, com responsável)
+ * Com docId, a NC é vinculada ao documento e ao seu vídeo
+ */
+export const raiseNonConformity = authenticatedCall('raiseNonConformity', async (data, caller) => {
+  requireRole(caller, NC_ROLES, 'registrar não-conformidades');
+  return new NonConformityService().raise({
+    orgId: caller.orgId,
+    titulo: requireString(data, 'titulo', 200),
+    descricao: requireString(data, 'descricao', 4000),
+    severidade: requireOneOf(data, 'severidade', NC_SEVERITIES),
+    responsavel: requireString(data, 'responsavel', 128),
+    docId: optionalString(data, 'docId', 128),
+    videoId: optionalString(data, 'videoId', 128),
+    etapa: optionalNumber(data, 'etapa', 1),
+    criadoPor: caller.uid,
+  });
+});
+
+/**
+ * Lista as não-conformidades da organização (filtros: status, docId)
+ */
+export const listNonConformities = authenticatedCall('listNonConformities', async (data, caller) => {
+  return new NonConformityService().listByOrg(caller.orgId, {
+    status: optionalOneOf(data, 'status', NC_STATUSES),
+    docId: optionalString(data, 'docId', 128),
+  });
+});
+
+/**
+ * Recupera uma não-conformidade com a análise e o plano de ação
+ */
+export const getNonConformity = authenticatedCall('getNonConformity', async (data, caller) => {
+  return requireOwnNonConformity(new NonConformityService(), requireString(data, 'ncId', 128), caller);
+});
+
+/**
+ * Confirma um rascunho levantado pela extração de vídeo
+ */
+export const confirmNonConformity = authenticatedCall('confirmNonConformity', async (data, caller) => {
+  requireRole(caller, NC_ROLES, 'confirmar não-conformidades');
+  const service = new NonConformityService();
+  const ncId = requireString(data, 'ncId', 128);
+  await requireOwnNonConformity(service, ncId, caller);
+
+  return service.confirm(
+    ncId,
+    {
+      responsavel: requireString(data, 'responsavel', 128),
+      severidade: optionalOneOf(data, 'severidade', NC_SEVERITIES),
+      titulo: optionalString(data, 'titulo', 200),
+      descricao: optionalString(data, 'descricao', 4000),
+    },
+    caller.uid
+  );
+});
+
+/**
+ * Cancela uma não-conformidade improcedente
+ */
+export const cancelNonConformity = authenticatedCall('cancelNonConformity', async (data, caller) => {
+  requireRole(caller, NC_ROLES, 'cancelar não-conformidades');
+  const service = new NonConformityService();
+  const ncId = requireString(data, 'ncId', 128);
+  await requireOwnNonConformity(service, ncId, caller);
+
+  return service.cancel(ncId, requireString(data, 'motivo', 1000), caller.uid);
+});
+
+/**
+ * Registra a análise de causa raiz (5 Porquês ou Ishikawa)
+ */
+export const recordRootCause = authenticatedCall('recordRootCause', async (data, caller) => {
+  requireRole(caller, NC_ROLES, 'registrar a causa raiz');
+  const service = new NonConformityService();
+  const ncId = requireString(data, 'ncId', 128);
+  await requireOwnNonConformity(service, ncId, caller);
+
+  return service.recordRootCause(ncId, requireRootCause(data), caller.uid);
+});
+
+/**
+ * Inclui uma ação corretiva ou preventiva no plano de ação
+ */
+export const addCorrectiveAction = authenticatedCall('addCorrectiveAction', async (data, caller) => {
+  requireRole(caller, NC_ROLES, 'incluir ações corretivas');
+  const service = new NonConformityService();
+  const ncId = requireString(data, 'ncId', 128);
+  await requireOwnNonConformity(service, ncId, caller);
+
+  return service.addAction(
+    ncId,
+    {
+      tipo: requireOneOf(data, 'tipo', CORRECTIVE_ACTION_TYPES),
+      descricao: requireString(data, 'descricao', 2000),
+      responsavel: requireString(data, 'responsavel', 128),
+      prazo: requireDate(data, 'prazo'),
+      verificarEficaciaEm: optionalDate(data, 'verificarEficaciaEm'),
+    },
+    caller.uid
+  );
+});
+
+/**
+ * Conclui uma ação com a evidência da execução
+ */
+export const completeCorrectiveAction = authenticatedCall('completeCorrectiveAction', async (data, caller) => {
+  requireRole(caller, NC_ROLES, 'concluir ações corretivas');
+  const service = new NonConformityService();
+  const ncId = requireString(data, 'ncId', 128);
+  await requireOwnNonConformity(service, ncId, caller);
+
+  return service.completeAction(
+    ncId,
+    requireString(data, 'acaoId', 128),
+    requireString(data, 'evidencia', 2000),
+    caller.uid
+  );
+});
+
+/**
+ * Registra a verificação de eficácia de uma ação concluída
+ */
+export const verifyCorrectiveAction = authenticatedCall('verifyCorrectiveAction', async (data, caller) => {
+  requireRole(caller, NC_ROLES, 'verificar a eficácia das ações');
+  const service = new NonConformityService();
+  const ncId = requireString(data, 'ncId', 128);
+  await requireOwnNonConformity(service, ncId, caller);
+
+  return service.verifyAction(
+    ncId,
+    requireString(data, 'acaoId', 128),
+    requireOneOf(data, 'resultado', ['eficaz', 'ineficaz'] as const) === 'eficaz',
+    caller.uid,
+    optionalString(data, 'comentario')
+  );
+});
@@ -0,0 +1,60 @@
+/**
+ * API de Relatórios - Endpoints HTTP
+ *
+ * Downloads autenticados (Authorization: Bearer <ID token>) dos
+ * relatórios e POPs da organização do usuário.
+ */
+
+import { buildAnalysisReport, REPORT_FORMATS, renderAnalysisReport } from '../services/AnalysisReportBuilder';
+import { DocumentService } from '../services/DocumentService';
+import { buildPopLayout, POP_RENDER_FORMATS, renderPopDocument } from '../services/PopDocumentRenderer';
+import { PredictiveAnalysisService } from '../services/PredictiveAnalysisService';
+import { assertSameTenant } from './callable';
+import { authenticatedRequest } from './http';
+import { optionalOneOf, requireString } from './validation';
+
+/**
+ * Relatório de análise preditiva da organização
+ * GET ?formato=pdf|csv|json (padrão pdf)
+ */
+export const exportAnalysisReport = authenticatedRequest(
+  'exportAnalysisReport',
+  async (query, caller, response) => {
+    const formato = optionalOneOf(query, 'formato', REPORT_FORMATS) ?? 'pdf';
+
+    const { analyses, falhas } = await new PredictiveAnalysisService().analyzeOrganization(caller.orgId);
+    const relatorio = renderAnalysisReport(buildAnalysisReport(caller.orgId, analyses, falhas), formato);
+
+    response
+      .status(200)
+      .set('Content-Type', relatorio.contentType)
+      .set('Content-Disposition', `attachment; filename="${relatorio.nomeArquivo}"`)
+      .set('Cache-Control', 'private, no-store')
+      .send(relatorio.conteudo);
+  },
+  { timeoutSeconds: 300, memory: '1GiB' }
+);
+
+/**
+ * POP no layout padronizado, gerado a partir da versão ativa do documento
+ * GET ?docId=...&formato=html|pdf (padrão pdf)
+ * HTML é servido para exibição no webapp; PDF como download para impressão
+ */
+export const exportPopDocument = authenticatedRequest('exportPopDocument', async (query, caller, response) => {
+  const docId = requireString(query, 'docId', 128);
+  const formato = optionalOneOf(query, 'formato', POP_RENDER_FORMATS) ?? 'pdf';
+
+  const service = new DocumentService();
+  const document = await service.getActiveVersion(docId);
+  assertSameTenant(caller, document.orgId, 'Documento', docId);
+
+  const pop = renderPopDocument(buildPopLayout(document), formato);
+  const disposition = formato === 'html' ? 'inline' : 'attachment';
+
+  response
+    .status(200)
+    .set('Content-Type', pop.contentType)
+    .set('Content-Disposition', `${disposition}; filename="${pop.nomeArquivo}"`)
+    .set('Cache-Control', 'private, no-store')
+    .send(pop.conteudo);
+});
@@ -0,0 +1,333 @@
+/**
+ * Validação de payloads recebidos pelas APIs
+ *
+ * Cada função lança ValidationError com o nome do campo inválido,
+ * que o cliente recebe em `details.campo`.
+ */
+
+import {
+  DocumentContent,
+  DocumentSection,
+  DocumentStatus,
+  DocumentStep,
+  DocumentType,
+  ImpactoMargem,
+  ReviewDecision,
+  ReviewerAssignment,
+  VersionChangeType,
+} from '../types/document.types';
+import {
+  CorrectiveActionType,
+  IshikawaCategory,
+  NonConformitySeverity,
+  NonConformityStatus,
+  RootCauseAnalysis,
+  RootCauseMethod,
+} from '../types/nonConformity.types';
+import { ChecklistAnswer, ChecklistRunStatus } from '../types/checklist.types';
+import { ValidationError } from '../errors/DomainError';
+import { parseDuration } from '../utils/duration';
+
+export const DOCUMENT_TYPES: readonly DocumentType[] = ['POP', 'Manual', 'Checklist', 'Política'];
+export const DOCUMENT_STATUSES: readonly DocumentStatus[] = ['rascunho', 'revisao', 'ativo', 'obsoleto'];
+export const IMPACTOS_MARGEM: readonly ImpactoMargem[] = ['alto', 'médio', 'baixo'];
+export const REVIEW_DECISIONS: readonly ReviewDecision[] = ['aprovado', 'rejeitado'];
+export const VERSION_CHANGE_TYPES: readonly VersionChangeType[] = ['editorial', 'substantiva', 'reemissao'];
+export const NC_STATUSES: readonly NonConformityStatus[] = [
+  'rascunho',
+  'aberta',
+  'em_tratamento',
+  'verificacao',
+  'encerrada',
+  'cancelada',
+];
+export const NC_SEVERITIES: readonly NonConformitySeverity[] = ['baixa', 'media', 'alta', 'critica'];
+export const CORRECTIVE_ACTION_TYPES: readonly CorrectiveActionType[] = ['corretiva', 'preventiva'];
+export const ROOT_CAUSE_METHODS: readonly RootCauseMethod[] = ['5porques', 'ishikawa'];
+export const ISHIKAWA_CATEGORIES: readonly IshikawaCategory[] = [
+  'metodo',
+  'maquina',
+  'material',
+  'mao_de_obra',
+  'medicao',
+  'meio_ambiente',
+];
+export const CHECKLIST_ANSWERS: readonly ChecklistAnswer[] = ['conforme', 'nao_conforme', 'na'];
+export const CHECKLIST_RUN_STATUSES: readonly ChecklistRunStatus[] = ['em_andamento', 'concluida', 'cancelada'];
+
+/**
+ * Payload genérico (objeto JSON)
+ */
+export type Payload = Record<string, unknown>;
+
+function invalid(campo: string, message: string): ValidationError {
+  return new ValidationError(`Campo '${campo}' inválido: ${message}`, { campo });
+}
+
+/**
+ * Garante que o payload é um objeto
+ */
+export function asPayload(data: unknown, campo: string = 'payload'): Payload {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw invalid(campo, 'objeto esperado');
+  }
+  return data as Payload;
+}
+
+/**
+ * Texto obrigatório e não vazio
+ */
+export function requireString(data: Payload, campo: string, maxLength: number = 500): string {
+  const value = data[campo];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw invalid(campo, 'texto obrigatório');
+  }
+  if (value.length > maxLength) {
+    throw invalid(campo, `máximo de ${maxLength} caracteres`);
+  }
+  return value.trim();
+}
+
+/**
+ * Texto opcional
+ */
+export function optionalString(
+  data: Payload,
+  campo: string,
+  maxLength: number = 2000
+): string | undefined {
+  if (data[campo] === undefined || data[campo] === null) {
+    return undefined;
+  }
+  return requireString(data, campo, maxLength);
+}
+
+/**
+ * Valor obrigatório dentre os permitidos
+ */
+export function requireOneOf<T extends string>(
+  data: Payload,
+  campo: string,
+  values: readonly T[]
+): T {
+  const value = data[campo];
+  if (typeof value !== 'string' || !values.includes(value as T)) {
+    throw invalid(campo, `valores permitidos: ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Valor opcional dentre os permitidos
+ */
+export function optionalOneOf<T extends string>(
+  data: Payload,
+  campo: string,
+  values: readonly T[]
+): T | undefined {
+  if (data[campo] === undefined || data[campo] === null) {
+    return undefined;
+  }
+  return requireOneOf(data, campo, values);
+}
+
+/**
+ * Número opcional dentro do intervalo
+ */
+export function optionalNumber(
+  data: Payload,
+  campo: string,
+  min: number = Number.NEGATIVE_INFINITY,
+  max: number = Number.POSITIVE_INFINITY
+): number | undefined {
+  const value = data[campo];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw invalid(campo, `número entre ${min} e ${max} esperado`);
+  }
+  return value;
+}
+
+/**
+ * Número inteiro obrigatório dentro do intervalo
+ */
+export function requireInteger(
+  data: Payload,
+  campo: string,
+  min: number = Number.MIN_SAFE_INTEGER,
+  max: number = Number.MAX_SAFE_INTEGER
+): number {
+  const value = optionalNumber(data, campo, min, max);
+  if (value === undefined || !Number.isInteger(value)) {
+    throw invalid(campo, `inteiro entre ${min} e ${max} esperado`);
+  }
+  return value;
+}
+
+/**
+ * Arquivo obrigatório em base64, decodificado e com tamanho máximo
+ */
+export function requireBase64(data: Payload, campo: string, maxBytes: number): Buffer {
+  const value = data[campo];
+  if (typeof value !== 'string' || value === '' || !/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+    throw invalid(campo, 'conteúdo em base64 esperado');
+  }
+  const buffer = Buffer.from(value, 'base64');
+  if (buffer.length > maxBytes) {
+    throw invalid(campo, `máximo de ${maxBytes} bytes`);
+  }
+  return buffer;
+}
+
+/**
+ * Data obrigatória em ISO 8601 ('2026-11-30' ou '2026-11-30T18:00:00Z')
+ */
+export function requireDate(data: Payload, campo: string): Date {
+  const value = data[campo];
+  const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw invalid(campo, 'data ISO 8601 esperada (ex: "2026-11-30")');
+  }
+  return date;
+}
+
+/**
+ * Data opcional em ISO 8601
+ */
+export function optionalDate(data: Payload, campo: string): Date | undefined {
+  if (data[campo] === undefined || data[campo] === null) {
+    return undefined;
+  }
+  return requireDate(data, campo);
+}
+
+/**
+ * Lista opcional de textos
+ */
+function optionalStringList(data: Payload, campo: string): string[] | undefined {
+  const value = data[campo];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw invalid(campo, 'lista de textos esperada');
+  }
+  return value as string[];
+}
+
+/**
+ * Conteúdo estruturado do documento (seções e etapas; anexos são enviados à parte)
+ */
+export function requireContent(data: Payload, campo: string = 'conteudo'): Omit<DocumentContent, 'anexos'> {
+  const conteudo = asPayload(data[campo], campo);
+
+  if (!Array.isArray(conteudo.secoes)) {
+    throw invalid(`${campo}.secoes`, 'lista esperada');
+  }
+
+  const secoes: DocumentSection[] = conteudo.secoes.map((item, index) => {
+    const secao = asPayload(item, `${campo}.secoes[${index}]`);
+    const itens = optionalStringList(secao, 'itens');
+    return {
+      titulo: requireString(secao, 'titulo', 200),
+      texto: typeof secao.texto === 'string' ? secao.texto : '',
+      ...(itens ? { itens } : {}),
+    };
+  });
+
+  const tempoEstimado = optionalString(conteudo, 'tempoEstimado', 50);
+  if (tempoEstimado !== undefined && parseDuration(tempoEstimado) === null) {
+    throw invalid(`${campo}.tempoEstimado`, 'duração esperada (ex: "15 min", "00:12:30", "1h20")');
+  }
+  const base = { secoes, ...(tempoEstimado ? { tempoEstimado } : {}) };
+
+  if (conteudo.etapas === undefined) {
+    return base;
+  }
+
+  if (!Array.isArray(conteudo.etapas)) {
+    throw invalid(`${campo}.etapas`, 'lista esperada');
+  }
+
+  const etapas: DocumentStep[] = conteudo.etapas.map((item, index) => {
+    const etapa = asPayload(item, `${campo}.etapas[${index}]`);
+    const tempo = optionalString(etapa, 'tempo', 50);
+    const ferramentas = optionalStringList(etapa, 'ferramentas');
+    const pontosCriticos = optionalStringList(etapa, 'pontosCriticos');
+    return {
+      numero: optionalNumber(etapa, 'numero', 1) ?? index + 1,
+      descricao: requireString(etapa, 'descricao', 2000),
+      ...(tempo ? { tempo } : {}),
+      ...(ferramentas ? { ferramentas } : {}),
+      ...(pontosCriticos ? { pontosCriticos } : {}),
+    };
+  });
+
+  return { ...base, etapas };
+}
+
+/**
+ * Duração em segundos (número) ou em texto ('15 min', '00:12:30', '1h20')
+ */
+export function requireDuration(data: Payload, campo: string = 'duracao'): string | number {
+  const value = data[campo];
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return value;
+  }
+  if (typeof value === 'string' && value.length <= 50 && (parseDuration(value) ?? 0) > 0) {
+    return value.trim();
+  }
+  throw invalid(campo, 'duração esperada (segundos ou texto como "15 min", "00:12:30", "1h20")');
+}
+
+/**
+ * Lista de signatários da revisão
+ */
+export function requireReviewers(data: Payload, campo: string = 'signatarios'): ReviewerAssignment[] {
+  const value = data[campo];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalid(campo, 'lista de signatários obrigatória');
+  }
+
+  return value.map((item, index) => {
+    const signatario = asPayload(item, `${campo}[${index}]`);
+    return {
+      userId: requireString(signatario, 'userId', 128),
+      papel: requireOneOf(signatario, 'papel', ['revisor', 'aprovador'] as const),
+    };
+  });
+}
+
+/**
+ * Análise de causa raiz (5 Porquês ou Ishikawa)
+ */
+export function requireRootCause(
+  data: Payload,
+  campo: string = 'analise'
+): Omit<RootCauseAnalysis, 'analisadoPor' | 'analisadoEm'> {
+  const analise = asPayload(data[campo], campo);
+  const metodo = requireOneOf(analise, 'metodo', ROOT_CAUSE_METHODS);
+  const causaRaiz = requireString(analise, 'causaRaiz', 2000);
+
+  if (metodo === '5porques') {
+    const porques = optionalStringList(analise, 'porques') || [];
+    return { metodo, causaRaiz, porques: porques.map((item) => item.trim()).filter((item) => item !== '') };
+  }
+
+  const categorias = asPayload(analise.ishikawa ?? {}, `${campo}.ishikawa`);
+  const ishikawa: Partial<Record<IshikawaCategory, string[]>> = {};
+  Object.keys(categorias).forEach((categoria) => {
+    if (!ISHIKAWA_CATEGORIES.includes(categoria as IshikawaCategory)) {
+      throw invalid(`${campo}.ishikawa`, `categorias permitidas: ${ISHIKAWA_CATEGORIES.join(', ')}`);
+    }
+    const causas = (optionalStringList(categorias, categoria) || [])
+      .map((item) => item.trim())
+      .filter((item) => item !== '');
+    if (causas.length > 0) {
+      ishikawa[categoria as IshikawaCategory] = causas;
+    }
+  });
+  return { metodo, causaRaiz, ishikawa };
+}
@@ -0,0 +1,36 @@
+/**
+ * Erros das execuções de checklist
+ */
+
+import { DomainError } from './DomainError';
+
+/**
+ * Operação não permitida na situação atual da execução ou do item
+ */
+export class ChecklistRunError extends DomainError {
+  readonly code = 'INVALID_TRANSITION';
+  readonly runId: string;
+
+  constructor(runId: string, message: string, details?: Record<string, unknown>) {
+    super(message, { runId, ...details });
+    this.runId = runId;
+  }
+}
+
+/**
+ * Conclusão bloqueada: há itens obrigatórios sem resposta
+ */
+export class ChecklistIncompleteError extends DomainError {
+  readonly code = 'INVALID_TRANSITION';
+  readonly runId: string;
+  readonly pendentes: number[];
+
+  constructor(runId: string, pendentes: number[]) {
+    super(
+      `Checklist ${runId}: ${pendentes.length} item(ns) obrigatório(s) sem resposta (${pendentes.join(', ')})`,
+      { runId, pendentes }
+    );
+    this.runId = runId;
+    this.pendentes = pendentes;
+  }
+}
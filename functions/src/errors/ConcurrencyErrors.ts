@@ -0,0 +1,27 @@
+/**
+ * Erros de concorrência em operações sobre documentos
+ */
+
+import { DomainError } from './DomainError';
+
+/**
+ * A versão do documento mudou desde a leitura feita pelo cliente
+ * O cliente deve recarregar o documento e repetir a operação
+ */
+export class VersionConflictError extends DomainError {
+  readonly code = 'CONFLICT';
+  readonly docId: string;
+  readonly versaoEsperada: string;
+  readonly versaoAtual: string;
+
+  constructor(docId: string, versaoEsperada: string, versaoAtual: string) {
+    super(
+      `Conflito de versão no documento ${docId}: ` +
+      `esperada ${versaoEsperada}, atual ${versaoAtual}`,
+      { docId, versaoEsperada, versaoAtual }
+    );
+    this.docId = docId;
+    this.versaoEsperada = versaoEsperada;
+    this.versaoAtual = versaoAtual;
+  }
+}
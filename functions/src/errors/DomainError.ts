@@ -0,0 +1,78 @@
+/**
+ * Hierarquia de erros de domínio
+ *
+ * Todo erro previsível dos serviços estende DomainError e carrega um
+ * código estável: clientes e políticas de retry decidem pelo código,
+ * nunca pelo texto da mensagem.
+ */
+
+/**
+ * Códigos estáveis de erro de domínio
+ */
+export type DomainErrorCode =
+  | 'NOT_FOUND'
+  | 'INVALID_TRANSITION'
+  | 'TENANT_MISMATCH'
+  | 'PERMISSION_DENIED'
+  | 'VIDEO_NOT_COMPLETED'
+  | 'CONFLICT'
+  | 'VALIDATION';
+
+/**
+ * Classe base dos erros de domínio
+ */
+export abstract class DomainError extends Error {
+  abstract readonly code: DomainErrorCode;
+  /** Dados estruturados para o cliente (IDs, valores esperados, etc.) */
+  readonly details?: Record<string, unknown>;
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = new.target.name;
+    this.details = details;
+  }
+}
+
+/**
+ * Recurso inexistente (documento, versão, POP de vídeo)
+ */
+export class NotFoundError extends DomainError {
+  readonly code = 'NOT_FOUND';
+
+  constructor(recurso: string, id: string, message?: string) {
+    super(message || `${recurso} ${id} não encontrado`, { recurso, id });
+  }
+}
+
+/**
+ * Recurso pertence a outra organização
+ */
+export class TenantMismatchError extends DomainError {
+  readonly code = 'TENANT_MISMATCH';
+
+  constructor(recurso: string, id: string) {
+    super(`${recurso} ${id} não pertence à organização do usuário`, { recurso, id });
+  }
+}
+
+/**
+ * Papel do usuário (claim `role`) não permite a operação
+ */
+export class PermissionDeniedError extends DomainError {
+  readonly code = 'PERMISSION_DENIED';
+
+  constructor(role: string | null, papeis: readonly string[], operacao: string) {
+    super(`Papel ${role ?? '(nenhum)'} não permite ${operacao}`, { role, papeis });
+  }
+}
+
+/**
+ * Entrada inválida ou dado que não passou em uma verificação
+ */
+export class ValidationError extends DomainError {
+  readonly code = 'VALIDATION';
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, details);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Erros do registro de não-conformidades e do plano de ação (CAPA)
+ */
+
+import { NonConformityStatus } from '../types/nonConformity.types';
+import { DomainError } from './DomainError';
+
+/**
+ * Transição de status da não-conformidade não permitida
+ */
+export class NonConformityTransitionError extends DomainError {
+  readonly code = 'INVALID_TRANSITION';
+  readonly ncId: string;
+  readonly from: NonConformityStatus;
+  readonly to: NonConformityStatus;
+
+  constructor(ncId: string, from: NonConformityStatus, to: NonConformityStatus, detalhe?: string) {
+    super(
+      `Não-conformidade ${ncId}: transição inválida ${from} -> ${to}` + (detalhe ? ` (${detalhe})` : ''),
+      { ncId, from, to }
+    );
+    this.ncId = ncId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Operação do plano de ação não permitida na situação atual da NC ou da ação
+ */
+export class CorrectiveActionError extends DomainError {
+  readonly code = 'INVALID_TRANSITION';
+  readonly ncId: string;
+
+  constructor(ncId: string, message: string, details?: Record<string, unknown>) {
+    super(message, { ncId, ...details });
+    this.ncId = ncId;
+  }
+}
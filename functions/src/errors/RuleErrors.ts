@@ -0,0 +1,23 @@
+/**
+ * Erros das expressões de regras (failureIndicators)
+ */
+
+import { DomainError } from './DomainError';
+
+/**
+ * Expressão de regra com sintaxe inválida ou variável desconhecida
+ */
+export class RuleExpressionError extends DomainError {
+  readonly code = 'VALIDATION';
+  readonly expressao: string;
+  readonly posicao: number;
+
+  constructor(expressao: string, posicao: number, detalhe: string) {
+    super(`Expressão inválida '${expressao}' (posição ${posicao}): ${detalhe}`, {
+      expressao,
+      posicao,
+    });
+    this.expressao = expressao;
+    this.posicao = posicao;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Erros de versionamento de documentos
+ */
+
+import { DomainError } from './DomainError';
+
+/**
+ * Versão fora do formato '<major>.<minor>' (ex: '1.0', '2.3')
+ */
+export class InvalidVersionError extends DomainError {
+  readonly code = 'VALIDATION';
+  readonly versao: string;
+
+  constructor(versao: string) {
+    super(`Versão inválida: '${versao}' (formato esperado: '<major>.<minor>')`, { versao });
+    this.versao = versao;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Erros da integração de POPs de vídeo
+ */
+
+import { DomainError } from './DomainError';
+
+/**
+ * POP de vídeo ainda não concluiu a extração (ou falhou)
+ */
+export class VideoNotCompletedError extends DomainError {
+  readonly code = 'VIDEO_NOT_COMPLETED';
+  readonly videoId: string;
+  readonly status: string;
+
+  constructor(videoId: string, status: string) {
+    super(`POP de vídeo ${videoId} não está completo (status: ${status})`, { videoId, status });
+    this.videoId = videoId;
+    this.status = status;
+  }
+}
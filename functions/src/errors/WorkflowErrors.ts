@@ -0,0 +1,37 @@
+/**
+ * Erros do fluxo de revisão e aprovação de documentos
+ */
+
+import { DocumentStatus } from '../types/document.types';
+import { DomainError } from './DomainError';
+
+/**
+ * Transição de status não permitida pela máquina de estados
+ */
+export class InvalidTransitionError extends DomainError {
+  readonly code = 'INVALID_TRANSITION';
+  readonly from: DocumentStatus;
+  readonly to: DocumentStatus;
+
+  constructor(from: DocumentStatus, to: DocumentStatus, detalhe?: string) {
+    super(
+      `Transição inválida: ${from} -> ${to}` + (detalhe ? ` (${detalhe})` : ''),
+      { from, to }
+    );
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Operação de assinatura não permitida para o usuário ou rodada atual
+ */
+export class ReviewSignatureError extends DomainError {
+  readonly code = 'INVALID_TRANSITION';
+  readonly userId: string;
+
+  constructor(userId: string, message: string) {
+    super(message, { userId });
+    this.userId = userId;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Mapeamento de erros de domínio para HTTP e funções callable
+ *
+ * Permite que o webapp exiba mensagens adequadas e que políticas de
+ * retry distingam falhas transitórias (repetir) de permanentes (corrigir).
+ */
+
+import { FunctionsErrorCode, HttpsError } from 'firebase-functions/v2/https';
+import { DomainError, DomainErrorCode } from './DomainError';
+
+/**
+ * Status HTTP por código de domínio
+ */
+export const HTTP_STATUS_BY_CODE: Record<DomainErrorCode, number> = {
+  NOT_FOUND: 404,
+  INVALID_TRANSITION: 409,
+  TENANT_MISMATCH: 403,
+  PERMISSION_DENIED: 403,
+  VIDEO_NOT_COMPLETED: 409,
+  CONFLICT: 409,
+  VALIDATION: 400,
+};
+
+/**
+ * Código de erro callable por código de domínio
+ */
+export const CALLABLE_CODE_BY_CODE: Record<DomainErrorCode, FunctionsErrorCode> = {
+  NOT_FOUND: 'not-found',
+  INVALID_TRANSITION: 'failed-precondition',
+  TENANT_MISMATCH: 'permission-denied',
+  PERMISSION_DENIED: 'permission-denied',
+  VIDEO_NOT_COMPLETED: 'failed-precondition',
+  CONFLICT: 'aborted',
+  VALIDATION: 'invalid-argument',
+};
+
+/**
+ * Códigos gRPC do Firestore considerados transitórios
+ * (4 DEADLINE_EXCEEDED, 8 RESOURCE_EXHAUSTED, 10 ABORTED, 14 UNAVAILABLE)
+ */
+const TRANSIENT_GRPC_CODES = new Set([4, 8, 10, 14]);
+
+/**
+ * Corpo de resposta de erro das APIs HTTP
+ */
+export interface ErrorResponseBody {
+  error: {
+    code: DomainErrorCode | 'INTERNAL' | 'UNAUTHENTICATED';
+    message: string;
+    retryable: boolean;
+    details?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Indica se a operação pode ser repetida sem alteração pelo cliente
+ * Conflitos de versão são transitórios: basta recarregar e repetir
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof DomainError) {
+    return error.code === 'CONFLICT';
+  }
+
+  const grpcCode = (error as { code?: unknown } | null)?.code;
+  return typeof grpcCode === 'number' && TRANSIENT_GRPC_CODES.has(grpcCode);
+}
+
+/**
+ * Converte um erro em HttpsError para funções callable
+ * Erros inesperados viram 'internal' (ou 'unavailable' se transitórios)
+ * sem expor a mensagem original
+ */
+export function toHttpsError(error: unknown): HttpsError {
+  if (error instanceof HttpsError) {
+    return error;
+  }
+
+  const retryable = isTransientError(error);
+
+  if (error instanceof DomainError) {
+    return new HttpsError(CALLABLE_CODE_BY_CODE[error.code], error.message, {
+      code: error.code,
+      retryable,
+      ...error.details,
+    });
+  }
+
+  return new HttpsError(
+    retryable ? 'unavailable' : 'internal',
+    'Erro interno ao processar a solicitação',
+    { code: 'INTERNAL', retryable }
+  );
+}
+
+/**
+ * Converte um erro em status e corpo de resposta HTTP
+ */
+export function toHttpError(error: unknown): { status: number; body: ErrorResponseBody } {
+  const retryable = isTransientError(error);
+
+  if (error instanceof DomainError) {
+    return {
+      status: HTTP_STATUS_BY_CODE[error.code],
+      body: {
+        error: {
+          code: error.code,
+          message: error.message,
+          retryable,
+          ...(error.details ? { details: error.details } : {}),
+        },
+      },
+    };
+  }
+
+  return {
+    status: retryable ? 503 : 500,
+    body: {
+      error: {
+        code: 'INTERNAL',
+        message: 'Erro interno ao processar a solicitação',
+        retryable,
+      },
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Análise Preditiva Agendada
+ *
+ * Executa diariamente e, para cada empresa cuja última análise tenha
+ * mais de `checkIntervalDays` dias (axiomaConfigs), analisa os documentos
+ * e persiste o resultado com a tendência de risco de cada documento.
+ * Falhas de uma empresa não interrompem as demais.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { PredictiveAnalysisService } from '../services/PredictiveAnalysisService';
+
+export const scheduledPredictiveAnalysis = onSchedule(
+  {
+    schedule: 'every day 03:00',
+    timeZone: 'America/Sao_Paulo',
+    timeoutSeconds: 540,
+    memory: '1GiB',
+  },
+  async () => {
+    const service = new PredictiveAnalysisService();
+    const companies = await admin.firestore().collection('companies').listDocuments();
+
+    let executadas = 0;
+    let falhas = 0;
+
+    for (const company of companies) {
+      try {
+        if (!(await service.isAnalysisDue(company.id))) {
+          continue;
+        }
+        await service.saveAnalysisRun(company.id);
+        executadas++;
+      } catch (error) {
+        falhas++;
+        logger.error('Análise preditiva agendada falhou', { orgId: company.id, error });
+      }
+    }
+
+    logger.info('Análise preditiva agendada concluída', {
+      empresas: companies.length,
+      executadas,
+      falhas,
+    });
+  }
+);
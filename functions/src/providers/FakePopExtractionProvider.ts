@@ -0,0 +1,101 @@
+/**
+ * FakePopExtractionProvider - Extração determinística por fixture
+ *
+ * Usado com os emuladores e em testes offline (videoProcessing.provider
+ * = 'fake'). A fixture é escolhida pelo nome do vídeo: 'invalido.mp4' ou
+ * 'invalido-01.mp4' usam a fixture 'invalido'; os demais usam 'padrao'.
+ */
+
+import { PopExtractionProvider, PopExtractionRequest } from '../types/video.types';
+
+/**
+ * Resposta simulada do modelo: texto bruto ou erro na chamada
+ */
+export interface PopFixture {
+  resposta?: string;
+  /** Mensagem do erro lançado (simula falha do provedor) */
+  erro?: string;
+}
+
+export const DEFAULT_FIXTURE = 'padrao';
+
+export const POP_FIXTURES: Record<string, PopFixture> = {
+  // Extração válida
+  padrao: {
+    resposta: JSON.stringify({
+      titulo: 'Procedimento de Limpeza de Bancada',
+      objetivo: 'Garantir a higienização da bancada antes da produção',
+      etapas: [
+        {
+          numero: 1,
+          descricao: 'Preparar solução de limpeza',
+          tempo: '00:15',
+          ferramentas: ['Balde', 'Pano'],
+          pontosCriticos: ['Usar luvas nitrílicas'],
+        },
+        { numero: 2, descricao: 'Aplicar a solução em toda a bancada', tempo: '01:10' },
+        { numero: 3, descricao: 'Enxaguar e secar', tempo: '03:40', pontosCriticos: ['Não deixar resíduos'] },
+      ],
+      requisitosSeguranca: ['Luvas nitrílicas', 'Óculos de proteção'],
+      materiaisFerramentas: ['Balde', 'Pano', 'Detergente neutro'],
+      tempoEstimado: '15 minutos',
+      responsavel: 'Operador de produção',
+      criteriosQualidade: ['Bancada sem resíduos visíveis'],
+      naoConformidades: ['Óculos de proteção não utilizado na etapa 2'],
+      scoreConformidade: 85,
+    }),
+  },
+  // Resposta no formato livre do modelo: corrigida pela normalização
+  cercado: {
+    resposta: [
+      'Aqui está o POP extraído:',
+      '```json',
+      JSON.stringify({
+        'Título do POP': 'Troca de Filtro do Compressor',
+        'Etapas': ['Desligar e bloquear o compressor', 'Remover o filtro usado', 'Instalar o filtro novo'],
+        'Materiais e Ferramentas': '- Filtro novo\n- Chave de boca',
+        'Tempo Estimado': 20,
+        'Score de Conformidade': '9/10',
+      }),
+      '```',
+    ].join('\n'),
+  },
+  // Campos obrigatórios ausentes: needs_review
+  invalido: {
+    resposta: JSON.stringify({ titulo: 'Vídeo sem procedimento identificável', objetivo: 'Indefinido' }),
+  },
+  'nao-json': {
+    resposta: 'Não foi possível identificar um procedimento neste vídeo.',
+  },
+  // Falha na chamada: failed
+  erro: {
+    erro: 'Falha simulada do provedor de extração',
+  },
+};
+
+export class FakePopExtractionProvider implements PopExtractionProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly fixtures: Record<string, PopFixture> = POP_FIXTURES) {}
+
+  /**
+   * Fixture do vídeo (nome exato ou prefixo seguido de '-')
+   * Nomes mais longos têm precedência ('nao-json' antes de 'nao')
+   */
+  selectFixture(videoId: string): string {
+    const nomes = Object.keys(this.fixtures).sort((a, b) => b.length - a.length);
+    const nome = nomes.find((fixture) => videoId === fixture || videoId.startsWith(`${fixture}-`));
+    return nome ?? DEFAULT_FIXTURE;
+  }
+
+  async extract(request: PopExtractionRequest): Promise<string> {
+    const fixture = this.fixtures[this.selectFixture(request.videoId)];
+    if (!fixture) {
+      throw new Error(`Fixture ${DEFAULT_FIXTURE} não definida`);
+    }
+    if (fixture.erro !== undefined) {
+      throw new Error(fixture.erro);
+    }
+    return fixture.resposta ?? '';
+  }
+}
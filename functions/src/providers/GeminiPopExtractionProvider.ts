@@ -0,0 +1,54 @@
+/**
+ * GeminiPopExtractionProvider - Extração de POPs com o Gemini
+ *
+ * Envia o vídeo do Cloud Storage (fileData com URI gs://) junto com a
+ * instrução de extração. O modelo vem de axiomaConfigs.videoProcessing.
+ */
+
+import { FileDataPart, GoogleGenerativeAI } from '@google/generative-ai';
+import { PopExtractionProvider, PopExtractionRequest } from '../types/video.types';
+
+/**
+ * Instrução de extração de POP
+ * (Procedimento Operacional Padrão - Standard Operating Procedure)
+ */
+export const POP_EXTRACTION_PROMPT = `Você é um especialista em extração de Procedimentos Operacionais Padrão (POPs) de vídeos corporativos.
+
+Analise este vídeo e extraia os seguintes elementos estruturados em formato JSON:
+
+1. **Título do POP**: Identifique o procedimento sendo demonstrado
+2. **Objetivo**: Qual é o propósito deste procedimento?
+3. **Etapas**: Liste cada passo demonstrado no vídeo com:
+   - Número da etapa
+   - Descrição detalhada da ação
+   - Tempo aproximado no vídeo (se identificável)
+   - Ferramentas/equipamentos necessários
+   - Pontos críticos de segurança ou qualidade
+4. **Requisitos de Segurança**: Equipamentos de proteção, precauções
+5. **Materiais e Ferramentas**: Lista completa necessária
+6. **Tempo Estimado**: Duração total do procedimento
+7. **Responsável**: Tipo de profissional que deve executar
+8. **Critérios de Qualidade**: Como verificar se foi executado corretamente
+9. **Não-Conformidades Identificadas**: Problemas ou desvios detectados no vídeo
+10. **Score de Conformidade**: Avaliação de 0-100 da execução demonstrada
+
+Retorne um JSON estruturado e completo.`;
+
+export class GeminiPopExtractionProvider implements PopExtractionProvider {
+  readonly name = 'gemini';
+
+  /**
+   * @param apiKey - Lida apenas na extração (secret GEMINI_API_KEY)
+   */
+  constructor(private readonly apiKey: () => string) {}
+
+  async extract(request: PopExtractionRequest): Promise<string> {
+    const genAI = new GoogleGenerativeAI(this.apiKey());
+    const model = genAI.getGenerativeModel({ model: request.modelVersion });
+
+    const video: FileDataPart = { fileData: { mimeType: request.mimeType, fileUri: request.videoUri } };
+
+    const result = await model.generateContent([POP_EXTRACTION_PROMPT, video]);
+    return result.response.text();
+  }
+}
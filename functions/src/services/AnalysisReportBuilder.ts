@@ -0,0 +1,338 @@
+/**
+ * AnalysisReportBuilder - Relatório de Análise Preditiva
+ *
+ * Monta o relatório a partir das análises de uma organização e o
+ * renderiza em JSON (integrações), CSV (planilhas) ou PDF (gestão:
+ * resumo executivo e tabela por documento).
+ */
+
+import {
+  AnalysisFailure,
+  AnalysisReport,
+  DocumentAnalysis,
+  RenderedReport,
+  ReportFormat,
+  RiskLevel,
+} from '../types/axioma.types';
+import { PdfColor, PdfWriter, wrapText } from '../utils/pdf';
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['json', 'csv', 'pdf'];
+
+export const REPORT_TITLE = 'Relatório de Análise Preditiva';
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Monta o relatório ordenando os documentos pelo score de risco
+ */
+export function buildAnalysisReport(
+  orgId: string,
+  analyses: DocumentAnalysis[],
+  falhas: AnalysisFailure[] = [],
+  geradoEm: Date = new Date()
+): AnalysisReport {
+  const documentos = [...analyses].sort((a, b) => b.riskScore - a.riskScore);
+  const porRisco: Record<RiskLevel, number> = { alto: 0, médio: 0, baixo: 0 };
+  documentos.forEach((analysis) => porRisco[analysis.riskLevel]++);
+
+  const scoreTotal = documentos.reduce((acc, analysis) => acc + analysis.riskScore, 0);
+
+  return {
+    titulo: REPORT_TITLE,
+    orgId,
+    geradoEm: geradoEm.toISOString(),
+    resumo: {
+      total: documentos.length,
+      precisamRevisao: documentos.filter((analysis) => analysis.needsRevision).length,
+      porRisco,
+      scoreMedio: documentos.length > 0 ? Math.round((scoreTotal / documentos.length) * 10) / 10 : 0,
+      falhas: falhas.length,
+    },
+    documentos,
+    falhas,
+  };
+}
+
+/**
+ * Data de geração no fuso da operação (dd/mm/aaaa hh:mm)
+ */
+function formatGeneratedAt(iso: string): string {
+  return new Date(iso).toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+// ---------------------------------------------------------------------------
+// JSON e CSV
+// ---------------------------------------------------------------------------
+
+export function renderReportJson(report: AnalysisReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/** Separador e decimal no padrão das planilhas em português */
+const CSV_SEPARATOR = ';';
+
+const CSV_COLUMNS = [
+  'docId',
+  'titulo',
+  'status',
+  'riskLevel',
+  'riskScore',
+  'needsRevision',
+  'diasDesdeRevisao',
+  'scoreConformidade',
+  'naoConformidades',
+  'custoManutencao',
+  'razaoExcessoTempo',
+  'regrasDisparadas',
+  'motivos',
+  'recomendacoes',
+];
+
+/**
+ * Textos iniciados por = + - @ (ou tab/CR) são interpretados como fórmula
+ * pelo Excel; o apóstrofo inicial os mantém como texto (injeção de CSV)
+ */
+function csvValue(value: string | number | boolean | undefined): string {
+  if (value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'sim' : 'não';
+  if (typeof value === 'number') return String(value).replace('.', ',');
+  const texto = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[;"\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+}
+
+/**
+ * Uma linha por documento; listas unidas por ' | '
+ * Inclui BOM para que o Excel reconheça o UTF-8
+ */
+export function renderReportCsv(report: AnalysisReport): string {
+  const linhas = report.documentos.map((analysis) =>
+    [
+      analysis.docId,
+      analysis.titulo,
+      analysis.status,
+      analysis.riskLevel,
+      analysis.riskScore,
+      analysis.needsRevision,
+      analysis.metrics.daysSinceLastRevision,
+      analysis.metrics.scoreConformidade,
+      analysis.metrics.naoConformidades,
+      analysis.metrics.custoManutencao,
+      analysis.metrics.razaoExcessoTempo,
+      (analysis.regrasDisparadas ?? []).map((regra) => regra.id).join(' | '),
+      analysis.reasons.join(' | '),
+      analysis.recommendations.join(' | '),
+    ]
+      .map(csvValue)
+      .join(CSV_SEPARATOR)
+  );
+
+  return '\ufeff' + [CSV_COLUMNS.join(CSV_SEPARATOR), ...linhas].join('\r\n') + '\r\n';
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const MARGIN = 40;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 10;
+const FOOTER_SPACE = 40;
+
+const GRAY: PdfColor = [0.4, 0.4, 0.4];
+const LIGHT_GRAY: PdfColor = [0.92, 0.92, 0.92];
+const RISK_COLORS: Record<RiskLevel, PdfColor> = {
+  alto: [0.75, 0.1, 0.1],
+  médio: [0.8, 0.5, 0],
+  baixo: [0.1, 0.5, 0.2],
+};
+
+interface PdfColumn {
+  titulo: string;
+  largura: number;
+  valor: (analysis: DocumentAnalysis) => string;
+}
+
+const PDF_COLUMNS: PdfColumn[] = [
+  { titulo: 'Documento', largura: 150, valor: (a) => a.titulo },
+  { titulo: 'Status', largura: 45, valor: (a) => a.status },
+  { titulo: 'Risco', largura: 40, valor: (a) => a.riskLevel },
+  { titulo: 'Score', largura: 35, valor: (a) => String(a.riskScore) },
+  { titulo: 'Revisão', largura: 40, valor: (a) => (a.needsRevision ? 'Sim' : 'Não') },
+  { titulo: 'Motivos', largura: 205, valor: (a) => a.reasons.map((reason) => `• ${reason}`).join('\n') },
+];
+
+/**
+ * Tabela por documento com cabeçalho repetido a cada página
+ */
+class ReportPdfLayout {
+  readonly pdf = new PdfWriter();
+  y = MARGIN;
+
+  private get bottom(): number {
+    return this.pdf.height - FOOTER_SPACE;
+  }
+
+  newPage(): void {
+    this.pdf.addPage();
+    this.y = MARGIN;
+  }
+
+  ensureSpace(altura: number, onBreak?: () => void): void {
+    if (this.y + altura > this.bottom) {
+      this.newPage();
+      onBreak?.();
+    }
+  }
+
+  heading(texto: string): void {
+    this.ensureSpace(30);
+    this.y += 18;
+    this.pdf.text(MARGIN, this.y, texto, { size: 12, bold: true });
+    this.y += 10;
+  }
+
+  tableHeader(): void {
+    const largura = PDF_COLUMNS.reduce((acc, coluna) => acc + coluna.largura, 0);
+    this.pdf.rect(MARGIN, this.y, largura, 14, LIGHT_GRAY);
+    let x = MARGIN;
+    PDF_COLUMNS.forEach((coluna) => {
+      this.pdf.text(x + 3, this.y + 10, coluna.titulo, { size: FONT_SIZE, bold: true });
+      x += coluna.largura;
+    });
+    this.y += 14;
+  }
+
+  tableRow(analysis: DocumentAnalysis): void {
+    const celulas = PDF_COLUMNS.map((coluna) =>
+      wrapText(coluna.valor(analysis), coluna.largura - 6, FONT_SIZE)
+    );
+    const altura = Math.max(...celulas.map((linhas) => linhas.length)) * LINE_HEIGHT + 4;
+
+    this.ensureSpace(altura, () => this.tableHeader());
+
+    let x = MARGIN;
+    celulas.forEach((linhas, index) => {
+      const coluna = PDF_COLUMNS[index];
+      const risco = coluna.titulo === 'Risco' || coluna.titulo === 'Score';
+      linhas.forEach((linha, position) => {
+        this.pdf.text(x + 3, this.y + LINE_HEIGHT * (position + 1) - 1, linha, {
+          size: FONT_SIZE,
+          bold: risco,
+          color: risco ? RISK_COLORS[analysis.riskLevel] : undefined,
+        });
+      });
+      x += coluna.largura;
+    });
+
+    this.y += altura;
+    this.pdf.line(MARGIN, this.y, this.pdf.width - MARGIN, this.y, 0.3, LIGHT_GRAY);
+  }
+}
+
+/**
+ * PDF com resumo executivo, tabela por documento e falhas de análise
+ */
+export function renderReportPdf(report: AnalysisReport): Buffer {
+  const layout = new ReportPdfLayout();
+  const { pdf } = layout;
+  layout.newPage();
+
+  // Cabeçalho
+  pdf.text(MARGIN, layout.y + 18, report.titulo, { size: 18, bold: true });
+  pdf.text(
+    MARGIN,
+    layout.y + 34,
+    `Organização: ${report.orgId}  —  Gerado em ${formatGeneratedAt(report.geradoEm)}`,
+    { size: 9, color: GRAY }
+  );
+  layout.y += 44;
+  pdf.line(MARGIN, layout.y, pdf.width - MARGIN, layout.y, 1);
+
+  // Resumo executivo
+  layout.heading('Resumo Executivo');
+  const { resumo } = report;
+  const indicadores: [string, string, PdfColor?][] = [
+    ['Documentos analisados', String(resumo.total)],
+    ['Precisam revisão', String(resumo.precisamRevisao), resumo.precisamRevisao > 0 ? RISK_COLORS.alto : undefined],
+    ['Risco alto', String(resumo.porRisco.alto), RISK_COLORS.alto],
+    ['Score médio', `${resumo.scoreMedio}/100`],
+  ];
+  const larguraIndicador = (pdf.width - MARGIN * 2 - 30) / indicadores.length;
+  indicadores.forEach(([rotulo, valor, cor], index) => {
+    const x = MARGIN + index * (larguraIndicador + 10);
+    pdf.rect(x, layout.y, larguraIndicador, 44, LIGHT_GRAY);
+    pdf.text(x + 8, layout.y + 22, valor, { size: 16, bold: true, color: cor });
+    pdf.text(x + 8, layout.y + 36, rotulo, { size: 8, color: GRAY });
+  });
+  layout.y += 58;
+
+  pdf.text(
+    MARGIN,
+    layout.y,
+    `Risco médio: ${resumo.porRisco.médio}  •  Risco baixo: ${resumo.porRisco.baixo}` +
+      (resumo.falhas > 0 ? `  •  Documentos não analisados: ${resumo.falhas}` : ''),
+    { size: 9 }
+  );
+  layout.y += 6;
+
+  // Tabela por documento
+  layout.heading('Documentos');
+  if (report.documentos.length === 0) {
+    layout.y += 12;
+    pdf.text(MARGIN, layout.y, 'Nenhum documento ativo ou em revisão.', { size: 9, color: GRAY });
+  } else {
+    layout.tableHeader();
+    report.documentos.forEach((analysis) => layout.tableRow(analysis));
+  }
+
+  // Falhas
+  if (report.falhas.length > 0) {
+    layout.heading('Documentos não analisados');
+    report.falhas.forEach((falha) => {
+      const linhas = wrapText(`${falha.docId} [${falha.code}]: ${falha.message}`, pdf.width - MARGIN * 2, FONT_SIZE);
+      layout.ensureSpace(linhas.length * LINE_HEIGHT + 2);
+      linhas.forEach((linha) => {
+        layout.y += LINE_HEIGHT;
+        pdf.text(MARGIN, layout.y, linha, { size: FONT_SIZE });
+      });
+      layout.y += 2;
+    });
+  }
+
+  // Rodapé com numeração
+  const total = pdf.pageCount;
+  for (let index = 0; index < total; index++) {
+    pdf.setPage(index);
+    const y = pdf.height - 24;
+    pdf.text(MARGIN, y, `${report.titulo} — ${report.orgId}`, { size: 7, color: GRAY });
+    pdf.text(pdf.width - MARGIN - 50, y, `Página ${index + 1} de ${total}`, { size: 7, color: GRAY });
+  }
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Renderiza o relatório no formato pedido, com tipo e nome de arquivo para download
+ */
+export function renderAnalysisReport(report: AnalysisReport, formato: ReportFormat): RenderedReport {
+  const data = report.geradoEm.slice(0, 10);
+  const conteudo =
+    formato === 'pdf'
+      ? renderReportPdf(report)
+      : Buffer.from(formato === 'csv' ? renderReportCsv(report) : renderReportJson(report), 'utf8');
+
+  return {
+    formato,
+    contentType: CONTENT_TYPES[formato],
+    nomeArquivo: `relatorio-analise-preditiva-${report.orgId}-${data}.${formato}`,
+    conteudo,
+  };
+}
@@ -0,0 +1,495 @@
+/**
+ * AxiomaConfigService - Configuração do Sistema Axioma
+ *
+ * Carrega e valida as configurações da coleção 'axiomaConfigs'.
+ * Resolução em camadas (a mais específica prevalece, campo a campo):
+ *   padrões do código -> config global -> config da organização
+ * e, dentro de cada camada, `thresholds` -> `thresholdsPorTipo[tipo]`.
+ */
+
+import * as admin from 'firebase-admin';
+import { ValidationError } from '../errors/DomainError';
+import { DocumentType } from '../types/document.types';
+import {
+  AnalysisThresholds,
+  AxiomaConfig,
+  PredictiveAnalysisConfig,
+  RiskScoringConfig,
+  VideoLinkConfig,
+  VideoLinkPolicy,
+  VideoProcessingConfig,
+} from '../types/axioma.types';
+import { PopExtractionProviderName } from '../types/video.types';
+import { DEFAULT_RISK_SCORING } from '../utils/riskScore';
+import { validateFailureIndicators } from './FailureRuleEngine';
+
+/**
+ * ID da configuração global criada por `cli setup-axioma`
+ */
+export const GLOBAL_CONFIG_ID = 'axioma-main-config';
+
+/**
+ * ID da configuração global de 'videoLinkConfigs' criada por `cli setup-axioma`
+ */
+export const GLOBAL_VIDEO_LINK_CONFIG_ID = 'video-document-integration';
+
+/**
+ * Thresholds padrão por tipo de documento
+ * Políticas e checklists envelhecem mais devagar que procedimentos
+ */
+export const DEFAULT_THRESHOLDS: Record<DocumentType, AnalysisThresholds> = {
+  POP: {
+    daysUntilRevisionWarning: 90,
+    daysUntilRevisionRequired: 180,
+    minConformityScore: 70,
+    maxNonConformities: 3,
+    maxExecutionTimeRatio: 1.5,
+    minExecutionSamples: 3,
+  },
+  Manual: {
+    daysUntilRevisionWarning: 90,
+    daysUntilRevisionRequired: 180,
+    minConformityScore: 70,
+    maxNonConformities: 3,
+    maxExecutionTimeRatio: 1.5,
+    minExecutionSamples: 3,
+  },
+  Checklist: {
+    daysUntilRevisionWarning: 180,
+    daysUntilRevisionRequired: 365,
+    minConformityScore: 70,
+    maxNonConformities: 3,
+    maxExecutionTimeRatio: 1.5,
+    minExecutionSamples: 3,
+  },
+  Política: {
+    daysUntilRevisionWarning: 365,
+    daysUntilRevisionRequired: 730,
+    minConformityScore: 70,
+    maxNonConformities: 3,
+    maxExecutionTimeRatio: 1.5,
+    minExecutionSamples: 3,
+  },
+};
+
+/**
+ * Intervalo padrão entre análises agendadas (dias)
+ */
+export const DEFAULT_CHECK_INTERVAL_DAYS = 30;
+
+/**
+ * Processamento de vídeo padrão (camada base)
+ */
+export const DEFAULT_VIDEO_PROCESSING: Required<VideoProcessingConfig> = {
+  enabled: true,
+  provider: 'gemini',
+  modelVersion: 'gemini-1.5-pro',
+  autoGeneratePOP: true,
+  minConfidenceScore: 70,
+};
+
+/**
+ * Vinculação automática padrão: desligada até existir videoLinkConfigs
+ */
+export const DEFAULT_VIDEO_LINK: Omit<VideoLinkPolicy, 'minConfidenceScore'> = {
+  autoLink: false,
+  generatePOPOnComplete: true,
+  requireManualReview: false,
+};
+
+export const POP_EXTRACTION_PROVIDERS: readonly PopExtractionProviderName[] = ['gemini', 'fake'];
+
+const THRESHOLD_KEYS: (keyof AnalysisThresholds)[] = [
+  'daysUntilRevisionWarning',
+  'daysUntilRevisionRequired',
+  'minConformityScore',
+  'maxNonConformities',
+  'maxExecutionTimeRatio',
+  'minExecutionSamples',
+];
+
+/**
+ * Valida thresholds parciais de uma camada
+ *
+ * @param origem - Caminho usado nas mensagens (ex: 'thresholdsPorTipo.POP')
+ * @returns Lista de erros encontrados
+ */
+function validatePartialThresholds(value: unknown, origem: string): string[] {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${origem} deve ser um objeto`];
+  }
+
+  const erros: string[] = [];
+
+  for (const [key, item] of Object.entries(value)) {
+    if (!THRESHOLD_KEYS.includes(key as keyof AnalysisThresholds)) {
+      erros.push(`${origem}.${key} não é um threshold conhecido`);
+    } else if (key === 'maxExecutionTimeRatio') {
+      if (typeof item !== 'number' || !Number.isFinite(item) || item < 1) {
+        erros.push(`${origem}.maxExecutionTimeRatio deve ser um número maior ou igual a 1`);
+      }
+    } else if (typeof item !== 'number' || !Number.isInteger(item) || item < 0) {
+      erros.push(`${origem}.${key} deve ser um inteiro não negativo`);
+    } else if (key === 'minConformityScore' && item > 100) {
+      erros.push(`${origem}.minConformityScore deve estar entre 0 e 100`);
+    }
+  }
+
+  return erros;
+}
+
+/**
+ * Valida a seção `predictiveAnalysis` de uma configuração
+ *
+ * @throws ValidationError com a lista de erros em `details.erros`
+ */
+export function validatePredictiveConfig(
+  configId: string,
+  config: unknown
+): PredictiveAnalysisConfig {
+  if (config === undefined) {
+    return {};
+  }
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ValidationError(
+      `Configuração ${configId}: predictiveAnalysis deve ser um objeto`,
+      { configId }
+    );
+  }
+
+  const predictive = config as PredictiveAnalysisConfig;
+  const erros: string[] = [];
+
+  if (predictive.enabled !== undefined && typeof predictive.enabled !== 'boolean') {
+    erros.push('enabled deve ser booleano');
+  }
+
+  if (
+    predictive.checkIntervalDays !== undefined &&
+    (!Number.isInteger(predictive.checkIntervalDays) || predictive.checkIntervalDays < 1)
+  ) {
+    erros.push('checkIntervalDays deve ser um inteiro positivo');
+  }
+
+  if (predictive.riskWeights !== undefined) {
+    const pesos = predictive.riskWeights as Record<string, unknown>;
+    if (pesos === null || typeof pesos !== 'object' || Array.isArray(pesos)) {
+      erros.push('riskWeights deve ser um objeto');
+    } else {
+      for (const [fator, peso] of Object.entries(pesos)) {
+        if (!(fator in DEFAULT_RISK_SCORING.pesos)) {
+          erros.push(`riskWeights.${fator} não é um fator de risco`);
+        } else if (typeof peso !== 'number' || !Number.isFinite(peso) || peso < 0) {
+          erros.push(`riskWeights.${fator} deve ser um número não negativo`);
+        }
+      }
+    }
+  }
+
+  if (
+    predictive.custoReferencia !== undefined &&
+    (typeof predictive.custoReferencia !== 'number' ||
+      !Number.isFinite(predictive.custoReferencia) ||
+      predictive.custoReferencia <= 0)
+  ) {
+    erros.push('custoReferencia deve ser um número positivo');
+  }
+
+  if (predictive.failureIndicators !== undefined) {
+    erros.push(...validateFailureIndicators(predictive.failureIndicators));
+  }
+
+  if (predictive.thresholds !== undefined) {
+    erros.push(...validatePartialThresholds(predictive.thresholds, 'thresholds'));
+  }
+
+  if (predictive.thresholdsPorTipo !== undefined) {
+    const porTipo = predictive.thresholdsPorTipo as Record<string, unknown>;
+    if (porTipo === null || typeof porTipo !== 'object' || Array.isArray(porTipo)) {
+      erros.push('thresholdsPorTipo deve ser um objeto');
+    } else {
+      for (const [tipo, thresholds] of Object.entries(porTipo)) {
+        if (!(tipo in DEFAULT_THRESHOLDS)) {
+          erros.push(`thresholdsPorTipo.${tipo} não é um tipo de documento`);
+        } else {
+          erros.push(...validatePartialThresholds(thresholds, `thresholdsPorTipo.${tipo}`));
+        }
+      }
+    }
+  }
+
+  if (erros.length > 0) {
+    throw new ValidationError(
+      `Configuração ${configId} inválida: ${erros.join('; ')}`,
+      { configId, erros }
+    );
+  }
+
+  return predictive;
+}
+
+/**
+ * Valida a seção `videoProcessing` de uma configuração
+ *
+ * @throws ValidationError com a lista de erros em `details.erros`
+ */
+export function validateVideoProcessingConfig(
+  configId: string,
+  config: unknown
+): VideoProcessingConfig {
+  if (config === undefined) {
+    return {};
+  }
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ValidationError(
+      `Configuração ${configId}: videoProcessing deve ser um objeto`,
+      { configId }
+    );
+  }
+
+  const video = config as VideoProcessingConfig;
+  const erros: string[] = [];
+
+  for (const campo of ['enabled', 'autoGeneratePOP'] as const) {
+    if (video[campo] !== undefined && typeof video[campo] !== 'boolean') {
+      erros.push(`${campo} deve ser booleano`);
+    }
+  }
+
+  if (video.provider !== undefined && !POP_EXTRACTION_PROVIDERS.includes(video.provider)) {
+    erros.push(`provider deve ser um de: ${POP_EXTRACTION_PROVIDERS.join(', ')}`);
+  }
+
+  if (
+    video.modelVersion !== undefined &&
+    (typeof video.modelVersion !== 'string' || video.modelVersion.trim() === '')
+  ) {
+    erros.push('modelVersion deve ser um texto não vazio');
+  }
+
+  if (
+    video.minConfidenceScore !== undefined &&
+    (typeof video.minConfidenceScore !== 'number' ||
+      video.minConfidenceScore < 0 ||
+      video.minConfidenceScore > 100)
+  ) {
+    erros.push('minConfidenceScore deve estar entre 0 e 100');
+  }
+
+  if (erros.length > 0) {
+    throw new ValidationError(
+      `Configuração ${configId} inválida: ${erros.join('; ')}`,
+      { configId, erros }
+    );
+  }
+
+  return video;
+}
+
+/**
+ * Resolve o processamento de vídeo aplicando as camadas em ordem
+ *
+ * @param camadas - Configurações da menos para a mais específica
+ */
+export function resolveVideoProcessing(
+  camadas: VideoProcessingConfig[]
+): Required<VideoProcessingConfig> {
+  return camadas.reduce<Required<VideoProcessingConfig>>(
+    (acc, camada) => ({
+      enabled: camada.enabled ?? acc.enabled,
+      provider: camada.provider ?? acc.provider,
+      modelVersion: camada.modelVersion ?? acc.modelVersion,
+      autoGeneratePOP: camada.autoGeneratePOP ?? acc.autoGeneratePOP,
+      minConfidenceScore: camada.minConfidenceScore ?? acc.minConfidenceScore,
+    }),
+    { ...DEFAULT_VIDEO_PROCESSING }
+  );
+}
+
+/**
+ * Valida um documento de 'videoLinkConfigs'
+ *
+ * @throws ValidationError com a lista de erros em `details.erros`
+ */
+export function validateVideoLinkConfig(config: VideoLinkConfig): VideoLinkConfig {
+  const erros = (['autoLink', 'generatePOPOnComplete', 'requireManualReview'] as const)
+    .filter((campo) => config[campo] !== undefined && typeof config[campo] !== 'boolean')
+    .map((campo) => `${campo} deve ser booleano`);
+
+  if (erros.length > 0) {
+    throw new ValidationError(
+      `Configuração de vinculação ${config.configId} inválida: ${erros.join('; ')}`,
+      { configId: config.configId, erros }
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Resolve a política de vinculação automática aplicando as camadas em ordem
+ * O POP só é gerado se generatePOPOnComplete e videoProcessing.autoGeneratePOP
+ * estiverem habilitados
+ *
+ * @param camadas - Configurações da menos para a mais específica
+ * @param video - Processamento de vídeo resolvido da organização
+ */
+export function resolveVideoLinkPolicy(
+  camadas: VideoLinkConfig[],
+  video: Required<VideoProcessingConfig>
+): VideoLinkPolicy {
+  const resolved = camadas.reduce(
+    (acc, camada) => ({
+      autoLink: camada.autoLink ?? acc.autoLink,
+      generatePOPOnComplete: camada.generatePOPOnComplete ?? acc.generatePOPOnComplete,
+      requireManualReview: camada.requireManualReview ?? acc.requireManualReview,
+    }),
+    { ...DEFAULT_VIDEO_LINK }
+  );
+
+  return {
+    ...resolved,
+    generatePOPOnComplete: resolved.generatePOPOnComplete && video.autoGeneratePOP,
+    minConfidenceScore: video.minConfidenceScore,
+  };
+}
+
+/**
+ * Resolve os thresholds de um tipo de documento aplicando as camadas em ordem
+ * Após a combinação, o alerta precisa ocorrer antes da exigência de revisão
+ *
+ * @param camadas - Configurações da menos para a mais específica
+ */
+export function resolveThresholds(
+  tipo: DocumentType,
+  camadas: PredictiveAnalysisConfig[]
+): AnalysisThresholds {
+  const resolved = camadas.reduce<AnalysisThresholds>(
+    (acc, camada) => ({
+      ...acc,
+      ...camada.thresholds,
+      ...camada.thresholdsPorTipo?.[tipo],
+    }),
+    { ...DEFAULT_THRESHOLDS[tipo] }
+  );
+
+  if (resolved.daysUntilRevisionWarning >= resolved.daysUntilRevisionRequired) {
+    throw new ValidationError(
+      `Thresholds de ${tipo}: daysUntilRevisionWarning (${resolved.daysUntilRevisionWarning}) ` +
+        `deve ser menor que daysUntilRevisionRequired (${resolved.daysUntilRevisionRequired})`,
+      { tipo, thresholds: resolved }
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve os parâmetros do score de risco aplicando as camadas em ordem
+ *
+ * @param camadas - Configurações da menos para a mais específica
+ */
+export function resolveRiskScoring(camadas: PredictiveAnalysisConfig[]): RiskScoringConfig {
+  const resolved = camadas.reduce<RiskScoringConfig>(
+    (acc, camada) => ({
+      pesos: { ...acc.pesos, ...camada.riskWeights },
+      custoReferencia: camada.custoReferencia ?? acc.custoReferencia,
+    }),
+    { pesos: { ...DEFAULT_RISK_SCORING.pesos }, custoReferencia: DEFAULT_RISK_SCORING.custoReferencia }
+  );
+
+  if (Object.values(resolved.pesos).every((peso) => peso === 0)) {
+    throw new ValidationError('riskWeights: ao menos um fator deve ter peso maior que zero', {
+      pesos: resolved.pesos,
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve se a análise agendada está habilitada e seu intervalo em dias
+ *
+ * @param camadas - Configurações da menos para a mais específica
+ */
+export function resolveSchedule(
+  camadas: PredictiveAnalysisConfig[]
+): { enabled: boolean; checkIntervalDays: number } {
+  return camadas.reduce<{ enabled: boolean; checkIntervalDays: number }>(
+    (acc, camada) => ({
+      enabled: camada.enabled ?? acc.enabled,
+      checkIntervalDays: camada.checkIntervalDays ?? acc.checkIntervalDays,
+    }),
+    { enabled: true, checkIntervalDays: DEFAULT_CHECK_INTERVAL_DAYS }
+  );
+}
+
+/**
+ * Serviço de leitura das configurações Axioma
+ */
+export class AxiomaConfigService {
+  private db: admin.firestore.Firestore;
+
+  constructor() {
+    this.db = admin.firestore();
+  }
+
+  /**
+   * Carrega as configurações ativas aplicáveis à organização,
+   * da menos para a mais específica (global, organização)
+   */
+  async getConfigLayers(orgId: string): Promise<AxiomaConfig[]> {
+    return this.getLayers<AxiomaConfig>('axiomaConfigs', GLOBAL_CONFIG_ID, orgId);
+  }
+
+  /**
+   * Carrega e valida as configurações de análise preditiva da organização
+   */
+  async getPredictiveConfigLayers(orgId: string): Promise<PredictiveAnalysisConfig[]> {
+    const layers = await this.getConfigLayers(orgId);
+    return layers.map((config) =>
+      validatePredictiveConfig(config.configId, config.predictiveAnalysis)
+    );
+  }
+
+  /**
+   * Carrega, valida e resolve o processamento de vídeo da organização
+   */
+  async getVideoProcessingConfig(orgId: string): Promise<Required<VideoProcessingConfig>> {
+    const layers = await this.getConfigLayers(orgId);
+    return resolveVideoProcessing(
+      layers.map((config) => validateVideoProcessingConfig(config.configId, config.videoProcessing))
+    );
+  }
+
+  /**
+   * Carrega e resolve a política de vinculação automática de POPs de vídeo
+   * (videoLinkConfigs combinado com axiomaConfigs.videoProcessing)
+   */
+  async getVideoLinkPolicy(orgId: string): Promise<VideoLinkPolicy> {
+    const [camadas, video] = await Promise.all([
+      this.getLayers<VideoLinkConfig>('videoLinkConfigs', GLOBAL_VIDEO_LINK_CONFIG_ID, orgId),
+      this.getVideoProcessingConfig(orgId),
+    ]);
+    return resolveVideoLinkPolicy(camadas.map(validateVideoLinkConfig), video);
+  }
+
+  /**
+   * Configurações ativas de uma coleção: global e da organização (ID = orgId)
+   */
+  private async getLayers<T extends { configId: string; ativo?: boolean }>(
+    collection: string,
+    globalId: string,
+    orgId: string
+  ): Promise<T[]> {
+    const [globalSnapshot, orgSnapshot] = await this.db.getAll(
+      this.db.collection(collection).doc(globalId),
+      this.db.collection(collection).doc(orgId)
+    );
+
+    return [globalSnapshot, orgSnapshot]
+      .filter((snapshot) => snapshot.exists)
+      .map((snapshot) => ({ configId: snapshot.id, ...snapshot.data() } as T))
+      .filter((config) => config.ativo !== false);
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * ChecklistService - Execução de Checklists
+ *
+ * Uma execução copia os itens de um modelo de norma (checklistTemplates,
+ * semeados por `setup-standard` da CLI) ou da versão ativa de um documento
+ * do tipo Checklist. Cada item é respondido como conforme, não conforme ou
+ * não aplicável, com comentário e fotos de evidência. A conclusão exige
+ * resposta em todos os itens obrigatórios e calcula o score de
+ * conformidade; itens reprovados podem abrir não-conformidades.
+ *
+ * Ciclo de vida:
+ *   em_andamento -> concluida | cancelada
+ */
+
+import * as admin from 'firebase-admin';
+import { v4 as uuidv4 } from 'uuid';
+import { Document } from '../types/document.types';
+import { NonConformity } from '../types/nonConformity.types';
+import {
+  ChecklistAnswerInput,
+  ChecklistEvidence,
+  ChecklistNonConformityInput,
+  ChecklistRun,
+  ChecklistRunFilters,
+  ChecklistRunItem,
+  ChecklistRunOrigin,
+  ChecklistRunSummary,
+  ChecklistTemplate,
+  StartChecklistRunInput,
+} from '../types/checklist.types';
+import { NotFoundError, TenantMismatchError, ValidationError } from '../errors/DomainError';
+import { ChecklistIncompleteError, ChecklistRunError } from '../errors/ChecklistErrors';
+import { sha256 } from '../utils/contentHash';
+import { DocumentService } from './DocumentService';
+import { NonConformityService } from './NonConformityService';
+
+/**
+ * Tamanho máximo de uma foto de evidência
+ */
+export const CHECKLIST_EVIDENCE_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Validade das URLs assinadas de visualização das evidências
+ */
+export const CHECKLIST_EVIDENCE_TTL_MINUTES = 15;
+
+/**
+ * Marcador de item opcional nos documentos do tipo Checklist
+ * ("Registro de calibração disponível (opcional)")
+ */
+const OPTIONAL_ITEM_MARKER = /\s*\(opcional\)\s*$/i;
+
+/**
+ * Comprimento máximo do título da NC derivado do item
+ */
+const NC_TITLE_LENGTH = 200;
+
+/**
+ * Itens da execução a partir de um modelo de norma
+ */
+export function itemsFromTemplate(template: Pick<ChecklistTemplate, 'itens'>): ChecklistRunItem[] {
+  return [...template.itens]
+    .sort((a, b) => a.ordem - b.ordem)
+    .map((item) => ({
+      ordem: item.ordem,
+      descricao: item.descricao,
+      obrigatorio: item.obrigatorio,
+      evidencias: [],
+    }));
+}
+
+/**
+ * Itens da execução a partir das seções de um documento do tipo Checklist
+ * Cada item de lista vira um item (grupo = título da seção), numerado na
+ * ordem do documento; são obrigatórios salvo o sufixo "(opcional)"
+ */
+export function itemsFromDocument(document: Pick<Document, 'conteudo'>): ChecklistRunItem[] {
+  const itens: ChecklistRunItem[] = [];
+
+  for (const secao of document.conteudo?.secoes || []) {
+    for (const texto of secao.itens || []) {
+      const descricao = texto.replace(OPTIONAL_ITEM_MARKER, '').trim();
+      if (!descricao) {
+        continue;
+      }
+      itens.push({
+        ordem: itens.length + 1,
+        descricao,
+        obrigatorio: !OPTIONAL_ITEM_MARKER.test(texto),
+        ...(secao.titulo ? { grupo: secao.titulo } : {}),
+        evidencias: [],
+      });
+    }
+  }
+
+  return itens;
+}
+
+/**
+ * Contagem das respostas da execução
+ */
+export function summarizeChecklist(itens: ChecklistRunItem[]): ChecklistRunSummary {
+  return {
+    conformes: itens.filter((item) => item.resposta === 'conforme').length,
+    naoConformes: itens.filter((item) => item.resposta === 'nao_conforme').length,
+    naoAplicaveis: itens.filter((item) => item.resposta === 'na').length,
+    semResposta: itens.filter((item) => !item.resposta).length,
+  };
+}
+
+/**
+ * Score de conformidade (0-100): conformes sobre os itens aplicáveis respondidos
+ * Itens não aplicáveis ficam fora do cálculo; sem itens aplicáveis, 100
+ */
+export function computeConformityScore(resumo: ChecklistRunSummary): number {
+  const aplicaveis = resumo.conformes + resumo.naoConformes;
+  return aplicaveis === 0 ? 100 : Math.round((resumo.conformes / aplicaveis) * 1000) / 10;
+}
+
+/**
+ * Ordem dos itens obrigatórios ainda sem resposta
+ */
+export function pendingMandatoryItems(itens: ChecklistRunItem[]): number[] {
+  return itens.filter((item) => item.obrigatorio && !item.resposta).map((item) => item.ordem);
+}
+
+/**
+ * Serviço de execução de checklists
+ */
+export class ChecklistService {
+  private db: admin.firestore.Firestore;
+  private documentService: DocumentService;
+  private nonConformityService: NonConformityService;
+
+  constructor() {
+    this.db = admin.firestore();
+    this.documentService = new DocumentService();
+    this.nonConformityService = new NonConformityService();
+  }
+
+  /**
+   * Modelos de checklist ativos
+   */
+  async listTemplates(): Promise<ChecklistTemplate[]> {
+    const snapshot = await this.db.collection('checklistTemplates').where('ativo', '==', true).get();
+    return snapshot.docs
+      .map((doc) => doc.data() as ChecklistTemplate)
+      .sort((a, b) => a.nome.localeCompare(b.nome));
+  }
+
+  /**
+   * Inicia uma execução a partir de um modelo (templateId) ou da versão
+   * ativa de um documento do tipo Checklist (docId)
+   */
+  async startRun(input: StartChecklistRunInput): Promise<ChecklistRun> {
+    if (Boolean(input.templateId) === Boolean(input.docId)) {
+      throw new ValidationError('Informe o modelo (templateId) ou o documento (docId) do checklist', {
+        templateId: input.templateId,
+        docId: input.docId,
+      });
+    }
+
+    const { titulo, origem, itens } = input.templateId
+      ? await this.loadTemplateSource(input.templateId)
+      : await this.loadDocumentSource(input.orgId, input.docId as string);
+
+    if (itens.length === 0) {
+      throw new ValidationError('Checklist de origem não possui itens', { ...origem });
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const run: ChecklistRun = {
+      runId: uuidv4(),
+      orgId: input.orgId,
+      titulo: input.titulo || titulo,
+      origem,
+      status: 'em_andamento',
+      itens,
+      resumo: summarizeChecklist(itens),
+      iniciadoPor: input.iniciadoPor,
+      iniciadoEm: now,
+      atualizadoEm: now,
+    };
+
+    await this.collection().doc(run.runId).create(run);
+    return run;
+  }
+
+  /**
+   * Recupera uma execução
+   */
+  async getRun(runId: string): Promise<ChecklistRun> {
+    const snapshot = await this.collection().doc(runId).get();
+    if (!snapshot.exists) {
+      throw new NotFoundError('Checklist', runId);
+    }
+    return snapshot.data() as ChecklistRun;
+  }
+
+  /**
+   * Lista as execuções da organização (mais recentes primeiro)
+   */
+  async listByOrg(orgId: string, filters: ChecklistRunFilters = {}): Promise<ChecklistRun[]> {
+    let query: admin.firestore.Query = this.collection().where('orgId', '==', orgId);
+    if (filters.docId) {
+      query = query.where('origem.docId', '==', filters.docId);
+    }
+    if (filters.status) {
+      query = query.where('status', '==', filters.status);
+    }
+
+    const snapshot = await query.orderBy('iniciadoEm', 'desc').get();
+    return snapshot.docs.map((doc) => doc.data() as ChecklistRun);
+  }
+
+  /**
+   * Responde um item (pode ser alterada até a conclusão)
+   * Item com NC aberta permanece não conforme
+   */
+  async answerItem(
+    runId: string,
+    ordem: number,
+    input: ChecklistAnswerInput,
+    respondidoPor: string
+  ): Promise<ChecklistRun> {
+    return this.runUpdate(runId, (run, now) => {
+      this.assertInProgress(run);
+      const item = this.findItem(run, ordem);
+
+      if (item.ncId && input.resposta !== 'nao_conforme') {
+        throw new ChecklistRunError(
+          runId,
+          `Item ${ordem} tem a não-conformidade ${item.ncId} aberta e não pode deixar de ser não conforme`,
+          { ordem, ncId: item.ncId }
+        );
+      }
+
+      const itens = run.itens.map((atual) => atual.ordem !== ordem ? atual : {
+        ...atual,
+        resposta: input.resposta,
+        ...(input.comentario !== undefined ? { comentario: input.comentario } : {}),
+        respondidoPor,
+        respondidoEm: now,
+      });
+
+      return { ...run, itens, resumo: summarizeChecklist(itens) };
+    });
+  }
+
+  /**
+   * Anexa uma foto de evidência a um item
+   * O arquivo é gravado no Storage em companies/{orgId}/checklists/{runId}/
+   */
+  async addEvidence(
+    runId: string,
+    ordem: number,
+    nome: string,
+    data: Buffer,
+    contentType: string,
+    enviadoPor: string
+  ): Promise<ChecklistEvidence> {
+    if (!contentType.startsWith('image/')) {
+      throw new ValidationError(`Evidência deve ser uma imagem (recebido ${contentType})`, { contentType });
+    }
+    if (data.length === 0 || data.length > CHECKLIST_EVIDENCE_MAX_BYTES) {
+      throw new ValidationError(
+        `Evidência deve ter entre 1 byte e ${CHECKLIST_EVIDENCE_MAX_BYTES} bytes (recebido ${data.length})`,
+        { tamanhoBytes: data.length }
+      );
+    }
+
+    const run = await this.getRun(runId);
+    this.assertInProgress(run);
+    this.findItem(run, ordem);
+
+    const evidenciaId = uuidv4();
+    const nomeSeguro = nome.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const storagePath = `companies/${run.orgId}/checklists/${runId}/${evidenciaId}-${nomeSeguro}`;
+
+    await admin.storage().bucket().file(storagePath).save(data, { contentType });
+
+    const evidencia: ChecklistEvidence = {
+      evidenciaId,
+      nome,
+      storagePath,
+      contentType,
+      tamanhoBytes: data.length,
+      sha256: sha256(data),
+      enviadoPor,
+      enviadoEm: admin.firestore.Timestamp.now(),
+    };
+
+    await this.runUpdate(runId, (atual) => {
+      this.assertInProgress(atual);
+      this.findItem(atual, ordem);
+      return {
+        ...atual,
+        itens: atual.itens.map((item) => item.ordem !== ordem ? item : {
+          ...item,
+          evidencias: [...item.evidencias, evidencia],
+        }),
+      };
+    });
+
+    return evidencia;
+  }
+
+  /**
+   * URL assinada e temporária para visualizar uma evidência
+   *
+   * @param run - Execução já conferida contra a organização do usuário
+   */
+  async getEvidenceUrl(
+    run: ChecklistRun,
+    ordem: number,
+    evidenciaId: string
+  ): Promise<{ url: string; expiraEm: admin.firestore.Timestamp }> {
+    const evidencia = this.findItem(run, ordem).evidencias.find((item) => item.evidenciaId === evidenciaId);
+    if (!evidencia) {
+      throw new NotFoundError('Evidência', evidenciaId, `Evidência ${evidenciaId} não encontrada no item ${ordem}`);
+    }
+
+    const expiraEm = admin.firestore.Timestamp.fromMillis(
+      Date.now() + CHECKLIST_EVIDENCE_TTL_MINUTES * 60 * 1000
+    );
+    const [url] = await admin.storage().bucket().file(evidencia.storagePath).getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: expiraEm.toMillis(),
+    });
+
+    return { url, expiraEm };
+  }
+
+  /**
+   * Conclui a execução e calcula o score de conformidade
+   * Bloqueada enquanto houver itens obrigatórios sem resposta
+   */
+  async complete(runId: string, concluidoPor: string): Promise<ChecklistRun> {
+    return this.runUpdate(runId, (run, now) => {
+      this.assertInProgress(run);
+
+      const pendentes = pendingMandatoryItems(run.itens);
+      if (pendentes.length > 0) {
+        throw new ChecklistIncompleteError(runId, pendentes);
+      }
+
+      const resumo = summarizeChecklist(run.itens);
+      return {
+        ...run,
+        status: 'concluida',
+        resumo,
+        scoreConformidade: computeConformityScore(resumo),
+        concluidoPor,
+        concluidoEm: now,
+      };
+    });
+  }
+
+  /**
+   * Cancela uma execução em andamento
+   */
+  async cancel(runId: string, motivo: string, canceladoPor: string): Promise<ChecklistRun> {
+    return this.runUpdate(runId, (run, now) => {
+      this.assertInProgress(run);
+      return {
+        ...run,
+        status: 'cancelada',
+        canceladoPor,
+        canceladoEm: now,
+        motivoCancelamento: motivo,
+      };
+    });
+  }
+
+  /**
+   * Abre uma não-conformidade a partir de um item reprovado
+   * A NC é gravada na mesma transação que a vincula ao item (uma por item)
+   * e, quando a execução veio de um documento, é vinculada à versão usada
+   */
+  async openNonConformity(
+    runId: string,
+    ordem: number,
+    input: ChecklistNonConformityInput,
+    criadoPor: string
+  ): Promise<NonConformity> {
+    const runRef = this.collection().doc(runId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(runRef);
+      if (!snapshot.exists) {
+        throw new NotFoundError('Checklist', runId);
+      }
+
+      const run = snapshot.data() as ChecklistRun;
+      const item = this.findItem(run, ordem);
+
+      if (run.status === 'cancelada') {
+        throw new ChecklistRunError(runId, `Checklist ${runId} está cancelado`, { status: run.status });
+      }
+      if (item.resposta !== 'nao_conforme') {
+        throw new ChecklistRunError(
+          runId,
+          `Item ${ordem} não está reprovado (resposta: ${item.resposta || 'sem resposta'})`,
+          { ordem, resposta: item.resposta }
+        );
+      }
+      if (item.ncId) {
+        throw new ChecklistRunError(runId, `Item ${ordem} já possui a não-conformidade ${item.ncId}`, {
+          ordem,
+          ncId: item.ncId,
+        });
+      }
+
+      const titulo = input.titulo || `${run.titulo} — item ${ordem}: ${item.descricao}`;
+      const nc = this.nonConformityService.prepareNonConformity(
+        uuidv4(),
+        {
+          orgId: run.orgId,
+          titulo: titulo.length > NC_TITLE_LENGTH ? `${titulo.slice(0, NC_TITLE_LENGTH - 1)}…` : titulo,
+          descricao: input.descricao || item.comentario || item.descricao,
+          severidade: input.severidade,
+          responsavel: input.responsavel,
+          criadoPor,
+        },
+        run.origem.docId ? { docId: run.origem.docId, versao: run.origem.versao } : undefined,
+        { runId, ordem }
+      );
+
+      transaction.create(this.db.collection('nonConformities').doc(nc.ncId), nc);
+      transaction.set(runRef, {
+        ...run,
+        itens: run.itens.map((atual) => atual.ordem !== ordem ? atual : { ...atual, ncId: nc.ncId }),
+        atualizadoEm: nc.criadoEm,
+      });
+
+      return nc;
+    });
+  }
+
+  /**
+   * Itens e origem a partir de um modelo de norma ativo
+   */
+  private async loadTemplateSource(
+    templateId: string
+  ): Promise<{ titulo: string; origem: ChecklistRunOrigin; itens: ChecklistRunItem[] }> {
+    const snapshot = await this.db.collection('checklistTemplates').doc(templateId).get();
+    if (!snapshot.exists) {
+      throw new NotFoundError('Modelo de checklist', templateId);
+    }
+
+    const template = snapshot.data() as ChecklistTemplate;
+    if (!template.ativo) {
+      throw new ValidationError(`Modelo de checklist ${templateId} está inativo`, { templateId });
+    }
+
+    return {
+      titulo: template.nome,
+      origem: { tipo: 'template', templateId, versao: template.versao, norma: template.norma },
+      itens: itemsFromTemplate(template),
+    };
+  }
+
+  /**
+   * Itens e origem a partir da versão ativa de um documento do tipo Checklist
+   */
+  private async loadDocumentSource(
+    orgId: string,
+    docId: string
+  ): Promise<{ titulo: string; origem: ChecklistRunOrigin; itens: ChecklistRunItem[] }> {
+    const document = await this.documentService.getActiveVersion(docId);
+    if (document.orgId !== orgId) {
+      throw new TenantMismatchError('Documento', docId);
+    }
+    if (document.tipo !== 'Checklist') {
+      throw new ValidationError(`Documento ${docId} não é do tipo Checklist (tipo: ${document.tipo})`, {
+        docId,
+        tipo: document.tipo,
+      });
+    }
+
+    return {
+      titulo: document.titulo,
+      origem: { tipo: 'documento', docId, versao: document.versao },
+      itens: itemsFromDocument(document),
+    };
+  }
+
+  /**
+   * Garante que a execução ainda aceita respostas
+   */
+  private assertInProgress(run: ChecklistRun): void {
+    if (run.status !== 'em_andamento') {
+      throw new ChecklistRunError(run.runId, `Checklist ${run.runId} não está em andamento (status: ${run.status})`, {
+        status: run.status,
+      });
+    }
+  }
+
+  /**
+   * Localiza um item da execução
+   */
+  private findItem(run: ChecklistRun, ordem: number): ChecklistRunItem {
+    const item = run.itens.find((atual) => atual.ordem === ordem);
+    if (!item) {
+      throw new NotFoundError('Item', String(ordem), `Item ${ordem} não encontrado no checklist ${run.runId}`);
+    }
+    return item;
+  }
+
+  /**
+   * Lê, altera e grava a execução em uma transação
+   */
+  private async runUpdate(
+    runId: string,
+    operation: (run: ChecklistRun, now: admin.firestore.Timestamp) => ChecklistRun
+  ): Promise<ChecklistRun> {
+    const ref = this.collection().doc(runId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        throw new NotFoundError('Checklist', runId);
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const updated: ChecklistRun = { ...operation(snapshot.data() as ChecklistRun, now), atualizadoEm: now };
+      transaction.set(ref, updated);
+      return updated;
+    });
+  }
+
+  private collection(): admin.firestore.CollectionReference {
+    return this.db.collection('checklistRuns');
+  }
+}
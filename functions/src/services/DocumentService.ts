@@ -6,8 +6,11 @@
  * 
  * Características:
  * - Multi-tenant com isolamento por orgId
- * - Versionamento semântico de documentos
+ * - Versionamento major/minor conforme o tipo de mudança aprovada
  * - Histórico completo de versões
+ * - Fluxo de revisão com assinaturas por papel (elaborador, revisor, aprovador)
+ * - Transições atômicas em transação, com pré-condição de versão esperada
+ * - Conteúdo estruturado e anexos com verificação de integridade (SHA-256)
  * - Conformidade com normas de qualidade
  */
 
@@ -15,10 +18,33 @@ import * as admin from 'firebase-admin';
 import { v4 as uuidv4 } from 'uuid';
 import {
   Document,
+  DocumentAttachment,
+  DocumentContent,
+  DocumentFieldChange,
   DocumentHistory,
   CreateDocumentInput,
   DocumentStatus,
+  DocumentVersionDiff,
+  IntegrityCheckEntry,
+  IntegrityReport,
+  ReviewDecision,
+  ReviewerAssignment,
+  ReviewSignature,
+  VersionChangeType,
+  VideoRevisionInput,
 } from '../types/document.types';
+import {
+  assertTransition,
+  findPendingSignature,
+  isReviewComplete,
+} from './DocumentWorkflow';
+import { InvalidTransitionError, ReviewSignatureError } from '../errors/WorkflowErrors';
+import { VersionConflictError } from '../errors/ConcurrencyErrors';
+import { NotFoundError, ValidationError } from '../errors/DomainError';
+import { computeContentHash, sha256 } from '../utils/contentHash';
+import { diffContent, diffDocuments, summarizeChanges } from '../utils/documentDiff';
+import { nextVersion, versionSortKey } from '../utils/version';
+import { buildSearchTokens } from '../utils/search';
 
 /**
  * Serviço de gerenciamento de documentos
@@ -37,17 +63,38 @@ export class DocumentService {
    * @returns Documento criado
    */
   async createDocument(input: CreateDocumentInput): Promise<Document> {
+    const document = this.prepareDocument(input);
+
+    // Salvar documento no Firestore
+    await this.db
+      .collection('documents')
+      .doc(document.docId)
+      .set(document);
+
+    return document;
+  }
+
+  /**
+   * Monta um novo documento em 'rascunho' sem gravá-lo
+   * Permite criar o documento dentro da transação de quem chama
+   *
+   * @param input - Dados de entrada para criação do documento
+   * @returns Documento com docId gerado
+   */
+  prepareDocument(input: CreateDocumentInput): Document {
     const docId = uuidv4();
     const now = admin.firestore.Timestamp.now();
 
-    const document: Document = {
+    return {
       docId,
       orgId: input.orgId,
       tipo: input.tipo,
       titulo: input.titulo,
+      tituloBusca: buildSearchTokens(input.titulo),
       status: 'rascunho',
       versao: '0.1',
-      contentHash: input.contentHash,
+      contentHash: computeContentHash(input.conteudo),
+      conteudo: input.conteudo,
       metadata: {
         criadoPor: input.criadoPor,
         dataCriacao: now,
@@ -58,79 +105,582 @@ export class DocumentService {
         impactoMargem: input.impactoMargem || 'baixo',
       },
     };
+  }
 
-    // Salvar documento no Firestore
-    await this.db
-      .collection('documents')
-      .doc(docId)
-      .set(document);
+  /**
+   * Recupera um documento pelo ID
+   *
+   * @param docId - ID do documento
+   * @returns Documento
+   */
+  async getDocument(docId: string): Promise<Document> {
+    return this.getDocumentOrThrow(this.db.collection('documents').doc(docId));
+  }
 
-    return document;
+  /**
+   * Recupera a versão em vigor de um documento
+   * Durante uma nova versão (rascunho ou revisão) a versão ativa é a
+   * arquivada no histórico com a versão atual do documento
+   *
+   * @param docId - ID do documento
+   * @returns Snapshot da versão ativa
+   */
+  async getActiveVersion(docId: string): Promise<Document> {
+    const docRef = this.db.collection('documents').doc(docId);
+    const currentDoc = await this.getDocumentOrThrow(docRef);
+
+    if (currentDoc.status === 'ativo') {
+      return currentDoc;
+    }
+
+    if (currentDoc.status !== 'obsoleto') {
+      // Um rascunho restaurado já traz a próxima versão; a ativa é a que ele substitui
+      const versaoAtiva = currentDoc.restauracao?.versaoAnterior ?? currentDoc.versao;
+      const historySnapshot = await docRef.collection('history').doc(versaoAtiva).get();
+      const snapshot = historySnapshot.exists
+        ? (historySnapshot.data() as DocumentHistory).documentSnapshot
+        : undefined;
+      if (snapshot?.status === 'ativo') {
+        return snapshot;
+      }
+    }
+
+    throw new NotFoundError(
+      'Versão ativa',
+      docId,
+      `Documento ${docId} não possui versão ativa (status ${currentDoc.status})`
+    );
+  }
+
+  /**
+   * Substitui o conteúdo de um documento em rascunho e recalcula o contentHash
+   * Os anexos já enviados são preservados
+   *
+   * @param docId - ID do documento
+   * @param conteudo - Novo conteúdo (seções e etapas)
+   * @returns Documento atualizado
+   */
+  async updateContent(
+    docId: string,
+    conteudo: Omit<DocumentContent, 'anexos'>
+  ): Promise<Document> {
+    const docRef = this.db.collection('documents').doc(docId);
+    const currentDoc = await this.getDocumentOrThrow(docRef);
+
+    this.assertEditable(currentDoc);
+
+    const novoConteudo: DocumentContent = {
+      ...conteudo,
+      ...(currentDoc.conteudo?.anexos ? { anexos: currentDoc.conteudo.anexos } : {}),
+    };
+
+    return this.saveContent(docRef, currentDoc, novoConteudo);
+  }
+
+  /**
+   * Envia um anexo para o Storage e o vincula ao conteúdo do rascunho
+   * Arquivos nunca são sobrescritos: versões arquivadas mantêm seus anexos
+   *
+   * @param docId - ID do documento
+   * @param nome - Nome original do arquivo
+   * @param data - Conteúdo do arquivo
+   * @param contentType - Tipo MIME
+   * @param enviadoPor - ID do usuário
+   * @returns Anexo registrado
+   */
+  async addAttachment(
+    docId: string,
+    nome: string,
+    data: Buffer,
+    contentType: string,
+    enviadoPor: string
+  ): Promise<DocumentAttachment> {
+    const docRef = this.db.collection('documents').doc(docId);
+    const currentDoc = await this.getDocumentOrThrow(docRef);
+
+    this.assertEditable(currentDoc);
+
+    const anexoId = uuidv4();
+    const nomeSeguro = nome.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const storagePath =
+      `companies/${currentDoc.orgId}/documents/${docId}/${anexoId}-${nomeSeguro}`;
+
+    await admin.storage().bucket().file(storagePath).save(data, { contentType });
+
+    const anexo: DocumentAttachment = {
+      anexoId,
+      nome,
+      storagePath,
+      contentType,
+      tamanhoBytes: data.length,
+      sha256: sha256(data),
+      enviadoPor,
+    };
+
+    const conteudo: DocumentContent = {
+      secoes: [],
+      ...currentDoc.conteudo,
+      anexos: [...(currentDoc.conteudo?.anexos || []), anexo],
+    };
+
+    await this.saveContent(docRef, currentDoc, conteudo);
+
+    return anexo;
   }
 
   /**
-   * Aprova um documento, mudando status para 'ativo' e incrementando versão
-   * Arquiva a versão anterior na subcoleção 'history'
+   * Verifica a integridade do documento e de todo o seu histórico
+   * Recalcula o SHA-256 de cada versão e, opcionalmente, dos anexos no Storage
+   *
+   * @param docId - ID do documento
+   * @param verificarAnexos - Também baixar e conferir os arquivos anexos
+   * @returns Relatório com as versões adulteradas sinalizadas
+   */
+  async verifyIntegrity(
+    docId: string,
+    verificarAnexos: boolean = false
+  ): Promise<IntegrityReport> {
+    const docRef = this.db.collection('documents').doc(docId);
+    const currentDoc = await this.getDocumentOrThrow(docRef);
+    const historySnapshot = await docRef.collection('history').get();
+
+    const entradas: IntegrityCheckEntry[] = [
+      await this.checkVersionIntegrity(currentDoc, verificarAnexos),
+    ];
+
+    for (const historyDoc of historySnapshot.docs) {
+      const entry = historyDoc.data() as DocumentHistory;
+      entradas.push({
+        ...(await this.checkVersionIntegrity(entry.documentSnapshot, verificarAnexos)),
+        origem: 'historico',
+        historyId: historyDoc.id,
+      });
+    }
+
+    return {
+      docId,
+      verificadoEm: admin.firestore.Timestamp.now(),
+      integro: entradas.every((entrada) => entrada.integro !== false),
+      naoVerificaveis: entradas.filter((entrada) => entrada.integro === null).length,
+      entradas,
+    };
+  }
+
+  /**
+   * Submete um documento para revisão (rascunho/ativo -> revisao)
+   * O submissor assina automaticamente como elaborador
+   *
+   * @param docId - ID do documento
+   * @param submetidoPor - ID do usuário que submete (elaborador)
+   * @param signatarios - Revisores e aprovadores designados (ao menos um aprovador)
+   * @param versaoEsperada - Pré-condição de concorrência otimista (opcional)
+   * @returns Documento em revisão
+   */
+  async submitForReview(
+    docId: string,
+    submetidoPor: string,
+    signatarios: ReviewerAssignment[],
+    versaoEsperada?: string
+  ): Promise<Document> {
+    return this.runTransition(docId, versaoEsperada, (transaction, docRef, currentDoc) => {
+      assertTransition(currentDoc.status, 'revisao');
+
+      const now = admin.firestore.Timestamp.now();
+
+      // Arquivar versão ativa antes de iniciar a revisão periódica
+      if (currentDoc.status === 'ativo') {
+        this.archiveVersion(
+          transaction,
+          docRef,
+          currentDoc,
+          submetidoPor,
+          'Revisão periódica de documento ativo'
+        );
+      }
+
+      return this.updateInTransaction(
+        transaction,
+        docRef,
+        currentDoc,
+        this.applySubmission(currentDoc, submetidoPor, signatarios, now)
+      );
+    });
+  }
+
+  /**
+   * Registra a decisão de um signatário na rodada de revisão atual
+   * Uma rejeição devolve o documento para 'rascunho'
+   *
+   * @param docId - ID do documento
+   * @param userId - ID do signatário
+   * @param decisao - 'aprovado' ou 'rejeitado'
+   * @param comentario - Comentário do signatário (opcional)
+   * @returns Documento com a decisão registrada
+   */
+  async recordReviewDecision(
+    docId: string,
+    userId: string,
+    decisao: ReviewDecision,
+    comentario?: string
+  ): Promise<Document> {
+    return this.runTransition(docId, undefined, (transaction, docRef, currentDoc) => {
+      if (currentDoc.status !== 'revisao' || !currentDoc.revisao) {
+        throw new ReviewSignatureError(userId, `Documento ${docId} não está em revisão`);
+      }
+
+      const pendente = findPendingSignature(currentDoc.revisao, userId);
+      const now = admin.firestore.Timestamp.now();
+
+      const assinaturas = currentDoc.revisao.assinaturas.map((assinatura) =>
+        assinatura === pendente
+          ? {
+            ...assinatura,
+            decisao,
+            assinadoEm: now,
+            ...(comentario ? { comentario } : {}),
+          }
+          : assinatura
+      );
+
+      let status: DocumentStatus = currentDoc.status;
+      if (decisao === 'rejeitado') {
+        assertTransition(currentDoc.status, 'rascunho');
+        status = 'rascunho';
+      }
+
+      return this.updateInTransaction(transaction, docRef, currentDoc, {
+        status,
+        revisao: {
+          ...currentDoc.revisao,
+          assinaturas,
+        },
+      });
+    });
+  }
+
+  /**
+   * Aprova um documento em revisão, mudando status para 'ativo' e incrementando versão
+   * Exige que todas as assinaturas da rodada atual estejam aprovadas
+   * Executado em transação: aprovações concorrentes não arquivam nem
+   * incrementam a mesma versão duas vezes
    * 
    * @param docId - ID do documento a ser aprovado
-   * @param aprovadoPor - ID do usuário aprovador
+   * @param aprovadoPor - ID do usuário aprovador (signatário com papel aprovador)
    * @param motivoMudanca - Motivo da aprovação/mudança (opcional)
+   * @param tipoMudanca - Tipo da mudança: editorial (minor), substantiva ou reemissao (major)
+   * @param versaoEsperada - Pré-condição: versão lida pelo cliente (lança VersionConflictError se divergir)
    * @returns Documento aprovado com nova versão
    */
   async approveDocument(
     docId: string,
     aprovadoPor: string,
-    motivoMudanca?: string
+    motivoMudanca?: string,
+    tipoMudanca: VersionChangeType = 'substantiva',
+    versaoEsperada?: string
   ): Promise<Document> {
-    const docRef = this.db.collection('documents').doc(docId);
-    const docSnapshot = await docRef.get();
+    return this.runTransition(docId, versaoEsperada, async (transaction, docRef, currentDoc) => {
+      // Validar se documento pode ser aprovado
+      assertTransition(currentDoc.status, 'ativo');
 
-    if (!docSnapshot.exists) {
-      throw new Error(`Documento ${docId} não encontrado`);
-    }
+      const revisao = currentDoc.revisao;
+      if (!revisao || !isReviewComplete(revisao)) {
+        throw new InvalidTransitionError(
+          currentDoc.status,
+          'ativo',
+          'assinaturas da revisão pendentes'
+        );
+      }
 
-    const currentDoc = docSnapshot.data() as Document;
+      const isAprovador = revisao.assinaturas.some(
+        (assinatura) => assinatura.papel === 'aprovador' && assinatura.userId === aprovadoPor
+      );
+      if (!isAprovador) {
+        throw new ReviewSignatureError(
+          aprovadoPor,
+          `Usuário ${aprovadoPor} não é aprovador designado da rodada ${revisao.rodada}`
+        );
+      }
 
-    // Validar se documento pode ser aprovado
-    if (currentDoc.status === 'obsoleto') {
-      throw new Error('Não é possível aprovar um documento obsoleto');
-    }
+      // Uma restauração é sempre substantiva: o rascunho já traz a versão que será publicada
+      if (currentDoc.restauracao && tipoMudanca !== 'substantiva') {
+        throw new ValidationError(
+          `Rascunho restaurado do documento ${docId} só pode ser aprovado como mudança substantiva ` +
+          `(versão ${currentDoc.versao})`,
+          { docId, tipoMudanca, versao: currentDoc.versao }
+        );
+      }
 
-    // Incrementar versão (0.1 -> 1.0, 1.0 -> 2.0)
-    const newVersion = this.incrementVersion(currentDoc.versao);
-    const now = admin.firestore.Timestamp.now();
+      // Reemissão controlada exige conteúdo idêntico ao da versão arquivada
+      if (tipoMudanca === 'reemissao') {
+        const archived = await transaction.get(
+          docRef.collection('history').doc(currentDoc.versao)
+        );
+        const archivedDoc = (archived.data() as DocumentHistory | undefined)?.documentSnapshot;
 
-    // Arquivar versão anterior se já foi ativo
-    if (currentDoc.status === 'ativo') {
-      const historyEntry: DocumentHistory = {
-        docId: currentDoc.docId,
-        versao: currentDoc.versao,
-        documentSnapshot: currentDoc,
-        arquivadoEm: now,
-        aprovadoPor,
-        motivoMudanca,
+        if (!archivedDoc || archivedDoc.contentHash !== currentDoc.contentHash) {
+          throw new InvalidTransitionError(
+            currentDoc.status,
+            'ativo',
+            'reemissão exige conteúdo inalterado em relação à versão ativa anterior'
+          );
+        }
+      }
+
+      // Incrementar versão (0.x -> 1.0; editorial 1.0 -> 1.1; substantiva/reemissão 1.1 -> 2.0)
+      const newVersion = currentDoc.restauracao
+        ? currentDoc.versao
+        : nextVersion(currentDoc.versao, tipoMudanca);
+      const now = admin.firestore.Timestamp.now();
+
+      // Atualizar documento para status ativo; a restauração fica registrada no histórico
+      const { restauracao, ...base } = currentDoc;
+      const updatedDoc: Document = {
+        ...base,
+        status: 'ativo',
+        versao: newVersion,
+        aprovacao: {
+          aprovadoPor,
+          aprovadoEm: now,
+          tipoMudanca,
+          ...(motivoMudanca ? { motivoMudanca } : {}),
+        },
+        metadata: {
+          ...currentDoc.metadata,
+          ultimaRevisao: now,
+        },
       };
 
-      await docRef
-        .collection('history')
-        .doc(currentDoc.versao)
-        .set(historyEntry);
-    }
+      transaction.set(docRef, updatedDoc);
 
-    // Atualizar documento para status ativo
-    const updatedDoc: Document = {
-      ...currentDoc,
-      status: 'ativo',
-      versao: newVersion,
-      metadata: {
-        ...currentDoc.metadata,
-        ultimaRevisao: now,
-      },
-    };
+      return updatedDoc;
+    });
+  }
 
-    await docRef.update(updatedDoc as any);
+  /**
+   * Abre uma nova versão de um documento ativo para edição (ativo -> rascunho)
+   * A versão ativa é arquivada na subcoleção 'history'
+   *
+   * @param docId - ID do documento
+   * @param solicitadoPor - ID do usuário que abre a revisão
+   * @param motivo - Motivo da nova versão (opcional)
+   * @param versaoEsperada - Pré-condição de concorrência otimista (opcional)
+   * @returns Documento em rascunho
+   */
+  async startRevision(
+    docId: string,
+    solicitadoPor: string,
+    motivo?: string,
+    versaoEsperada?: string
+  ): Promise<Document> {
+    return this.runTransition(docId, versaoEsperada, (transaction, docRef, currentDoc) => {
+      assertTransition(currentDoc.status, 'rascunho');
 
-    return updatedDoc;
+      if (currentDoc.status === 'ativo') {
+        this.archiveVersion(
+          transaction,
+          docRef,
+          currentDoc,
+          solicitadoPor,
+          motivo || 'Nova versão aberta para edição'
+        );
+      }
+
+      return this.updateInTransaction(transaction, docRef, currentDoc, {
+        status: 'rascunho',
+        metadata: {
+          ...currentDoc.metadata,
+          ultimaRevisao: admin.firestore.Timestamp.now(),
+        },
+      });
+    });
+  }
+
+  /**
+   * Abre um rascunho com o conteúdo de uma nova extração do vídeo vinculado
+   * Documento ativo tem a versão arquivada; em revisão volta para rascunho
+   * (as assinaturas da rodada deixam de valer). Repetir a mesma extração,
+   * ou aplicar uma sem alterações de conteúdo, não altera o documento
+   *
+   * @param docId - ID do documento vinculado ao vídeo
+   * @param input - Extração, conteúdo e métricas da nova versão
+   * @returns Documento e alterações aplicadas (vazia se nada mudou)
+   */
+  async applyVideoRevision(
+    docId: string,
+    input: VideoRevisionInput
+  ): Promise<{ document: Document; alteracoes: DocumentFieldChange[] }> {
+    let alteracoes: DocumentFieldChange[] = [];
+
+    const document = await this.runTransition(docId, undefined, (transaction, docRef, currentDoc) => {
+      alteracoes = [];
+      if (currentDoc.videoExtraidoEm?.isEqual(input.extraidoEm)) {
+        return currentDoc;
+      }
+
+      const conteudo: DocumentContent = {
+        ...input.conteudoPara(currentDoc.conteudo),
+        ...(currentDoc.conteudo?.anexos ? { anexos: currentDoc.conteudo.anexos } : {}),
+      };
+      alteracoes = diffContent(currentDoc.conteudo, conteudo);
+      if (alteracoes.length === 0) {
+        return currentDoc;
+      }
+
+      if (currentDoc.status !== 'rascunho') {
+        assertTransition(currentDoc.status, 'rascunho', 'atualização pelo vídeo vinculado');
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const resumo = summarizeChanges(alteracoes);
+
+      if (currentDoc.status === 'ativo') {
+        this.archiveVersion(
+          transaction,
+          docRef,
+          currentDoc,
+          input.solicitadoPor,
+          `Atualização pelo vídeo ${input.videoId}: ${resumo}`
+        );
+      }
+
+      // O rascunho passa a refletir a extração, não uma restauração anterior
+      const { restauracao, ...base } = currentDoc;
+      const versaoBase = restauracao?.versaoAnterior ?? currentDoc.versao;
+      const updatedDoc: Document = {
+        ...base,
+        versao: versaoBase,
+        status: 'rascunho',
+        conteudo,
+        contentHash: computeContentHash(conteudo),
+        axiomaMetrics: input.axiomaMetrics,
+        videoId: input.videoId,
+        ...(input.videoPath ? { videoPath: input.videoPath } : {}),
+        videoExtraidoEm: input.extraidoEm,
+        atualizacaoVideo: {
+          videoId: input.videoId,
+          extraidoEm: input.extraidoEm,
+          versaoAnterior: versaoBase,
+          atualizadoPor: input.solicitadoPor,
+          atualizadoEm: now,
+          resumo,
+          alteracoes,
+        },
+        metadata: {
+          ...currentDoc.metadata,
+          ultimaRevisao: now,
+        },
+      };
+
+      transaction.set(docRef, updatedDoc);
+
+      return updatedDoc;
+    });
+
+    return { document, alteracoes };
+  }
+
+  /**
+   * Restaura uma versão arquivada como novo rascunho (rollback)
+   * O estado atual é arquivado antes, registrando a restauração no histórico.
+   * O rascunho restaurado recebe a próxima versão substantiva, que é a versão
+   * publicada na aprovação (restaurações são sempre mudanças substantivas)
+   *
+   * @param docId - ID do documento
+   * @param versao - ID da entrada do histórico a restaurar (ex: '2.0')
+   * @param userId - ID do usuário que solicita a restauração
+   * @param motivo - Motivo da restauração
+   * @param signatarios - Se informado, submete o rascunho restaurado para revisão
+   * @param versaoEsperada - Pré-condição de concorrência otimista (opcional)
+   * @returns Documento restaurado
+   */
+  async restoreVersion(
+    docId: string,
+    versao: string,
+    userId: string,
+    motivo: string,
+    signatarios?: ReviewerAssignment[],
+    versaoEsperada?: string
+  ): Promise<Document> {
+    return this.runTransition(docId, versaoEsperada, async (transaction, docRef, currentDoc) => {
+      if (currentDoc.status !== 'rascunho') {
+        assertTransition(currentDoc.status, 'rascunho', 'restauração de versão');
+      }
+
+      const historySnapshot = await transaction.get(docRef.collection('history').doc(versao));
+      if (!historySnapshot.exists) {
+        throw new NotFoundError(
+          'Versão',
+          versao,
+          `Versão ${versao} do documento ${docId} não encontrada no histórico`
+        );
+      }
+
+      const snapshot = (historySnapshot.data() as DocumentHistory).documentSnapshot;
+
+      // Não restaurar snapshots adulterados
+      if (snapshot.conteudo && computeContentHash(snapshot.conteudo) !== snapshot.contentHash) {
+        throw new ValidationError(
+          `Versão ${versao} do documento ${docId} falhou na verificação de integridade`,
+          { docId, versao }
+        );
+      }
+
+      const now = admin.firestore.Timestamp.now();
+
+      // Arquivar estado atual; versões não ativas recebem chave própria de restauração
+      const historyId = currentDoc.status === 'ativo'
+        ? currentDoc.versao
+        : `restauracao-${currentDoc.versao}-${now.toMillis()}`;
+
+      this.archiveVersion(
+        transaction,
+        docRef,
+        currentDoc,
+        userId,
+        `Restauração da versão ${snapshot.versao}: ${motivo}`,
+        historyId,
+        snapshot.versao
+      );
+
+      // Restaurar sobre um rascunho já restaurado mantém a versão substituída original
+      const versaoAnterior = currentDoc.restauracao?.versaoAnterior ?? currentDoc.versao;
+
+      // Campos opcionais seguem o snapshot (ausentes no snapshot são removidos)
+      const { conteudo, videoId, videoPath, ...base } = currentDoc;
+      let restoredDoc: Document = {
+        ...base,
+        versao: nextVersion(versaoAnterior, 'substantiva'),
+        tipo: snapshot.tipo,
+        titulo: snapshot.titulo,
+        tituloBusca: buildSearchTokens(snapshot.titulo),
+        contentHash: snapshot.contentHash,
+        axiomaMetrics: snapshot.axiomaMetrics,
+        status: 'rascunho',
+        restauracao: {
+          versaoRestaurada: snapshot.versao,
+          historyId: versao,
+          restauradoPor: userId,
+          restauradoEm: now,
+          motivo,
+          versaoAnterior,
+        },
+        metadata: {
+          ...currentDoc.metadata,
+          ultimaRevisao: now,
+        },
+        ...(snapshot.conteudo ? { conteudo: snapshot.conteudo } : {}),
+        ...(snapshot.videoId ? { videoId: snapshot.videoId } : {}),
+        ...(snapshot.videoPath ? { videoPath: snapshot.videoPath } : {}),
+      };
+
+      if (signatarios) {
+        restoredDoc = this.applySubmission(restoredDoc, userId, signatarios, now);
+      }
+
+      transaction.set(docRef, restoredDoc);
+
+      return restoredDoc;
+    });
   }
 
   /**
@@ -139,50 +689,40 @@ export class DocumentService {
    * 
    * @param docId - ID do documento
    * @param motivoObsolescencia - Motivo da obsolescência
+   * @param versaoEsperada - Pré-condição de concorrência otimista (opcional)
+   * @param responsavel - Usuário responsável (padrão: 'SYSTEM')
    * @returns Documento marcado como obsoleto
    */
   async obsoleteDocument(
     docId: string,
-    motivoObsolescencia?: string
+    motivoObsolescencia?: string,
+    versaoEsperada?: string,
+    responsavel: string = 'SYSTEM'
   ): Promise<Document> {
-    const docRef = this.db.collection('documents').doc(docId);
-    const docSnapshot = await docRef.get();
-
-    if (!docSnapshot.exists) {
-      throw new Error(`Documento ${docId} não encontrado`);
-    }
+    return this.runTransition(docId, versaoEsperada, (transaction, docRef, currentDoc) => {
+      assertTransition(currentDoc.status, 'obsoleto');
 
-    const currentDoc = docSnapshot.data() as Document;
-    const now = admin.firestore.Timestamp.now();
-
-    // Arquivar estado atual antes de tornar obsoleto
-    const historyEntry: DocumentHistory = {
-      docId: currentDoc.docId,
-      versao: currentDoc.versao,
-      documentSnapshot: currentDoc,
-      arquivadoEm: now,
-      aprovadoPor: 'SYSTEM',
-      motivoMudanca: motivoObsolescencia || 'Documento marcado como obsoleto',
-    };
+      const now = admin.firestore.Timestamp.now();
 
-    await docRef
-      .collection('history')
-      .doc(`obsoleto-${currentDoc.versao}`)
-      .set(historyEntry);
+      // Arquivar estado atual antes de tornar obsoleto
+      this.archiveVersion(
+        transaction,
+        docRef,
+        currentDoc,
+        responsavel,
+        motivoObsolescencia || 'Documento marcado como obsoleto',
+        `obsoleto-${currentDoc.versao}`
+      );
 
-    // Atualizar documento para status obsoleto
-    const updatedDoc: Document = {
-      ...currentDoc,
-      status: 'obsoleto',
-      metadata: {
-        ...currentDoc.metadata,
-        ultimaRevisao: now,
-      },
-    };
-
-    await docRef.update(updatedDoc as any);
-
-    return updatedDoc;
+      // Atualizar documento para status obsoleto
+      return this.updateInTransaction(transaction, docRef, currentDoc, {
+        status: 'obsoleto',
+        metadata: {
+          ...currentDoc.metadata,
+          ultimaRevisao: now,
+        },
+      });
+    });
   }
 
   /**
@@ -220,7 +760,7 @@ export class DocumentService {
    * Recupera o histórico de versões de um documento
    * 
    * @param docId - ID do documento
-   * @returns Lista de versões históricas ordenadas por data
+   * @returns Lista de versões históricas, da mais recente para a mais antiga
    */
   async getDocumentHistory(docId: string): Promise<DocumentHistory[]> {
     const historySnapshot = await this.db
@@ -235,25 +775,318 @@ export class DocumentService {
       history.push(doc.data() as DocumentHistory);
     });
 
+    // Ordenação numérica por versão ('10.0' antes de '9.0'), calculada de
+    // `versao` (entradas legadas não têm `versaoOrdem`); a ordenação é
+    // estável, então entradas da mesma versão mantêm a ordem por data
+    history.sort((a, b) => versionSortKey(b.versao).localeCompare(versionSortKey(a.versao)));
+
     return history;
   }
 
   /**
-   * Incrementa a versão do documento seguindo semver simplificado
-   * 
-   * @param currentVersion - Versão atual (ex: '0.1', '1.0', '2.3')
-   * @returns Nova versão incrementada
+   * Compara duas versões de um documento campo a campo
+   * Cada versão pode ser o ID de uma entrada do histórico (ex: '2.0',
+   * 'obsoleto-1.0'), a versão atual do documento ou 'atual'
+   *
+   * @param docId - ID do documento
+   * @param de - Versão de origem
+   * @param para - Versão de destino
+   * @returns Lista estruturada de alterações
+   */
+  async compareVersions(
+    docId: string,
+    de: string,
+    para: string
+  ): Promise<DocumentVersionDiff> {
+    const docRef = this.db.collection('documents').doc(docId);
+    const currentDoc = await this.getDocumentOrThrow(docRef);
+
+    const [anterior, atual] = await Promise.all([
+      this.resolveVersion(docRef, currentDoc, de),
+      this.resolveVersion(docRef, currentDoc, para),
+    ]);
+
+    return {
+      docId,
+      de,
+      para,
+      alteracoes: diffDocuments(anterior, atual),
+    };
+  }
+
+  /**
+   * Lê um documento, lançando erro se não existir
+   */
+  private async getDocumentOrThrow(
+    docRef: admin.firestore.DocumentReference
+  ): Promise<Document> {
+    const docSnapshot = await docRef.get();
+
+    if (!docSnapshot.exists) {
+      throw new NotFoundError('Documento', docRef.id);
+    }
+
+    return docSnapshot.data() as Document;
+  }
+
+  /**
+   * Resolve uma referência de versão para o snapshot correspondente
+   * Entradas do histórico têm precedência sobre o documento atual
+   */
+  private async resolveVersion(
+    docRef: admin.firestore.DocumentReference,
+    currentDoc: Document,
+    versao: string
+  ): Promise<Document> {
+    if (versao === 'atual') {
+      return currentDoc;
+    }
+
+    const historySnapshot = await docRef.collection('history').doc(versao).get();
+    if (historySnapshot.exists) {
+      return (historySnapshot.data() as DocumentHistory).documentSnapshot;
+    }
+
+    if (currentDoc.versao === versao) {
+      return currentDoc;
+    }
+
+    throw new NotFoundError(
+      'Versão',
+      versao,
+      `Versão ${versao} do documento ${docRef.id} não encontrada`
+    );
+  }
+
+  /**
+   * Garante que o conteúdo pode ser editado (somente em 'rascunho')
+   */
+  private assertEditable(document: Document): void {
+    if (document.status !== 'rascunho') {
+      throw new InvalidTransitionError(
+        document.status,
+        document.status,
+        'conteúdo só pode ser editado em rascunho'
+      );
+    }
+  }
+
+  /**
+   * Grava o conteúdo e o contentHash recalculado
+   */
+  private async saveContent(
+    docRef: admin.firestore.DocumentReference,
+    currentDoc: Document,
+    conteudo: DocumentContent
+  ): Promise<Document> {
+    const changes: Partial<Document> = {
+      conteudo,
+      contentHash: computeContentHash(conteudo),
+      metadata: {
+        ...currentDoc.metadata,
+        ultimaRevisao: admin.firestore.Timestamp.now(),
+      },
+    };
+
+    await docRef.update(changes);
+
+    return { ...currentDoc, ...changes };
+  }
+
+  /**
+   * Recalcula o hash de uma versão e confere seus anexos
    */
-  private incrementVersion(currentVersion: string): string {
-    const parts = currentVersion.split('.');
-    const major = parseInt(parts[0], 10);
+  private async checkVersionIntegrity(
+    document: Document,
+    verificarAnexos: boolean
+  ): Promise<IntegrityCheckEntry> {
+    // Documentos legados (anteriores ao conteúdo estruturado) não têm o que recalcular
+    if (!document.conteudo || !document.contentHash) {
+      return {
+        origem: 'documento',
+        versao: document.versao,
+        ...(document.contentHash ? { esperado: document.contentHash } : {}),
+        integro: null,
+      };
+    }
+
+    const calculado = computeContentHash(document.conteudo);
+    const anexosAlterados: string[] = [];
+
+    if (verificarAnexos) {
+      for (const anexo of document.conteudo.anexos || []) {
+        const file = admin.storage().bucket().file(anexo.storagePath);
+        const [exists] = await file.exists();
+        const data = exists ? (await file.download())[0] : null;
 
-    // Se versão é 0.x (rascunho), vai para 1.0
-    if (major === 0) {
-      return '1.0';
+        // Arquivo removido também conta como adulteração
+        if (!data || sha256(data) !== anexo.sha256) {
+          anexosAlterados.push(anexo.storagePath);
+        }
+      }
     }
 
-    // Caso contrário, incrementa major
-    return `${major + 1}.0`;
+    return {
+      origem: 'documento',
+      versao: document.versao,
+      esperado: document.contentHash,
+      calculado,
+      integro: calculado === document.contentHash && anexosAlterados.length === 0,
+      ...(verificarAnexos ? { anexosAlterados } : {}),
+    };
+  }
+
+  /**
+   * Executa uma transição de estado em transação Firestore
+   * A leitura do documento e todas as escritas (histórico e documento)
+   * são confirmadas atomicamente; transações concorrentes são reexecutadas
+   * sobre o estado mais recente
+   *
+   * @param docId - ID do documento
+   * @param versaoEsperada - Se informada, a versão atual deve coincidir
+   * @param operation - Validações e escritas da transição
+   */
+  private async runTransition(
+    docId: string,
+    versaoEsperada: string | undefined,
+    operation: (
+      transaction: admin.firestore.Transaction,
+      docRef: admin.firestore.DocumentReference,
+      currentDoc: Document
+    ) => Document | Promise<Document>
+  ): Promise<Document> {
+    const docRef = this.db.collection('documents').doc(docId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const docSnapshot = await transaction.get(docRef);
+
+      if (!docSnapshot.exists) {
+        throw new NotFoundError('Documento', docId);
+      }
+
+      const currentDoc = docSnapshot.data() as Document;
+
+      if (versaoEsperada !== undefined && currentDoc.versao !== versaoEsperada) {
+        throw new VersionConflictError(docId, versaoEsperada, currentDoc.versao);
+      }
+
+      return operation(transaction, docRef, currentDoc);
+    });
+  }
+
+  /**
+   * Grava na transação apenas os campos alterados pela transição
+   *
+   * @returns Documento resultante
+   */
+  private updateInTransaction(
+    transaction: admin.firestore.Transaction,
+    docRef: admin.firestore.DocumentReference,
+    currentDoc: Document,
+    changes: Partial<Document>
+  ): Document {
+    transaction.update(docRef, changes);
+
+    return { ...currentDoc, ...changes };
+  }
+
+  /**
+   * Aplica a submissão para revisão sobre um estado do documento
+   * O submissor assina automaticamente como elaborador
+   */
+  private applySubmission(
+    currentDoc: Document,
+    submetidoPor: string,
+    signatarios: ReviewerAssignment[],
+    now: admin.firestore.Timestamp
+  ): Document {
+    if (!signatarios.some((signatario) => signatario.papel === 'aprovador')) {
+      throw new ReviewSignatureError(
+        submetidoPor,
+        'A revisão requer ao menos um signatário com papel aprovador'
+      );
+    }
+
+    // Segregação de funções: quem elabora não revisa nem aprova, e cada
+    // signatário ocupa um único papel na rodada
+    if (signatarios.some((signatario) => signatario.userId === submetidoPor)) {
+      throw new ValidationError(
+        `O elaborador ${submetidoPor} não pode ser revisor ou aprovador do próprio documento`,
+        { userId: submetidoPor }
+      );
+    }
+    const duplicados = signatarios
+      .map((signatario) => signatario.userId)
+      .filter((userId, index, userIds) => userIds.indexOf(userId) !== index);
+    if (duplicados.length > 0) {
+      throw new ValidationError(
+        `Signatários repetidos na revisão: ${[...new Set(duplicados)].join(', ')}`,
+        { duplicados: [...new Set(duplicados)] }
+      );
+    }
+
+    const assinaturas: ReviewSignature[] = [
+      {
+        userId: submetidoPor,
+        papel: 'elaborador',
+        decisao: 'aprovado',
+        assinadoEm: now,
+      },
+      ...signatarios.map((signatario) => ({
+        userId: signatario.userId,
+        papel: signatario.papel,
+      })),
+    ];
+
+    return {
+      ...currentDoc,
+      status: 'revisao',
+      revisao: {
+        rodada: (currentDoc.revisao?.rodada || 0) + 1,
+        submetidoPor,
+        submetidoEm: now,
+        assinaturas,
+      },
+      metadata: {
+        ...currentDoc.metadata,
+        ultimaRevisao: now,
+      },
+    };
+  }
+
+  /**
+   * Arquiva o estado atual do documento na subcoleção 'history'
+   * A escrita é feita na transação da transição que originou o arquivamento
+   *
+   * @param transaction - Transação em andamento
+   * @param docRef - Referência do documento
+   * @param currentDoc - Estado a ser arquivado
+   * @param responsavel - Usuário responsável pela transição
+   * @param motivoMudanca - Motivo do arquivamento
+   * @param historyId - ID da entrada (padrão: versão atual)
+   * @param versaoRestaurada - Versão que substitui este estado (restauração)
+   */
+  private archiveVersion(
+    transaction: admin.firestore.Transaction,
+    docRef: admin.firestore.DocumentReference,
+    currentDoc: Document,
+    responsavel: string,
+    motivoMudanca?: string,
+    historyId: string = currentDoc.versao,
+    versaoRestaurada?: string
+  ): void {
+    const historyEntry: DocumentHistory = {
+      docId: currentDoc.docId,
+      versao: currentDoc.versao,
+      versaoOrdem: versionSortKey(currentDoc.versao),
+      documentSnapshot: currentDoc,
+      arquivadoEm: admin.firestore.Timestamp.now(),
+      aprovadoPor: responsavel,
+      motivoMudanca,
+      ...(versaoRestaurada ? { versaoRestaurada } : {}),
+    };
+
+    // create() falha se a entrada já existir: uma versão nunca é arquivada duas vezes
+    transaction.create(docRef.collection('history').doc(historyId), historyEntry);
   }
 }
@@ -0,0 +1,99 @@
+/**
+ * DocumentWorkflow - Máquina de Estados do Ciclo de Vida do Documento
+ *
+ * Define as transições permitidas entre status e as regras de
+ * assinatura da rodada de revisão (elaborador -> revisor -> aprovador).
+ */
+
+import {
+  DocumentReview,
+  DocumentStatus,
+  ReviewRole,
+  ReviewSignature,
+} from '../types/document.types';
+import { InvalidTransitionError, ReviewSignatureError } from '../errors/WorkflowErrors';
+
+/**
+ * Transições permitidas a partir de cada status
+ *
+ * - rascunho -> revisao: submissão para revisão
+ * - revisao -> rascunho: rejeição por um signatário
+ * - revisao -> ativo: aprovação com todas as assinaturas
+ * - ativo -> revisao: revisão periódica sem alteração de conteúdo
+ * - ativo -> rascunho: abertura de nova versão para edição
+ * - qualquer status não obsoleto -> obsoleto
+ */
+export const DOCUMENT_TRANSITIONS: Record<DocumentStatus, DocumentStatus[]> = {
+  rascunho: ['revisao', 'obsoleto'],
+  revisao: ['rascunho', 'ativo', 'obsoleto'],
+  ativo: ['revisao', 'rascunho', 'obsoleto'],
+  obsoleto: [],
+};
+
+/**
+ * Ordem das etapas de assinatura
+ */
+const ROLE_ORDER: Record<ReviewRole, number> = {
+  elaborador: 1,
+  revisor: 2,
+  aprovador: 3,
+};
+
+/**
+ * Verifica se a transição é permitida
+ */
+export function canTransition(from: DocumentStatus, to: DocumentStatus): boolean {
+  return DOCUMENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Garante que a transição é permitida, lançando InvalidTransitionError caso contrário
+ */
+export function assertTransition(
+  from: DocumentStatus,
+  to: DocumentStatus,
+  detalhe?: string
+): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to, detalhe);
+  }
+}
+
+/**
+ * Verifica se todas as assinaturas da rodada foram aprovadas
+ */
+export function isReviewComplete(review: DocumentReview): boolean {
+  return review.assinaturas.every((assinatura) => assinatura.decisao === 'aprovado');
+}
+
+/**
+ * Localiza a assinatura pendente do usuário, respeitando a ordem das etapas
+ * Um aprovador só pode assinar depois que todos os revisores aprovaram
+ */
+export function findPendingSignature(
+  review: DocumentReview,
+  userId: string
+): ReviewSignature {
+  const pendentes = review.assinaturas.filter((assinatura) => !assinatura.decisao);
+  const assinatura = pendentes.find((item) => item.userId === userId);
+
+  if (!assinatura) {
+    throw new ReviewSignatureError(
+      userId,
+      `Usuário ${userId} não possui assinatura pendente na rodada ${review.rodada}`
+    );
+  }
+
+  const etapaAnteriorPendente = pendentes.some(
+    (item) => ROLE_ORDER[item.papel] < ROLE_ORDER[assinatura.papel]
+  );
+
+  if (etapaAnteriorPendente) {
+    throw new ReviewSignatureError(
+      userId,
+      `Assinatura de ${assinatura.papel} aguarda a conclusão das etapas anteriores`
+    );
+  }
+
+  return assinatura;
+}
@@ -0,0 +1,143 @@
+/**
+ * ExecutionTimeService - Tempos de Execução de POPs
+ *
+ * Registra quanto tempo cada execução de um procedimento levou e
+ * compara as execuções recentes com o tempo estimado do documento
+ * (indicador 'tempo_execucao > tempo_estimado * 1.5', regra 'tempo-execucao').
+ */
+
+import * as admin from 'firebase-admin';
+import { v4 as uuidv4 } from 'uuid';
+import { Document, ExecutionRecord } from '../types/document.types';
+import { AnalysisThresholds } from '../types/axioma.types';
+import { NotFoundError, ValidationError } from '../errors/DomainError';
+import { parseDuration } from '../utils/duration';
+
+/**
+ * Execuções recentes consideradas na análise
+ */
+export const RECENT_EXECUTIONS = 10;
+
+/**
+ * Resumo das execuções recentes frente ao tempo estimado
+ */
+export interface ExecutionOverrun {
+  tempoEstimadoSegundos: number;
+  tempoExecucaoMedianoSegundos: number;
+  /** Mediana de tempo de execução ÷ tempo estimado */
+  razao: number;
+  execucoes: number;
+  execucoesComExcesso: number;
+  /** Excesso consistente: mediana acima do limite com amostras suficientes */
+  excedeu: boolean;
+}
+
+/**
+ * Mediana de uma lista não vazia
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Compara as execuções com o tempo estimado
+ * A mediana evita que uma única execução atípica marque o procedimento
+ *
+ * @returns null quando não há tempo estimado ou execuções
+ */
+export function summarizeExecutions(
+  tempoEstimadoSegundos: number | null,
+  execucoes: Pick<ExecutionRecord, 'duracaoSegundos'>[],
+  thresholds: Pick<AnalysisThresholds, 'maxExecutionTimeRatio' | 'minExecutionSamples'>
+): ExecutionOverrun | null {
+  if (!tempoEstimadoSegundos || execucoes.length === 0) {
+    return null;
+  }
+
+  const duracoes = execucoes.map((execucao) => execucao.duracaoSegundos);
+  const mediana = median(duracoes);
+  const razao = Math.round((mediana / tempoEstimadoSegundos) * 100) / 100;
+  const limite = tempoEstimadoSegundos * thresholds.maxExecutionTimeRatio;
+
+  return {
+    tempoEstimadoSegundos,
+    tempoExecucaoMedianoSegundos: mediana,
+    razao,
+    execucoes: duracoes.length,
+    execucoesComExcesso: duracoes.filter((duracao) => duracao > limite).length,
+    excedeu:
+      duracoes.length >= Math.max(1, thresholds.minExecutionSamples) &&
+      razao > thresholds.maxExecutionTimeRatio,
+  };
+}
+
+/**
+ * Serviço de registro de tempos de execução
+ */
+export class ExecutionTimeService {
+  private db: admin.firestore.Firestore;
+
+  constructor() {
+    this.db = admin.firestore();
+  }
+
+  /**
+   * Registra uma execução do procedimento
+   *
+   * @param docId - Documento (POP) executado
+   * @param duracao - Duração em texto ('15 min', '00:12:30', '1h20') ou em segundos
+   * @param registradoPor - Usuário que registrou a execução
+   * @param observacao - Observação opcional
+   */
+  async recordExecution(
+    docId: string,
+    duracao: string | number,
+    registradoPor: string,
+    observacao?: string
+  ): Promise<ExecutionRecord> {
+    const duracaoSegundos = typeof duracao === 'number' ? Math.round(duracao) : parseDuration(duracao);
+
+    if (duracaoSegundos === null || !Number.isFinite(duracaoSegundos) || duracaoSegundos <= 0) {
+      throw new ValidationError(`Duração inválida: ${duracao}`, { campo: 'duracao' });
+    }
+
+    const docRef = this.db.collection('documents').doc(docId);
+    const docSnapshot = await docRef.get();
+    if (!docSnapshot.exists) {
+      throw new NotFoundError('Documento', docId);
+    }
+    const document = docSnapshot.data() as Document;
+
+    const record: ExecutionRecord = {
+      execucaoId: uuidv4(),
+      docId,
+      orgId: document.orgId,
+      versao: document.versao,
+      duracaoSegundos,
+      duracaoInformada: String(duracao),
+      registradoPor,
+      registradoEm: admin.firestore.Timestamp.now(),
+      ...(observacao ? { observacao } : {}),
+    };
+
+    await docRef.collection('executions').doc(record.execucaoId).set(record);
+    return record;
+  }
+
+  /**
+   * Execuções mais recentes do documento
+   */
+  async getRecentExecutions(docId: string, limit: number = RECENT_EXECUTIONS): Promise<ExecutionRecord[]> {
+    const snapshot = await this.db
+      .collection('documents')
+      .doc(docId)
+      .collection('executions')
+      .orderBy('registradoEm', 'desc')
+      .limit(Math.floor(limit))
+      .get();
+
+    return snapshot.docs.map((doc) => doc.data() as ExecutionRecord);
+  }
+}
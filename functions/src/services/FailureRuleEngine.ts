@@ -0,0 +1,278 @@
+/**
+ * FailureRuleEngine - Regras de Revisão (failureIndicators)
+ *
+ * Avalia as regras declarativas da análise preditiva sobre as métricas do
+ * documento e do vídeo. As regras padrão reproduzem os limites de
+ * AnalysisThresholds; organizações podem sobrescrevê-las pelo id, desativá-las
+ * ou adicionar novas em `predictiveAnalysis.failureIndicators`.
+ */
+
+import { Document } from '../types/document.types';
+import {
+  AnalysisThresholds,
+  FailureIndicator,
+  FailureRule,
+  FiredRule,
+  PredictiveAnalysisConfig,
+} from '../types/axioma.types';
+import { RuleExpressionError } from '../errors/RuleErrors';
+import {
+  evaluateRuleExpression,
+  parseRuleExpression,
+  RuleContext,
+  RuleNode,
+} from '../utils/ruleExpression';
+import { ExecutionOverrun } from './ExecutionTimeService';
+
+/**
+ * Variáveis disponíveis nas expressões
+ * Tempos em segundos; variáveis sem dado (ex: documento sem vídeo) ficam
+ * indefinidas e as comparações com elas não disparam.
+ */
+export const RULE_VARIABLES = [
+  // Documento
+  'tipo',
+  'status',
+  'impacto_margem',
+  'custo_manutencao',
+  'dias_desde_revisao',
+  'score_risco',
+  // Vídeo
+  'score_conformidade',
+  'nao_conformidades',
+  // Execuções
+  'tempo_estimado',
+  'tempo_execucao',
+  'razao_tempo',
+  'execucoes',
+  'execucoes_com_excesso',
+  // Thresholds resolvidos para o documento
+  'dias_alerta_revisao',
+  'dias_revisao_obrigatoria',
+  'score_minimo',
+  'max_nao_conformidades',
+  'razao_tempo_maxima',
+  'execucoes_minimas',
+] as const;
+
+export type RuleVariable = (typeof RULE_VARIABLES)[number];
+
+/**
+ * Regras padrão, equivalentes aos limites de AnalysisThresholds
+ */
+export const DEFAULT_FAILURE_RULES: FailureRule[] = [
+  {
+    id: 'revisao-obrigatoria',
+    expressao: 'dias_desde_revisao >= dias_revisao_obrigatoria',
+    motivo: 'Última revisão há {dias_desde_revisao} dias (>= {dias_revisao_obrigatoria} dias)',
+    recomendacao: 'Revisão obrigatória devido ao tempo decorrido',
+  },
+  {
+    id: 'revisao-proxima',
+    expressao: 'dias_desde_revisao >= dias_alerta_revisao && dias_desde_revisao < dias_revisao_obrigatoria',
+    motivo: 'Última revisão há {dias_desde_revisao} dias (próximo do limite)',
+    recomendacao: 'Agendar revisão em breve',
+    exigeRevisao: false,
+  },
+  {
+    id: 'conformidade-baixa',
+    expressao: 'score_conformidade < score_minimo',
+    motivo: 'Score de conformidade baixo: {score_conformidade}% (< {score_minimo}%)',
+    recomendacao: 'Revisar procedimentos para aumentar conformidade',
+  },
+  {
+    id: 'nao-conformidades',
+    expressao: 'nao_conformidades > max_nao_conformidades',
+    motivo: 'Muitas não-conformidades em aberto: {nao_conformidades} (> {max_nao_conformidades})',
+    recomendacao: 'Tratar as não-conformidades em aberto (causa raiz e plano de ação)',
+  },
+  {
+    id: 'tempo-execucao',
+    expressao: 'razao_tempo > razao_tempo_maxima && execucoes >= execucoes_minimas',
+    motivo:
+      'Execução acima do tempo estimado: mediana {razao_tempo}× (> {razao_tempo_maxima}×) ' +
+      'em {execucoes} execuções, {execucoes_com_excesso} acima do limite',
+    recomendacao: 'Revisar etapas e tempo estimado do procedimento',
+  },
+];
+
+/**
+ * Indicadores em texto das configurações antigas (setup-axioma) e a regra
+ * padrão que os substitui, com os mesmos limites vindos dos thresholds
+ */
+const LEGACY_INDICATORS = new Map<string, string>([
+  ['score_conformidade < 70', 'conformidade-baixa'],
+  ['nao_conformidades > 3', 'nao-conformidades'],
+  ['tempo_execucao > tempo_estimado * 1.5', 'tempo-execucao'],
+]);
+
+/**
+ * Regra pronta para avaliação (expressão já convertida em árvore)
+ */
+export interface CompiledRule {
+  rule: FailureRule;
+  node: RuleNode;
+}
+
+/**
+ * Métricas de um documento usadas para montar o contexto das regras
+ */
+export interface RuleInputs {
+  document: Pick<Document, 'tipo' | 'status' | 'axiomaMetrics'>;
+  daysSinceLastRevision: number;
+  riskScore: number;
+  scoreConformidade?: number;
+  naoConformidades?: number;
+  tempoEstimadoSegundos?: number | null;
+  execucao?: ExecutionOverrun | null;
+}
+
+/**
+ * Normaliza um indicador: textos viram regras com a própria expressão como id,
+ * exceto os indicadores antigos, que apontam para a regra padrão equivalente
+ */
+function toPartialRule(indicator: FailureIndicator): Partial<FailureRule> & { id: string } {
+  if (typeof indicator !== 'string') {
+    return indicator;
+  }
+
+  const padrao = LEGACY_INDICATORS.get(indicator.trim().replace(/\s+/g, ' '));
+  return padrao ? { id: padrao } : { id: indicator, expressao: indicator };
+}
+
+/**
+ * Valida os indicadores de uma configuração
+ *
+ * @returns Lista de erros encontrados
+ */
+export function validateFailureIndicators(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ['failureIndicators deve ser uma lista'];
+  }
+
+  const erros: string[] = [];
+
+  value.forEach((item, index) => {
+    const origem = `failureIndicators[${index}]`;
+
+    if (typeof item !== 'string' && (item === null || typeof item !== 'object' || Array.isArray(item))) {
+      erros.push(`${origem} deve ser uma expressão ou um objeto`);
+      return;
+    }
+
+    const regra = toPartialRule(item as FailureIndicator) as Record<string, unknown>;
+
+    if (typeof regra.id !== 'string' || regra.id.trim() === '') {
+      erros.push(`${origem}.id é obrigatório`);
+      return;
+    }
+
+    const padrao = DEFAULT_FAILURE_RULES.some((rule) => rule.id === regra.id);
+    if (regra.expressao === undefined && !padrao) {
+      erros.push(`${origem}.expressao é obrigatória para regras novas`);
+    } else if (regra.expressao !== undefined) {
+      if (typeof regra.expressao !== 'string') {
+        erros.push(`${origem}.expressao deve ser texto`);
+      } else {
+        try {
+          parseRuleExpression(regra.expressao, RULE_VARIABLES);
+        } catch (error) {
+          if (!(error instanceof RuleExpressionError)) throw error;
+          erros.push(`${origem}: ${error.message}`);
+        }
+      }
+    }
+
+    for (const campo of ['motivo', 'recomendacao'] as const) {
+      if (regra[campo] !== undefined && typeof regra[campo] !== 'string') {
+        erros.push(`${origem}.${campo} deve ser texto`);
+      }
+    }
+    for (const campo of ['exigeRevisao', 'ativo'] as const) {
+      if (regra[campo] !== undefined && typeof regra[campo] !== 'boolean') {
+        erros.push(`${origem}.${campo} deve ser booleano`);
+      }
+    }
+  });
+
+  return erros;
+}
+
+/**
+ * Resolve as regras aplicando as camadas em ordem
+ * Indicadores com id de uma regra existente a sobrescrevem campo a campo;
+ * os demais são acrescentados ao final.
+ *
+ * @param camadas - Configurações da menos para a mais específica
+ */
+export function resolveFailureRules(camadas: PredictiveAnalysisConfig[]): CompiledRule[] {
+  const regras = new Map<string, FailureRule>(
+    DEFAULT_FAILURE_RULES.map((rule) => [rule.id, { ...rule }])
+  );
+
+  for (const camada of camadas) {
+    for (const indicator of camada.failureIndicators ?? []) {
+      const parcial = toPartialRule(indicator);
+      const atual = regras.get(parcial.id);
+      regras.set(parcial.id, { ...atual, ...parcial } as FailureRule);
+    }
+  }
+
+  return [...regras.values()]
+    .filter((rule) => rule.ativo !== false)
+    .map((rule) => ({ rule, node: parseRuleExpression(rule.expressao, RULE_VARIABLES) }));
+}
+
+/**
+ * Monta o contexto de variáveis das regras
+ */
+export function buildRuleContext(inputs: RuleInputs, thresholds: AnalysisThresholds): RuleContext {
+  const { document, execucao } = inputs;
+
+  return {
+    tipo: document.tipo,
+    status: document.status,
+    impacto_margem: document.axiomaMetrics.impactoMargem,
+    custo_manutencao: document.axiomaMetrics.custoManutencao,
+    dias_desde_revisao: inputs.daysSinceLastRevision,
+    score_risco: inputs.riskScore,
+    score_conformidade: inputs.scoreConformidade,
+    nao_conformidades: inputs.naoConformidades,
+    tempo_estimado: inputs.tempoEstimadoSegundos ?? undefined,
+    tempo_execucao: execucao?.tempoExecucaoMedianoSegundos,
+    razao_tempo: execucao?.razao,
+    execucoes: execucao?.execucoes,
+    execucoes_com_excesso: execucao?.execucoesComExcesso,
+    dias_alerta_revisao: thresholds.daysUntilRevisionWarning,
+    dias_revisao_obrigatoria: thresholds.daysUntilRevisionRequired,
+    score_minimo: thresholds.minConformityScore,
+    max_nao_conformidades: thresholds.maxNonConformities,
+    razao_tempo_maxima: thresholds.maxExecutionTimeRatio,
+    execucoes_minimas: Math.max(1, thresholds.minExecutionSamples),
+  } satisfies Record<RuleVariable, RuleContext[string]>;
+}
+
+/**
+ * Substitui as variáveis entre chaves pelos valores do contexto
+ */
+function interpolate(template: string, contexto: RuleContext): string {
+  return template.replace(/\{([a-z_]+)\}/g, (match, nome: string) => {
+    const valor = contexto[nome];
+    return valor === undefined ? match : String(valor);
+  });
+}
+
+/**
+ * Avalia as regras e retorna as que dispararam, na ordem de definição
+ */
+export function evaluateFailureRules(regras: CompiledRule[], contexto: RuleContext): FiredRule[] {
+  return regras
+    .filter(({ node }) => evaluateRuleExpression(node, contexto))
+    .map(({ rule }) => ({
+      id: rule.id,
+      expressao: rule.expressao,
+      motivo: interpolate(rule.motivo ?? `Indicador de falha: ${rule.expressao}`, contexto),
+      recomendacao: interpolate(rule.recomendacao ?? 'Revisar o documento', contexto),
+      exigeRevisao: rule.exigeRevisao ?? true,
+    }));
+}
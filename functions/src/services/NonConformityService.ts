@@ -0,0 +1,546 @@
+/**
+ * NonConformityService - Registro de Não-Conformidades e CAPA
+ *
+ * Cada não-conformidade (NC) tem responsável, severidade, análise de
+ * causa raiz (5 Porquês ou Ishikawa) e um plano de ações corretivas e
+ * preventivas com prazo e verificação de eficácia. As NCs identificadas
+ * na extração de vídeos entram como rascunho, vinculadas ao documento e
+ * ao vídeo de origem; as NCs em aberto alimentam a análise preditiva.
+ *
+ * Ciclo de vida:
+ *   rascunho -> aberta -> em_tratamento -> verificacao -> encerrada
+ *   (ação ineficaz: verificacao -> em_tratamento; cancelamento até em_tratamento)
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { v4 as uuidv4 } from 'uuid';
+import { Document } from '../types/document.types';
+import {
+  ChecklistNonConformitySource,
+  ConfirmNonConformityInput,
+  CorrectiveAction,
+  CorrectiveActionInput,
+  NonConformity,
+  NonConformityFilters,
+  NonConformityStatus,
+  RaiseNonConformityInput,
+  RootCauseAnalysis,
+  VideoNonConformities,
+} from '../types/nonConformity.types';
+import { NotFoundError, TenantMismatchError, ValidationError } from '../errors/DomainError';
+import { CorrectiveActionError, NonConformityTransitionError } from '../errors/NonConformityErrors';
+
+/**
+ * Transições permitidas a partir de cada status
+ *
+ * - rascunho -> aberta: confirmação (responsável definido)
+ * - aberta -> em_tratamento: primeira ação do plano
+ * - em_tratamento -> verificacao: todas as ações concluídas
+ * - verificacao -> em_tratamento: ação ineficaz ou nova ação
+ * - verificacao -> encerrada: todas as ações verificadas como eficazes
+ * - rascunho, aberta ou em_tratamento -> cancelada
+ */
+export const NON_CONFORMITY_TRANSITIONS: Record<NonConformityStatus, NonConformityStatus[]> = {
+  rascunho: ['aberta', 'cancelada'],
+  aberta: ['em_tratamento', 'cancelada'],
+  em_tratamento: ['verificacao', 'cancelada'],
+  verificacao: ['em_tratamento', 'encerrada'],
+  encerrada: [],
+  cancelada: [],
+};
+
+/**
+ * Status em que a NC está em aberto (conta na análise de risco)
+ * Rascunhos contam: são NCs observadas na execução ainda não triadas
+ */
+export const OPEN_NON_CONFORMITY_STATUSES: readonly NonConformityStatus[] = [
+  'rascunho',
+  'aberta',
+  'em_tratamento',
+  'verificacao',
+];
+
+/**
+ * Comprimento máximo do título derivado do texto extraído
+ */
+const DRAFT_TITLE_LENGTH = 120;
+
+/**
+ * Garante que a transição da NC é permitida
+ */
+export function assertNonConformityTransition(
+  nc: Pick<NonConformity, 'ncId' | 'status'>,
+  to: NonConformityStatus,
+  detalhe?: string
+): void {
+  if (!NON_CONFORMITY_TRANSITIONS[nc.status].includes(to)) {
+    throw new NonConformityTransitionError(nc.ncId, nc.status, to, detalhe);
+  }
+}
+
+/**
+ * Etapa citada no texto da NC ("Etapa 3: ...", "na etapa 3")
+ */
+export function findCitedStep(texto: string, document?: Pick<Document, 'conteudo'>): number | undefined {
+  const numero = Number(/etapa\s*(\d+)/i.exec(texto)?.[1]);
+  if (!Number.isInteger(numero) || numero <= 0) {
+    return undefined;
+  }
+  const etapas = document?.conteudo?.etapas;
+  return !etapas || etapas.some((etapa) => etapa.numero === numero) ? numero : undefined;
+}
+
+/**
+ * Título curto a partir do texto extraído
+ */
+function draftTitle(texto: string): string {
+  const linha = texto.trim().split('\n')[0];
+  return linha.length > DRAFT_TITLE_LENGTH ? `${linha.slice(0, DRAFT_TITLE_LENGTH - 1)}…` : linha;
+}
+
+/**
+ * ID determinístico do rascunho: a mesma extração nunca gera NCs repetidas
+ */
+function draftId(videoId: string, extraidoEm: admin.firestore.Timestamp, index: number): string {
+  return `${videoId}_${extraidoEm.toMillis()}_${index + 1}`;
+}
+
+/**
+ * Serviço do registro de não-conformidades
+ */
+export class NonConformityService {
+  private db: admin.firestore.Firestore;
+
+  constructor() {
+    this.db = admin.firestore();
+  }
+
+  /**
+   * Registra uma não-conformidade manualmente (já aberta)
+   * Com docId, a NC é vinculada à versão atual do documento e ao seu vídeo
+   */
+  async raise(input: RaiseNonConformityInput): Promise<NonConformity> {
+    let document: Document | undefined;
+
+    if (input.docId) {
+      const docSnapshot = await this.db.collection('documents').doc(input.docId).get();
+      if (!docSnapshot.exists) {
+        throw new NotFoundError('Documento', input.docId);
+      }
+      document = docSnapshot.data() as Document;
+      if (document.orgId !== input.orgId) {
+        throw new TenantMismatchError('Documento', input.docId);
+      }
+    }
+
+    const nc = this.prepareNonConformity(uuidv4(), input, document);
+    await this.collection().doc(nc.ncId).create(nc);
+    return nc;
+  }
+
+  /**
+   * Monta uma NC aberta sem gravá-la (para gravação na transação de quem a origina)
+   *
+   * @param document - Documento de origem já conferido (versão e vídeo vinculados)
+   * @param checklist - Item reprovado do checklist que originou a NC
+   */
+  prepareNonConformity(
+    ncId: string,
+    input: RaiseNonConformityInput,
+    document?: Pick<Document, 'docId' | 'versao' | 'videoId' | 'videoPath'>,
+    checklist?: ChecklistNonConformitySource
+  ): NonConformity {
+    const now = admin.firestore.Timestamp.now();
+    const videoId = input.videoId || document?.videoId;
+
+    return {
+      ncId,
+      orgId: input.orgId,
+      titulo: input.titulo,
+      descricao: input.descricao,
+      status: 'aberta',
+      severidade: input.severidade,
+      origem: checklist ? 'checklist' : 'manual',
+      responsavel: input.responsavel,
+      ...(document ? { docId: document.docId, documentVersao: document.versao } : {}),
+      ...(videoId ? { videoId } : {}),
+      ...(document?.videoPath && videoId === document.videoId ? { videoPath: document.videoPath } : {}),
+      ...(input.etapa !== undefined ? { etapa: input.etapa } : {}),
+      ...(checklist ? { checklistRunId: checklist.runId, checklistItem: checklist.ordem } : {}),
+      acoes: [],
+      criadoPor: input.criadoPor,
+      criadoEm: now,
+      atualizadoEm: now,
+      confirmadoPor: input.criadoPor,
+      confirmadoEm: now,
+    };
+  }
+
+  /**
+   * Levanta como rascunho as NCs extraídas de um vídeo vinculado ao documento
+   *
+   * Idempotente: os IDs derivam do vídeo, da extração e da posição, então
+   * repetir a mesma extração não duplica NCs. Rascunhos de extrações
+   * anteriores do mesmo vídeo são cancelados (substituídos pela nova
+   * extração); NCs já confirmadas não são alteradas.
+   *
+   * @returns Rascunhos criados nesta chamada
+   */
+  async raiseDraftsFromVideo(
+    document: Document,
+    video: VideoNonConformities,
+    criadoPor: string
+  ): Promise<NonConformity[]> {
+    const textos = video.naoConformidades.map((texto) => texto.trim()).filter((texto) => texto !== '');
+    const refs = textos.map((_texto, index) =>
+      this.collection().doc(draftId(video.videoId, video.extraidoEm, index))
+    );
+    const anteriores = this.collection()
+      .where('orgId', '==', document.orgId)
+      .where('videoId', '==', video.videoId)
+      .where('status', '==', 'rascunho');
+
+    const criadas = await this.db.runTransaction(async (transaction) => {
+      const existentes = refs.length > 0 ? await transaction.getAll(...refs) : [];
+      const rascunhos = await transaction.get(anteriores);
+      const now = admin.firestore.Timestamp.now();
+      const ids = new Set(refs.map((ref) => ref.id));
+
+      rascunhos.docs
+        .filter((doc) => !ids.has(doc.id))
+        .forEach((doc) => {
+          transaction.update(doc.ref, {
+            status: 'cancelada',
+            canceladoPor: criadoPor,
+            canceladoEm: now,
+            motivoCancelamento: 'Substituída por nova extração do vídeo',
+            atualizadoEm: now,
+          });
+        });
+
+      const novas: NonConformity[] = [];
+      textos.forEach((texto, index) => {
+        if (existentes[index].exists) {
+          return;
+        }
+        const etapa = findCitedStep(texto, document);
+        const nc: NonConformity = {
+          ncId: refs[index].id,
+          orgId: document.orgId,
+          titulo: draftTitle(texto),
+          descricao: texto,
+          status: 'rascunho',
+          severidade: 'media',
+          origem: 'video',
+          docId: document.docId,
+          documentVersao: document.versao,
+          videoId: video.videoId,
+          videoPath: video.videoPath,
+          videoExtraidoEm: video.extraidoEm,
+          ...(etapa !== undefined ? { etapa } : {}),
+          acoes: [],
+          criadoPor,
+          criadoEm: now,
+          atualizadoEm: now,
+        };
+        transaction.create(refs[index], nc);
+        novas.push(nc);
+      });
+
+      return novas;
+    });
+
+    if (criadas.length > 0) {
+      logger.info('Não-conformidades do vídeo registradas em rascunho', {
+        orgId: document.orgId,
+        videoId: video.videoId,
+        docId: document.docId,
+        quantidade: criadas.length,
+      });
+    }
+    return criadas;
+  }
+
+  /**
+   * Recupera uma não-conformidade
+   */
+  async getNonConformity(ncId: string): Promise<NonConformity> {
+    const snapshot = await this.collection().doc(ncId).get();
+    if (!snapshot.exists) {
+      throw new NotFoundError('Não-conformidade', ncId);
+    }
+    return snapshot.data() as NonConformity;
+  }
+
+  /**
+   * Lista as não-conformidades da organização (mais recentes primeiro)
+   */
+  async listByOrg(orgId: string, filters: NonConformityFilters = {}): Promise<NonConformity[]> {
+    let query: admin.firestore.Query = this.collection().where('orgId', '==', orgId);
+    if (filters.docId) {
+      query = query.where('docId', '==', filters.docId);
+    }
+    if (filters.status) {
+      query = query.where('status', '==', filters.status);
+    }
+
+    const snapshot = await query.orderBy('criadoEm', 'desc').get();
+    return snapshot.docs.map((doc) => doc.data() as NonConformity);
+  }
+
+  /**
+   * NCs em aberto por documento da organização (para a análise preditiva)
+   */
+  async countOpenByDocument(orgId: string): Promise<Map<string, number>> {
+    const snapshot = await this.collection()
+      .where('orgId', '==', orgId)
+      .where('status', 'in', [...OPEN_NON_CONFORMITY_STATUSES])
+      .select('docId')
+      .get();
+
+    const contagem = new Map<string, number>();
+    snapshot.docs.forEach((doc) => {
+      const docId = doc.get('docId') as string | undefined;
+      if (docId) {
+        contagem.set(docId, (contagem.get(docId) || 0) + 1);
+      }
+    });
+    return contagem;
+  }
+
+  /**
+   * NCs em aberto de um documento
+   */
+  async countOpenForDocument(orgId: string, docId: string): Promise<number> {
+    const snapshot = await this.collection()
+      .where('orgId', '==', orgId)
+      .where('docId', '==', docId)
+      .where('status', 'in', [...OPEN_NON_CONFORMITY_STATUSES])
+      .count()
+      .get();
+    return snapshot.data().count;
+  }
+
+  /**
+   * Confirma um rascunho, definindo o responsável (e revisando severidade e texto)
+   */
+  async confirm(ncId: string, input: ConfirmNonConformityInput, userId: string): Promise<NonConformity> {
+    return this.runUpdate(ncId, (nc, now) => {
+      assertNonConformityTransition(nc, 'aberta');
+      return {
+        ...nc,
+        status: 'aberta',
+        responsavel: input.responsavel,
+        ...(input.severidade ? { severidade: input.severidade } : {}),
+        ...(input.titulo ? { titulo: input.titulo } : {}),
+        ...(input.descricao ? { descricao: input.descricao } : {}),
+        confirmadoPor: userId,
+        confirmadoEm: now,
+      };
+    });
+  }
+
+  /**
+   * Cancela uma NC improcedente (rascunho ou ainda em tratamento)
+   */
+  async cancel(ncId: string, motivo: string, userId: string): Promise<NonConformity> {
+    return this.runUpdate(ncId, (nc, now) => {
+      assertNonConformityTransition(nc, 'cancelada');
+      return {
+        ...nc,
+        status: 'cancelada',
+        canceladoPor: userId,
+        canceladoEm: now,
+        motivoCancelamento: motivo,
+      };
+    });
+  }
+
+  /**
+   * Registra (ou refaz) a análise de causa raiz
+   * Permitida até a conclusão das ações (aberta ou em_tratamento)
+   */
+  async recordRootCause(
+    ncId: string,
+    analise: Omit<RootCauseAnalysis, 'analisadoPor' | 'analisadoEm'>,
+    userId: string
+  ): Promise<NonConformity> {
+    if (analise.metodo === '5porques' && (analise.porques?.length ?? 0) === 0) {
+      throw new ValidationError('A análise dos 5 Porquês requer ao menos um "por quê"', { campo: 'porques' });
+    }
+    if (analise.metodo === 'ishikawa' && !Object.values(analise.ishikawa || {}).some((causas) => causas?.length)) {
+      throw new ValidationError('O diagrama de Ishikawa requer ao menos uma causa', { campo: 'ishikawa' });
+    }
+
+    return this.runUpdate(ncId, (nc, now) => {
+      if (nc.status !== 'aberta' && nc.status !== 'em_tratamento') {
+        throw new CorrectiveActionError(
+          ncId,
+          `Análise de causa raiz não pode ser registrada com a NC em ${nc.status}`,
+          { status: nc.status }
+        );
+      }
+      return {
+        ...nc,
+        causaRaiz: { ...analise, analisadoPor: userId, analisadoEm: now },
+      };
+    });
+  }
+
+  /**
+   * Inclui uma ação corretiva ou preventiva no plano de ação
+   * Exige a análise de causa raiz; a NC passa (ou volta) a em_tratamento
+   */
+  async addAction(ncId: string, input: CorrectiveActionInput, userId: string): Promise<NonConformity> {
+    if (input.verificarEficaciaEm && input.verificarEficaciaEm.getTime() < input.prazo.getTime()) {
+      throw new ValidationError('A verificação de eficácia deve ser posterior ao prazo da ação', {
+        campo: 'verificarEficaciaEm',
+      });
+    }
+
+    return this.runUpdate(ncId, (nc, now) => {
+      if (!nc.causaRaiz) {
+        throw new CorrectiveActionError(ncId, 'Registre a análise de causa raiz antes do plano de ação');
+      }
+      if (nc.status !== 'em_tratamento') {
+        assertNonConformityTransition(nc, 'em_tratamento');
+      }
+
+      const acao: CorrectiveAction = {
+        acaoId: uuidv4(),
+        tipo: input.tipo,
+        descricao: input.descricao,
+        responsavel: input.responsavel,
+        prazo: admin.firestore.Timestamp.fromDate(input.prazo),
+        ...(input.verificarEficaciaEm
+          ? { verificarEficaciaEm: admin.firestore.Timestamp.fromDate(input.verificarEficaciaEm) }
+          : {}),
+        status: 'pendente',
+        criadaPor: userId,
+        criadaEm: now,
+      };
+
+      return { ...nc, status: 'em_tratamento', acoes: [...nc.acoes, acao] };
+    });
+  }
+
+  /**
+   * Conclui uma ação com a evidência da execução
+   * Sem ações pendentes, a NC segue para a verificação de eficácia
+   */
+  async completeAction(
+    ncId: string,
+    acaoId: string,
+    evidencia: string,
+    userId: string
+  ): Promise<NonConformity> {
+    return this.runUpdate(ncId, (nc, now) => {
+      const acao = this.findAction(nc, acaoId);
+      if (nc.status !== 'em_tratamento' || acao.status !== 'pendente') {
+        throw new CorrectiveActionError(
+          ncId,
+          `Ação ${acaoId} não pode ser concluída (NC ${nc.status}, ação ${acao.status})`,
+          { acaoId }
+        );
+      }
+
+      const acoes = nc.acoes.map((item): CorrectiveAction =>
+        item.acaoId === acaoId
+          ? { ...item, status: 'concluida', evidencia, concluidaPor: userId, concluidaEm: now }
+          : item
+      );
+      const pendentes = acoes.some((item) => item.status === 'pendente');
+
+      return { ...nc, acoes, status: pendentes ? 'em_tratamento' : 'verificacao' };
+    });
+  }
+
+  /**
+   * Registra a verificação de eficácia de uma ação concluída
+   *
+   * Ação ineficaz devolve a NC a em_tratamento (é preciso uma nova ação);
+   * com todas as ações verificadas, a NC é encerrada.
+   */
+  async verifyAction(
+    ncId: string,
+    acaoId: string,
+    eficaz: boolean,
+    userId: string,
+    comentario?: string
+  ): Promise<NonConformity> {
+    return this.runUpdate(ncId, (nc, now) => {
+      const acao = this.findAction(nc, acaoId);
+      if (nc.status !== 'verificacao' || acao.status !== 'concluida') {
+        throw new CorrectiveActionError(
+          ncId,
+          `Ação ${acaoId} não pode ser verificada (NC ${nc.status}, ação ${acao.status})`,
+          { acaoId }
+        );
+      }
+
+      const acoes = nc.acoes.map((item): CorrectiveAction =>
+        item.acaoId === acaoId
+          ? {
+              ...item,
+              status: eficaz ? 'eficaz' : 'ineficaz',
+              verificacao: {
+                eficaz,
+                verificadoPor: userId,
+                verificadoEm: now,
+                ...(comentario ? { comentario } : {}),
+              },
+            }
+          : item
+      );
+
+      if (!eficaz) {
+        return { ...nc, acoes, status: 'em_tratamento' };
+      }
+      if (acoes.some((item) => item.status === 'concluida')) {
+        return { ...nc, acoes };
+      }
+      return { ...nc, acoes, status: 'encerrada', encerradoEm: now };
+    });
+  }
+
+  /**
+   * Lê a NC, aplica a alteração e grava em transação
+   */
+  private async runUpdate(
+    ncId: string,
+    operation: (nc: NonConformity, now: admin.firestore.Timestamp) => NonConformity
+  ): Promise<NonConformity> {
+    const ref = this.collection().doc(ncId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        throw new NotFoundError('Não-conformidade', ncId);
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const updated: NonConformity = { ...operation(snapshot.data() as NonConformity, now), atualizadoEm: now };
+      transaction.set(ref, updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Localiza uma ação do plano
+   */
+  private findAction(nc: NonConformity, acaoId: string): CorrectiveAction {
+    const acao = nc.acoes.find((item) => item.acaoId === acaoId);
+    if (!acao) {
+      throw new NotFoundError('Ação', acaoId, `Ação ${acaoId} não encontrada na não-conformidade ${nc.ncId}`);
+    }
+    return acao;
+  }
+
+  /**
+   * Coleção das não-conformidades (todas as organizações, filtradas por orgId)
+   */
+  private collection(): admin.firestore.CollectionReference {
+    return this.db.collection('nonConformities');
+  }
+}
@@ -0,0 +1,535 @@
+/**
+ * PopDocumentRenderer - POP no layout padronizado
+ *
+ * Monta o procedimento a partir da versão ativa do documento (cabeçalho
+ * com código, versão e aprovadores; objetivo; EPIs; materiais; etapas
+ * numeradas com pontos críticos; critérios de qualidade) e o renderiza
+ * em HTML (webapp) ou PDF (impressão no chão de fábrica).
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  Document,
+  DocumentSection,
+  PopLayout,
+  PopRenderFormat,
+  PopSignatory,
+  RenderedPopDocument,
+  ReviewRole,
+} from '../types/document.types';
+import { PdfColor, PdfWriter, wrapText } from '../utils/pdf';
+
+export const POP_RENDER_FORMATS: readonly PopRenderFormat[] = ['html', 'pdf'];
+
+const CONTENT_TYPES: Record<PopRenderFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+const PAPEIS: Record<ReviewRole, string> = {
+  elaborador: 'Elaborado por',
+  revisor: 'Revisado por',
+  aprovador: 'Aprovado por',
+};
+
+/**
+ * Campo do layout alimentado por cada seção, pelo título normalizado
+ * Seções geradas pelo vídeo usam os títulos de VideoPOPIntegrationService;
+ * 'Não-Conformidades Identificadas' descreve a execução filmada, não o
+ * procedimento, e fica fora do POP impresso
+ */
+const SECTION_FIELDS: Record<string, 'objetivo' | 'epis' | 'materiais' | 'criteriosQualidade' | 'execucao' | null> = {
+  objetivo: 'objetivo',
+  'requisitos de seguranca': 'epis',
+  epis: 'epis',
+  'materiais e ferramentas': 'materiais',
+  materiais: 'materiais',
+  'criterios de qualidade': 'criteriosQualidade',
+  execucao: 'execucao',
+  'nao-conformidades identificadas': null,
+};
+
+function normalizeTitle(titulo: string): string {
+  return titulo
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Itens da seção; seções sem lista usam uma linha do texto por item
+ */
+function sectionItems(secao: DocumentSection): string[] {
+  if (secao.itens && secao.itens.length > 0) {
+    return secao.itens;
+  }
+  return secao.texto
+    .split('\n')
+    .map((linha) => linha.trim())
+    .filter(Boolean);
+}
+
+function toIso(timestamp: admin.firestore.Timestamp | undefined): string | undefined {
+  return timestamp ? timestamp.toDate().toISOString() : undefined;
+}
+
+/**
+ * Código do procedimento: documentos não têm código próprio, então ele é
+ * derivado do docId (estável entre versões)
+ */
+export function popCode(docId: string): string {
+  return `POP-${docId.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+}
+
+/**
+ * Assinaturas da rodada que aprovou a versão, na ordem do fluxo
+ * Sem rodada registrada, usa o aprovador da aprovação
+ */
+function approvalSignatories(document: Document): PopSignatory[] {
+  const ordem: ReviewRole[] = ['elaborador', 'revisor', 'aprovador'];
+  const assinaturas = (document.revisao?.assinaturas || [])
+    .filter((assinatura) => assinatura.decisao === 'aprovado')
+    .sort((a, b) => ordem.indexOf(a.papel) - ordem.indexOf(b.papel))
+    .map((assinatura) => ({
+      papel: assinatura.papel,
+      userId: assinatura.userId,
+      ...(assinatura.assinadoEm ? { assinadoEm: toIso(assinatura.assinadoEm) } : {}),
+    }));
+
+  if (document.aprovacao && !assinaturas.some((assinatura) => assinatura.papel === 'aprovador')) {
+    assinaturas.push({
+      papel: 'aprovador',
+      userId: document.aprovacao.aprovadoPor,
+      assinadoEm: toIso(document.aprovacao.aprovadoEm),
+    });
+  }
+
+  return assinaturas;
+}
+
+/**
+ * Monta o layout do POP a partir de uma versão do documento
+ *
+ * @param document - Versão a renderizar (ver DocumentService.getActiveVersion)
+ */
+export function buildPopLayout(document: Document, geradoEm: Date = new Date()): PopLayout {
+  const layout: PopLayout = {
+    docId: document.docId,
+    orgId: document.orgId,
+    codigo: popCode(document.docId),
+    titulo: document.titulo,
+    versao: document.versao,
+    ...(document.aprovacao ? { vigenteDesde: toIso(document.aprovacao.aprovadoEm) } : {}),
+    aprovadores: approvalSignatories(document),
+    epis: [],
+    materiais: [],
+    etapas: [...(document.conteudo?.etapas || [])].sort((a, b) => a.numero - b.numero),
+    criteriosQualidade: [],
+    outrasSecoes: [],
+    geradoEm: geradoEm.toISOString(),
+  };
+
+  for (const secao of document.conteudo?.secoes || []) {
+    const campo = SECTION_FIELDS[normalizeTitle(secao.titulo)];
+
+    if (campo === null) {
+      continue;
+    } else if (campo === 'objetivo') {
+      layout.objetivo = [secao.texto, ...(secao.itens || [])].filter(Boolean).join('\n');
+    } else if (campo === 'execucao') {
+      // Texto gerado pelo vídeo: 'Responsável: ...' e 'Tempo estimado: ...'
+      const responsavel = /^Responsável:\s*(.+)$/m.exec(secao.texto);
+      const tempo = /^Tempo estimado:\s*(.+)$/m.exec(secao.texto);
+      if (responsavel) layout.responsavel = responsavel[1].trim();
+      if (tempo) layout.tempoEstimado = tempo[1].trim();
+      if (!responsavel && !tempo) layout.outrasSecoes.push(secao);
+    } else if (campo) {
+      layout[campo].push(...sectionItems(secao));
+    } else {
+      layout.outrasSecoes.push(secao);
+    }
+  }
+
+  if (document.conteudo?.tempoEstimado) {
+    layout.tempoEstimado = document.conteudo.tempoEstimado;
+  }
+
+  return layout;
+}
+
+/**
+ * Data no fuso da operação (dd/mm/aaaa)
+ */
+function formatDate(iso: string | undefined): string {
+  return iso
+    ? new Date(iso).toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' })
+    : '—';
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(texto: string): string {
+  return texto
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 11pt; color: #111; margin: 24px; }
+  table.cabecalho { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  table.cabecalho td { border: 1px solid #333; padding: 6px 8px; vertical-align: top; }
+  table.cabecalho .rotulo { display: block; font-size: 8pt; color: #666; text-transform: uppercase; }
+  table.cabecalho .titulo { font-size: 14pt; font-weight: bold; }
+  .assinaturas { display: flex; gap: 32px; }
+  h2 { font-size: 12pt; border-bottom: 2px solid #333; padding-bottom: 2px; margin-top: 20px; }
+  ol.etapas { padding-left: 0; list-style: none; }
+  ol.etapas > li { border-bottom: 1px solid #ddd; padding: 6px 0; page-break-inside: avoid; }
+  .numero { display: inline-block; min-width: 28px; font-weight: bold; }
+  .detalhe { margin-left: 28px; font-size: 9pt; color: #555; }
+  .critico { margin: 4px 0 0 28px; padding: 4px 8px; background: #fdecea; border-left: 3px solid #c0392b; font-size: 10pt; }
+  .vazio { color: #888; font-style: italic; }
+  footer { margin-top: 24px; font-size: 8pt; color: #666; }
+  @media print { body { margin: 0; } @page { size: A4; margin: 15mm; } }
+`;
+
+function htmlList(itens: string[]): string {
+  return itens.length > 0
+    ? `<ul>${itens.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '<p class="vazio">Não se aplica.</p>';
+}
+
+function htmlText(texto: string): string {
+  return texto
+    .split('\n')
+    .map((paragrafo) => `<p>${escapeHtml(paragrafo)}</p>`)
+    .join('');
+}
+
+/**
+ * Documento HTML completo, com estilo de impressão em A4
+ */
+export function renderPopHtml(layout: PopLayout): string {
+  const assinaturas = layout.aprovadores
+    .map(
+      (assinatura) =>
+        `<div><span class="rotulo">${PAPEIS[assinatura.papel]}</span>${escapeHtml(assinatura.userId)}` +
+        `<br><small>${formatDate(assinatura.assinadoEm)}</small></div>`
+    )
+    .join('');
+
+  const etapas = layout.etapas
+    .map((etapa) => {
+      const detalhes = [
+        etapa.tempo ? `Tempo: ${etapa.tempo}` : '',
+        etapa.ferramentas?.length ? `Ferramentas: ${etapa.ferramentas.join(', ')}` : '',
+      ].filter(Boolean);
+      return (
+        `<li><span class="numero">${etapa.numero}.</span>${escapeHtml(etapa.descricao)}` +
+        (detalhes.length > 0 ? `<div class="detalhe">${escapeHtml(detalhes.join(' • '))}</div>` : '') +
+        (etapa.pontosCriticos || [])
+          .map((ponto) => `<div class="critico"><strong>Ponto crítico:</strong> ${escapeHtml(ponto)}</div>`)
+          .join('') +
+        '</li>'
+      );
+    })
+    .join('');
+
+  const execucao = [
+    layout.responsavel ? `Responsável: ${layout.responsavel}` : '',
+    layout.tempoEstimado ? `Tempo estimado: ${layout.tempoEstimado}` : '',
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${layout.codigo} — ${layout.titulo}`)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<table class="cabecalho">
+<tr>
+<td><span class="rotulo">Código</span>${escapeHtml(layout.codigo)}</td>
+<td><span class="titulo">${escapeHtml(layout.titulo)}</span></td>
+<td><span class="rotulo">Versão</span>${escapeHtml(layout.versao)}<br><small>Vigente desde ${formatDate(layout.vigenteDesde)}</small></td>
+</tr>
+<tr><td colspan="3"><div class="assinaturas">${assinaturas || '<span class="vazio">Sem registro de aprovação</span>'}</div></td></tr>
+</table>
+<h2>1. Objetivo</h2>
+${layout.objetivo ? htmlText(layout.objetivo) : '<p class="vazio">Não informado.</p>'}
+<h2>2. EPIs e Requisitos de Segurança</h2>
+${htmlList(layout.epis)}
+<h2>3. Materiais e Ferramentas</h2>
+${htmlList(layout.materiais)}
+${execucao.length > 0 ? htmlText(execucao.join('\n')) : ''}
+<h2>4. Procedimento</h2>
+${etapas ? `<ol class="etapas">${etapas}</ol>` : '<p class="vazio">Nenhuma etapa registrada.</p>'}
+<h2>5. Critérios de Qualidade</h2>
+${htmlList(layout.criteriosQualidade)}
+${layout.outrasSecoes
+  .map(
+    (secao, index) =>
+      `<h2>${index + 6}. ${escapeHtml(secao.titulo)}</h2>\n` +
+      (secao.texto ? htmlText(secao.texto) : '') +
+      (secao.itens?.length ? htmlList(secao.itens) : '')
+  )
+  .join('\n')}
+<footer>${escapeHtml(layout.codigo)} v${escapeHtml(layout.versao)} — gerado em ${formatDate(layout.geradoEm)}. Cópia impressa não controlada: confira a versão vigente no sistema.</footer>
+</body>
+</html>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const MARGIN = 40;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 13;
+const FOOTER_SPACE = 40;
+const STEP_INDENT = 24;
+
+const GRAY: PdfColor = [0.4, 0.4, 0.4];
+const LIGHT_GRAY: PdfColor = [0.92, 0.92, 0.92];
+const CRITICAL_RED: PdfColor = [0.75, 0.1, 0.1];
+const CRITICAL_BACKGROUND: PdfColor = [0.99, 0.92, 0.92];
+
+/**
+ * Fluxo de texto com quebra de página
+ */
+class PopPdfLayout {
+  readonly pdf = new PdfWriter();
+  y = MARGIN;
+
+  private get bottom(): number {
+    return this.pdf.height - FOOTER_SPACE;
+  }
+
+  private get contentWidth(): number {
+    return this.pdf.width - MARGIN * 2;
+  }
+
+  newPage(): void {
+    this.pdf.addPage();
+    this.y = MARGIN;
+  }
+
+  ensureSpace(altura: number): void {
+    if (this.y + altura > this.bottom) {
+      this.newPage();
+    }
+  }
+
+  heading(texto: string): void {
+    this.ensureSpace(40);
+    this.y += 22;
+    this.pdf.text(MARGIN, this.y, texto, { size: 12, bold: true });
+    this.y += 4;
+    this.pdf.line(MARGIN, this.y, this.pdf.width - MARGIN, this.y, 1);
+    this.y += 4;
+  }
+
+  paragraph(texto: string, options: { indent?: number; size?: number; color?: PdfColor; bold?: boolean } = {}): void {
+    const { indent = 0, size = FONT_SIZE, color, bold = false } = options;
+    wrapText(texto, this.contentWidth - indent, size, bold).forEach((linha) => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.y += LINE_HEIGHT;
+      this.pdf.text(MARGIN + indent, this.y, linha, { size, color, bold });
+    });
+  }
+
+  bullets(itens: string[]): void {
+    if (itens.length === 0) {
+      this.paragraph('Não se aplica.', { color: GRAY });
+      return;
+    }
+    itens.forEach((item) => {
+      const linhas = wrapText(item, this.contentWidth - 12, FONT_SIZE);
+      this.ensureSpace(linhas.length * LINE_HEIGHT);
+      linhas.forEach((linha, index) => {
+        this.y += LINE_HEIGHT;
+        if (index === 0) this.pdf.text(MARGIN, this.y, '•', { size: FONT_SIZE });
+        this.pdf.text(MARGIN + 12, this.y, linha, { size: FONT_SIZE });
+      });
+    });
+  }
+
+  step(etapa: PopLayout['etapas'][number]): void {
+    const largura = this.contentWidth - STEP_INDENT;
+    const descricao = wrapText(etapa.descricao, largura, FONT_SIZE);
+    const detalhes = [
+      etapa.tempo ? `Tempo: ${etapa.tempo}` : '',
+      etapa.ferramentas?.length ? `Ferramentas: ${etapa.ferramentas.join(', ')}` : '',
+    ].filter(Boolean);
+    const linhasDetalhe = detalhes.length > 0 ? wrapText(detalhes.join('  •  '), largura, 8) : [];
+    const criticos = (etapa.pontosCriticos || []).map((ponto) =>
+      wrapText(`Ponto crítico: ${ponto}`, largura - 12, 9, true)
+    );
+
+    // Mantém a etapa inteira na mesma página sempre que couber
+    const altura =
+      (descricao.length + linhasDetalhe.length) * LINE_HEIGHT +
+      criticos.reduce((acc, linhas) => acc + linhas.length * 12 + 6, 0) +
+      8;
+    this.ensureSpace(Math.min(altura, this.bottom - MARGIN));
+
+    descricao.forEach((linha, index) => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.y += LINE_HEIGHT;
+      if (index === 0) this.pdf.text(MARGIN, this.y, `${etapa.numero}.`, { size: FONT_SIZE, bold: true });
+      this.pdf.text(MARGIN + STEP_INDENT, this.y, linha, { size: FONT_SIZE });
+    });
+    linhasDetalhe.forEach((linha) => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.y += LINE_HEIGHT;
+      this.pdf.text(MARGIN + STEP_INDENT, this.y, linha, { size: 8, color: GRAY });
+    });
+    criticos.forEach((linhas) => {
+      const bloco = linhas.length * 12 + 6;
+      this.ensureSpace(bloco + 2);
+      this.y += 3;
+      this.pdf.rect(MARGIN + STEP_INDENT, this.y, largura, bloco, CRITICAL_BACKGROUND);
+      this.pdf.rect(MARGIN + STEP_INDENT, this.y, 2, bloco, CRITICAL_RED);
+      linhas.forEach((linha, index) => {
+        this.pdf.text(MARGIN + STEP_INDENT + 8, this.y + 12 * (index + 1), linha, {
+          size: 9,
+          bold: true,
+          color: CRITICAL_RED,
+        });
+      });
+      this.y += bloco;
+    });
+
+    this.y += 5;
+    this.pdf.line(MARGIN, this.y, this.pdf.width - MARGIN, this.y, 0.3, LIGHT_GRAY);
+  }
+}
+
+/**
+ * Cabeçalho em quadro: código, título e versão; assinaturas da aprovação
+ */
+function drawPdfHeader(layout: PopPdfLayout, pop: PopLayout): void {
+  const { pdf } = layout;
+  const largura = pdf.width - MARGIN * 2;
+  const top = layout.y;
+  const colunaCodigo = 110;
+  const colunaVersao = 110;
+  const colunaTitulo = largura - colunaCodigo - colunaVersao;
+
+  const titulo = wrapText(pop.titulo, colunaTitulo - 12, 13, true).slice(0, 3);
+  const alturaLinha1 = Math.max(40, titulo.length * 16 + 14);
+  const alturaLinha2 = 36;
+
+  pdf.rect(MARGIN, top, largura, alturaLinha1, LIGHT_GRAY);
+  pdf.text(MARGIN + 6, top + 12, 'CÓDIGO', { size: 7, color: GRAY });
+  pdf.text(MARGIN + 6, top + 28, pop.codigo, { size: 11, bold: true });
+  titulo.forEach((linha, index) => {
+    pdf.text(MARGIN + colunaCodigo + 6, top + 20 + index * 16, linha, { size: 13, bold: true });
+  });
+  const xVersao = MARGIN + colunaCodigo + colunaTitulo;
+  pdf.text(xVersao + 6, top + 12, 'VERSÃO', { size: 7, color: GRAY });
+  pdf.text(xVersao + 6, top + 28, pop.versao, { size: 11, bold: true });
+  pdf.text(xVersao + 40, top + 28, `desde ${formatDate(pop.vigenteDesde)}`, { size: 7, color: GRAY });
+
+  const y2 = top + alturaLinha1;
+  const colunas = Math.max(pop.aprovadores.length, 1);
+  const larguraAssinatura = largura / colunas;
+  if (pop.aprovadores.length === 0) {
+    pdf.text(MARGIN + 6, y2 + 22, 'Sem registro de aprovação', { size: 9, color: GRAY });
+  }
+  pop.aprovadores.forEach((assinatura, index) => {
+    const x = MARGIN + index * larguraAssinatura;
+    pdf.text(x + 6, y2 + 12, PAPEIS[assinatura.papel].toUpperCase(), { size: 7, color: GRAY });
+    const nome = wrapText(assinatura.userId, larguraAssinatura - 12, 9)[0] ?? '';
+    pdf.text(x + 6, y2 + 24, nome, { size: 9 });
+    pdf.text(x + 6, y2 + 33, formatDate(assinatura.assinadoEm), { size: 7, color: GRAY });
+    if (index > 0) pdf.line(x, y2, x, y2 + alturaLinha2, 0.5);
+  });
+
+  // Bordas do quadro
+  const bottom = y2 + alturaLinha2;
+  pdf.line(MARGIN, top, MARGIN + largura, top, 1);
+  pdf.line(MARGIN, y2, MARGIN + largura, y2, 0.5);
+  pdf.line(MARGIN, bottom, MARGIN + largura, bottom, 1);
+  pdf.line(MARGIN, top, MARGIN, bottom, 1);
+  pdf.line(MARGIN + largura, top, MARGIN + largura, bottom, 1);
+  pdf.line(MARGIN + colunaCodigo, top, MARGIN + colunaCodigo, y2, 0.5);
+  pdf.line(xVersao, top, xVersao, y2, 0.5);
+
+  layout.y = bottom + 4;
+}
+
+/**
+ * PDF para impressão: cabeçalho em quadro, seções numeradas e rodapé
+ * com identificação da versão em todas as páginas
+ */
+export function renderPopPdf(pop: PopLayout): Buffer {
+  const layout = new PopPdfLayout();
+  const { pdf } = layout;
+  layout.newPage();
+
+  drawPdfHeader(layout, pop);
+
+  layout.heading('1. Objetivo');
+  layout.paragraph(pop.objetivo || 'Não informado.', { color: pop.objetivo ? undefined : GRAY });
+
+  layout.heading('2. EPIs e Requisitos de Segurança');
+  layout.bullets(pop.epis);
+
+  layout.heading('3. Materiais e Ferramentas');
+  layout.bullets(pop.materiais);
+  if (pop.responsavel) layout.paragraph(`Responsável: ${pop.responsavel}`, { bold: true });
+  if (pop.tempoEstimado) layout.paragraph(`Tempo estimado: ${pop.tempoEstimado}`, { bold: true });
+
+  layout.heading('4. Procedimento');
+  if (pop.etapas.length === 0) {
+    layout.paragraph('Nenhuma etapa registrada.', { color: GRAY });
+  }
+  pop.etapas.forEach((etapa) => layout.step(etapa));
+
+  layout.heading('5. Critérios de Qualidade');
+  layout.bullets(pop.criteriosQualidade);
+
+  pop.outrasSecoes.forEach((secao, index) => {
+    layout.heading(`${index + 6}. ${secao.titulo}`);
+    if (secao.texto) layout.paragraph(secao.texto);
+    if (secao.itens?.length) layout.bullets(secao.itens);
+  });
+
+  // Rodapé com identificação e numeração
+  const total = pdf.pageCount;
+  for (let index = 0; index < total; index++) {
+    pdf.setPage(index);
+    const y = pdf.height - 24;
+    pdf.text(
+      MARGIN,
+      y,
+      `${pop.codigo} v${pop.versao} — Cópia impressa não controlada (gerada em ${formatDate(pop.geradoEm)})`,
+      { size: 7, color: GRAY }
+    );
+    pdf.text(pdf.width - MARGIN - 50, y, `Página ${index + 1} de ${total}`, { size: 7, color: GRAY });
+  }
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Renderiza o POP no formato pedido, com tipo e nome de arquivo para download
+ */
+export function renderPopDocument(pop: PopLayout, formato: PopRenderFormat): RenderedPopDocument {
+  const conteudo = formato === 'pdf' ? renderPopPdf(pop) : Buffer.from(renderPopHtml(pop), 'utf8');
+
+  return {
+    formato,
+    contentType: CONTENT_TYPES[formato],
+    nomeArquivo: `${pop.codigo.toLowerCase()}-v${pop.versao}.${formato}`,
+    conteudo,
+  };
+}
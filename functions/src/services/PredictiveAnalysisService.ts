@@ -3,7 +3,7 @@
  * 
  * Serviço que analisa documentos e sugere revisões baseadas em:
  * - Indicadores de falha em POPs de vídeo
- * - Histórico de não-conformidades
+ * - Não-conformidades em aberto no registro (NonConformityService)
  * - Tempo desde última revisão
  * - Score de conformidade
  * 
@@ -11,35 +11,121 @@
  */
 
 import * as admin from 'firebase-admin';
-import { Document, DocumentStatus } from '../types/document.types';
+import * as logger from 'firebase-functions/logger';
+import { Document, DocumentType } from '../types/document.types';
+import {
+  AnalysisFailure,
+  AnalysisRun,
+  AnalysisThresholds,
+  DocumentAnalysis,
+  FiredRule,
+  OrganizationAnalysis,
+  PredictiveAnalysisConfig,
+  RiskContribution,
+  RiskLevel,
+  RiskScoringConfig,
+  RiskTrend,
+  StoredAnalysis,
+} from '../types/axioma.types';
+import { DomainError, NotFoundError } from '../errors/DomainError';
+import { chunk, mapWithConcurrency } from '../utils/concurrency';
+import { parseDuration } from '../utils/duration';
+import { computeRiskScore, RISK_LEVEL_CUTOFFS, riskLevelFromScore } from '../utils/riskScore';
+import {
+  AxiomaConfigService,
+  resolveRiskScoring,
+  resolveSchedule,
+  resolveThresholds,
+} from './AxiomaConfigService';
+import { ExecutionOverrun, ExecutionTimeService, summarizeExecutions } from './ExecutionTimeService';
+import { NonConformityService } from './NonConformityService';
+import {
+  buildRuleContext,
+  CompiledRule,
+  evaluateFailureRules,
+  resolveFailureRules,
+} from './FailureRuleEngine';
 
 /**
- * Interface para análise de documento
+ * Ordem dos níveis de risco (maior = pior)
  */
-interface DocumentAnalysis {
-  docId: string;
-  titulo: string;
-  status: DocumentStatus;
-  needsRevision: boolean;
-  riskLevel: 'alto' | 'médio' | 'baixo';
-  reasons: string[];
-  recommendations: string[];
-  metrics: {
-    daysSinceLastRevision: number;
-    scoreConformidade?: number;
-    naoConformidades?: number;
-    custoManutencao: number;
+const RISK_ORDER: Record<RiskLevel, number> = { alto: 3, médio: 2, baixo: 1 };
+
+/**
+ * Limite de operações por lote de escrita do Firestore
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * Documentos lidos por página na análise da organização
+ */
+export const ANALYSIS_PAGE_SIZE = 300;
+
+/**
+ * Análises (e leituras de POPs) simultâneas na análise da organização
+ */
+export const ANALYSIS_CONCURRENCY = 10;
+
+/**
+ * POPs lidos por chamada getAll
+ */
+const POP_READ_BATCH = 100;
+
+/**
+ * Falhas gravadas no resumo da execução (o total fica em resumo.falhas)
+ */
+const MAX_STORED_FAILURES = 100;
+
+/**
+ * Opções da análise da organização
+ */
+export interface OrganizationAnalysisOptions {
+  /** Documentos por página (padrão ANALYSIS_PAGE_SIZE) */
+  pageSize?: number;
+  /** Análises simultâneas (padrão ANALYSIS_CONCURRENCY) */
+  concurrency?: number;
+}
+
+/**
+ * Converte um erro em falha de análise reportável
+ */
+function toAnalysisFailure(docId: string, error: unknown): AnalysisFailure {
+  return {
+    docId,
+    code: error instanceof DomainError ? error.code : 'INTERNAL',
+    message: error instanceof Error ? error.message : String(error),
   };
 }
 
 /**
- * Configuração de thresholds para análise preditiva
+ * Chave do POP de vídeo vinculado ao documento
+ */
+function popKey(document: Document): string | null {
+  return document.videoId && document.orgId ? `${document.orgId}/${document.videoId}` : null;
+}
+
+/**
+ * Compara o risco atual com o da execução anterior
+ */
+function compareRisk(anterior: RiskLevel | undefined, atual: RiskLevel): RiskTrend {
+  if (!anterior) return 'novo';
+  if (RISK_ORDER[atual] < RISK_ORDER[anterior]) return 'melhorou';
+  if (RISK_ORDER[atual] > RISK_ORDER[anterior]) return 'piorou';
+  return 'estavel';
+}
+
+/**
+ * Conta itens por chave partindo de um contador zerado
  */
-interface AnalysisThresholds {
-  daysUntilRevisionWarning: number;
-  daysUntilRevisionRequired: number;
-  minConformityScore: number;
-  maxNonConformities: number;
+function countBy<T, K extends string>(
+  items: T[],
+  key: (item: T) => K,
+  initial: Record<K, number>
+): Record<K, number> {
+  return items.reduce((acc, item) => {
+    acc[key(item)] += 1;
+    return acc;
+  }, { ...initial });
 }
 
 /**
@@ -47,16 +133,67 @@ interface AnalysisThresholds {
  */
 export class PredictiveAnalysisService {
   private db: admin.firestore.Firestore;
-  private thresholds: AnalysisThresholds;
+  private configService: AxiomaConfigService;
+  private executionService: ExecutionTimeService;
+  private nonConformityService: NonConformityService;
+  private thresholdsOverride?: AnalysisThresholds;
+  private riskScoringOverride?: RiskScoringConfig;
+  private configLayers = new Map<string, Promise<PredictiveAnalysisConfig[]>>();
 
-  constructor(thresholds?: AnalysisThresholds) {
+  /**
+   * @param thresholds - Thresholds fixos para todos os documentos
+   *   (quando omitidos, são resolvidos por organização e tipo em 'axiomaConfigs')
+   * @param riskScoring - Pesos fixos do score de risco (idem)
+   */
+  constructor(thresholds?: AnalysisThresholds, riskScoring?: RiskScoringConfig) {
     this.db = admin.firestore();
-    this.thresholds = thresholds || {
-      daysUntilRevisionWarning: 90,
-      daysUntilRevisionRequired: 180,
-      minConformityScore: 70,
-      maxNonConformities: 3,
-    };
+    this.configService = new AxiomaConfigService();
+    this.executionService = new ExecutionTimeService();
+    this.nonConformityService = new NonConformityService();
+    this.thresholdsOverride = thresholds;
+    this.riskScoringOverride = riskScoring;
+  }
+
+  /**
+   * Resolve os thresholds da organização para o tipo de documento
+   */
+  async getThresholds(orgId: string, tipo: DocumentType): Promise<AnalysisThresholds> {
+    if (this.thresholdsOverride) {
+      return this.thresholdsOverride;
+    }
+    return resolveThresholds(tipo, await this.getConfigLayers(orgId));
+  }
+
+  /**
+   * Resolve os pesos do score de risco da organização
+   */
+  async getRiskScoring(orgId: string): Promise<RiskScoringConfig> {
+    if (this.riskScoringOverride) {
+      return this.riskScoringOverride;
+    }
+    return resolveRiskScoring(await this.getConfigLayers(orgId));
+  }
+
+  /**
+   * Resolve as regras de revisão (failureIndicators) da organização
+   */
+  async getFailureRules(orgId: string): Promise<CompiledRule[]> {
+    return resolveFailureRules(await this.getConfigLayers(orgId));
+  }
+
+  /**
+   * Configurações de análise preditiva da organização
+   * Carregadas uma vez por organização nesta instância
+   */
+  private getConfigLayers(orgId: string): Promise<PredictiveAnalysisConfig[]> {
+    let layers = this.configLayers.get(orgId);
+    if (!layers) {
+      layers = this.configService.getPredictiveConfigLayers(orgId);
+      this.configLayers.set(orgId, layers);
+      // Não manter em cache uma falha de leitura ou validação
+      layers.catch(() => this.configLayers.delete(orgId));
+    }
+    return layers;
   }
 
   /**
@@ -67,20 +204,13 @@ export class PredictiveAnalysisService {
     const docSnapshot = await docRef.get();
 
     if (!docSnapshot.exists) {
-      throw new Error(`Documento ${docId} não encontrado`);
+      throw new NotFoundError('Documento', docId);
     }
 
     const document = docSnapshot.data() as Document;
 
-    // Calcular dias desde última revisão
-    const lastRevision = document.metadata.ultimaRevisao.toDate();
-    const now = new Date();
-    const daysSinceLastRevision = Math.floor(
-      (now.getTime() - lastRevision.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
     // Buscar dados de vídeo se existir
-    let videoData = null;
+    let videoData: admin.firestore.DocumentData | null = null;
     if (document.videoId && document.orgId) {
       const videoRef = this.db
         .collection('companies')
@@ -90,20 +220,61 @@ export class PredictiveAnalysisService {
 
       const videoSnapshot = await videoRef.get();
       if (videoSnapshot.exists) {
-        videoData = videoSnapshot.data();
+        videoData = videoSnapshot.data() ?? null;
       }
     }
 
+    const naoConformidades = await this.nonConformityService.countOpenForDocument(document.orgId, docId);
+
+    return this.buildAnalysis(document, videoData, naoConformidades);
+  }
+
+  /**
+   * Analisa um documento já carregado, com os dados do POP de vídeo vinculado
+   *
+   * @param naoConformidades - NCs em aberto do documento no registro
+   */
+  private async buildAnalysis(
+    document: Document,
+    videoData: admin.firestore.DocumentData | null,
+    naoConformidades: number
+  ): Promise<DocumentAnalysis> {
+    // Calcular dias desde última revisão
+    const lastRevision = document.metadata.ultimaRevisao.toDate();
+    const now = new Date();
+    const daysSinceLastRevision = Math.floor(
+      (now.getTime() - lastRevision.getTime()) / (1000 * 60 * 60 * 24)
+    );
+
     // Extrair métricas
     const scoreConformidade = videoData?.popData?.scoreConformidade;
-    const naoConformidades = videoData?.popData?.naoConformidades?.length || 0;
+
+    // Tempo estimado: conteúdo do documento, senão o extraído do vídeo
+    const tempoEstimadoTexto: string | undefined =
+      document.conteudo?.tempoEstimado || videoData?.popData?.tempoEstimado;
+    const tempoEstimadoSegundos = tempoEstimadoTexto ? parseDuration(tempoEstimadoTexto) : null;
+
+    const [thresholds, scoring, regras, execucoes] = await Promise.all([
+      this.getThresholds(document.orgId, document.tipo),
+      this.getRiskScoring(document.orgId),
+      this.getFailureRules(document.orgId),
+      tempoEstimadoSegundos
+        ? this.executionService.getRecentExecutions(document.docId)
+        : Promise.resolve([]),
+    ]);
+    const execucao = summarizeExecutions(tempoEstimadoSegundos, execucoes, thresholds);
 
     // Avaliar necessidade de revisão
     const analysis = this.evaluateRevisionNeed(
       document,
+      thresholds,
+      scoring,
+      regras,
       daysSinceLastRevision,
       scoreConformidade,
-      naoConformidades
+      naoConformidades,
+      tempoEstimadoSegundos,
+      execucao
     );
 
     return {
@@ -111,74 +282,101 @@ export class PredictiveAnalysisService {
       titulo: document.titulo,
       status: document.status,
       needsRevision: analysis.needsRevision,
+      riskScore: analysis.riskScore,
       riskLevel: analysis.riskLevel,
+      riskContributions: analysis.riskContributions,
       reasons: analysis.reasons,
       recommendations: analysis.recommendations,
+      regrasDisparadas: analysis.regrasDisparadas,
       metrics: {
         daysSinceLastRevision,
-        scoreConformidade,
+        // Documentos sem vídeo vinculado não têm score (o Firestore recusa undefined)
+        ...(scoreConformidade !== undefined ? { scoreConformidade } : {}),
         naoConformidades,
         custoManutencao: document.axiomaMetrics.custoManutencao,
+        ...(tempoEstimadoSegundos ? { tempoEstimadoSegundos } : {}),
+        ...(execucao ? {
+          tempoExecucaoMedianoSegundos: execucao.tempoExecucaoMedianoSegundos,
+          razaoExcessoTempo: execucao.razao,
+          execucoesAnalisadas: execucao.execucoes,
+          execucoesComExcesso: execucao.execucoesComExcesso,
+        } : {}),
       },
     };
   }
 
   /**
    * Avalia se um documento precisa de revisão
+   *
+   * O nível de risco é derivado do score ponderado; a revisão é exigida
+   * quando dispara uma regra com `exigeRevisao` (por padrão, os limites de
+   * idade, conformidade, não-conformidades e tempo de execução) ou quando o
+   * score atinge o nível alto.
    */
   private evaluateRevisionNeed(
     document: Document,
+    thresholds: AnalysisThresholds,
+    scoring: RiskScoringConfig,
+    regras: CompiledRule[],
     daysSinceLastRevision: number,
     scoreConformidade?: number,
-    naoConformidades?: number
+    naoConformidades?: number,
+    tempoEstimadoSegundos?: number | null,
+    execucao?: ExecutionOverrun | null
   ): {
     needsRevision: boolean;
-    riskLevel: 'alto' | 'médio' | 'baixo';
+    riskScore: number;
+    riskLevel: RiskLevel;
+    riskContributions: RiskContribution[];
     reasons: string[];
     recommendations: string[];
+    regrasDisparadas: FiredRule[];
   } {
-    const reasons: string[] = [];
-    const recommendations: string[] = [];
-    let riskLevel: 'alto' | 'médio' | 'baixo' = 'baixo';
-    let needsRevision = false;
-
-    // Verificar tempo desde última revisão
-    if (daysSinceLastRevision >= this.thresholds.daysUntilRevisionRequired) {
-      reasons.push(`Última revisão há ${daysSinceLastRevision} dias (>= ${this.thresholds.daysUntilRevisionRequired} dias)`);
-      recommendations.push('Revisão obrigatória devido ao tempo decorrido');
-      riskLevel = 'alto';
-      needsRevision = true;
-    } else if (daysSinceLastRevision >= this.thresholds.daysUntilRevisionWarning) {
-      reasons.push(`Última revisão há ${daysSinceLastRevision} dias (próximo do limite)`);
-      recommendations.push('Agendar revisão em breve');
-      if (riskLevel === 'baixo') riskLevel = 'médio';
-    }
+    const { score, contribuicoes } = computeRiskScore(
+      {
+        daysSinceLastRevision,
+        scoreConformidade,
+        naoConformidades,
+        impactoMargem: document.axiomaMetrics.impactoMargem,
+        custoManutencao: document.axiomaMetrics.custoManutencao,
+      },
+      thresholds,
+      scoring
+    );
+    const riskLevel = riskLevelFromScore(score);
+
+    // Regras de revisão (padrão e failureIndicators da organização)
+    const regrasDisparadas = evaluateFailureRules(
+      regras,
+      buildRuleContext(
+        {
+          document,
+          daysSinceLastRevision,
+          riskScore: score,
+          scoreConformidade,
+          naoConformidades,
+          tempoEstimadoSegundos,
+          execucao,
+        },
+        thresholds
+      )
+    );
 
-    // Verificar score de conformidade
-    if (scoreConformidade !== undefined && scoreConformidade < this.thresholds.minConformityScore) {
-      reasons.push(`Score de conformidade baixo: ${scoreConformidade}% (< ${this.thresholds.minConformityScore}%)`);
-      recommendations.push('Revisar procedimentos para aumentar conformidade');
-      riskLevel = 'alto';
-      needsRevision = true;
-    }
+    const reasons = regrasDisparadas.map((regra) => regra.motivo);
+    const recommendations = regrasDisparadas.map((regra) => regra.recomendacao);
+    let needsRevision = regrasDisparadas.some((regra) => regra.exigeRevisao);
 
-    // Verificar não-conformidades
-    if (naoConformidades !== undefined && naoConformidades > this.thresholds.maxNonConformities) {
-      reasons.push(`Muitas não-conformidades: ${naoConformidades} (> ${this.thresholds.maxNonConformities})`);
-      recommendations.push('Corrigir não-conformidades identificadas no vídeo');
-      riskLevel = 'alto';
+    // Score alto exige revisão mesmo sem limite ultrapassado
+    if (riskLevel === 'alto' && !needsRevision) {
+      reasons.push(`Score de risco ${score} (>= ${RISK_LEVEL_CUTOFFS.alto})`);
+      recommendations.push('Revisar o documento devido à combinação de fatores de risco');
       needsRevision = true;
     }
 
-    // Verificar impacto na margem
-    if (document.axiomaMetrics.impactoMargem === 'alto') {
+    // Impacto na margem apenas prioriza documentos que já precisam de revisão
+    if (needsRevision && document.axiomaMetrics.impactoMargem === 'alto') {
       reasons.push('Documento tem alto impacto na margem de lucro');
       recommendations.push('Priorizar revisão devido ao alto impacto financeiro');
-      // Elevar risco apenas se ainda não for alto
-      if (riskLevel !== 'alto') {
-        riskLevel = 'alto';
-      }
-      needsRevision = true;
     }
 
     // Verificar status
@@ -195,44 +393,282 @@ export class PredictiveAnalysisService {
 
     return {
       needsRevision,
+      riskScore: score,
       riskLevel,
+      riskContributions: contribuicoes,
       reasons,
       recommendations,
+      regrasDisparadas,
     };
   }
 
   /**
-   * Analisa todos os documentos de uma organização
+   * Analisa todos os documentos ativos/em revisão de uma organização
+   *
+   * Os documentos são lidos em páginas e analisados a partir do snapshot da
+   * consulta; os POPs vinculados são lidos em lotes (getAll) e as análises
+   * rodam com concorrência limitada. Documentos que falham são reportados em
+   * `falhas` sem interromper os demais.
    */
-  async analyzeOrganization(orgId: string): Promise<DocumentAnalysis[]> {
-    console.log(`📊 Analisando documentos da organização ${orgId}...`);
+  async analyzeOrganization(
+    orgId: string,
+    options: OrganizationAnalysisOptions = {}
+  ): Promise<OrganizationAnalysis> {
+    const pageSize = Math.max(1, Math.floor(options.pageSize ?? ANALYSIS_PAGE_SIZE));
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? ANALYSIS_CONCURRENCY));
+
+    const result: OrganizationAnalysis = { orgId, totalDocumentos: 0, analyses: [], falhas: [] };
+    const naoConformidades = await this.nonConformityService.countOpenByDocument(orgId);
+    let cursor: admin.firestore.QueryDocumentSnapshot | undefined;
+
+    for (;;) {
+      let query = this.db
+        .collection('documents')
+        .where('orgId', '==', orgId)
+        .where('status', 'in', ['ativo', 'revisao'])
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(pageSize);
+      if (cursor) {
+        query = query.startAfter(cursor);
+      }
 
-    const documentsSnapshot = await this.db
-      .collection('documents')
-      .where('orgId', '==', orgId)
-      .where('status', 'in', ['ativo', 'revisao'])
-      .get();
+      const page = await query.get();
+      if (page.empty) {
+        break;
+      }
 
-    console.log(`  Encontrados ${documentsSnapshot.size} documentos ativos/revisão`);
+      const documents = page.docs.map((doc) => ({ ...doc.data(), docId: doc.id } as Document));
+      const { analyses, falhas } = await this.analyzeDocuments(documents, naoConformidades, concurrency);
 
-    const analyses: DocumentAnalysis[] = [];
+      result.totalDocumentos += documents.length;
+      result.analyses.push(...analyses);
+      result.falhas.push(...falhas);
 
-    for (const doc of documentsSnapshot.docs) {
-      try {
-        const analysis = await this.analyzeDocument(doc.id);
-        analyses.push(analysis);
-      } catch (error) {
-        console.error(`  ❌ Erro ao analisar ${doc.id}:`, error);
+      if (page.size < pageSize) {
+        break;
       }
+      cursor = page.docs[page.docs.length - 1];
     }
 
-    // Ordenar por risco (alto -> médio -> baixo)
-    analyses.sort((a, b) => {
-      const riskOrder = { alto: 3, médio: 2, baixo: 1 };
-      return riskOrder[b.riskLevel] - riskOrder[a.riskLevel];
+    // Ordenar pelo score de risco (maior primeiro)
+    result.analyses.sort((a, b) => b.riskScore - a.riskScore);
+
+    logger.info('Análise preditiva da organização', {
+      orgId,
+      analisados: result.analyses.length,
+      totalDocumentos: result.totalDocumentos,
+      falhas: result.falhas.length,
     });
 
-    return analyses;
+    return result;
+  }
+
+  /**
+   * Analisa uma página de documentos já carregados
+   *
+   * @param naoConformidades - NCs em aberto por documento da organização
+   */
+  private async analyzeDocuments(
+    documents: Document[],
+    naoConformidades: Map<string, number>,
+    concurrency: number
+  ): Promise<Pick<OrganizationAnalysis, 'analyses' | 'falhas'>> {
+    const pops = new Map<string, admin.firestore.DocumentData | null>();
+    const popErrors = new Map<string, unknown>();
+
+    // POPs vinculados (sem repetição), em lotes de getAll
+    const keys = [...new Set(documents.map(popKey).filter((key): key is string => key !== null))];
+    const lotes = chunk(keys, POP_READ_BATCH);
+    const leituras = await mapWithConcurrency(lotes, concurrency, (lote) =>
+      this.db.getAll(
+        ...lote.map((key) => {
+          const [orgId, videoId] = key.split('/');
+          return this.db.collection('companies').doc(orgId).collection('pops').doc(videoId);
+        })
+      )
+    );
+    leituras.forEach((leitura, index) => {
+      lotes[index].forEach((key, position) => {
+        if (leitura.status === 'fulfilled') {
+          const snapshot = leitura.value[position];
+          pops.set(key, snapshot.exists ? snapshot.data() ?? null : null);
+        } else {
+          popErrors.set(key, leitura.reason);
+        }
+      });
+    });
+
+    const resultados = await mapWithConcurrency(documents, concurrency, (document) => {
+      const key = popKey(document);
+      if (key && popErrors.has(key)) {
+        throw popErrors.get(key);
+      }
+      return this.buildAnalysis(
+        document,
+        key ? pops.get(key) ?? null : null,
+        naoConformidades.get(document.docId) || 0
+      );
+    });
+
+    const analyses: DocumentAnalysis[] = [];
+    const falhas: AnalysisFailure[] = [];
+    resultados.forEach((resultado, index) => {
+      if (resultado.status === 'fulfilled') {
+        analyses.push(resultado.value);
+      } else {
+        falhas.push(toAnalysisFailure(documents[index].docId, resultado.reason));
+      }
+    });
+
+    return { analyses, falhas };
+  }
+
+  /**
+   * Verifica se a análise agendada da organização está habilitada e vencida
+   * (última execução há pelo menos `checkIntervalDays` dias)
+   */
+  async isAnalysisDue(orgId: string, now: Date = new Date()): Promise<boolean> {
+    const { enabled, checkIntervalDays } = resolveSchedule(
+      await this.configService.getPredictiveConfigLayers(orgId)
+    );
+
+    if (!enabled) {
+      return false;
+    }
+
+    const lastRun = await this.getLastRun(orgId);
+    if (!lastRun) {
+      return true;
+    }
+
+    const elapsedDays = (now.getTime() - lastRun.iniciadoEm.toMillis()) / (1000 * 60 * 60 * 24);
+    return elapsedDays >= checkIntervalDays;
+  }
+
+  /**
+   * Analisa a organização e persiste o resultado
+   *
+   * Cada análise é gravada em companies/{orgId}/analyses com a tendência do
+   * risco em relação à execução anterior; o resumo da execução fica em
+   * companies/{orgId}/analysisRuns.
+   */
+  async saveAnalysisRun(orgId: string): Promise<AnalysisRun> {
+    const iniciadoEm = admin.firestore.Timestamp.now();
+    const companyRef = this.db.collection('companies').doc(orgId);
+    const runRef = companyRef.collection('analysisRuns').doc();
+
+    const [{ analyses, falhas }, previousRun] = await Promise.all([
+      this.analyzeOrganization(orgId),
+      this.getLastRun(orgId),
+    ]);
+
+    // Risco de cada documento na execução anterior
+    const previousRisk = new Map<string, { level: RiskLevel; score?: number }>();
+    if (previousRun) {
+      const previousSnapshot = await companyRef
+        .collection('analyses')
+        .where('runId', '==', previousRun.runId)
+        .get();
+      previousSnapshot.docs.forEach((doc) => {
+        const stored = doc.data() as StoredAnalysis;
+        previousRisk.set(stored.docId, { level: stored.riskLevel, score: stored.riskScore });
+      });
+    }
+
+    const stored: StoredAnalysis[] = analyses.map((analysis) => {
+      const anterior = previousRisk.get(analysis.docId);
+      return {
+        ...analysis,
+        runId: runRef.id,
+        orgId,
+        analisadoEm: iniciadoEm,
+        ...(anterior ? { riskLevelAnterior: anterior.level } : {}),
+        ...(anterior?.score !== undefined ? { riskScoreAnterior: anterior.score } : {}),
+        tendencia: compareRisk(anterior?.level, analysis.riskLevel),
+      };
+    });
+
+    const run: AnalysisRun = {
+      runId: runRef.id,
+      orgId,
+      iniciadoEm,
+      concluidoEm: admin.firestore.Timestamp.now(),
+      ...(previousRun ? { runAnteriorId: previousRun.runId } : {}),
+      ...(falhas.length > 0 ? { falhas: falhas.slice(0, MAX_STORED_FAILURES) } : {}),
+      resumo: {
+        total: stored.length,
+        falhas: falhas.length,
+        precisamRevisao: stored.filter((item) => item.needsRevision).length,
+        porRisco: countBy(stored, (item) => item.riskLevel, { alto: 0, médio: 0, baixo: 0 }),
+        porTendencia: countBy(stored, (item) => item.tendencia, {
+          novo: 0,
+          melhorou: 0,
+          estavel: 0,
+          piorou: 0,
+        }),
+      },
+    };
+
+    // Lotes de até 500 operações; o resumo vai no último lote para só
+    // aparecer (e servir de base à próxima tendência) com as análises gravadas
+    for (let start = 0; start < stored.length; start += BATCH_SIZE) {
+      const batch = this.db.batch();
+      stored.slice(start, start + BATCH_SIZE).forEach((analysis) => {
+        batch.set(companyRef.collection('analyses').doc(`${runRef.id}_${analysis.docId}`), analysis);
+      });
+      await batch.commit();
+    }
+    await runRef.set(run);
+
+    logger.info('Análise preditiva persistida', {
+      orgId,
+      runId: run.runId,
+      total: run.resumo.total,
+      pioraram: run.resumo.porTendencia.piorou,
+      melhoraram: run.resumo.porTendencia.melhorou,
+      falhas: falhas.length,
+    });
+
+    return run;
+  }
+
+  /**
+   * Histórico de análises persistidas de um documento (mais recente primeiro)
+   */
+  async getRiskTrend(orgId: string, docId: string, limit: number = 12): Promise<StoredAnalysis[]> {
+    const snapshot = await this.db
+      .collection('companies')
+      .doc(orgId)
+      .collection('analyses')
+      .where('docId', '==', docId)
+      .orderBy('analisadoEm', 'desc')
+      .limit(Math.floor(limit))
+      .get();
+
+    return snapshot.docs.map((doc) => doc.data() as StoredAnalysis);
+  }
+
+  /**
+   * Execuções de análise da organização (mais recente primeiro)
+   */
+  async listAnalysisRuns(orgId: string, limit: number = 12): Promise<AnalysisRun[]> {
+    const snapshot = await this.db
+      .collection('companies')
+      .doc(orgId)
+      .collection('analysisRuns')
+      .orderBy('iniciadoEm', 'desc')
+      .limit(Math.floor(limit))
+      .get();
+
+    return snapshot.docs.map((doc) => doc.data() as AnalysisRun);
+  }
+
+  /**
+   * Última execução persistida da organização
+   */
+  private async getLastRun(orgId: string): Promise<AnalysisRun | null> {
+    const [lastRun] = await this.listAnalysisRuns(orgId, 1);
+    return lastRun || null;
   }
 
   /**
@@ -242,7 +678,7 @@ export class PredictiveAnalysisService {
     console.log('\n📋 RELATÓRIO DE ANÁLISE PREDITIVA\n');
     console.log('='.repeat(60));
 
-    const analyses = await this.analyzeOrganization(orgId);
+    const { analyses, falhas } = await this.analyzeOrganization(orgId);
 
     const needsRevision = analyses.filter(a => a.needsRevision);
     const highRisk = analyses.filter(a => a.riskLevel === 'alto');
@@ -255,13 +691,21 @@ export class PredictiveAnalysisService {
     console.log(`  Risco alto: ${highRisk.length}`);
     console.log(`  Risco médio: ${mediumRisk.length}`);
     console.log(`  Risco baixo: ${lowRisk.length}`);
+    if (falhas.length > 0) {
+      console.log(`  Falhas de análise: ${falhas.length}`);
+    }
 
     if (needsRevision.length > 0) {
       console.log(`\n⚠️ DOCUMENTOS QUE PRECISAM REVISÃO:\n`);
 
       needsRevision.forEach((analysis, index) => {
         console.log(`${index + 1}. ${analysis.titulo} (${analysis.docId})`);
-        console.log(`   Risco: ${analysis.riskLevel.toUpperCase()}`);
+        console.log(`   Risco: ${analysis.riskLevel.toUpperCase()} (score ${analysis.riskScore}/100)`);
+        analysis.riskContributions
+          .filter((item) => item.pontos > 0)
+          .forEach((item) => {
+            console.log(`     +${item.pontos} ${item.fator}: ${item.descricao}`);
+          });
         console.log(`   Status: ${analysis.status}`);
         console.log(`   Dias desde última revisão: ${analysis.metrics.daysSinceLastRevision}`);
 
@@ -285,6 +729,13 @@ export class PredictiveAnalysisService {
       console.log('\n✅ Nenhum documento precisa revisão imediata.');
     }
 
+    if (falhas.length > 0) {
+      console.log(`\n❌ DOCUMENTOS NÃO ANALISADOS:\n`);
+      falhas.forEach((falha) => {
+        console.log(`  ${falha.docId} [${falha.code}]: ${falha.message}`);
+      });
+    }
+
     console.log('='.repeat(60));
   }
 }
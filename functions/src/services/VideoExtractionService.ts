@@ -0,0 +1,187 @@
+/**
+ * VideoExtractionService - Extração de POPs de vídeos enviados
+ *
+ * Fluxo: upload em companies/{companyId}/videos/{arquivo} -> provedor
+ * configurado (axiomaConfigs.videoProcessing) -> validação do esquema
+ * (utils/popSchema) -> companies/{companyId}/pops/{videoId}.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { ValidationError } from '../errors/DomainError';
+import { FakePopExtractionProvider, PopFixture } from '../providers/FakePopExtractionProvider';
+import { GeminiPopExtractionProvider } from '../providers/GeminiPopExtractionProvider';
+import {
+  PopExtractionProvider,
+  PopExtractionProviderName,
+  VideoPOPRecord,
+  VideoPOPStatus,
+} from '../types/video.types';
+import { parsePopExtraction } from '../utils/popSchema';
+import { AxiomaConfigService } from './AxiomaConfigService';
+
+/**
+ * Dependências dos provedores
+ */
+export interface PopExtractionProviderOptions {
+  /** Chave da API do Gemini (lida apenas quando o provedor é usado) */
+  geminiApiKey?: () => string;
+  /** Fixtures do provedor fake (padrão POP_FIXTURES) */
+  fixtures?: Record<string, PopFixture>;
+}
+
+/**
+ * Cria o provedor de extração pelo nome configurado
+ */
+export function createPopExtractionProvider(
+  name: PopExtractionProviderName,
+  options: PopExtractionProviderOptions = {}
+): PopExtractionProvider {
+  switch (name) {
+    case 'gemini': {
+      const { geminiApiKey } = options;
+      if (!geminiApiKey) {
+        throw new ValidationError('Provedor gemini requer a chave GEMINI_API_KEY', { provider: name });
+      }
+      return new GeminiPopExtractionProvider(geminiApiKey);
+    }
+    case 'fake':
+      return new FakePopExtractionProvider(options.fixtures);
+  }
+}
+
+/**
+ * Objeto enviado ao Storage
+ */
+export interface VideoUpload {
+  bucket: string;
+  /** Caminho do objeto no bucket */
+  name: string;
+  contentType?: string;
+}
+
+/**
+ * Resultado do processamento de um upload
+ */
+export interface VideoExtractionOutcome {
+  companyId: string;
+  videoId: string;
+  status: VideoPOPStatus;
+  provider: PopExtractionProviderName;
+  modelVersion: string;
+}
+
+const VIDEO_PATH = /^companies\/([^/]+)\/videos\/([^/]+)$/;
+
+/**
+ * Empresa e ID do vídeo a partir do caminho no Storage
+ * 'companies/empresa-001/videos/limpeza.mp4' -> { empresa-001, limpeza }
+ *
+ * @returns null se o caminho não segue a estrutura esperada
+ */
+export function parseVideoPath(filePath: string): { companyId: string; videoId: string } | null {
+  const match = VIDEO_PATH.exec(filePath);
+  if (!match) {
+    return null;
+  }
+  const videoId = match[2].split('.')[0];
+  return videoId ? { companyId: match[1], videoId } : null;
+}
+
+export class VideoExtractionService {
+  private db: admin.firestore.Firestore;
+  private configService: AxiomaConfigService;
+
+  constructor(private readonly providerOptions: PopExtractionProviderOptions = {}) {
+    this.db = admin.firestore();
+    this.configService = new AxiomaConfigService();
+  }
+
+  /**
+   * Processa um upload de vídeo
+   * Erros do provedor são gravados com status 'failed' e relançados
+   *
+   * @returns null se o arquivo não é um vídeo da estrutura esperada ou
+   * se o processamento de vídeo está desabilitado para a empresa
+   */
+  async processUpload(upload: VideoUpload): Promise<VideoExtractionOutcome | null> {
+    const path = parseVideoPath(upload.name);
+    if (!upload.contentType?.startsWith('video/') || !path) {
+      logger.info('Arquivo ignorado (não é vídeo ou caminho inválido)', { filePath: upload.name });
+      return null;
+    }
+
+    const { companyId, videoId } = path;
+    const config = await this.configService.getVideoProcessingConfig(companyId);
+    if (!config.enabled) {
+      logger.info('Processamento de vídeo desabilitado', { companyId, videoId });
+      return null;
+    }
+
+    const videoUri = `gs://${upload.bucket}/${upload.name}`;
+    const popRef = this.db.collection('companies').doc(companyId).collection('pops').doc(videoId);
+
+    // Reenvio do vídeo: o vínculo com o documento é mantido para que a nova
+    // extração gere uma revisão do mesmo documento (onVideoPOPCompleted)
+    const anterior = (await popRef.get()).data() as VideoPOPRecord | undefined;
+
+    const base = {
+      videoPath: upload.name,
+      videoUri,
+      provider: config.provider,
+      modelVersion: config.modelVersion,
+      extractedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(anterior?.linkedDocumentId ? { linkedDocumentId: anterior.linkedDocumentId } : {}),
+      ...(anterior?.linkedAt ? { linkedAt: anterior.linkedAt } : {}),
+    };
+
+    logger.info('Processando vídeo', { companyId, videoId, provider: config.provider, modelVersion: config.modelVersion });
+
+    let texto: string;
+    try {
+      const provider = createPopExtractionProvider(config.provider, this.providerOptions);
+      texto = await provider.extract({
+        companyId,
+        videoId,
+        videoUri,
+        mimeType: upload.contentType,
+        modelVersion: config.modelVersion,
+      });
+    } catch (error) {
+      logger.error('Erro na extração do vídeo', { companyId, videoId, error });
+      const record: Omit<VideoPOPRecord, 'extractedAt'> = {
+        ...base,
+        status: 'failed',
+        error: (error as Error).message,
+      };
+      await popRef.set(record);
+      throw error;
+    }
+
+    // Extrações fora do esquema ficam para revisão manual
+    const extraction = parsePopExtraction(texto);
+    const status: VideoPOPStatus = extraction.valido ? 'completed' : 'needs_review';
+
+    if (!extraction.valido) {
+      logger.warn('Extração de POP precisa de revisão', {
+        companyId,
+        videoId,
+        erros: extraction.erros,
+        textPreview: texto.substring(0, 100),
+      });
+    }
+
+    const record: Omit<VideoPOPRecord, 'extractedAt'> = {
+      ...base,
+      status,
+      popData: extraction.popData,
+      ...(extraction.valido ? {} : { rawText: texto }),
+      ...(extraction.erros.length > 0 ? { validationErrors: extraction.erros } : {}),
+      ...(extraction.avisos.length > 0 ? { validationWarnings: extraction.avisos } : {}),
+    };
+    await popRef.set(record);
+
+    logger.info('Vídeo processado', { companyId, videoId, status });
+    return { companyId, videoId, status, provider: config.provider, modelVersion: config.modelVersion };
+  }
+}
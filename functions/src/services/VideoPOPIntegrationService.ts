@@ -9,35 +9,94 @@
  */
 
 import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
 import { DocumentService } from './DocumentService';
-import { CreateDocumentInput } from '../types/document.types';
+import { AxiomaConfigService } from './AxiomaConfigService';
+import { NonConformityService } from './NonConformityService';
+import { VideoLinkPolicy } from '../types/axioma.types';
+import {
+  AxiomaMetrics,
+  CreateDocumentInput,
+  Document,
+  DocumentContent,
+  DocumentSection,
+} from '../types/document.types';
+import {
+  AutoLinkOutcome,
+  AutoLinkResult,
+  PopData,
+  VideoDocumentSync,
+  VideoPlayback,
+  VideoPOPRecord,
+  VideoSyncAction,
+} from '../types/video.types';
+import { VideoNonConformities } from '../types/nonConformity.types';
+import { NotFoundError, TenantMismatchError, ValidationError } from '../errors/DomainError';
+import { VideoNotCompletedError } from '../errors/VideoErrors';
+import { parseDuration } from '../utils/duration';
+import { normalizePopData } from '../utils/popSchema';
+import { parseVideoPath } from './VideoExtractionService';
 
 /**
- * Interface para dados de POP extraídos de vídeo
+ * Autor registrado nos documentos criados pela vinculação automática
  */
-interface VideoPOPData {
-  videoPath: string;
-  videoUri: string;
-  popData: {
-    titulo?: string;
-    objetivo?: string;
-    etapas?: Array<{
-      numero: number;
-      descricao: string;
-      tempo?: string;
-      ferramentas?: string[];
-      pontosCriticos?: string[];
-    }>;
-    requisitosSeguranca?: string[];
-    materiaisFerramentas?: string[];
-    tempoEstimado?: string;
-    responsavel?: string;
-    criteriosQualidade?: string[];
-    naoConformidades?: string[];
-    scoreConformidade?: number;
-  };
-  extractedAt: admin.firestore.Timestamp;
-  status: string;
+export const AUTO_LINK_USER = 'AUTO-SYSTEM';
+
+/**
+ * Validade das URLs assinadas de reprodução
+ */
+export const VIDEO_PLAYBACK_TTL_MINUTES = 30;
+
+/**
+ * Decisão da vinculação automática antes de ser registrada
+ */
+export type AutoLinkDecision = Omit<AutoLinkOutcome, 'processadoEm'>;
+
+const SYNC_MOTIVOS: Record<VideoSyncAction, string> = {
+  criado: 'Documento gerado automaticamente',
+  revisado: 'Nova extração abriu um rascunho do documento',
+  inalterado: 'Documento vinculado já reflete a extração',
+};
+
+/**
+ * Seções do documento geradas a partir do vídeo
+ * Na atualização por nova extração são substituídas; as demais são mantidas
+ */
+const VIDEO_SECTIONS = [
+  'Objetivo',
+  'Requisitos de Segurança',
+  'Materiais e Ferramentas',
+  'Critérios de Qualidade',
+  'Não-Conformidades Identificadas',
+  'Execução',
+];
+
+/**
+ * Decide o destino de um POP concluído conforme a política da organização
+ *
+ * @param policy - Política resolvida (videoLinkConfigs + videoProcessing)
+ * @param scoreConformidade - Score do POP extraído (0-100)
+ */
+export function decideAutoLink(
+  policy: VideoLinkPolicy,
+  scoreConformidade: number | undefined
+): AutoLinkDecision & { resultado: Exclude<AutoLinkResult, 'erro'> } {
+  if (!policy.autoLink) {
+    return { resultado: 'ignorado', motivo: 'Vinculação automática desativada' };
+  }
+  if (!policy.generatePOPOnComplete) {
+    return { resultado: 'revisao_manual', motivo: 'Geração automática de POP desativada' };
+  }
+  if (policy.requireManualReview) {
+    return { resultado: 'revisao_manual', motivo: 'Configuração exige revisão manual' };
+  }
+  if (scoreConformidade === undefined || scoreConformidade < policy.minConfidenceScore) {
+    return {
+      resultado: 'revisao_manual',
+      motivo: `Score de conformidade ${scoreConformidade ?? 'ausente'} abaixo do mínimo ${policy.minConfidenceScore}`,
+    };
+  }
+  return { resultado: 'vinculado', motivo: 'Documento gerado automaticamente' };
 }
 
 /**
@@ -46,111 +105,319 @@ interface VideoPOPData {
 export class VideoPOPIntegrationService {
   private db: admin.firestore.Firestore;
   private documentService: DocumentService;
+  private configService: AxiomaConfigService;
+  private nonConformityService: NonConformityService;
 
   constructor() {
     this.db = admin.firestore();
     this.documentService = new DocumentService();
+    this.configService = new AxiomaConfigService();
+    this.nonConformityService = new NonConformityService();
   }
 
   /**
    * Cria um documento POP automaticamente a partir de um vídeo processado
+   * Se o vídeo já estiver vinculado, aplica a extração ao documento
+   * existente (ver syncDocumentFromVideoPOP)
    * 
    * @param companyId - ID da empresa (orgId)
    * @param videoId - ID do vídeo processado
    * @param criadoPor - ID do usuário (pode ser 'SYSTEM' para automático)
-   * @returns Documento criado
+   * @returns Documento criado ou vinculado
    */
   async createDocumentFromVideoPOP(
     companyId: string,
     videoId: string,
     criadoPor: string = 'SYSTEM'
-  ) {
-    try {
-      // Buscar dados do POP do vídeo
-      const popRef = this.db
-        .collection('companies')
-        .doc(companyId)
-        .collection('pops')
-        .doc(videoId);
+  ): Promise<Document> {
+    const { document } = await this.syncDocumentFromVideoPOP(companyId, videoId, criadoPor);
+    return document;
+  }
 
-      const popSnapshot = await popRef.get();
+  /**
+   * Sincroniza o documento com a extração atual do vídeo
+   * - Vídeo sem documento: cria o documento e o vínculo na mesma transação
+   * - Vídeo vinculado: compara etapas e seções com o conteúdo atual e, se
+   *   houver alterações, abre um rascunho do documento com o resumo
+   * As não-conformidades da extração entram como rascunho no registro de NCs
+   * Idempotente: repetir a mesma extração não cria documentos, revisões nem NCs
+   *
+   * @param userId - Responsável pela criação ou revisão ('AUTO-SYSTEM' no trigger)
+   */
+  async syncDocumentFromVideoPOP(
+    companyId: string,
+    videoId: string,
+    userId: string
+  ): Promise<VideoDocumentSync> {
+    try {
+      const popRef = this.popRef(companyId, videoId);
+
+      const result = await this.db.runTransaction(async (transaction) => {
+        // Buscar dados do POP do vídeo
+        const popSnapshot = await transaction.get(popRef);
+
+        if (!popSnapshot.exists) {
+          throw new NotFoundError(
+            'POP de vídeo',
+            videoId,
+            `POP de vídeo ${videoId} não encontrado para empresa ${companyId}`
+          );
+        }
+
+        const record = popSnapshot.data() as VideoPOPRecord;
+
+        if (record.status !== 'completed') {
+          throw new VideoNotCompletedError(videoId, record.status);
+        }
+
+        // Revalidar: extrações anteriores ao esquema podem estar fora do formato
+        const { popData, erros, valido } = normalizePopData(record.popData);
+        if (!valido) {
+          throw new ValidationError(`POP de vídeo ${videoId} com dados inválidos: ${erros.join('; ')}`, {
+            videoId,
+            erros,
+          });
+        }
+        const pop = popData as PopData;
+
+        if (record.linkedDocumentId) {
+          const linked = await transaction.get(this.db.collection('documents').doc(record.linkedDocumentId));
+          if (linked.exists) {
+            return { vinculado: linked.data() as Document, pop, record };
+          }
+        }
+
+        const documentInput: CreateDocumentInput = {
+          orgId: companyId,
+          tipo: 'POP',
+          titulo: pop.titulo,
+          // Estruturar conteúdo do POP (o contentHash é calculado pelo DocumentService)
+          conteudo: this.buildContent(pop),
+          criadoPor: userId,
+          ...this.buildMetrics(pop),
+        };
+
+        // Documento já vinculado ao vídeo
+        const created: Document = {
+          ...this.documentService.prepareDocument(documentInput),
+          videoId,
+          videoPath: record.videoPath,
+          ...(record.extractedAt ? { videoExtraidoEm: record.extractedAt } : {}),
+        };
+
+        transaction.create(this.db.collection('documents').doc(created.docId), created);
+        transaction.update(popRef, {
+          linkedDocumentId: created.docId,
+          linkedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        return { criado: created, pop, record };
+      });
+
+      const { pop, record } = result;
+      const extraidoEm = record.extractedAt ?? admin.firestore.Timestamp.now();
+      const ncsExtraidas: VideoNonConformities = {
+        videoId,
+        videoPath: record.videoPath,
+        extraidoEm,
+        naoConformidades: pop.naoConformidades || [],
+      };
 
-      if (!popSnapshot.exists) {
-        throw new Error(`POP de vídeo ${videoId} não encontrado para empresa ${companyId}`);
+      if (result.criado) {
+        logger.info('Documento criado a partir do vídeo', {
+          orgId: companyId,
+          videoId,
+          docId: result.criado.docId,
+        });
+        await this.nonConformityService.raiseDraftsFromVideo(result.criado, ncsExtraidas, userId);
+        return { document: result.criado, acao: 'criado' };
       }
 
-      const popData = popSnapshot.data() as VideoPOPData;
-
-      if (popData.status !== 'completed') {
-        throw new Error(`POP de vídeo ${videoId} não está completo (status: ${popData.status})`);
+      // Nova extração de um vídeo já vinculado: revisão do documento existente
+      const { document, alteracoes } = await this.documentService.applyVideoRevision(result.vinculado.docId, {
+        videoId,
+        videoPath: record.videoPath,
+        extraidoEm,
+        conteudoPara: (atual) => this.mergeContent(atual, this.buildContent(pop)),
+        axiomaMetrics: this.buildMetrics(pop),
+        solicitadoPor: userId,
+      });
+      await this.nonConformityService.raiseDraftsFromVideo(document, ncsExtraidas, userId);
+
+      if (alteracoes.length === 0) {
+        logger.info('Nova extração do vídeo sem alterações no documento', {
+          orgId: companyId,
+          videoId,
+          docId: document.docId,
+        });
+        return { document, acao: 'inalterado' };
       }
 
-      // Extrair informações do POP
-      const titulo = popData.popData.titulo || `POP Extraído de Vídeo ${videoId}`;
-      const scoreConformidade = popData.popData.scoreConformidade || 0;
-      const naoConformidades = popData.popData.naoConformidades?.length || 0;
-
-      // Calcular custo de manutenção baseado em complexidade
-      const etapas = popData.popData.etapas?.length || 0;
-      const custoManutencao = this.calculateMaintenanceCost(etapas, naoConformidades);
-
-      // Determinar impacto na margem baseado em score e não-conformidades
-      const impactoMargem = this.calculateMarginImpact(scoreConformidade, naoConformidades);
-
-      // Gerar hash do conteúdo para detecção de mudanças
-      // Nota: Este não é um hash criptográfico seguro, apenas para identificação
-      const contentHash = this.generateContentHash(popData);
-
-      // Criar documento usando DocumentService
-      const documentInput: CreateDocumentInput = {
+      const resumo = document.atualizacaoVideo?.resumo;
+      logger.info('Documento em revisão pela nova extração do vídeo', {
         orgId: companyId,
-        tipo: 'POP',
-        titulo,
-        contentHash,
-        criadoPor,
-        custoManutencao,
-        impactoMargem,
-      };
-
-      const document = await this.documentService.createDocument(documentInput);
+        videoId,
+        docId: document.docId,
+        versao: document.versao,
+        resumo,
+      });
+      return { document, acao: 'revisado', ...(resumo ? { resumo } : {}) };
+    } catch (error) {
+      logger.error('Erro ao sincronizar documento de vídeo POP', { orgId: companyId, videoId, userId, error });
+      throw error;
+    }
+  }
 
-      // Vincular documento ao vídeo
-      await this.linkDocumentToVideo(companyId, videoId, document.docId);
+  /**
+   * Aplica a política de vinculação a um POP concluído e registra a
+   * decisão em `autoLink` (chamado pelo trigger onVideoPOPCompleted)
+   * Repetições são seguras: a sincronização do documento é idempotente
+   *
+   * @returns Decisão registrada, ou null se o POP não está concluído
+   */
+  async processCompletedPOP(companyId: string, videoId: string): Promise<AutoLinkOutcome | null> {
+    const record = (await this.popRef(companyId, videoId).get()).data() as VideoPOPRecord | undefined;
 
-      console.log(`✓ Documento ${document.docId} criado a partir do vídeo ${videoId}`);
+    if (record?.status !== 'completed') {
+      return null;
+    }
 
-      return document;
-    } catch (error) {
-      console.error('Erro ao criar documento de vídeo POP:', error);
-      throw error;
+    // A política decide só a criação: a nova extração de um vídeo já
+    // vinculado sempre revisa o documento, senão seria descartada
+    const decisao: AutoLinkDecision = record.linkedDocumentId
+      ? { resultado: 'vinculado', motivo: SYNC_MOTIVOS.revisado }
+      : decideAutoLink(
+        await this.configService.getVideoLinkPolicy(companyId),
+        record.popData?.scoreConformidade
+      );
+
+    if (decisao.resultado === 'vinculado') {
+      const sync = await this.syncDocumentFromVideoPOP(companyId, videoId, AUTO_LINK_USER);
+      decisao.docId = sync.document.docId;
+      decisao.acao = sync.acao;
+      decisao.motivo = SYNC_MOTIVOS[sync.acao] + (sync.resumo ? `: ${sync.resumo}` : '');
     }
+
+    return this.recordAutoLink(companyId, videoId, decisao);
   }
 
   /**
-   * Vincula um documento existente a um vídeo POP
+   * Registra a decisão da vinculação automática no POP
    */
-  private async linkDocumentToVideo(
+  async recordAutoLink(
     companyId: string,
     videoId: string,
-    docId: string
-  ): Promise<void> {
-    const popRef = this.db
+    decisao: AutoLinkDecision
+  ): Promise<AutoLinkOutcome> {
+    const outcome: AutoLinkOutcome = {
+      resultado: decisao.resultado,
+      motivo: decisao.motivo,
+      ...(decisao.docId ? { docId: decisao.docId } : {}),
+      ...(decisao.acao ? { acao: decisao.acao } : {}),
+      processadoEm: admin.firestore.Timestamp.now(),
+    };
+    await this.popRef(companyId, videoId).update({ autoLink: outcome });
+    return outcome;
+  }
+
+  /**
+   * POPs na fila de revisão manual (ainda não vinculados)
+   */
+  async findPOPsAwaitingReview(companyId: string): Promise<Array<VideoPOPRecord & { videoId: string }>> {
+    const snapshot = await this.db
       .collection('companies')
       .doc(companyId)
       .collection('pops')
-      .doc(videoId);
+      .where('autoLink.resultado', '==', 'revisao_manual')
+      .get();
 
-    await popRef.update({
-      linkedDocumentId: docId,
-      linkedAt: admin.firestore.FieldValue.serverTimestamp(),
+    return snapshot.docs
+      .map((doc) => ({ videoId: doc.id, ...(doc.data() as VideoPOPRecord) }))
+      .filter((record) => !record.linkedDocumentId);
+  }
+
+  /**
+   * Gera uma URL assinada para reproduzir o vídeo vinculado ao documento
+   * O arquivo precisa estar em companies/{orgId}/videos/ da organização
+   * do documento, a mesma isolação aplicada pelas regras do Storage
+   *
+   * @param document - Documento já conferido contra a organização do usuário
+   */
+  async getVideoPlayback(document: Document): Promise<VideoPlayback> {
+    if (!document.videoPath) {
+      throw new NotFoundError('Vídeo', document.docId, `Documento ${document.docId} não tem vídeo vinculado`);
+    }
+
+    const path = parseVideoPath(document.videoPath);
+    if (!path) {
+      throw new ValidationError(`Caminho de vídeo inválido: ${document.videoPath}`, {
+        docId: document.docId,
+        videoPath: document.videoPath,
+      });
+    }
+    if (path.companyId !== document.orgId) {
+      throw new TenantMismatchError('Vídeo', path.videoId);
+    }
+
+    const file = admin.storage().bucket().file(document.videoPath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      throw new NotFoundError('Vídeo', path.videoId, `Arquivo do vídeo ${path.videoId} não encontrado no Storage`);
+    }
+
+    const expiraEm = admin.firestore.Timestamp.fromMillis(Date.now() + VIDEO_PLAYBACK_TTL_MINUTES * 60 * 1000);
+    const [url] = await file.getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: expiraEm.toMillis(),
     });
 
-    // Também adicionar referência no documento
-    const docRef = this.db.collection('documents').doc(docId);
-    await docRef.update({
-      videoId,
-      videoPath: (await popRef.get()).data()?.videoPath,
+    return {
+      docId: document.docId,
+      videoId: document.videoId ?? path.videoId,
+      videoPath: document.videoPath,
+      url,
+      expiraEm,
+    };
+  }
+
+  private popRef(companyId: string, videoId: string): admin.firestore.DocumentReference {
+    return this.db.collection('companies').doc(companyId).collection('pops').doc(videoId);
+  }
+
+  /**
+   * Métricas Axioma do POP: custo pela complexidade e impacto pelo
+   * score e pelas não-conformidades
+   */
+  private buildMetrics(pop: PopData): AxiomaMetrics {
+    const naoConformidades = pop.naoConformidades?.length || 0;
+    return {
+      custoManutencao: this.calculateMaintenanceCost(pop.etapas.length, naoConformidades),
+      impactoMargem: this.calculateMarginImpact(pop.scoreConformidade, naoConformidades),
+    };
+  }
+
+  /**
+   * Conteúdo da nova extração sobre o conteúdo atual do documento
+   * Etapas e tempo estimado vêm do vídeo; seções geradas pelo vídeo são
+   * substituídas na mesma posição e seções incluídas manualmente são mantidas
+   */
+  private mergeContent(atual: DocumentContent | undefined, extraido: DocumentContent): DocumentContent {
+    const novas = new Map(extraido.secoes.map((secao) => [secao.titulo, secao]));
+
+    const secoes = (atual?.secoes || []).flatMap((secao) => {
+      if (!VIDEO_SECTIONS.includes(secao.titulo)) {
+        return [secao];
+      }
+      const nova = novas.get(secao.titulo);
+      novas.delete(secao.titulo);
+      return nova ? [nova] : [];
     });
+
+    return {
+      ...extraido,
+      secoes: [...secoes, ...novas.values()],
+    };
   }
 
   /**
@@ -188,12 +455,46 @@ export class VideoPOPIntegrationService {
   }
 
   /**
-   * Gera hash simplificado do conteúdo do POP
+   * Converte os dados extraídos do vídeo em conteúdo estruturado de documento
    */
-  private generateContentHash(popData: VideoPOPData): string {
-    const content = JSON.stringify(popData.popData);
-    // Usar timestamp + primeiros caracteres como hash simplificado
-    return `${Date.now()}-${content.substring(0, 10)}`.replace(/[^a-zA-Z0-9]/g, '');
+  private buildContent(pop: PopData): DocumentContent {
+    const secoes: DocumentSection[] = [];
+
+    if (pop.objetivo) {
+      secoes.push({ titulo: 'Objetivo', texto: pop.objetivo });
+    }
+
+    const listas: Array<[string, string[] | undefined]> = [
+      ['Requisitos de Segurança', pop.requisitosSeguranca],
+      ['Materiais e Ferramentas', pop.materiaisFerramentas],
+      ['Critérios de Qualidade', pop.criteriosQualidade],
+      ['Não-Conformidades Identificadas', pop.naoConformidades],
+    ];
+
+    for (const [titulo, itens] of listas) {
+      if (itens && itens.length > 0) {
+        secoes.push({ titulo, texto: '', itens });
+      }
+    }
+
+    if (pop.tempoEstimado || pop.responsavel) {
+      secoes.push({
+        titulo: 'Execução',
+        texto: [
+          pop.responsavel ? `Responsável: ${pop.responsavel}` : '',
+          pop.tempoEstimado ? `Tempo estimado: ${pop.tempoEstimado}` : '',
+        ].filter(Boolean).join('\n'),
+      });
+    }
+
+    return {
+      secoes,
+      etapas: pop.etapas,
+      // Só registra o tempo estimado quando interpretável como duração
+      ...(pop.tempoEstimado && parseDuration(pop.tempoEstimado) !== null
+        ? { tempoEstimado: pop.tempoEstimado }
+        : {}),
+    };
   }
 
   /**
@@ -220,23 +521,23 @@ export class VideoPOPIntegrationService {
    * Processa automaticamente todos os POPs não vinculados de uma empresa
    */
   async autoProcessUnlinkedPOPs(companyId: string): Promise<number> {
-    console.log(`🤖 Processamento automático de POPs não vinculados para ${companyId}...`);
-
     const unlinkedPOPs = await this.findUnlinkedVideoPOPs(companyId);
-    console.log(`  Encontrados ${unlinkedPOPs.length} POPs não vinculados`);
 
     let processed = 0;
     for (const videoId of unlinkedPOPs) {
       try {
-        await this.createDocumentFromVideoPOP(companyId, videoId, 'AUTO-SYSTEM');
+        await this.createDocumentFromVideoPOP(companyId, videoId, AUTO_LINK_USER);
         processed++;
-        console.log(`  ✓ POP ${videoId} processado`);
       } catch (error) {
-        console.error(`  ❌ Erro ao processar POP ${videoId}:`, error);
+        logger.error('Erro ao processar POP não vinculado', { orgId: companyId, videoId, error });
       }
     }
 
-    console.log(`✅ Total processado: ${processed}/${unlinkedPOPs.length}`);
+    logger.info('Processamento automático de POPs não vinculados', {
+      orgId: companyId,
+      processados: processed,
+      total: unlinkedPOPs.length,
+    });
     return processed;
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * Vinculação Automática de POPs de Vídeo
+ *
+ * Quando uma extração chega a 'completed' em companies/{companyId}/pops,
+ * aplica a política de videoLinkConfigs: gera e vincula o documento POP
+ * ou envia o vídeo para a fila de revisão manual. A decisão fica em
+ * `autoLink` no próprio POP.
+ *
+ * Falhas transitórias são repetidas pelo Functions (retry); a criação
+ * do documento é idempotente, então repetições não geram duplicatas.
+ */
+
+import * as logger from 'firebase-functions/logger';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { DomainError } from '../errors/DomainError';
+import { isTransientError } from '../errors/errorMapping';
+import { VideoPOPIntegrationService } from '../services/VideoPOPIntegrationService';
+import { VideoPOPRecord } from '../types/video.types';
+
+/**
+ * Indica se a escrita é uma nova extração concluída
+ * Escritas posteriores no mesmo POP (vínculo, decisão) não disparam de novo
+ */
+function isNewCompletion(before: VideoPOPRecord | undefined, after: VideoPOPRecord | undefined): boolean {
+  if (after?.status !== 'completed') {
+    return false;
+  }
+  if (before?.status !== 'completed') {
+    return true;
+  }
+  return Boolean(after.extractedAt && before.extractedAt && !after.extractedAt.isEqual(before.extractedAt));
+}
+
+export const onVideoPOPCompleted = onDocumentWritten(
+  {
+    document: 'companies/{companyId}/pops/{videoId}',
+    retry: true,
+  },
+  async (event) => {
+    const before = event.data?.before.data() as VideoPOPRecord | undefined;
+    const after = event.data?.after.data() as VideoPOPRecord | undefined;
+
+    if (!isNewCompletion(before, after)) {
+      return;
+    }
+
+    const { companyId, videoId } = event.params;
+    const service = new VideoPOPIntegrationService();
+
+    try {
+      const outcome = await service.processCompletedPOP(companyId, videoId);
+      logger.info('Vinculação automática de POP', { orgId: companyId, videoId, ...outcome });
+    } catch (error) {
+      if (isTransientError(error)) {
+        throw error;
+      }
+
+      // Falha permanente: registrar no POP em vez de repetir
+      logger.error('Vinculação automática de POP falhou', { orgId: companyId, videoId, error });
+      await service.recordAutoLink(companyId, videoId, {
+        resultado: 'erro',
+        motivo: error instanceof DomainError ? error.message : 'Erro interno na vinculação automática',
+      });
+    }
+  }
+);
@@ -0,0 +1,26 @@
+/**
+ * VideoProcessor - Extração de POPs de vídeos enviados ao Storage
+ *
+ * Monitora uploads em companies/{companyId}/videos/ e extrai o
+ * Procedimento Operacional Padrão com o provedor configurado para a
+ * empresa (ver VideoExtractionService).
+ */
+
+import { defineSecret } from 'firebase-functions/params';
+import { onObjectFinalized } from 'firebase-functions/v2/storage';
+import { VideoExtractionService } from '../services/VideoExtractionService';
+
+const geminiApiKey = defineSecret('GEMINI_API_KEY');
+
+export const VideoProcessor = onObjectFinalized(
+  {
+    cpu: 2,
+    memory: '4GiB',
+    timeoutSeconds: 540,
+    secrets: [geminiApiKey],
+  },
+  async (event) => {
+    const service = new VideoExtractionService({ geminiApiKey: () => geminiApiKey.value() });
+    return service.processUpload(event.data);
+  }
+);
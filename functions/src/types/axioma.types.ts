@@ -0,0 +1,320 @@
+/**
+ * Tipos de Configuração do Sistema Axioma
+ * Armazenados na coleção 'axiomaConfigs' (global e por organização)
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { DocumentStatus, DocumentType } from './document.types';
+import { PopExtractionProviderName } from './video.types';
+
+/**
+ * Thresholds da análise preditiva de revisão
+ */
+export interface AnalysisThresholds {
+  /** Dias desde a última revisão para alertar (risco médio) */
+  daysUntilRevisionWarning: number;
+  /** Dias desde a última revisão para exigir revisão (risco alto) */
+  daysUntilRevisionRequired: number;
+  /** Score de conformidade mínimo (0-100) */
+  minConformityScore: number;
+  /** Quantidade máxima de não-conformidades aceitas */
+  maxNonConformities: number;
+  /** Razão máxima entre tempo de execução e tempo estimado (ex: 1.5) */
+  maxExecutionTimeRatio: number;
+  /** Execuções mínimas para avaliar o tempo de execução */
+  minExecutionSamples: number;
+}
+
+/**
+ * Fatores que compõem o score de risco
+ */
+export type RiskFactor =
+  | 'idade'
+  | 'conformidade'
+  | 'naoConformidades'
+  | 'impactoMargem'
+  | 'custoManutencao';
+
+/**
+ * Parâmetros do score de risco
+ */
+export interface RiskScoringConfig {
+  /** Peso relativo de cada fator (normalizados para somar 100) */
+  pesos: Record<RiskFactor, number>;
+  /** Custo de manutenção (R$) que corresponde a intensidade 0,5 */
+  custoReferencia: number;
+}
+
+/**
+ * Regra de revisão (indicador de falha) avaliada sobre as métricas do documento
+ * Motivo e recomendação aceitam variáveis entre chaves: 'Score {score_conformidade}%'
+ */
+export interface FailureRule {
+  /** Identificador da regra (regras padrão podem ser sobrescritas pelo id) */
+  id: string;
+  /** Expressão booleana (ex: 'score_conformidade < score_minimo') */
+  expressao: string;
+  /** Motivo registrado quando a regra dispara */
+  motivo?: string;
+  /** Recomendação registrada quando a regra dispara */
+  recomendacao?: string;
+  /** Se a regra exige revisão (padrão true); false apenas alerta */
+  exigeRevisao?: boolean;
+  /** false desativa a regra (inclusive as padrão) */
+  ativo?: boolean;
+}
+
+/**
+ * Indicador de falha configurado: expressão simples ou regra completa
+ * Regras padrão podem ser sobrescritas informando apenas o id e os campos alterados
+ */
+export type FailureIndicator = string | (Partial<FailureRule> & { id: string });
+
+/**
+ * Regra que disparou na análise de um documento
+ */
+export interface FiredRule {
+  id: string;
+  expressao: string;
+  /** Motivo com as variáveis já substituídas */
+  motivo: string;
+  recomendacao: string;
+  exigeRevisao: boolean;
+}
+
+/**
+ * Configuração da análise preditiva
+ * Thresholds parciais sobrescrevem campo a campo os da camada anterior
+ */
+export interface PredictiveAnalysisConfig {
+  enabled?: boolean;
+  checkIntervalDays?: number;
+  /** Regras de revisão adicionais ou sobrescritas (ver DEFAULT_FAILURE_RULES) */
+  failureIndicators?: FailureIndicator[];
+  /** Thresholds aplicados a todos os tipos de documento */
+  thresholds?: Partial<AnalysisThresholds>;
+  /** Thresholds específicos por tipo de documento */
+  thresholdsPorTipo?: Partial<Record<DocumentType, Partial<AnalysisThresholds>>>;
+  /** Pesos dos fatores do score de risco (parciais) */
+  riskWeights?: Partial<Record<RiskFactor, number>>;
+  /** Custo de referência do fator custoManutencao */
+  custoReferencia?: number;
+}
+
+/**
+ * Configuração do processamento de vídeos
+ * Campos ausentes herdam da camada anterior (ver DEFAULT_VIDEO_PROCESSING)
+ */
+export interface VideoProcessingConfig {
+  enabled?: boolean;
+  /** Provedor de extração ('fake' para emuladores e testes) */
+  provider?: PopExtractionProviderName;
+  /** Modelo usado pelo provedor (ex: 'gemini-1.5-pro') */
+  modelVersion?: string;
+  autoGeneratePOP?: boolean;
+  minConfidenceScore?: number;
+}
+
+/**
+ * Documento da coleção 'videoLinkConfigs'
+ * - Global: ID 'video-document-integration' (criado por `cli setup-axioma`)
+ * - Organização: ID igual ao orgId, com `orgId` preenchido
+ */
+export interface VideoLinkConfig {
+  configId: string;
+  orgId?: string;
+  nome?: string;
+  ativo?: boolean;
+  /** Reagir automaticamente aos POPs concluídos */
+  autoLink?: boolean;
+  /** Gerar o documento POP quando a extração concluir */
+  generatePOPOnComplete?: boolean;
+  /** Enviar todo POP concluído para a fila de revisão manual */
+  requireManualReview?: boolean;
+}
+
+/**
+ * Política resolvida da vinculação automática de POPs de vídeo
+ */
+export interface VideoLinkPolicy {
+  autoLink: boolean;
+  /** generatePOPOnComplete e videoProcessing.autoGeneratePOP */
+  generatePOPOnComplete: boolean;
+  requireManualReview: boolean;
+  /** Score de conformidade mínimo para gerar sem revisão (videoProcessing) */
+  minConfidenceScore: number;
+}
+
+/**
+ * Documento da coleção 'axiomaConfigs'
+ * - Global: ID 'axioma-main-config' (criado por `cli setup-axioma`)
+ * - Organização: ID igual ao orgId, com `orgId` preenchido
+ */
+export interface AxiomaConfig {
+  configId: string;
+  orgId?: string;
+  nome?: string;
+  ativo: boolean;
+  videoProcessing?: VideoProcessingConfig;
+  marginAnalysis?: Record<string, unknown>;
+  predictiveAnalysis?: PredictiveAnalysisConfig;
+}
+
+/**
+ * Nível de risco atribuído pela análise preditiva
+ */
+export type RiskLevel = 'alto' | 'médio' | 'baixo';
+
+/**
+ * Contribuição de um fator para o score de risco
+ */
+export interface RiskContribution {
+  fator: RiskFactor;
+  /** Peso normalizado do fator (0-100, soma 100 entre os fatores) */
+  peso: number;
+  /** Intensidade do fator no documento (0-1) */
+  intensidade: number;
+  /** Pontos somados ao score (peso × intensidade) */
+  pontos: number;
+  /** Explicação legível da intensidade */
+  descricao: string;
+}
+
+/**
+ * Resultado da análise preditiva de um documento
+ */
+export interface DocumentAnalysis {
+  docId: string;
+  titulo: string;
+  status: DocumentStatus;
+  needsRevision: boolean;
+  /** Score de risco de 0 (sem risco) a 100 */
+  riskScore: number;
+  /** Nível derivado do score (ver RISK_LEVEL_CUTOFFS) */
+  riskLevel: RiskLevel;
+  /** Contribuições por fator, da maior para a menor */
+  riskContributions: RiskContribution[];
+  reasons: string[];
+  recommendations: string[];
+  /** Regras de revisão que dispararam */
+  regrasDisparadas: FiredRule[];
+  metrics: {
+    daysSinceLastRevision: number;
+    scoreConformidade?: number;
+    /** Não-conformidades em aberto no registro */
+    naoConformidades?: number;
+    custoManutencao: number;
+    /** Tempo estimado do procedimento (segundos) */
+    tempoEstimadoSegundos?: number;
+    /** Mediana do tempo das execuções recentes (segundos) */
+    tempoExecucaoMedianoSegundos?: number;
+    /** Mediana de tempo de execução ÷ tempo estimado */
+    razaoExcessoTempo?: number;
+    /** Execuções recentes consideradas */
+    execucoesAnalisadas?: number;
+    /** Execuções acima do limite de excesso */
+    execucoesComExcesso?: number;
+  };
+}
+
+/**
+ * Documento que não pôde ser analisado na análise da organização
+ */
+export interface AnalysisFailure {
+  docId: string;
+  /** Código do erro de domínio ('INTERNAL' para erros inesperados) */
+  code: string;
+  message: string;
+}
+
+/**
+ * Resultado da análise de todos os documentos ativos/em revisão da organização
+ */
+export interface OrganizationAnalysis {
+  orgId: string;
+  /** Documentos consultados */
+  totalDocumentos: number;
+  /** Análises concluídas, do maior para o menor score de risco */
+  analyses: DocumentAnalysis[];
+  /** Documentos cuja análise falhou */
+  falhas: AnalysisFailure[];
+}
+
+/**
+ * Variação do risco de um documento em relação à execução anterior
+ */
+export type RiskTrend = 'novo' | 'melhorou' | 'estavel' | 'piorou';
+
+/**
+ * Análise persistida em companies/{orgId}/analyses
+ */
+export interface StoredAnalysis extends DocumentAnalysis {
+  /** Execução que produziu a análise */
+  runId: string;
+  orgId: string;
+  analisadoEm: Timestamp;
+  /** Nível de risco na execução anterior (ausente se o documento é novo) */
+  riskLevelAnterior?: RiskLevel;
+  /** Score de risco na execução anterior */
+  riskScoreAnterior?: number;
+  tendencia: RiskTrend;
+}
+
+/**
+ * Execução da análise preditiva de uma organização
+ * Armazenada em companies/{orgId}/analysisRuns
+ */
+export interface AnalysisRun {
+  runId: string;
+  orgId: string;
+  iniciadoEm: Timestamp;
+  concluidoEm: Timestamp;
+  /** Execução usada como base da tendência */
+  runAnteriorId?: string;
+  /** Documentos que não puderam ser analisados (até MAX_STORED_FAILURES) */
+  falhas?: AnalysisFailure[];
+  resumo: {
+    total: number;
+    /** Quantidade de documentos cuja análise falhou */
+    falhas: number;
+    precisamRevisao: number;
+    porRisco: Record<RiskLevel, number>;
+    porTendencia: Record<RiskTrend, number>;
+  };
+}
+
+/**
+ * Formatos de exportação do relatório de análise preditiva
+ */
+export type ReportFormat = 'json' | 'csv' | 'pdf';
+
+/**
+ * Relatório de análise preditiva de uma organização
+ */
+export interface AnalysisReport {
+  titulo: string;
+  orgId: string;
+  /** Data de geração (ISO 8601) */
+  geradoEm: string;
+  resumo: {
+    total: number;
+    precisamRevisao: number;
+    porRisco: Record<RiskLevel, number>;
+    /** Média dos scores de risco (0-100) */
+    scoreMedio: number;
+    falhas: number;
+  };
+  /** Análises do maior para o menor score de risco */
+  documentos: DocumentAnalysis[];
+  falhas: AnalysisFailure[];
+}
+
+/**
+ * Relatório renderizado pronto para download
+ */
+export interface RenderedReport {
+  formato: ReportFormat;
+  contentType: string;
+  nomeArquivo: string;
+  conteudo: Buffer;
+}
@@ -0,0 +1,161 @@
+/**
+ * Tipos das execuções de checklist
+ * Modelos globais em 'checklistTemplates' (semeados por `node cli/index.js setup-standard`);
+ * execuções na coleção 'checklistRuns' (isolamento por orgId)
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { NonConformitySeverity } from './nonConformity.types';
+
+/**
+ * Item de um modelo de checklist
+ */
+export interface ChecklistTemplateItem {
+  ordem: number;
+  descricao: string;
+  obrigatorio: boolean;
+}
+
+/**
+ * Modelo de checklist de uma norma (ex: iso-9001-audit)
+ */
+export interface ChecklistTemplate {
+  templateId: string;
+  nome: string;
+  norma: string;
+  versao: string;
+  ativo: boolean;
+  itens: ChecklistTemplateItem[];
+}
+
+/**
+ * Resposta de um item
+ * - conforme: requisito atendido
+ * - nao_conforme: requisito não atendido (pode abrir uma NC)
+ * - na: não aplicável (fora do cálculo do score)
+ */
+export type ChecklistAnswer = 'conforme' | 'nao_conforme' | 'na';
+
+/**
+ * Situação da execução
+ * - em_andamento: itens sendo respondidos
+ * - concluida: todos os obrigatórios respondidos, score calculado
+ * - cancelada: descartada
+ */
+export type ChecklistRunStatus = 'em_andamento' | 'concluida' | 'cancelada';
+
+/**
+ * Foto de evidência de um item (arquivo no Storage)
+ */
+export interface ChecklistEvidence {
+  evidenciaId: string;
+  nome: string;
+  storagePath: string;
+  contentType: string;
+  tamanhoBytes: number;
+  /** SHA-256 do arquivo no envio */
+  sha256: string;
+  enviadoPor: string;
+  enviadoEm: Timestamp;
+}
+
+/**
+ * Item da execução: cópia do item de origem e a resposta
+ */
+export interface ChecklistRunItem {
+  ordem: number;
+  descricao: string;
+  obrigatorio: boolean;
+  /** Seção do documento de origem */
+  grupo?: string;
+  resposta?: ChecklistAnswer;
+  comentario?: string;
+  evidencias: ChecklistEvidence[];
+  respondidoPor?: string;
+  respondidoEm?: Timestamp;
+  /** Não-conformidade aberta a partir do item reprovado */
+  ncId?: string;
+}
+
+/**
+ * Origem dos itens da execução: modelo de norma ou documento do tipo Checklist
+ * (versão ativa no início da execução)
+ */
+export interface ChecklistRunOrigin {
+  tipo: 'template' | 'documento';
+  templateId?: string;
+  docId?: string;
+  versao: string;
+  norma?: string;
+}
+
+/**
+ * Contagem das respostas
+ */
+export interface ChecklistRunSummary {
+  conformes: number;
+  naoConformes: number;
+  naoAplicaveis: number;
+  semResposta: number;
+}
+
+/**
+ * Execução de checklist
+ */
+export interface ChecklistRun {
+  runId: string;
+  orgId: string;
+  titulo: string;
+  origem: ChecklistRunOrigin;
+  status: ChecklistRunStatus;
+  itens: ChecklistRunItem[];
+  resumo: ChecklistRunSummary;
+  /** Conformidade (0-100) sobre os itens aplicáveis, calculada na conclusão */
+  scoreConformidade?: number;
+  iniciadoPor: string;
+  iniciadoEm: Timestamp;
+  atualizadoEm: Timestamp;
+  concluidoPor?: string;
+  concluidoEm?: Timestamp;
+  canceladoPor?: string;
+  canceladoEm?: Timestamp;
+  motivoCancelamento?: string;
+}
+
+/**
+ * Dados para iniciar uma execução (templateId ou docId)
+ */
+export interface StartChecklistRunInput {
+  orgId: string;
+  templateId?: string;
+  docId?: string;
+  titulo?: string;
+  iniciadoPor: string;
+}
+
+/**
+ * Resposta de um item
+ */
+export interface ChecklistAnswerInput {
+  resposta: ChecklistAnswer;
+  comentario?: string;
+}
+
+/**
+ * Dados para abrir uma NC a partir de um item reprovado
+ * Sem título/descrição, são usados a descrição do item e o comentário
+ */
+export interface ChecklistNonConformityInput {
+  severidade: NonConformitySeverity;
+  responsavel: string;
+  titulo?: string;
+  descricao?: string;
+}
+
+/**
+ * Filtros da listagem de execuções
+ */
+export interface ChecklistRunFilters {
+  status?: ChecklistRunStatus;
+  docId?: string;
+}
@@ -20,6 +20,22 @@ export type DocumentStatus = 'rascunho' | 'revisao' | 'ativo' | 'obsoleto';
  */
 export type ImpactoMargem = 'alto' | 'médio' | 'baixo';
 
+/**
+ * Papéis de assinatura no fluxo de revisão e aprovação
+ * A ordem define as etapas: elaborador -> revisor -> aprovador
+ */
+export type ReviewRole = 'elaborador' | 'revisor' | 'aprovador';
+
+/**
+ * Papel do usuário na organização (claim `role` do token)
+ */
+export type UserRole = 'leitor' | 'elaborador' | 'revisor' | 'aprovador' | 'gestor';
+
+/**
+ * Decisão registrada por um signatário
+ */
+export type ReviewDecision = 'aprovado' | 'rejeitado';
+
 /**
  * Metadados de criação e revisão do documento
  */
@@ -32,6 +48,150 @@ export interface DocumentMetadata {
   ultimaRevisao: Timestamp;
 }
 
+/**
+ * Tipo de mudança declarado na aprovação
+ * - editorial: correção sem impacto no procedimento (minor: 1.0 -> 1.1)
+ * - substantiva: alteração do procedimento (major: 1.1 -> 2.0)
+ * - reemissao: reemissão controlada com conteúdo inalterado (major)
+ */
+export type VersionChangeType = 'editorial' | 'substantiva' | 'reemissao';
+
+/**
+ * Signatário designado para a revisão de um documento
+ */
+export interface ReviewSignature {
+  /** ID do usuário signatário */
+  userId: string;
+  /** Papel do signatário no fluxo */
+  papel: ReviewRole;
+  /** Decisão registrada (ausente enquanto pendente) */
+  decisao?: ReviewDecision;
+  /** Comentário do signatário */
+  comentario?: string;
+  /** Data e hora da assinatura */
+  assinadoEm?: Timestamp;
+}
+
+/**
+ * Rodada de revisão em andamento ou concluída
+ */
+export interface DocumentReview {
+  /** Número sequencial da rodada de revisão */
+  rodada: number;
+  /** Usuário que submeteu o documento para revisão */
+  submetidoPor: string;
+  /** Data e hora da submissão */
+  submetidoEm: Timestamp;
+  /** Signatários designados e suas decisões */
+  assinaturas: ReviewSignature[];
+}
+
+/**
+ * Registro da aprovação que ativou a versão atual
+ */
+export interface DocumentApproval {
+  /** Usuário aprovador */
+  aprovadoPor: string;
+  /** Data e hora da aprovação */
+  aprovadoEm: Timestamp;
+  /** Tipo de mudança que definiu o incremento de versão */
+  tipoMudanca: VersionChangeType;
+  /** Motivo da mudança de versão */
+  motivoMudanca?: string;
+}
+
+/**
+ * Seção textual do conteúdo de um documento
+ */
+export interface DocumentSection {
+  /** Título da seção (ex: 'Objetivo', 'Requisitos de Segurança') */
+  titulo: string;
+  /** Texto da seção */
+  texto: string;
+  /** Itens em lista (opcional) */
+  itens?: string[];
+}
+
+/**
+ * Etapa de um procedimento (POP)
+ */
+export interface DocumentStep {
+  numero: number;
+  descricao: string;
+  tempo?: string;
+  ferramentas?: string[];
+  pontosCriticos?: string[];
+}
+
+/**
+ * Anexo armazenado no Storage em companies/{orgId}/documents/{docId}/
+ */
+export interface DocumentAttachment {
+  /** ID do anexo (UUID) */
+  anexoId: string;
+  /** Nome original do arquivo */
+  nome: string;
+  /** Caminho do arquivo no Storage */
+  storagePath: string;
+  /** Tipo MIME do arquivo */
+  contentType: string;
+  /** Tamanho em bytes */
+  tamanhoBytes: number;
+  /** SHA-256 do arquivo */
+  sha256: string;
+  /** Usuário que enviou o anexo */
+  enviadoPor: string;
+}
+
+/**
+ * Conteúdo estruturado do documento, armazenado com cada versão
+ */
+export interface DocumentContent {
+  /** Seções textuais */
+  secoes: DocumentSection[];
+  /** Etapas do procedimento (POPs) */
+  etapas?: DocumentStep[];
+  /** Tempo estimado de execução em texto livre ('15 min', '00:12:30', '1h20') */
+  tempoEstimado?: string;
+  /** Anexos vinculados à versão */
+  anexos?: DocumentAttachment[];
+}
+
+/**
+ * Registro da restauração de uma versão arquivada
+ */
+export interface DocumentRestore {
+  /** Versão restaurada */
+  versaoRestaurada: string;
+  /** ID da entrada do histórico restaurada */
+  historyId: string;
+  /** Usuário que solicitou a restauração */
+  restauradoPor: string;
+  /** Data e hora da restauração */
+  restauradoEm: Timestamp;
+  /** Motivo da restauração */
+  motivo: string;
+  /** Versão substituída pela restauração (versão ativa até a aprovação) */
+  versaoAnterior?: string;
+}
+
+/**
+ * Atualização de conteúdo a partir de uma nova extração do vídeo vinculado
+ */
+export interface DocumentVideoUpdate {
+  videoId: string;
+  /** Extração que originou o rascunho */
+  extraidoEm: Timestamp;
+  /** Versão em vigor quando a atualização foi aberta */
+  versaoAnterior: string;
+  atualizadoPor: string;
+  atualizadoEm: Timestamp;
+  /** Resumo legível das alterações (ver summarizeChanges) */
+  resumo: string;
+  /** Alterações de conteúdo em relação à versão anterior */
+  alteracoes: DocumentFieldChange[];
+}
+
 /**
  * Métricas do Sistema Axioma para análise de impacto financeiro
  */
@@ -58,15 +218,21 @@ export interface Document {
   
   /** Título descritivo do documento */
   titulo: string;
+
+  /** Prefixos normalizados das palavras do título (busca com array-contains) */
+  tituloBusca?: string[];
   
   /** Status atual do documento no ciclo de vida */
   status: DocumentStatus;
   
-  /** Versão do documento (formato semântico: '1.0', '1.1', '2.0') */
+  /** Versão do documento ('<major>.<minor>': '1.0', '1.1', '2.0') */
   versao: string;
   
-  /** Hash do conteúdo para garantir integridade do arquivo */
+  /** SHA-256 da serialização canônica de `conteudo` */
   contentHash: string;
+
+  /** Conteúdo estruturado da versão atual */
+  conteudo?: DocumentContent;
   
   /** Metadados de criação e revisão */
   metadata: DocumentMetadata;
@@ -79,6 +245,21 @@ export interface Document {
   
   /** Caminho do vídeo no Storage (opcional, para modo Axioma) */
   videoPath?: string;
+
+  /** Extração do vídeo refletida no conteúdo atual (idempotência da atualização) */
+  videoExtraidoEm?: Timestamp;
+
+  /** Atualização por nova extração do vídeo que originou o rascunho atual */
+  atualizacaoVideo?: DocumentVideoUpdate;
+
+  /** Rodada de revisão atual ou mais recente */
+  revisao?: DocumentReview;
+
+  /** Aprovação que ativou a versão atual */
+  aprovacao?: DocumentApproval;
+
+  /** Restauração que originou o rascunho atual (rollback) */
+  restauracao?: DocumentRestore;
 }
 
 /**
@@ -89,12 +270,34 @@ export interface CreateDocumentInput {
   orgId: string;
   tipo: DocumentType;
   titulo: string;
-  contentHash: string;
+  conteudo: DocumentContent;
   criadoPor: string;
   custoManutencao?: number;
   impactoMargem?: ImpactoMargem;
 }
 
+/**
+ * Nova extração do vídeo vinculado a aplicar em um documento
+ */
+export interface VideoRevisionInput {
+  videoId: string;
+  videoPath?: string;
+  /** Momento da extração (chave de idempotência) */
+  extraidoEm: Timestamp;
+  /** Conteúdo da nova versão a partir do conteúdo atual (anexos são preservados) */
+  conteudoPara: (atual: DocumentContent | undefined) => DocumentContent;
+  axiomaMetrics: AxiomaMetrics;
+  solicitadoPor: string;
+}
+
+/**
+ * Signatário informado ao submeter um documento para revisão
+ */
+export interface ReviewerAssignment {
+  userId: string;
+  papel: Exclude<ReviewRole, 'elaborador'>;
+}
+
 /**
  * Interface para histórico de versões do documento
  * Armazenado na subcoleção 'history' de cada documento
@@ -105,6 +308,9 @@ export interface DocumentHistory {
   
   /** Versão anterior arquivada */
   versao: string;
+
+  /** Chave de ordenação da versão (ex: '000002.000010' para '2.10') */
+  versaoOrdem: string;
   
   /** Snapshot completo do documento na versão anterior */
   documentSnapshot: Document;
@@ -112,9 +318,162 @@ export interface DocumentHistory {
   /** Data e hora do arquivamento */
   arquivadoEm: Timestamp;
   
-  /** Usuário que aprovou a nova versão */
+  /** Usuário responsável pela transição que arquivou a versão */
   aprovadoPor: string;
   
   /** Motivo da mudança de versão */
   motivoMudanca?: string;
+
+  /** Versão restaurada em substituição a este estado (rollback) */
+  versaoRestaurada?: string;
+}
+
+/**
+ * Registro do tempo de uma execução do procedimento
+ * Armazenado na subcoleção 'executions' do documento
+ */
+export interface ExecutionRecord {
+  execucaoId: string;
+  docId: string;
+  orgId: string;
+  /** Versão do documento em vigor na execução */
+  versao: string;
+  /** Duração normalizada em segundos */
+  duracaoSegundos: number;
+  /** Duração como informada ('15 min', '00:12:30') */
+  duracaoInformada: string;
+  registradoPor: string;
+  registradoEm: Timestamp;
+  observacao?: string;
+}
+
+/**
+ * Resultado da verificação de integridade de uma versão
+ */
+export interface IntegrityCheckEntry {
+  /** Origem: documento atual ou entrada do histórico */
+  origem: 'documento' | 'historico';
+  /** ID da entrada do histórico (quando origem = 'historico') */
+  historyId?: string;
+  versao: string;
+  /** Hash armazenado (ausente em documentos legados) */
+  esperado?: string;
+  /** Hash recalculado (ausente quando não há conteúdo) */
+  calculado?: string;
+  /**
+   * true quando o hash recalculado confere com o armazenado; null quando a
+   * versão não é verificável (legado sem conteúdo estruturado ou sem hash)
+   */
+  integro: boolean | null;
+  /** Anexos cujo arquivo no Storage não confere com o SHA-256 registrado */
+  anexosAlterados?: string[];
+}
+
+/**
+ * Relatório de integridade de um documento e seu histórico
+ */
+export interface IntegrityReport {
+  docId: string;
+  verificadoEm: Timestamp;
+  /** true quando nenhuma versão verificável falhou */
+  integro: boolean;
+  /** Quantidade de versões legadas que não puderam ser verificadas */
+  naoVerificaveis: number;
+  entradas: IntegrityCheckEntry[];
+}
+
+/**
+ * Tipo de alteração entre duas versões
+ */
+export type ChangeKind = 'adicionado' | 'removido' | 'alterado';
+
+/**
+ * Grupo de campos ao qual uma alteração pertence
+ */
+export type ChangeGroup =
+  | 'documento'
+  | 'metadata'
+  | 'axiomaMetrics'
+  | 'secoes'
+  | 'etapas'
+  | 'anexos';
+
+/**
+ * Alteração de um campo entre duas versões
+ * Timestamps são convertidos para ISO 8601
+ */
+export interface DocumentFieldChange {
+  grupo: ChangeGroup;
+  /** Caminho do campo (ex: 'status', 'etapas[3].descricao', 'secoes[Objetivo].texto') */
+  campo: string;
+  tipo: ChangeKind;
+  anterior?: unknown;
+  atual?: unknown;
+}
+
+/**
+ * Diferenças entre duas versões de um documento
+ */
+export interface DocumentVersionDiff {
+  docId: string;
+  /** Versão de origem */
+  de: string;
+  /** Versão de destino */
+  para: string;
+  alteracoes: DocumentFieldChange[];
+}
+
+/**
+ * Formatos de saída do POP renderizado
+ * - html: visualização no webapp
+ * - pdf: impressão para o chão de fábrica
+ */
+export type PopRenderFormat = 'html' | 'pdf';
+
+/**
+ * Signatário exibido no cabeçalho do POP
+ */
+export interface PopSignatory {
+  papel: ReviewRole;
+  userId: string;
+  /** Data da assinatura (ISO 8601) */
+  assinadoEm?: string;
+}
+
+/**
+ * POP no layout padronizado, montado a partir da versão ativa
+ * Datas em ISO 8601 para que o layout seja serializável
+ */
+export interface PopLayout {
+  docId: string;
+  orgId: string;
+  /** Código do procedimento (ex: 'POP-1A2B3C4D') */
+  codigo: string;
+  titulo: string;
+  versao: string;
+  /** Data da aprovação que colocou a versão em vigor */
+  vigenteDesde?: string;
+  /** Assinaturas da aprovação (elaborador, revisor, aprovador) */
+  aprovadores: PopSignatory[];
+  objetivo?: string;
+  /** EPIs e requisitos de segurança */
+  epis: string[];
+  materiais: string[];
+  responsavel?: string;
+  tempoEstimado?: string;
+  etapas: DocumentStep[];
+  criteriosQualidade: string[];
+  /** Seções incluídas manualmente no documento */
+  outrasSecoes: DocumentSection[];
+  geradoEm: string;
+}
+
+/**
+ * POP renderizado, com tipo e nome de arquivo para download
+ */
+export interface RenderedPopDocument {
+  formato: PopRenderFormat;
+  contentType: string;
+  nomeArquivo: string;
+  conteudo: Buffer;
 }
@@ -0,0 +1,213 @@
+/**
+ * Tipos do registro de não-conformidades (NC) e ações corretivas/preventivas (CAPA)
+ * Armazenados na coleção 'nonConformities' (isolamento por orgId)
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Situação da não-conformidade
+ * - rascunho: levantada automaticamente (extração de vídeo), aguarda confirmação
+ * - aberta: confirmada, aguardando análise de causa e plano de ação
+ * - em_tratamento: ações corretivas/preventivas em andamento
+ * - verificacao: ações concluídas, aguardando verificação de eficácia
+ * - encerrada: todas as ações verificadas como eficazes
+ * - cancelada: descartada (ex: rascunho improcedente ou substituído)
+ */
+export type NonConformityStatus =
+  | 'rascunho'
+  | 'aberta'
+  | 'em_tratamento'
+  | 'verificacao'
+  | 'encerrada'
+  | 'cancelada';
+
+/**
+ * Severidade da não-conformidade
+ */
+export type NonConformitySeverity = 'baixa' | 'media' | 'alta' | 'critica';
+
+/**
+ * Origem do registro
+ * - video: não-conformidade identificada na extração do POP de vídeo
+ * - manual: registrada por um usuário
+ * - checklist: item reprovado em uma execução de checklist
+ */
+export type NonConformityOrigin = 'video' | 'manual' | 'checklist';
+
+/**
+ * Método de análise de causa raiz
+ */
+export type RootCauseMethod = '5porques' | 'ishikawa';
+
+/**
+ * Categorias do diagrama de Ishikawa (6M)
+ */
+export type IshikawaCategory =
+  | 'metodo'
+  | 'maquina'
+  | 'material'
+  | 'mao_de_obra'
+  | 'medicao'
+  | 'meio_ambiente';
+
+/**
+ * Análise de causa raiz
+ */
+export interface RootCauseAnalysis {
+  metodo: RootCauseMethod;
+  /** Cadeia de "por quês" (metodo = '5porques') */
+  porques?: string[];
+  /** Causas por categoria (metodo = 'ishikawa') */
+  ishikawa?: Partial<Record<IshikawaCategory, string[]>>;
+  /** Conclusão da análise */
+  causaRaiz: string;
+  analisadoPor: string;
+  analisadoEm: Timestamp;
+}
+
+/**
+ * Tipo da ação: corretiva (elimina a causa da NC) ou preventiva (evita
+ * a ocorrência em outros processos)
+ */
+export type CorrectiveActionType = 'corretiva' | 'preventiva';
+
+/**
+ * Situação da ação
+ * - pendente: em execução pelo responsável
+ * - concluida: executada, aguardando verificação de eficácia
+ * - eficaz / ineficaz: resultado da verificação
+ */
+export type CorrectiveActionStatus = 'pendente' | 'concluida' | 'eficaz' | 'ineficaz';
+
+/**
+ * Verificação de eficácia de uma ação concluída
+ */
+export interface EffectivenessCheck {
+  eficaz: boolean;
+  comentario?: string;
+  verificadoPor: string;
+  verificadoEm: Timestamp;
+}
+
+/**
+ * Ação corretiva ou preventiva do plano de ação da NC
+ */
+export interface CorrectiveAction {
+  acaoId: string;
+  tipo: CorrectiveActionType;
+  descricao: string;
+  responsavel: string;
+  prazo: Timestamp;
+  /** Data a partir da qual a eficácia deve ser verificada */
+  verificarEficaciaEm?: Timestamp;
+  status: CorrectiveActionStatus;
+  criadaPor: string;
+  criadaEm: Timestamp;
+  /** Evidência da execução (descrição, link, nº de registro) */
+  evidencia?: string;
+  concluidaPor?: string;
+  concluidaEm?: Timestamp;
+  verificacao?: EffectivenessCheck;
+}
+
+/**
+ * Não-conformidade registrada
+ */
+export interface NonConformity {
+  ncId: string;
+  orgId: string;
+  titulo: string;
+  descricao: string;
+  status: NonConformityStatus;
+  severidade: NonConformitySeverity;
+  origem: NonConformityOrigin;
+  /** Responsável pelo tratamento (obrigatório a partir da confirmação) */
+  responsavel?: string;
+  /** Documento de origem e versão em que a NC foi identificada */
+  docId?: string;
+  documentVersao?: string;
+  /** Vídeo de origem (origem = 'video' ou informado manualmente) */
+  videoId?: string;
+  videoPath?: string;
+  /** Extração do vídeo que levantou a NC */
+  videoExtraidoEm?: Timestamp;
+  /** Etapa do procedimento relacionada */
+  etapa?: number;
+  /** Execução de checklist e item reprovado (origem = 'checklist') */
+  checklistRunId?: string;
+  checklistItem?: number;
+  causaRaiz?: RootCauseAnalysis;
+  acoes: CorrectiveAction[];
+  criadoPor: string;
+  criadoEm: Timestamp;
+  atualizadoEm: Timestamp;
+  confirmadoPor?: string;
+  confirmadoEm?: Timestamp;
+  encerradoEm?: Timestamp;
+  canceladoPor?: string;
+  canceladoEm?: Timestamp;
+  motivoCancelamento?: string;
+}
+
+/**
+ * Dados para registrar uma não-conformidade manualmente
+ */
+export interface RaiseNonConformityInput {
+  orgId: string;
+  titulo: string;
+  descricao: string;
+  severidade: NonConformitySeverity;
+  responsavel: string;
+  docId?: string;
+  videoId?: string;
+  etapa?: number;
+  criadoPor: string;
+}
+
+/**
+ * Item reprovado de uma execução de checklist que originou a NC
+ */
+export interface ChecklistNonConformitySource {
+  runId: string;
+  ordem: number;
+}
+
+/**
+ * Dados para confirmar um rascunho (responsável e severidade revisados)
+ */
+export interface ConfirmNonConformityInput {
+  responsavel: string;
+  severidade?: NonConformitySeverity;
+  titulo?: string;
+  descricao?: string;
+}
+
+/**
+ * Dados de uma nova ação do plano de ação
+ */
+export interface CorrectiveActionInput {
+  tipo: CorrectiveActionType;
+  descricao: string;
+  responsavel: string;
+  prazo: Date;
+  verificarEficaciaEm?: Date;
+}
+
+/**
+ * Não-conformidades extraídas de um vídeo, a levantar como rascunho
+ */
+export interface VideoNonConformities {
+  videoId: string;
+  videoPath: string;
+  extraidoEm: Timestamp;
+  naoConformidades: string[];
+}
+
+/**
+ * Filtros da listagem de não-conformidades
+ */
+export interface NonConformityFilters {
+  status?: NonConformityStatus;
+  docId?: string;
+}
@@ -0,0 +1,152 @@
+/**
+ * Tipos dos POPs extraídos de vídeo (Modo Axioma)
+ * Armazenados em companies/{companyId}/pops/{videoId}
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { Document } from './document.types';
+
+/**
+ * Situação da extração
+ * - completed: extração válida, pronta para gerar documento
+ * - needs_review: resposta do modelo fora do esquema; ver `validationErrors`
+ * - failed: erro ao chamar o modelo
+ */
+export type VideoPOPStatus = 'completed' | 'needs_review' | 'failed';
+
+/**
+ * Provedores de extração de POP
+ * - gemini: Gemini via API (requer o secret GEMINI_API_KEY)
+ * - fake: respostas fixas por fixture, para emuladores e testes offline
+ */
+export type PopExtractionProviderName = 'gemini' | 'fake';
+
+/**
+ * Vídeo a ser analisado pelo provedor
+ */
+export interface PopExtractionRequest {
+  companyId: string;
+  videoId: string;
+  /** URI do vídeo no Cloud Storage (gs://bucket/path) */
+  videoUri: string;
+  mimeType: string;
+  /** Modelo configurado em axiomaConfigs.videoProcessing.modelVersion */
+  modelVersion: string;
+}
+
+/**
+ * Provedor de extração: recebe o vídeo e devolve a resposta textual do
+ * modelo, que é validada por utils/popSchema
+ */
+export interface PopExtractionProvider {
+  readonly name: PopExtractionProviderName;
+  extract(request: PopExtractionRequest): Promise<string>;
+}
+
+/**
+ * Etapa extraída do vídeo
+ */
+export interface PopStep {
+  numero: number;
+  descricao: string;
+  /** Tempo aproximado no vídeo */
+  tempo?: string;
+  ferramentas?: string[];
+  pontosCriticos?: string[];
+}
+
+/**
+ * Dados estruturados do POP, já normalizados (ver utils/popSchema)
+ */
+export interface PopData {
+  titulo: string;
+  objetivo?: string;
+  etapas: PopStep[];
+  requisitosSeguranca?: string[];
+  materiaisFerramentas?: string[];
+  tempoEstimado?: string;
+  responsavel?: string;
+  criteriosQualidade?: string[];
+  naoConformidades?: string[];
+  /** Score de conformidade da execução demonstrada (0-100) */
+  scoreConformidade: number;
+}
+
+/**
+ * Resultado da vinculação automática (trigger onVideoPOPCompleted)
+ * - vinculado: documento criado e vinculado ao vídeo
+ * - revisao_manual: aguardando criação manual (fila de revisão)
+ * - ignorado: vinculação automática desativada
+ * - erro: falha permanente (ex: dados inválidos)
+ */
+export type AutoLinkResult = 'vinculado' | 'revisao_manual' | 'ignorado' | 'erro';
+
+/**
+ * Efeito de um POP concluído sobre o documento vinculado
+ * - criado: primeiro documento do vídeo
+ * - revisado: nova extração abriu um rascunho do documento existente
+ * - inalterado: o documento já reflete a extração
+ */
+export type VideoSyncAction = 'criado' | 'revisado' | 'inalterado';
+
+/**
+ * Resultado da sincronização entre o POP do vídeo e seu documento
+ */
+export interface VideoDocumentSync {
+  document: Document;
+  acao: VideoSyncAction;
+  /** Resumo das alterações (acao = 'revisado') */
+  resumo?: string;
+}
+
+/**
+ * Decisão da vinculação automática registrada no POP
+ */
+export interface AutoLinkOutcome {
+  resultado: AutoLinkResult;
+  motivo: string;
+  /** Documento vinculado (resultado 'vinculado') */
+  docId?: string;
+  /** Efeito sobre o documento (resultado 'vinculado') */
+  acao?: VideoSyncAction;
+  processadoEm: Timestamp;
+}
+
+/**
+ * Registro da extração de um vídeo
+ */
+export interface VideoPOPRecord {
+  videoPath: string;
+  videoUri: string;
+  status: VideoPOPStatus;
+  /** Dados normalizados (parciais quando status = 'needs_review') */
+  popData?: Partial<PopData>;
+  /** Resposta original do modelo (guardada quando não passa na validação) */
+  rawText?: string;
+  /** Problemas que impedem o uso automático da extração */
+  validationErrors?: string[];
+  /** Correções aplicadas na normalização (ex: score fora de 0-100) */
+  validationWarnings?: string[];
+  /** Mensagem de erro (status = 'failed') */
+  error?: string;
+  /** Provedor e modelo que fizeram a extração */
+  provider?: PopExtractionProviderName;
+  modelVersion?: string;
+  extractedAt: Timestamp;
+  linkedDocumentId?: string;
+  linkedAt?: Timestamp;
+  /** Última decisão da vinculação automática */
+  autoLink?: AutoLinkOutcome;
+}
+
+/**
+ * URL temporária de reprodução do vídeo vinculado a um documento
+ */
+export interface VideoPlayback {
+  docId: string;
+  videoId: string;
+  videoPath: string;
+  /** URL assinada de leitura (expira em `expiraEm`) */
+  url: string;
+  expiraEm: Timestamp;
+}
@@ -0,0 +1,43 @@
+/**
+ * Execução de tarefas assíncronas com concorrência limitada
+ */
+
+/**
+ * Aplica `fn` a cada item com no máximo `limite` chamadas simultâneas
+ * Falhas não interrompem os demais itens; o resultado mantém a ordem da entrada.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limite: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const resultados: PromiseSettledResult<R>[] = new Array(items.length);
+  let proximo = 0;
+
+  const worker = async (): Promise<void> => {
+    while (proximo < items.length) {
+      const index = proximo++;
+      try {
+        resultados[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        resultados[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limite), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return resultados;
+}
+
+/**
+ * Divide a lista em blocos de até `tamanho` itens
+ */
+export function chunk<T>(items: readonly T[], tamanho: number): T[][] {
+  const blocos: T[][] = [];
+  for (let start = 0; start < items.length; start += tamanho) {
+    blocos.push(items.slice(start, start + tamanho));
+  }
+  return blocos;
+}
@@ -0,0 +1,45 @@
+/**
+ * Utilitários de hash de conteúdo
+ *
+ * O contentHash é o SHA-256 (hex) de uma serialização canônica:
+ * chaves de objetos ordenadas e valores `undefined` omitidos, de modo
+ * que o mesmo conteúdo gere sempre o mesmo hash, independente da ordem
+ * em que os campos foram gravados no Firestore.
+ */
+
+import { createHash } from 'crypto';
+import { DocumentContent } from '../types/document.types';
+
+/**
+ * Serializa um valor JSON de forma determinística
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Calcula o SHA-256 (hex) de um buffer ou string
+ */
+export function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Calcula o contentHash de um conteúdo de documento
+ */
+export function computeContentHash(conteudo: DocumentContent): string {
+  return sha256(canonicalize(conteudo));
+}
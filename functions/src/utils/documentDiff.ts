@@ -0,0 +1,239 @@
+/**
+ * Comparação campo a campo entre duas versões de um documento
+ *
+ * Usado na análise crítica de documentos (ISO 9001, cláusula 7.5)
+ * para evidenciar o que mudou entre versões arquivadas.
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  ChangeGroup,
+  Document,
+  DocumentContent,
+  DocumentFieldChange,
+  DocumentSection,
+  DocumentStep,
+} from '../types/document.types';
+import { canonicalize } from './contentHash';
+
+/**
+ * Converte Timestamps para ISO 8601 para que o resultado seja serializável
+ */
+function toComparable(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return value;
+}
+
+/**
+ * Compara um único valor e registra a alteração, se houver
+ */
+function compareValue(
+  changes: DocumentFieldChange[],
+  grupo: ChangeGroup,
+  campo: string,
+  anterior: unknown,
+  atual: unknown
+): void {
+  const a = toComparable(anterior);
+  const b = toComparable(atual);
+
+  if (canonicalize(a) === canonicalize(b)) {
+    return;
+  }
+
+  if (a === undefined) {
+    changes.push({ grupo, campo, tipo: 'adicionado', atual: b });
+  } else if (b === undefined) {
+    changes.push({ grupo, campo, tipo: 'removido', anterior: a });
+  } else {
+    changes.push({ grupo, campo, tipo: 'alterado', anterior: a, atual: b });
+  }
+}
+
+/**
+ * Compara listas de itens identificados por chave
+ * Itens presentes em apenas uma versão são registrados inteiros;
+ * itens presentes em ambas são comparados campo a campo
+ */
+function compareKeyed<T extends object>(
+  changes: DocumentFieldChange[],
+  grupo: ChangeGroup,
+  anteriores: T[],
+  atuais: T[],
+  keyOf: (item: T) => string,
+  campos: Array<keyof T>
+): void {
+  const mapaAnterior = new Map(anteriores.map((item) => [keyOf(item), item]));
+  const mapaAtual = new Map(atuais.map((item) => [keyOf(item), item]));
+
+  for (const [key, anterior] of mapaAnterior) {
+    const atual = mapaAtual.get(key);
+    if (!atual) {
+      changes.push({ grupo, campo: `${grupo}[${key}]`, tipo: 'removido', anterior });
+      continue;
+    }
+    for (const campo of campos) {
+      compareValue(
+        changes,
+        grupo,
+        `${grupo}[${key}].${String(campo)}`,
+        anterior[campo],
+        atual[campo]
+      );
+    }
+  }
+
+  for (const [key, atual] of mapaAtual) {
+    if (!mapaAnterior.has(key)) {
+      changes.push({ grupo, campo: `${grupo}[${key}]`, tipo: 'adicionado', atual });
+    }
+  }
+}
+
+/**
+ * Compara duas versões de um documento
+ *
+ * @param anterior - Snapshot da versão de origem
+ * @param atual - Snapshot da versão de destino
+ * @returns Lista estruturada de alterações
+ */
+export function diffDocuments(anterior: Document, atual: Document): DocumentFieldChange[] {
+  const changes: DocumentFieldChange[] = [];
+
+  const camposDocumento: Array<keyof Document> = [
+    'titulo',
+    'tipo',
+    'status',
+    'versao',
+    'videoId',
+    'videoPath',
+  ];
+  for (const campo of camposDocumento) {
+    compareValue(changes, 'documento', campo, anterior[campo], atual[campo]);
+  }
+  compareValue(
+    changes,
+    'documento',
+    'aprovacao.aprovadoPor',
+    anterior.aprovacao?.aprovadoPor,
+    atual.aprovacao?.aprovadoPor
+  );
+  compareValue(
+    changes,
+    'documento',
+    'aprovacao.motivoMudanca',
+    anterior.aprovacao?.motivoMudanca,
+    atual.aprovacao?.motivoMudanca
+  );
+
+  for (const campo of ['criadoPor', 'dataCriacao', 'ultimaRevisao'] as const) {
+    compareValue(
+      changes,
+      'metadata',
+      `metadata.${campo}`,
+      anterior.metadata[campo],
+      atual.metadata[campo]
+    );
+  }
+
+  for (const campo of ['custoManutencao', 'impactoMargem'] as const) {
+    compareValue(
+      changes,
+      'axiomaMetrics',
+      `axiomaMetrics.${campo}`,
+      anterior.axiomaMetrics[campo],
+      atual.axiomaMetrics[campo]
+    );
+  }
+
+  changes.push(...diffContent(anterior.conteudo, atual.conteudo));
+
+  return changes;
+}
+
+/**
+ * Compara o conteúdo estruturado (seções, etapas, tempo estimado e anexos)
+ */
+export function diffContent(
+  anterior: DocumentContent | undefined,
+  atual: DocumentContent | undefined
+): DocumentFieldChange[] {
+  const changes: DocumentFieldChange[] = [];
+
+  compareKeyed<DocumentSection>(
+    changes,
+    'secoes',
+    anterior?.secoes || [],
+    atual?.secoes || [],
+    (secao) => secao.titulo,
+    ['texto', 'itens']
+  );
+
+  compareKeyed<DocumentStep>(
+    changes,
+    'etapas',
+    anterior?.etapas || [],
+    atual?.etapas || [],
+    (etapa) => String(etapa.numero),
+    ['descricao', 'tempo', 'ferramentas', 'pontosCriticos']
+  );
+
+  compareValue(changes, 'etapas', 'tempoEstimado', anterior?.tempoEstimado, atual?.tempoEstimado);
+
+  compareKeyed(
+    changes,
+    'anexos',
+    anterior?.anexos || [],
+    atual?.anexos || [],
+    (anexo) => anexo.anexoId,
+    ['nome', 'sha256']
+  );
+
+  return changes;
+}
+
+/**
+ * Resumo legível das alterações de conteúdo
+ * Ex: 'Etapas: 1 adicionada (4), 2 alteradas (2, 3); Seções alteradas: Objetivo'
+ */
+export function summarizeChanges(changes: DocumentFieldChange[]): string {
+  const etapas: Record<'adicionado' | 'alterado' | 'removido', Set<string>> = {
+    adicionado: new Set(),
+    alterado: new Set(),
+    removido: new Set(),
+  };
+  const secoes = new Set<string>();
+  const partes: string[] = [];
+
+  for (const change of changes) {
+    const item = /^(\w+)\[([^\]]+)\](\.\w+)?$/.exec(change.campo);
+    if (change.grupo === 'etapas' && item) {
+      // Campo alterado dentro de uma etapa existente conta como etapa alterada
+      etapas[item[3] ? 'alterado' : change.tipo].add(item[2]);
+    } else if (change.grupo === 'secoes' && item) {
+      secoes.add(item[2]);
+    } else if (change.campo === 'tempoEstimado') {
+      partes.push(`Tempo estimado: ${change.anterior ?? '—'} → ${change.atual ?? '—'}`);
+    }
+  }
+
+  const rotulos = { adicionado: 'adicionada', alterado: 'alterada', removido: 'removida' } as const;
+  const contagens = (Object.keys(rotulos) as Array<keyof typeof rotulos>)
+    .filter((tipo) => etapas[tipo].size > 0)
+    .map((tipo) => {
+      const numeros = [...etapas[tipo]].sort((a, b) => Number(a) - Number(b));
+      const rotulo = rotulos[tipo] + (numeros.length > 1 ? 's' : '');
+      return `${numeros.length} ${rotulo} (${numeros.join(', ')})`;
+    });
+
+  if (contagens.length > 0) {
+    partes.unshift(`Etapas: ${contagens.join(', ')}`);
+  }
+  if (secoes.size > 0) {
+    partes.push(`Seções alteradas: ${[...secoes].join(', ')}`);
+  }
+
+  return partes.length > 0 ? partes.join('; ') : 'Sem alterações de conteúdo';
+}
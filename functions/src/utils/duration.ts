@@ -0,0 +1,99 @@
+/**
+ * Interpretação de durações em texto livre
+ *
+ * Os POPs extraídos de vídeo trazem tempos como texto ("15 min",
+ * "00:12:30", "1h20"). As durações são normalizadas em segundos.
+ *
+ * Formatos aceitos:
+ * - Relógio: "hh:mm:ss" e "mm:ss" ("12:30" = 12 min 30 s)
+ * - Unidades: "1h20", "1h 20min", "1 hora e 20 minutos", "90 s", "2,5 h"
+ * - Número sem unidade: minutos ("15")
+ *
+ * O `tempo` das etapas é uma posição no vídeo, lida no webapp por
+ * parseStepTimestamp (webapp/lib/video.ts) com as mesmas regras, exceto o
+ * número sem unidade, que lá é recusado por ambíguo.
+ */
+
+const UNIT_SECONDS: Array<[RegExp, number]> = [
+  [/^(h|hr|hrs|hora|horas)$/, 3600],
+  [/^(m|min|mins|minuto|minutos)$/, 60],
+  [/^(s|seg|segs|segundo|segundos)$/, 1],
+];
+
+/**
+ * Converte um texto de duração em segundos
+ *
+ * @returns Segundos (inteiro) ou null quando o texto não é uma duração reconhecida
+ */
+export function parseDuration(text: string): number | null {
+  const value = text
+    .trim()
+    .toLowerCase()
+    .replace(/^(aprox\.?|aproximadamente|cerca de|~)\s*/, '');
+
+  if (value.length === 0) {
+    return null;
+  }
+
+  // Relógio: hh:mm:ss ou mm:ss
+  const clock = value.match(/^(\d{1,3}):([0-5]\d)(?::([0-5]\d))?$/);
+  if (clock) {
+    const [, a, b, c] = clock;
+    return c === undefined
+      ? Number(a) * 60 + Number(b)
+      : Number(a) * 3600 + Number(b) * 60 + Number(c);
+  }
+
+  // Número sem unidade: minutos
+  if (/^\d+([.,]\d+)?$/.test(value)) {
+    return Math.round(Number(value.replace(',', '.')) * 60);
+  }
+
+  // Sequência de <número><unidade>; "1h20" = 1 h + 20 min
+  const compact = value.replace(/\s+e\s+/g, ' ').replace(/\s+/g, '');
+  const parts = compact.match(/\d+(?:[.,]\d+)?[a-z]*/g);
+  // Rejeitar textos com trechos não reconhecidos ("10 dias úteis", "1h20x")
+  if (!parts || parts.join('') !== compact) {
+    return null;
+  }
+
+  let total = 0;
+  let previousUnit: number | null = null;
+
+  for (const part of parts) {
+    const [, amount, unit] = part.match(/^(\d+(?:[.,]\d+)?)([a-z]*)$/) as RegExpMatchArray;
+    let seconds: number | undefined;
+
+    if (unit === '') {
+      // Número após horas vale minutos ("1h20"); após minutos vale segundos ("2m30")
+      if (previousUnit === 3600) seconds = 60;
+      else if (previousUnit === 60) seconds = 1;
+    } else {
+      seconds = UNIT_SECONDS.find(([pattern]) => pattern.test(unit))?.[1];
+    }
+
+    if (seconds === undefined) {
+      return null;
+    }
+
+    total += Number(amount.replace(',', '.')) * seconds;
+    previousUnit = seconds;
+  }
+
+  return Math.round(total);
+}
+
+/**
+ * Formata segundos como "1h20min", "12min30s" ou "45s"
+ */
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.round(totalSeconds % 60);
+
+  return [
+    hours > 0 ? `${hours}h` : '',
+    minutes > 0 ? `${minutes}min` : '',
+    seconds > 0 || totalSeconds === 0 ? `${seconds}s` : '',
+  ].join('');
+}
@@ -0,0 +1,240 @@
+/**
+ * Gerador mínimo de PDF (sem dependências)
+ *
+ * Suporta texto em Helvetica/Helvetica-Bold (WinAnsiEncoding, cobre os
+ * acentos do português), linhas e retângulos preenchidos, em páginas A4.
+ * Coordenadas em pontos, com origem no canto superior esquerdo.
+ */
+
+/**
+ * Cor RGB com componentes de 0 a 1
+ */
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+/** Dimensões A4 em pontos */
+export const A4 = { width: 595.28, height: 841.89 };
+
+/**
+ * Larguras (1/1000 em) dos caracteres 32-126 nas fontes padrão
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/**
+ * Caracteres fora do Latin-1 com posição própria na WinAnsiEncoding
+ */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+/**
+ * Converte o texto para bytes WinAnsi (representados como string Latin-1)
+ * Caracteres sem representação (ex: emojis) viram '?'
+ */
+function toWinAnsi(texto: string): string {
+  let result = '';
+  for (const char of texto) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      result += char;
+    } else if (code !== 0xfe0f) {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+/**
+ * Largura aproximada do texto em pontos
+ * Letras acentuadas usam a largura da letra base
+ */
+export function textWidth(texto: string, size: number, bold: boolean = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of texto.normalize('NFD').replace(/[\u0300-\u036f]/g, '')) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Quebra o texto em linhas que cabem na largura informada
+ * Palavras maiores que a linha são cortadas
+ */
+export function wrapText(texto: string, maxWidth: number, size: number, bold: boolean = false): string[] {
+  const linhas: string[] = [];
+
+  for (const paragrafo of texto.split('\n')) {
+    let atual = '';
+    for (const palavra of paragrafo.split(/\s+/).filter(Boolean)) {
+      const candidata = atual ? `${atual} ${palavra}` : palavra;
+      if (textWidth(candidata, size, bold) <= maxWidth) {
+        atual = candidata;
+        continue;
+      }
+      if (atual) {
+        linhas.push(atual);
+      }
+      atual = palavra;
+      while (textWidth(atual, size, bold) > maxWidth && atual.length > 1) {
+        let corte = atual.length - 1;
+        while (corte > 1 && textWidth(atual.slice(0, corte), size, bold) > maxWidth) corte--;
+        linhas.push(atual.slice(0, corte));
+        atual = atual.slice(corte);
+      }
+    }
+    linhas.push(atual);
+  }
+
+  return linhas;
+}
+
+const escapePdfString = (texto: string): string => texto.replace(/([\\()])/g, '\\$1');
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const colorOperands = ([r, g, b]: PdfColor): string => [r, g, b].map(formatNumber).join(' ');
+
+/**
+ * Documento PDF em construção
+ */
+export class PdfWriter {
+  private pages: string[][] = [];
+  private currentPage = -1;
+
+  constructor(readonly width: number = A4.width, readonly height: number = A4.height) {}
+
+  /** Quantidade de páginas */
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Inicia uma nova página; os desenhos seguintes vão para ela
+   */
+  addPage(): void {
+    this.pages.push([]);
+    this.currentPage = this.pages.length - 1;
+  }
+
+  /**
+   * Volta a desenhar em uma página existente (0 = primeira), ex: para numerar rodapés
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new RangeError(`Página ${index} inexistente`);
+    }
+    this.currentPage = index;
+  }
+
+  private get ops(): string[] {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+    return this.pages[this.currentPage];
+  }
+
+  /**
+   * Escreve uma linha de texto com a linha de base em `y`
+   */
+  text(x: number, y: number, texto: string, options: PdfTextOptions = {}): void {
+    const { size = 10, bold = false, color = [0, 0, 0] } = options;
+    this.ops.push(
+      `BT ${colorOperands(color)} rg /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+        `${formatNumber(x)} ${formatNumber(this.height - y)} Td ` +
+        `(${escapePdfString(toWinAnsi(texto))}) Tj ET`
+    );
+  }
+
+  /**
+   * Desenha uma linha
+   */
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5, color: PdfColor = [0, 0, 0]): void {
+    this.ops.push(
+      `${colorOperands(color)} RG ${formatNumber(width)} w ` +
+        `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ` +
+        `${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  /**
+   * Desenha um retângulo preenchido com o canto superior esquerdo em (x, y)
+   */
+  rect(x: number, y: number, width: number, height: number, color: PdfColor): void {
+    this.ops.push(
+      `${colorOperands(color)} rg ${formatNumber(x)} ${formatNumber(this.height - y - height)} ` +
+        `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  /**
+   * Serializa o documento
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    // Objetos: 1 catálogo, 2 árvore de páginas, 3-4 fontes, depois página + conteúdo
+    const objetos: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objetos[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objetos[2] =
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] ` +
+      `/Count ${pageIds.length} >>`;
+    objetos[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objetos[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((ops, index) => {
+      const pageId = pageIds[index];
+      const conteudo = ops.join('\n');
+      objetos[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objetos[pageId + 1] = `<< /Length ${conteudo.length} >>\nstream\n${conteudo}\nendstream`;
+    });
+
+    // Todo o conteúdo já está em bytes Latin-1: 1 caractere = 1 byte
+    let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objetos.length; id++) {
+      offsets[id] = pdf.length;
+      pdf += `${id} 0 obj\n${objetos[id]}\nendobj\n`;
+    }
+
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objetos.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objetos.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objetos.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Esquema e normalização da extração de POPs (resposta do Gemini)
+ *
+ * O modelo costuma responder com blocos ```json, chaves com acentos ou em
+ * outro formato ('Título do POP', 'nao_conformidades') e valores soltos
+ * ('85%', lista em texto). A normalização converte a resposta em PopData;
+ * o que não puder ser corrigido vira erro de validação e a extração fica
+ * com status 'needs_review' em vez de 'completed'.
+ */
+
+import { PopData, PopStep } from '../types/video.types';
+import { parseDuration } from './duration';
+
+/**
+ * Resultado da validação de uma extração
+ */
+export interface PopValidationResult {
+  /** Dados normalizados (parciais quando há erros) */
+  popData: Partial<PopData>;
+  /** Problemas que impedem o uso automático */
+  erros: string[];
+  /** Correções aplicadas (não impedem o uso) */
+  avisos: string[];
+  /** true quando não há erros */
+  valido: boolean;
+}
+
+/**
+ * Nomes aceitos para cada campo, já normalizados por normalizeKey
+ */
+const FIELD_ALIASES: Record<keyof PopData, string[]> = {
+  titulo: ['titulo', 'titulodopop', 'titulopop', 'title', 'nome', 'nomedoprocedimento'],
+  objetivo: ['objetivo', 'objetivodopop', 'proposito', 'objective'],
+  etapas: ['etapas', 'etapasdoprocedimento', 'passos', 'steps'],
+  requisitosSeguranca: ['requisitosseguranca', 'requisitosdeseguranca', 'seguranca', 'safety'],
+  materiaisFerramentas: ['materiaisferramentas', 'materiaiseferramentas', 'materiais', 'ferramentas'],
+  tempoEstimado: ['tempoestimado', 'duracao', 'duracaoestimada', 'tempototal'],
+  responsavel: ['responsavel', 'executor'],
+  criteriosQualidade: ['criteriosqualidade', 'criteriosdequalidade', 'qualidade'],
+  naoConformidades: ['naoconformidades', 'naoconformidadesidentificadas', 'desvios'],
+  scoreConformidade: ['scoreconformidade', 'scoredeconformidade', 'conformidade', 'score'],
+};
+
+const STEP_ALIASES: Record<keyof PopStep, string[]> = {
+  numero: ['numero', 'numerodaetapa', 'etapa', 'passo', 'ordem'],
+  descricao: ['descricao', 'descricaodaacao', 'acao', 'description'],
+  tempo: ['tempo', 'tempoaproximado', 'tempovideo', 'timestamp'],
+  ferramentas: ['ferramentas', 'ferramentasequipamentos', 'equipamentos'],
+  pontosCriticos: ['pontoscriticos', 'pontoscriticosdeseguranca', 'pontoscriticosdesegurancaouqualidade'],
+};
+
+/**
+ * 'Título do POP' -> 'titulodopop', 'nao_conformidades' -> 'naoconformidades'
+ */
+function normalizeKey(key: string): string {
+  return key
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Lê o primeiro campo presente dentre os aliases
+ */
+function pick(raw: RawObject, aliases: string[]): unknown {
+  const entries = Object.entries(raw).map(([key, value]) => [normalizeKey(key), value] as const);
+  for (const alias of aliases) {
+    const found = entries.find(([key]) => key === alias);
+    if (found && found[1] !== null && found[1] !== undefined) {
+      return found[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Remove cercas de código (```json ... ```) e texto ao redor do objeto JSON
+ */
+export function stripJsonFences(texto: string): string {
+  const trimmed = texto.trim();
+
+  const fenced = /```[a-zA-Z]*\s*\n?([\s\S]*?)```/.exec(trimmed);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+
+  // Texto antes/depois do objeto ("Aqui está o JSON: {...}")
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return start > 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Lista de textos a partir de lista, texto com quebras de linha ou
+ * objetos com descrição
+ */
+function toTextList(value: unknown): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(/\r?\n/)
+      : [value];
+
+  const textos = items
+    .map((item) => {
+      if (isObject(item)) {
+        return toText(pick(item, ['descricao', 'description', 'item', 'nome', 'texto']));
+      }
+      // Marcadores de lista ('- item', '• item', '1. item', '2) item')
+      return toText(item)?.replace(/^(?:[-*•]|\d+[.)])\s+/, '').trim() || undefined;
+    })
+    .filter((item): item is string => Boolean(item));
+
+  return textos.length > 0 ? textos : undefined;
+}
+
+/**
+ * Converte o score para 0-100
+ * Aceita '85%', '85,5', '8.5/10' e frações (0.85)
+ */
+function coerceScore(value: unknown, avisos: string[]): number | undefined {
+  let score: number;
+
+  if (typeof value === 'number') {
+    score = value;
+  } else if (typeof value === 'string') {
+    const match = /(-?\d+(?:[.,]\d+)?)\s*(%|\/\s*(\d+))?/.exec(value);
+    if (!match) {
+      return undefined;
+    }
+    score = Number(match[1].replace(',', '.'));
+    const escala = match[3] ? Number(match[3]) : undefined;
+    if (escala && escala !== 100) {
+      avisos.push(`scoreConformidade convertido da escala 0-${escala} para 0-100`);
+      score = (score / escala) * 100;
+    }
+  } else {
+    return undefined;
+  }
+
+  if (!Number.isFinite(score)) {
+    return undefined;
+  }
+
+  if (score > 0 && score < 1 && !Number.isInteger(score)) {
+    avisos.push(`scoreConformidade ${score} interpretado como fração (${score * 100})`);
+    score *= 100;
+  }
+
+  if (score < 0 || score > 100) {
+    const limitado = Math.min(100, Math.max(0, score));
+    avisos.push(`scoreConformidade ${score} fora de 0-100, ajustado para ${limitado}`);
+    score = limitado;
+  }
+
+  return Math.round(score * 10) / 10;
+}
+
+function normalizeStep(value: unknown, index: number, erros: string[]): PopStep | null {
+  if (typeof value === 'string') {
+    const descricao = value.trim();
+    return descricao ? { numero: index + 1, descricao } : null;
+  }
+  if (!isObject(value)) {
+    erros.push(`etapas[${index}] deve ser um objeto ou texto`);
+    return null;
+  }
+
+  const descricao = toText(pick(value, STEP_ALIASES.descricao));
+  if (!descricao) {
+    erros.push(`etapas[${index}] sem descrição`);
+    return null;
+  }
+
+  const numero = Number(toText(pick(value, STEP_ALIASES.numero)));
+  const tempo = toText(pick(value, STEP_ALIASES.tempo));
+  const ferramentas = toTextList(pick(value, STEP_ALIASES.ferramentas));
+  const pontosCriticos = toTextList(pick(value, STEP_ALIASES.pontosCriticos));
+
+  return {
+    numero: Number.isInteger(numero) && numero > 0 ? numero : index + 1,
+    descricao,
+    ...(tempo ? { tempo } : {}),
+    ...(ferramentas ? { ferramentas } : {}),
+    ...(pontosCriticos ? { pontosCriticos } : {}),
+  };
+}
+
+/**
+ * Normaliza um objeto já interpretado como JSON
+ */
+export function normalizePopData(raw: unknown): PopValidationResult {
+  const erros: string[] = [];
+  const avisos: string[] = [];
+
+  if (!isObject(raw)) {
+    return { popData: {}, erros: ['popData deve ser um objeto JSON'], avisos, valido: false };
+  }
+
+  // Resposta envelopada ({ "pop": { ... } })
+  const knownKeys = Object.values(FIELD_ALIASES).flat();
+  const hasKnownKey = Object.keys(raw).some((key) => knownKeys.includes(normalizeKey(key)));
+  const values = Object.values(raw);
+  if (!hasKnownKey && values.length === 1 && isObject(values[0])) {
+    raw = values[0];
+  }
+  const source = raw as RawObject;
+
+  const popData: Partial<PopData> = {};
+
+  const titulo = toText(pick(source, FIELD_ALIASES.titulo));
+  if (titulo) {
+    popData.titulo = titulo;
+  } else {
+    erros.push('titulo ausente');
+  }
+
+  const objetivo = toText(pick(source, FIELD_ALIASES.objetivo));
+  if (objetivo) popData.objetivo = objetivo;
+
+  const etapasRaw = pick(source, FIELD_ALIASES.etapas);
+  if (Array.isArray(etapasRaw)) {
+    const etapas = etapasRaw
+      .map((item, index) => normalizeStep(item, index, erros))
+      .filter((item): item is PopStep => item !== null);
+    popData.etapas = etapas;
+    if (etapas.length === 0) {
+      erros.push('nenhuma etapa extraída');
+    }
+  } else {
+    erros.push(etapasRaw === undefined ? 'etapas ausentes' : 'etapas deve ser uma lista');
+  }
+
+  const listas = ['requisitosSeguranca', 'materiaisFerramentas', 'criteriosQualidade', 'naoConformidades'] as const;
+  for (const campo of listas) {
+    const itens = toTextList(pick(source, FIELD_ALIASES[campo]));
+    if (itens) popData[campo] = itens;
+  }
+
+  const tempoRaw = pick(source, FIELD_ALIASES.tempoEstimado);
+  const tempoEstimado = typeof tempoRaw === 'number' ? `${tempoRaw} min` : toText(tempoRaw);
+  if (tempoEstimado) {
+    popData.tempoEstimado = tempoEstimado;
+    if (parseDuration(tempoEstimado) === null) {
+      avisos.push(`tempoEstimado '${tempoEstimado}' não é uma duração reconhecida`);
+    }
+  }
+
+  const responsavel = toText(pick(source, FIELD_ALIASES.responsavel));
+  if (responsavel) popData.responsavel = responsavel;
+
+  const scoreRaw = pick(source, FIELD_ALIASES.scoreConformidade);
+  if (scoreRaw === undefined) {
+    erros.push('scoreConformidade ausente');
+  } else {
+    const score = coerceScore(scoreRaw, avisos);
+    if (score === undefined) {
+      erros.push(`scoreConformidade inválido: ${JSON.stringify(scoreRaw)}`);
+    } else {
+      popData.scoreConformidade = score;
+    }
+  }
+
+  return { popData, erros, avisos, valido: erros.length === 0 };
+}
+
+/**
+ * Interpreta e normaliza a resposta textual do modelo
+ */
+export function parsePopExtraction(texto: string): PopValidationResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripJsonFences(texto));
+  } catch (error) {
+    return {
+      popData: {},
+      erros: [`resposta não é JSON válido: ${(error as Error).message}`],
+      avisos: [],
+      valido: false,
+    };
+  }
+  return normalizePopData(raw);
+}
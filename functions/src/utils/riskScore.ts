@@ -0,0 +1,145 @@
+/**
+ * Score de risco ponderado (0-100) da análise preditiva
+ *
+ * Cada fator recebe uma intensidade entre 0 e 1; o score é a soma de
+ * peso × intensidade com os pesos normalizados para somar 100.
+ * O nível de risco (alto/médio/baixo) é derivado do score.
+ */
+
+import { ImpactoMargem } from '../types/document.types';
+import {
+  AnalysisThresholds,
+  RiskContribution,
+  RiskFactor,
+  RiskLevel,
+  RiskScoringConfig,
+} from '../types/axioma.types';
+
+/**
+ * Parâmetros padrão do score
+ */
+export const DEFAULT_RISK_SCORING: RiskScoringConfig = {
+  pesos: {
+    idade: 30,
+    conformidade: 25,
+    naoConformidades: 20,
+    impactoMargem: 15,
+    custoManutencao: 10,
+  },
+  custoReferencia: 1000,
+};
+
+/**
+ * Score mínimo de cada nível de risco
+ */
+export const RISK_LEVEL_CUTOFFS: { alto: number; médio: number } = {
+  alto: 50,
+  médio: 25,
+};
+
+const IMPACTO_INTENSIDADE: Record<ImpactoMargem, number> = {
+  alto: 1,
+  médio: 0.5,
+  baixo: 0,
+};
+
+/**
+ * Entradas do score de um documento
+ */
+export interface RiskInputs {
+  daysSinceLastRevision: number;
+  scoreConformidade?: number;
+  naoConformidades?: number;
+  impactoMargem: ImpactoMargem;
+  custoManutencao: number;
+}
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+const round = (value: number, casas: number = 1): number => {
+  const fator = 10 ** casas;
+  return Math.round(value * fator) / fator;
+};
+
+/**
+ * Intensidade e descrição de cada fator
+ * Nos fatores com threshold, atingir o limite corresponde a intensidade 0,5
+ * (idade: o limite de revisão obrigatória corresponde a 1)
+ */
+function evaluateFactors(
+  inputs: RiskInputs,
+  thresholds: AnalysisThresholds,
+  custoReferencia: number
+): Record<RiskFactor, { intensidade: number; descricao: string }> {
+  const margemConformidade = 100 - thresholds.minConformityScore;
+  const naoConformidades = inputs.naoConformidades || 0;
+
+  return {
+    idade: {
+      intensidade: clamp(inputs.daysSinceLastRevision / thresholds.daysUntilRevisionRequired),
+      descricao: `${inputs.daysSinceLastRevision} de ${thresholds.daysUntilRevisionRequired} dias até revisão obrigatória`,
+    },
+    conformidade: inputs.scoreConformidade === undefined
+      ? { intensidade: 0, descricao: 'Sem score de conformidade' }
+      : {
+        intensidade: margemConformidade > 0
+          ? clamp((100 - inputs.scoreConformidade) / (2 * margemConformidade))
+          : (inputs.scoreConformidade < 100 ? 1 : 0),
+        descricao: `Score ${inputs.scoreConformidade}% (mínimo ${thresholds.minConformityScore}%)`,
+      },
+    naoConformidades: {
+      intensidade: thresholds.maxNonConformities > 0
+        ? clamp(naoConformidades / (2 * thresholds.maxNonConformities))
+        : (naoConformidades > 0 ? 1 : 0),
+      descricao: `${naoConformidades} não-conformidade(s) em aberto (máximo ${thresholds.maxNonConformities})`,
+    },
+    impactoMargem: {
+      intensidade: IMPACTO_INTENSIDADE[inputs.impactoMargem],
+      descricao: `Impacto ${inputs.impactoMargem} na margem`,
+    },
+    custoManutencao: {
+      intensidade: clamp(inputs.custoManutencao / (2 * custoReferencia)),
+      descricao: `Custo de manutenção R$ ${inputs.custoManutencao.toFixed(2)} ` +
+        `(referência R$ ${custoReferencia.toFixed(2)})`,
+    },
+  };
+}
+
+/**
+ * Calcula o score de risco e a contribuição de cada fator
+ */
+export function computeRiskScore(
+  inputs: RiskInputs,
+  thresholds: AnalysisThresholds,
+  scoring: RiskScoringConfig = DEFAULT_RISK_SCORING
+): { score: number; contribuicoes: RiskContribution[] } {
+  const fatores = evaluateFactors(inputs, thresholds, scoring.custoReferencia);
+  const somaPesos = (Object.values(scoring.pesos) as number[]).reduce((acc, peso) => acc + peso, 0);
+
+  const contribuicoes = (Object.keys(fatores) as RiskFactor[])
+    .map((fator): RiskContribution => {
+      const peso = somaPesos > 0 ? (scoring.pesos[fator] / somaPesos) * 100 : 0;
+      const { intensidade, descricao } = fatores[fator];
+      return {
+        fator,
+        peso: round(peso),
+        intensidade: round(intensidade, 2),
+        pontos: round(peso * intensidade),
+        descricao,
+      };
+    })
+    .sort((a, b) => b.pontos - a.pontos);
+
+  const score = round(contribuicoes.reduce((acc, item) => acc + item.pontos, 0));
+
+  return { score: Math.min(100, score), contribuicoes };
+}
+
+/**
+ * Deriva o nível de risco a partir do score
+ */
+export function riskLevelFromScore(score: number): RiskLevel {
+  if (score >= RISK_LEVEL_CUTOFFS.alto) return 'alto';
+  if (score >= RISK_LEVEL_CUTOFFS.médio) return 'médio';
+  return 'baixo';
+}
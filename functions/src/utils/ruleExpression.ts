@@ -0,0 +1,378 @@
+/**
+ * Linguagem de expressões das regras de revisão (failureIndicators)
+ *
+ * Interpretador próprio (sem eval): tokenizador, parser descendente
+ * recursivo e avaliador sobre um contexto de variáveis.
+ *
+ *   expr    := ou
+ *   ou      := e (('||' | 'ou' | 'or') e)*
+ *   e       := nao (('&&' | 'e' | 'and') nao)*
+ *   nao     := ('!' | 'nao' | 'not') nao | comp
+ *   comp    := soma (('<' | '<=' | '>' | '>=' | '==' | '!=') soma)?
+ *   soma    := prod (('+' | '-') prod)*
+ *   prod    := unario (('*' | '/') unario)*
+ *   unario  := '-' unario | primario
+ *   primario:= número | 'texto' | "texto" | true | false | variável | '(' expr ')'
+ *
+ * Variáveis ausentes no contexto valem `undefined`: comparações com elas
+ * são falsas e operações aritméticas propagam `undefined`, de modo que uma
+ * regra sobre um dado inexistente (ex: vídeo sem score) não dispara.
+ */
+
+import { RuleExpressionError } from '../errors/RuleErrors';
+
+export type RuleValue = number | string | boolean | undefined;
+
+export type RuleContext = Record<string, RuleValue>;
+
+type BinaryOperator = '||' | '&&' | '<' | '<=' | '>' | '>=' | '==' | '!=' | '+' | '-' | '*' | '/';
+
+/**
+ * Nó da árvore sintática
+ */
+export type RuleNode =
+  | { tipo: 'literal'; valor: number | string | boolean }
+  | { tipo: 'variavel'; nome: string; posicao: number }
+  | { tipo: 'nao'; operando: RuleNode }
+  | { tipo: 'negativo'; operando: RuleNode }
+  | { tipo: 'binario'; operador: BinaryOperator; esquerda: RuleNode; direita: RuleNode };
+
+interface Token {
+  tipo: 'numero' | 'texto' | 'nome' | 'operador' | 'abre' | 'fecha' | 'fim';
+  valor: string;
+  posicao: number;
+}
+
+const MAX_LENGTH = 500;
+const MAX_DEPTH = 32;
+
+/** Palavras reservadas equivalentes aos operadores lógicos */
+const KEYWORD_OPERATORS = new Map<string, string>([
+  ['ou', '||'],
+  ['or', '||'],
+  ['e', '&&'],
+  ['and', '&&'],
+  ['nao', '!'],
+  ['not', '!'],
+]);
+
+const SYMBOLS = ['<=', '>=', '==', '!=', '&&', '||', '<', '>', '+', '-', '*', '/', '!'];
+
+/**
+ * Divide a expressão em tokens
+ */
+function tokenize(expressao: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expressao.length) {
+    const char = expressao[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const numero = expressao.slice(i).match(/^\d+(\.\d+)?/);
+    if (numero) {
+      tokens.push({ tipo: 'numero', valor: numero[0], posicao: i });
+      i += numero[0].length;
+      continue;
+    }
+
+    const nome = expressao.slice(i).match(/^[a-zA-Z_][a-zA-Z0-9_]*/);
+    if (nome) {
+      const palavra = nome[0];
+      // Map: nomes como 'constructor' não podem casar com o protótipo de Object
+      const operador = KEYWORD_OPERATORS.get(palavra);
+      tokens.push(
+        operador
+          ? { tipo: 'operador', valor: operador, posicao: i }
+          : { tipo: 'nome', valor: palavra, posicao: i }
+      );
+      i += palavra.length;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      const fim = expressao.indexOf(char, i + 1);
+      if (fim === -1) {
+        throw new RuleExpressionError(expressao, i, 'texto sem aspas de fechamento');
+      }
+      tokens.push({ tipo: 'texto', valor: expressao.slice(i + 1, fim), posicao: i });
+      i = fim + 1;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ tipo: char === '(' ? 'abre' : 'fecha', valor: char, posicao: i });
+      i++;
+      continue;
+    }
+
+    const simbolo = SYMBOLS.find((item) => expressao.startsWith(item, i));
+    if (simbolo) {
+      tokens.push({ tipo: 'operador', valor: simbolo, posicao: i });
+      i += simbolo.length;
+      continue;
+    }
+
+    throw new RuleExpressionError(expressao, i, `caractere inesperado '${char}'`);
+  }
+
+  tokens.push({ tipo: 'fim', valor: '', posicao: expressao.length });
+  return tokens;
+}
+
+/**
+ * Parser descendente recursivo
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private expressao: string, private tokens: Token[]) {}
+
+  parse(): RuleNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.tipo !== 'fim') {
+      throw this.error(token, `trecho inesperado '${token.valor}'`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private error(token: Token, detalhe: string): RuleExpressionError {
+    return new RuleExpressionError(this.expressao, token.posicao, detalhe);
+  }
+
+  private matchOperator(...operadores: string[]): string | null {
+    const token = this.peek();
+    if (token.tipo === 'operador' && operadores.includes(token.valor)) {
+      this.index++;
+      return token.valor;
+    }
+    return null;
+  }
+
+  private binaryLevel(operadores: string[], operando: () => RuleNode): RuleNode {
+    let node = operando();
+    let operador = this.matchOperator(...operadores);
+    while (operador) {
+      node = {
+        tipo: 'binario',
+        operador: operador as BinaryOperator,
+        esquerda: node,
+        direita: operando(),
+      };
+      operador = this.matchOperator(...operadores);
+    }
+    return node;
+  }
+
+  private parseOr(): RuleNode {
+    if (++this.depth > MAX_DEPTH) {
+      throw this.error(this.peek(), 'expressão aninhada demais');
+    }
+    const node = this.binaryLevel(['||'], () => this.parseAnd());
+    this.depth--;
+    return node;
+  }
+
+  private parseAnd(): RuleNode {
+    return this.binaryLevel(['&&'], () => this.parseNot());
+  }
+
+  private parseNot(): RuleNode {
+    if (this.matchOperator('!')) {
+      return { tipo: 'nao', operando: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RuleNode {
+    const esquerda = this.parseSum();
+    const operador = this.matchOperator('<', '<=', '>', '>=', '==', '!=');
+    if (!operador) {
+      return esquerda;
+    }
+    return {
+      tipo: 'binario',
+      operador: operador as BinaryOperator,
+      esquerda,
+      direita: this.parseSum(),
+    };
+  }
+
+  private parseSum(): RuleNode {
+    return this.binaryLevel(['+', '-'], () => this.parseProduct());
+  }
+
+  private parseProduct(): RuleNode {
+    return this.binaryLevel(['*', '/'], () => this.parseUnary());
+  }
+
+  private parseUnary(): RuleNode {
+    if (this.matchOperator('-')) {
+      return { tipo: 'negativo', operando: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleNode {
+    const token = this.next();
+
+    switch (token.tipo) {
+      case 'numero':
+        return { tipo: 'literal', valor: Number(token.valor) };
+      case 'texto':
+        return { tipo: 'literal', valor: token.valor };
+      case 'nome':
+        if (token.valor === 'true' || token.valor === 'false') {
+          return { tipo: 'literal', valor: token.valor === 'true' };
+        }
+        return { tipo: 'variavel', nome: token.valor, posicao: token.posicao };
+      case 'abre': {
+        const node = this.parseOr();
+        const fecha = this.next();
+        if (fecha.tipo !== 'fecha') {
+          throw this.error(fecha, 'parêntese de fechamento esperado');
+        }
+        return node;
+      }
+      case 'fim':
+        throw this.error(token, 'expressão incompleta');
+      default:
+        throw this.error(token, `trecho inesperado '${token.valor}'`);
+    }
+  }
+}
+
+/**
+ * Lista as variáveis referenciadas pela expressão
+ */
+function collectVariables(node: RuleNode, nomes: Map<string, number>): void {
+  switch (node.tipo) {
+    case 'variavel':
+      if (!nomes.has(node.nome)) nomes.set(node.nome, node.posicao);
+      break;
+    case 'nao':
+    case 'negativo':
+      collectVariables(node.operando, nomes);
+      break;
+    case 'binario':
+      collectVariables(node.esquerda, nomes);
+      collectVariables(node.direita, nomes);
+      break;
+  }
+}
+
+/**
+ * Converte a expressão em árvore sintática
+ *
+ * @param variaveis - Variáveis permitidas; referências a outras são rejeitadas
+ * @throws RuleExpressionError
+ */
+export function parseRuleExpression(expressao: string, variaveis?: readonly string[]): RuleNode {
+  if (expressao.length > MAX_LENGTH) {
+    throw new RuleExpressionError(expressao.slice(0, 50) + '...', MAX_LENGTH, `máximo de ${MAX_LENGTH} caracteres`);
+  }
+
+  const node = new Parser(expressao, tokenize(expressao)).parse();
+
+  if (variaveis) {
+    const nomes = new Map<string, number>();
+    collectVariables(node, nomes);
+    for (const [nome, posicao] of nomes) {
+      if (!variaveis.includes(nome)) {
+        throw new RuleExpressionError(expressao, posicao, `variável desconhecida '${nome}'`);
+      }
+    }
+  }
+
+  return node;
+}
+
+const isNumber = (value: RuleValue): value is number => typeof value === 'number';
+
+/**
+ * Avalia a árvore sintática sobre o contexto
+ */
+export function evaluateRuleNode(node: RuleNode, contexto: RuleContext): RuleValue {
+  switch (node.tipo) {
+    case 'literal':
+      return node.valor;
+    case 'variavel':
+      return Object.prototype.hasOwnProperty.call(contexto, node.nome) ? contexto[node.nome] : undefined;
+    case 'nao':
+      return !evaluateRuleNode(node.operando, contexto);
+    case 'negativo': {
+      const valor = evaluateRuleNode(node.operando, contexto);
+      return isNumber(valor) ? -valor : undefined;
+    }
+    case 'binario':
+      break;
+  }
+
+  const { operador } = node;
+
+  // Lógicos com curto-circuito
+  if (operador === '&&') {
+    return Boolean(evaluateRuleNode(node.esquerda, contexto)) &&
+      Boolean(evaluateRuleNode(node.direita, contexto));
+  }
+  if (operador === '||') {
+    return Boolean(evaluateRuleNode(node.esquerda, contexto)) ||
+      Boolean(evaluateRuleNode(node.direita, contexto));
+  }
+
+  const esquerda = evaluateRuleNode(node.esquerda, contexto);
+  const direita = evaluateRuleNode(node.direita, contexto);
+
+  // Dado ausente: comparações não disparam e a aritmética propaga undefined
+  if (esquerda === undefined || direita === undefined) {
+    return ['+', '-', '*', '/'].includes(operador) ? undefined : false;
+  }
+
+  switch (operador) {
+    case '==':
+      return esquerda === direita;
+    case '!=':
+      return esquerda !== direita;
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      if (typeof esquerda !== typeof direita || typeof esquerda === 'boolean') {
+        return false;
+      }
+      if (operador === '<') return esquerda < direita;
+      if (operador === '<=') return esquerda <= direita;
+      if (operador === '>') return esquerda > direita;
+      return esquerda >= direita;
+    default:
+      if (!isNumber(esquerda) || !isNumber(direita)) {
+        return undefined;
+      }
+      if (operador === '+') return esquerda + direita;
+      if (operador === '-') return esquerda - direita;
+      if (operador === '*') return esquerda * direita;
+      return direita === 0 ? undefined : esquerda / direita;
+  }
+}
+
+/**
+ * Avalia uma expressão e retorna se a regra dispara (resultado verdadeiro)
+ */
+export function evaluateRuleExpression(expressao: string | RuleNode, contexto: RuleContext): boolean {
+  const node = typeof expressao === 'string' ? parseRuleExpression(expressao) : expressao;
+  return evaluateRuleNode(node, contexto) === true;
+}
@@ -0,0 +1,44 @@
+/**
+ * Tokens de busca por título
+ *
+ * O Firestore não faz busca por substring: cada documento guarda os
+ * prefixos normalizados (minúsculas, sem acentos) das palavras do título,
+ * consultados com `array-contains`. O webapp aplica a mesma normalização
+ * ao termo digitado.
+ */
+
+const MIN_PREFIX = 3;
+const MAX_PREFIX = 15;
+
+/**
+ * Normaliza um texto para busca: minúsculas e sem acentos
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Gera os prefixos pesquisáveis das palavras de um título
+ * Ex: 'Higienização' -> ['hig', 'higi', ..., 'higienizacao']
+ */
+export function buildSearchTokens(titulo: string): string[] {
+  const tokens = new Set<string>();
+
+  for (const palavra of normalizeSearchText(titulo).split(/[^a-z0-9]+/)) {
+    if (palavra.length < MIN_PREFIX) {
+      if (palavra.length > 0) {
+        tokens.add(palavra);
+      }
+      continue;
+    }
+    const limite = Math.min(palavra.length, MAX_PREFIX);
+    for (let tamanho = MIN_PREFIX; tamanho <= limite; tamanho++) {
+      tokens.add(palavra.substring(0, tamanho));
+    }
+  }
+
+  return Array.from(tokens);
+}
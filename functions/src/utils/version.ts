@@ -0,0 +1,85 @@
+/**
+ * Utilitários de versionamento de documentos
+ *
+ * Versões seguem o formato '<major>.<minor>':
+ * - 0.x: rascunho nunca aprovado
+ * - mudança editorial incrementa o minor (1.0 -> 1.1)
+ * - mudança substantiva ou reemissão incrementa o major (1.1 -> 2.0)
+ */
+
+import { VersionChangeType } from '../types/document.types';
+import { InvalidVersionError } from '../errors/VersionErrors';
+
+/**
+ * Versão decomposta
+ */
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+}
+
+const VERSION_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)$/;
+
+/**
+ * Decompõe uma versão, lançando InvalidVersionError se malformada
+ */
+export function parseVersion(versao: string): ParsedVersion {
+  const match = VERSION_PATTERN.exec(versao);
+
+  if (!match) {
+    throw new InvalidVersionError(versao);
+  }
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+  };
+}
+
+/**
+ * Formata uma versão decomposta
+ */
+export function formatVersion(version: ParsedVersion): string {
+  return `${version.major}.${version.minor}`;
+}
+
+/**
+ * Compara duas versões numericamente ('10.0' > '9.5')
+ *
+ * @returns Negativo se a < b, zero se iguais, positivo se a > b
+ */
+export function compareVersionNumbers(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  return va.major - vb.major || va.minor - vb.minor;
+}
+
+/**
+ * Chave de ordenação lexicográfica de uma versão ('2.10' -> '000002.000010')
+ * Permite ordenar entradas de histórico diretamente no Firestore
+ */
+export function versionSortKey(versao: string): string {
+  const { major, minor } = parseVersion(versao);
+  return `${String(major).padStart(6, '0')}.${String(minor).padStart(6, '0')}`;
+}
+
+/**
+ * Calcula a próxima versão aprovada
+ * A primeira aprovação de um rascunho (0.x) sempre gera 1.0
+ *
+ * @param currentVersion - Versão atual
+ * @param tipoMudanca - Tipo da mudança declarada na aprovação
+ */
+export function nextVersion(currentVersion: string, tipoMudanca: VersionChangeType): string {
+  const { major, minor } = parseVersion(currentVersion);
+
+  if (major === 0) {
+    return '1.0';
+  }
+
+  if (tipoMudanca === 'editorial') {
+    return formatVersion({ major, minor: minor + 1 });
+  }
+
+  return formatVersion({ major: major + 1, minor: 0 });
+}
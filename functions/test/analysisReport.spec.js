@@ -0,0 +1,132 @@
+/**
+ * Predictive analysis report (services/AnalysisReportBuilder).
+ */
+
+const assert = require("assert");
+const {
+  buildAnalysisReport,
+  renderAnalysisReport,
+  renderReportCsv,
+  renderReportPdf,
+} = require("../lib/services/AnalysisReportBuilder");
+
+/**
+ * Analysis of one document with the given overrides
+ * @param {object} overrides - Fields replaced in the base analysis
+ * @return {object} DocumentAnalysis
+ */
+function analysis(overrides = {}) {
+  return {
+    docId: "doc-1",
+    titulo: "Limpeza da linha 2",
+    status: "ativo",
+    needsRevision: false,
+    riskScore: 10,
+    riskLevel: "baixo",
+    riskContributions: [],
+    reasons: [],
+    recommendations: [],
+    regrasDisparadas: [],
+    metrics: {daysSinceLastRevision: 30, custoManutencao: 100},
+    ...overrides,
+  };
+}
+
+describe("AnalysisReportBuilder", () => {
+  const geradoEm = new Date("2026-03-10T12:00:00Z");
+
+  it("sorts by risk and summarizes the organization", () => {
+    const report = buildAnalysisReport("org-1", [
+      analysis({docId: "a", riskScore: 10}),
+      analysis({docId: "b", riskScore: 62.5, riskLevel: "alto",
+        needsRevision: true}),
+      analysis({docId: "c", riskScore: 30, riskLevel: "médio"}),
+    ], [{docId: "d", code: "INTERNAL", message: "falhou"}], geradoEm);
+
+    assert.deepStrictEqual(report.documentos.map((item) => item.docId),
+        ["b", "c", "a"]);
+    assert.deepStrictEqual(report.resumo, {
+      total: 3,
+      precisamRevisao: 1,
+      porRisco: {alto: 1, médio: 1, baixo: 1},
+      scoreMedio: 34.2,
+      falhas: 1,
+    });
+    assert.strictEqual(report.geradoEm, "2026-03-10T12:00:00.000Z");
+  });
+
+  describe("CSV", () => {
+    /**
+     * Data row of the CSV for a single analysis
+     * @param {object} overrides - Fields replaced in the base analysis
+     * @return {string} Second line of the CSV
+     */
+    function csvRow(overrides) {
+      const report = buildAnalysisReport("org-1", [analysis(overrides)], [],
+          geradoEm);
+      return renderReportCsv(report).split("\r\n")[1];
+    }
+
+    it("uses BOM, semicolons, decimal commas and yes/no", () => {
+      const csv = renderReportCsv(buildAnalysisReport("org-1", [analysis({
+        riskScore: 42.5,
+        needsRevision: true,
+        reasons: ["Motivo A", "Motivo B"],
+      })], [], geradoEm));
+      const [cabecalho, linha] = csv.split("\r\n");
+
+      assert.ok(cabecalho.startsWith("﻿docId;titulo;status;"));
+      assert.strictEqual(linha,
+          "doc-1;Limpeza da linha 2;ativo;baixo;42,5;sim;30;;;100;;;" +
+          "Motivo A | Motivo B;");
+      assert.ok(csv.endsWith("\r\n"));
+    });
+
+    it("quotes values with separators, quotes and line breaks", () => {
+      const linha = csvRow({titulo: "Troca; \"rápida\"\nlinha 2"});
+      assert.ok(linha.startsWith("doc-1;\"Troca; \"\"rápida\"\""));
+    });
+
+    ["=HYPERLINK(\"x\")", "+1", "-1+2", "@SUM(A1)", "\tcmd"]
+        .forEach((titulo) => {
+          it(`keeps "${titulo}" as text instead of a formula`, () => {
+            const celula = csvRow({titulo}).split(";")[1];
+            assert.ok(/^"?'/.test(celula), celula);
+          });
+        });
+
+    it("does not touch negative numbers", () => {
+      const linha = csvRow({metrics: {daysSinceLastRevision: -1,
+        custoManutencao: 0}});
+      assert.strictEqual(linha.split(";")[6], "-1");
+    });
+  });
+
+  describe("PDF", () => {
+    it("renders a paginated PDF with the summary and the table", () => {
+      const documentos = Array.from({length: 80}, (_, index) => analysis({
+        docId: `doc-${index}`,
+        titulo: `Procedimento ${index}`,
+        reasons: ["Última revisão há 200 dias (>= 180 dias)"],
+      }));
+      const pdf = renderReportPdf(
+          buildAnalysisReport("org-1", documentos, [], geradoEm))
+          .toString("latin1");
+
+      assert.ok(pdf.startsWith("%PDF-"));
+      assert.ok(pdf.trimEnd().endsWith("%%EOF"));
+      assert.ok(pdf.includes("(Resumo Executivo) Tj"));
+      assert.ok(pdf.includes("(Procedimento 79) Tj"));
+      const paginas = /P\xe1gina 1 de (\d+)/.exec(pdf);
+      assert.ok(paginas && Number(paginas[1]) > 1);
+    });
+
+    it("names the download after the organization and the date", () => {
+      const rendered = renderAnalysisReport(
+          buildAnalysisReport("org-1", [], [], geradoEm), "pdf");
+      assert.strictEqual(rendered.contentType, "application/pdf");
+      assert.strictEqual(rendered.nomeArquivo,
+          "relatorio-analise-preditiva-org-1-2026-03-10.pdf");
+    });
+  });
+});
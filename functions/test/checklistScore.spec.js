@@ -0,0 +1,58 @@
+/**
+ * Checklist run scoring (services/ChecklistService).
+ */
+
+const assert = require("assert");
+const {
+  computeConformityScore,
+  pendingMandatoryItems,
+  summarizeChecklist,
+} = require("../lib/services/ChecklistService");
+
+/**
+ * Run item with the given answer
+ * @param {number} ordem - Item order
+ * @param {string} resposta - conforme, nao_conforme, na or undefined
+ * @param {boolean} obrigatorio - Whether the item is mandatory
+ * @return {object} ChecklistRunItem
+ */
+function item(ordem, resposta, obrigatorio = true) {
+  return {
+    ordem,
+    descricao: `Item ${ordem}`,
+    obrigatorio,
+    evidencias: [],
+    ...(resposta ? {resposta} : {}),
+  };
+}
+
+describe("checklist scoring", () => {
+  it("scores conforming over applicable answered items", () => {
+    const resumo = summarizeChecklist([
+      item(1, "conforme"),
+      item(2, "conforme"),
+      item(3, "nao_conforme"),
+      item(4, "na"),
+      item(5, undefined, false),
+    ]);
+
+    assert.deepStrictEqual(resumo,
+        {conformes: 2, naoConformes: 1, naoAplicaveis: 1, semResposta: 1});
+    assert.strictEqual(computeConformityScore(resumo), 66.7);
+  });
+
+  it("scores 100 without applicable items", () => {
+    const resumo = summarizeChecklist([item(1, "na"), item(2, undefined)]);
+    assert.strictEqual(computeConformityScore(resumo), 100);
+  });
+
+  it("lists only the unanswered mandatory items", () => {
+    assert.deepStrictEqual(pendingMandatoryItems([
+      item(1, "conforme"),
+      item(2, undefined),
+      item(3, undefined, false),
+      item(4, "na"),
+      item(5, undefined),
+    ]), [2, 5]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Field-by-field comparison between document versions (utils/documentDiff).
+ */
+
+const assert = require("assert");
+const admin = require("firebase-admin");
+const {
+  diffContent,
+  diffDocuments,
+  summarizeChanges,
+} = require("../lib/utils/documentDiff");
+
+describe("documentDiff", () => {
+  const conteudo = {
+    secoes: [{titulo: "Objetivo", texto: "Padronizar a limpeza"}],
+    etapas: [
+      {numero: 1, descricao: "Desligar a linha"},
+      {numero: 2, descricao: "Remover resíduos", tempo: "0:30"},
+      {numero: 3, descricao: "Secar"},
+    ],
+    tempoEstimado: "10 min",
+  };
+
+  /**
+   * Document snapshot with the given overrides
+   * @param {object} overrides - Fields replaced in the base document
+   * @return {object} Document
+   */
+  function documento(overrides = {}) {
+    return {
+      docId: "doc-1",
+      orgId: "org-1",
+      tipo: "POP",
+      titulo: "Limpeza da linha 2",
+      status: "ativo",
+      versao: "1.0",
+      contentHash: "hash",
+      conteudo,
+      metadata: {
+        criadoPor: "user-1",
+        dataCriacao: admin.firestore.Timestamp.fromMillis(0),
+        ultimaRevisao: admin.firestore.Timestamp.fromMillis(0),
+      },
+      axiomaMetrics: {custoManutencao: 100, impactoMargem: "médio"},
+      ...overrides,
+    };
+  }
+
+  it("finds no changes between equal versions", () => {
+    assert.deepStrictEqual(diffDocuments(documento(), documento()), []);
+  });
+
+  it("reports document fields and serializes timestamps", () => {
+    const changes = diffDocuments(documento(), documento({
+      versao: "2.0",
+      metadata: {
+        criadoPor: "user-1",
+        dataCriacao: admin.firestore.Timestamp.fromMillis(0),
+        ultimaRevisao: admin.firestore.Timestamp.fromMillis(86400000),
+      },
+    }));
+
+    assert.deepStrictEqual(changes, [
+      {
+        grupo: "documento",
+        campo: "versao",
+        tipo: "alterado",
+        anterior: "1.0",
+        atual: "2.0",
+      },
+      {
+        grupo: "metadata",
+        campo: "metadata.ultimaRevisao",
+        tipo: "alterado",
+        anterior: "1970-01-01T00:00:00.000Z",
+        atual: "1970-01-02T00:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("matches steps by number and sections by title", () => {
+    const changes = diffContent(conteudo, {
+      secoes: [{titulo: "Objetivo", texto: "Padronizar a limpeza diária"}],
+      etapas: [
+        {numero: 1, descricao: "Desligar a linha"},
+        {numero: 2, descricao: "Remover resíduos", tempo: "0:45"},
+        {numero: 4, descricao: "Registrar"},
+      ],
+      tempoEstimado: "12 min",
+    });
+
+    assert.deepStrictEqual(changes.map(({campo, tipo}) => [campo, tipo]), [
+      ["secoes[Objetivo].texto", "alterado"],
+      ["etapas[2].tempo", "alterado"],
+      ["etapas[3]", "removido"],
+      ["etapas[4]", "adicionado"],
+      ["tempoEstimado", "alterado"],
+    ]);
+    assert.strictEqual(summarizeChanges(changes),
+        "Etapas: 1 adicionada (4), 1 alterada (2), 1 removida (3); " +
+        "Tempo estimado: 10 min → 12 min; Seções alteradas: Objetivo");
+  });
+
+  it("ignores key order inside the compared values", () => {
+    const reordenado = {
+      ...conteudo,
+      etapas: conteudo.etapas.map(({numero, descricao, tempo}) => ({
+        ...(tempo ? {tempo} : {}),
+        descricao,
+        numero,
+      })),
+    };
+    assert.deepStrictEqual(diffContent(conteudo, reordenado), []);
+  });
+
+  it("summarizes content without changes", () => {
+    assert.strictEqual(summarizeChanges([]), "Sem alterações de conteúdo");
+  });
+});
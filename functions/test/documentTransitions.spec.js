@@ -0,0 +1,82 @@
+/**
+ * Concurrent document transitions against the Firestore emulator.
+ *
+ * Requires the compiled services (`npm run build`) and a running emulator:
+ *   npm run test:emulator
+ */
+
+const assert = require("assert");
+const admin = require("firebase-admin");
+const {describeWithEmulator, initializeEmulatorApp} = require("./emulator");
+
+describeWithEmulator("DocumentService transitions (emulator)", () => {
+  let service;
+  let VersionConflictError;
+
+  before(() => {
+    initializeEmulatorApp();
+    const {DocumentService} = require("../lib/services/DocumentService");
+    ({VersionConflictError} = require("../lib/errors/ConcurrencyErrors"));
+    service = new DocumentService();
+  });
+
+  /**
+   * Active document 1.0 resubmitted for review, with every signature collected
+   * @return {Promise<string>} docId ready for approval
+   */
+  async function documentReadyForApproval() {
+    const {docId} = await service.createDocument({
+      orgId: "org-test",
+      tipo: "POP",
+      titulo: "Limpeza da linha 2",
+      conteudo: {secoes: [{titulo: "Objetivo", texto: "Padronizar a limpeza"}]},
+      criadoPor: "elaborador-1",
+    });
+    const signatarios = [
+      {userId: "revisor-1", papel: "revisor"},
+      {userId: "aprovador-1", papel: "aprovador"},
+    ];
+    const collectSignatures = async () => {
+      await service.submitForReview(docId, "elaborador-1", signatarios);
+      await service.recordReviewDecision(docId, "revisor-1", "aprovado");
+      await service.recordReviewDecision(docId, "aprovador-1", "aprovado");
+    };
+
+    await collectSignatures();
+    await service.approveDocument(docId, "aprovador-1", "Primeira emissão");
+    // Resubmitting the active version archives 1.0 in the history
+    await collectSignatures();
+
+    return docId;
+  }
+
+  it("approves once when two approvals race on a version", async () => {
+    const docId = await documentReadyForApproval();
+    const approve = (motivo) => service.approveDocument(
+        docId, "aprovador-1", motivo, "substantiva", "1.0");
+
+    const results = await Promise.allSettled([
+      approve("Revisão A"),
+      approve("Revisão B"),
+    ]);
+
+    const fulfilled = results.filter((result) => result.status === "fulfilled");
+    const rejected = results.filter((result) => result.status === "rejected");
+    assert.strictEqual(fulfilled.length, 1);
+    assert.strictEqual(rejected.length, 1);
+    assert.ok(
+        rejected[0].reason instanceof VersionConflictError,
+        `expected VersionConflictError, got ${rejected[0].reason}`,
+    );
+    assert.strictEqual(fulfilled[0].value.versao, "2.0");
+
+    const docRef = admin.firestore().collection("documents").doc(docId);
+    const stored = (await docRef.get()).data();
+    assert.strictEqual(stored.status, "ativo");
+    assert.strictEqual(stored.versao, "2.0");
+
+    const history = await docRef.collection("history").get();
+    assert.strictEqual(history.size, 1);
+    assert.strictEqual(history.docs[0].id, "1.0");
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Durations of POP steps and executions (utils/duration).
+ */
+
+const assert = require("assert");
+const {parseDuration, formatDuration} = require("../lib/utils/duration");
+
+describe("parseDuration", () => {
+  const cases = [
+    ["12:30", 750],
+    ["1:00:00", 3600],
+    ["15", 900],
+    ["2,5", 150],
+    ["1h20", 4800],
+    ["1h 20min", 4800],
+    ["1 hora e 20 minutos", 4800],
+    ["2m30", 150],
+    ["90 s", 90],
+    ["2,5 h", 9000],
+    ["aprox. 10 min", 600],
+    ["~45seg", 45],
+  ];
+
+  cases.forEach(([text, seconds]) => {
+    it(`reads "${text}" as ${seconds} s`, () => {
+      assert.strictEqual(parseDuration(text), seconds);
+    });
+  });
+
+  ["", "   ", "rápido", "10 dias úteis", "1h20x", "15s30"].forEach((text) => {
+    it(`rejects "${text}"`, () => {
+      assert.strictEqual(parseDuration(text), null);
+    });
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats hours, minutes and seconds without empty parts", () => {
+    assert.strictEqual(formatDuration(4800), "1h20min");
+    assert.strictEqual(formatDuration(750), "12min30s");
+    assert.strictEqual(formatDuration(45), "45s");
+    assert.strictEqual(formatDuration(0), "0s");
+  });
+
+  it("round-trips with parseDuration", () => {
+    [45, 750, 3600, 4830].forEach((seconds) => {
+      assert.strictEqual(parseDuration(formatDuration(seconds)), seconds);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Shared setup for the suites that need the Firestore emulator.
+ *
+ * Without FIRESTORE_EMULATOR_HOST those suites are skipped, so they never
+ * touch a real project. Run them with `npm run test:emulator`.
+ */
+
+const admin = require("firebase-admin");
+
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ?
+  describe :
+  describe.skip;
+
+/**
+ * Initializes the default app against the emulator project (once)
+ * @return {admin.app.App} Default app
+ */
+function initializeEmulatorApp() {
+  if (!admin.apps.length) {
+    const projectId = process.env.GCLOUD_PROJECT || "demo-axioma";
+    admin.initializeApp({projectId});
+  }
+  return admin.app();
+}
+
+module.exports = {describeWithEmulator, initializeEmulatorApp};
@@ -0,0 +1,183 @@
+/**
+ * Review rule expressions (utils/ruleExpression) and the rule engine
+ * (services/FailureRuleEngine).
+ */
+
+const assert = require("assert");
+const {
+  evaluateRuleExpression,
+  parseRuleExpression,
+} = require("../lib/utils/ruleExpression");
+const {RuleExpressionError} = require("../lib/errors/RuleErrors");
+const {
+  DEFAULT_FAILURE_RULES,
+  RULE_VARIABLES,
+  buildRuleContext,
+  evaluateFailureRules,
+  resolveFailureRules,
+  validateFailureIndicators,
+} = require("../lib/services/FailureRuleEngine");
+const {DEFAULT_THRESHOLDS} = require("../lib/services/AxiomaConfigService");
+
+describe("rule expressions", () => {
+  const contexto = {a: 2, b: 3, tipo: "POP", ativo: true};
+
+  it("follows arithmetic and logical precedence", () => {
+    assert.ok(evaluateRuleExpression("a + b * 2 == 8", contexto));
+    assert.ok(evaluateRuleExpression("(a + b) * 2 == 10", contexto));
+    assert.ok(evaluateRuleExpression("a < b && b < 4 || a > 10", contexto));
+    assert.ok(evaluateRuleExpression("-a < 0", contexto));
+  });
+
+  it("accepts the keyword operators", () => {
+    assert.ok(evaluateRuleExpression("a < b e nao (b < a)", contexto));
+    assert.ok(evaluateRuleExpression("a > b or tipo == 'POP'", contexto));
+    assert.ok(evaluateRuleExpression("not (a == b) and ativo", contexto));
+  });
+
+  it("never fires on missing variables", () => {
+    assert.strictEqual(evaluateRuleExpression("ausente < 70", contexto), false);
+    assert.strictEqual(evaluateRuleExpression("ausente >= 0", contexto), false);
+    assert.strictEqual(
+        evaluateRuleExpression("ausente * 2 > a", contexto), false);
+  });
+
+  it("does not compare across types or divide by zero", () => {
+    assert.strictEqual(evaluateRuleExpression("tipo > 1", contexto), false);
+    assert.strictEqual(evaluateRuleExpression("a / 0 > 1", contexto), false);
+  });
+
+  it("ignores properties inherited by the context object", () => {
+    assert.strictEqual(evaluateRuleExpression("constructor", {}), false);
+  });
+
+  ["a <", "(a > 1", "a > 1)", "a === 1", "a > 'x"].forEach((expressao) => {
+    it(`rejects the malformed expression "${expressao}"`, () => {
+      assert.throws(() => parseRuleExpression(expressao), RuleExpressionError);
+    });
+  });
+
+  it("rejects variables outside the allowed list", () => {
+    assert.throws(
+        () => parseRuleExpression("a > desconhecida", ["a"]),
+        /variável desconhecida 'desconhecida'/,
+    );
+  });
+
+  it("rejects expressions over the size limit", () => {
+    const longa = Array(200).fill("a").join(" + ") + " > 1";
+    assert.throws(() => parseRuleExpression(longa), RuleExpressionError);
+  });
+});
+
+describe("FailureRuleEngine", () => {
+  const thresholds = DEFAULT_THRESHOLDS.POP;
+  const document = {
+    tipo: "POP",
+    status: "ativo",
+    axiomaMetrics: {impactoMargem: "médio", custoManutencao: 100},
+  };
+
+  /**
+   * Rules fired for a POP with the default rules and the given metrics
+   * @param {object} inputs - RuleInputs without the document
+   * @param {object[]} camadas - Configuration layers
+   * @return {string[]} Ids of the fired rules
+   */
+  function firedRules(inputs, camadas = []) {
+    const contexto = buildRuleContext({document, riskScore: 0, ...inputs},
+        thresholds);
+    return evaluateFailureRules(resolveFailureRules(camadas), contexto)
+        .map((regra) => regra.id);
+  }
+
+  it("reproduces the default thresholds", () => {
+    assert.deepStrictEqual(firedRules({daysSinceLastRevision: 10}), []);
+    assert.deepStrictEqual(firedRules({daysSinceLastRevision: 100}),
+        ["revisao-proxima"]);
+    assert.deepStrictEqual(
+        firedRules({daysSinceLastRevision: 200, scoreConformidade: 60}),
+        ["revisao-obrigatoria", "conformidade-baixa"],
+    );
+  });
+
+  it("does not fire video rules for documents without a video", () => {
+    assert.deepStrictEqual(
+        firedRules({daysSinceLastRevision: 0, naoConformidades: undefined}),
+        [],
+    );
+  });
+
+  it("requires enough executions for the time rule", () => {
+    const execucao = {
+      razao: 2,
+      execucoes: 2,
+      execucoesComExcesso: 2,
+      tempoExecucaoMedianoSegundos: 1200,
+    };
+    assert.deepStrictEqual(
+        firedRules({daysSinceLastRevision: 0, execucao}), []);
+    assert.deepStrictEqual(
+        firedRules({daysSinceLastRevision: 0, execucao: {...execucao,
+          execucoes: 3}}),
+        ["tempo-execucao"],
+    );
+  });
+
+  it("interpolates the context into the reasons", () => {
+    const contexto = buildRuleContext(
+        {document, riskScore: 0, daysSinceLastRevision: 200}, thresholds);
+    const [regra] = evaluateFailureRules(resolveFailureRules([]), contexto);
+    assert.strictEqual(regra.motivo,
+        "Última revisão há 200 dias (>= 180 dias)");
+    assert.strictEqual(regra.exigeRevisao, true);
+  });
+
+  it("lets organizations override, disable and add rules", () => {
+    const camadas = [{
+      failureIndicators: [
+        {id: "revisao-obrigatoria", ativo: false},
+        {id: "conformidade-baixa", expressao: "score_conformidade < 90"},
+        "custo_manutencao > 50",
+      ],
+    }];
+    assert.deepStrictEqual(
+        firedRules({daysSinceLastRevision: 200, scoreConformidade: 80},
+            camadas),
+        ["conformidade-baixa", "custo_manutencao > 50"],
+    );
+  });
+
+  it("maps the legacy text indicators to the default rules", () => {
+    const camadas = [{failureIndicators: ["score_conformidade  <  70"]}];
+    const regras = resolveFailureRules(camadas).map(({rule}) => rule.id);
+    assert.deepStrictEqual(regras,
+        DEFAULT_FAILURE_RULES.map((rule) => rule.id));
+  });
+
+  it("validates the configured indicators", () => {
+    assert.deepStrictEqual(validateFailureIndicators([
+      "dias_desde_revisao > 30",
+      {id: "revisao-proxima", exigeRevisao: true},
+    ]), []);
+
+    const erros = validateFailureIndicators([
+      "variavel_inexistente > 1",
+      {id: "nova"},
+      {id: "revisao-proxima", ativo: "não"},
+      42,
+    ]);
+    assert.strictEqual(erros.length, 4);
+    assert.match(erros[0], /variável desconhecida/);
+    assert.match(erros[1], /expressao é obrigatória/);
+    assert.match(erros[2], /ativo deve ser booleano/);
+    assert.match(erros[3], /deve ser uma expressão ou um objeto/);
+  });
+
+  it("exposes every context variable", () => {
+    const contexto = buildRuleContext(
+        {document, riskScore: 0, daysSinceLastRevision: 0}, thresholds);
+    assert.deepStrictEqual(Object.keys(contexto).sort(),
+        [...RULE_VARIABLES].sort());
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Role checks of the callables (api/callable) and their error mapping.
+ */
+
+const assert = require("assert");
+const {requireRole} = require("../lib/api/callable");
+const {PermissionDeniedError} = require("../lib/errors/DomainError");
+const {toHttpError, toHttpsError} = require("../lib/errors/errorMapping");
+
+describe("requireRole", () => {
+  const caller = (role) => ({uid: "u1", orgId: "org-1", token: {role}});
+
+  it("lets the allowed roles through", () => {
+    requireRole(caller("gestor"), ["elaborador", "gestor"], "criar documentos");
+  });
+
+  it("rejects other or missing roles with a domain error", () => {
+    assert.throws(
+        () => requireRole(caller("leitor"), ["gestor"], "criar documentos"),
+        (error) => error instanceof PermissionDeniedError &&
+          error.message === "Papel leitor não permite criar documentos",
+    );
+    assert.throws(
+        () => requireRole(caller(undefined), ["gestor"], "aprovar"),
+        /Papel \(nenhum\) não permite aprovar/,
+    );
+  });
+
+  it("maps to permission-denied with the allowed roles", () => {
+    const error = new PermissionDeniedError("leitor", ["gestor"], "aprovar");
+
+    const https = toHttpsError(error);
+    assert.strictEqual(https.code, "permission-denied");
+    assert.deepStrictEqual(https.details, {
+      code: "PERMISSION_DENIED",
+      retryable: false,
+      role: "leitor",
+      papeis: ["gestor"],
+    });
+    assert.strictEqual(toHttpError(error).status, 403);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Normalization of the POP extracted from videos (utils/popSchema).
+ */
+
+const assert = require("assert");
+const {
+  normalizePopData,
+  parsePopExtraction,
+  stripJsonFences,
+} = require("../lib/utils/popSchema");
+
+describe("popSchema", () => {
+  it("strips code fences and text around the JSON object", () => {
+    assert.strictEqual(stripJsonFences("```json\n{\"a\": 1}\n```"),
+        "{\"a\": 1}");
+    assert.strictEqual(stripJsonFences("Aqui está o JSON: {\"a\": 1} Fim"),
+        "{\"a\": 1}");
+  });
+
+  it("accepts accented and aliased keys and loose values", () => {
+    const resultado = parsePopExtraction(`\`\`\`json
+{
+  "Título do POP": "Troca de ferramenta",
+  "Etapas do procedimento": [
+    {"Número da etapa": 1, "Descrição da ação": "Travar a máquina",
+     "Tempo aproximado": "0:15"},
+    "Soltar o fixador"
+  ],
+  "Requisitos de segurança": "- Luvas\\n- Óculos",
+  "Duração": 12,
+  "nao_conformidades": ["Sem bloqueio"],
+  "Score de conformidade": "85%"
+}
+\`\`\``);
+
+    assert.strictEqual(resultado.valido, true);
+    assert.deepStrictEqual(resultado.erros, []);
+    assert.deepStrictEqual(resultado.popData, {
+      titulo: "Troca de ferramenta",
+      etapas: [
+        {numero: 1, descricao: "Travar a máquina", tempo: "0:15"},
+        {numero: 2, descricao: "Soltar o fixador"},
+      ],
+      requisitosSeguranca: ["Luvas", "Óculos"],
+      naoConformidades: ["Sem bloqueio"],
+      tempoEstimado: "12 min",
+      scoreConformidade: 85,
+    });
+  });
+
+  it("unwraps an enveloped response", () => {
+    const {popData, valido} = normalizePopData({
+      pop: {titulo: "Limpeza", etapas: ["Varrer"], scoreConformidade: 90},
+    });
+    assert.strictEqual(valido, true);
+    assert.strictEqual(popData.titulo, "Limpeza");
+  });
+
+  it("converts scores from other scales with a warning", () => {
+    const base = {titulo: "T", etapas: ["E"]};
+    const escala = normalizePopData({...base, scoreConformidade: "8.5/10"});
+    assert.strictEqual(escala.popData.scoreConformidade, 85);
+    assert.strictEqual(escala.avisos.length, 1);
+
+    const fracao = normalizePopData({...base, scoreConformidade: 0.72});
+    assert.strictEqual(fracao.popData.scoreConformidade, 72);
+
+    const fora = normalizePopData({...base, scoreConformidade: 130});
+    assert.strictEqual(fora.popData.scoreConformidade, 100);
+    assert.strictEqual(fora.valido, true);
+  });
+
+  it("warns about an unrecognized estimated time", () => {
+    const {avisos, valido} = normalizePopData({
+      titulo: "T", etapas: ["E"], scoreConformidade: 80,
+      tempoEstimado: "meio turno",
+    });
+    assert.strictEqual(valido, true);
+    assert.match(avisos[0], /não é uma duração reconhecida/);
+  });
+
+  it("reports what cannot be fixed", () => {
+    const resultado = normalizePopData({
+      etapas: [{ferramentas: ["Chave"]}],
+      scoreConformidade: "alto",
+    });
+    assert.strictEqual(resultado.valido, false);
+    assert.deepStrictEqual(resultado.erros, [
+      "titulo ausente",
+      "etapas[0] sem descrição",
+      "nenhuma etapa extraída",
+      "scoreConformidade inválido: \"alto\"",
+    ]);
+  });
+
+  it("rejects responses that are not JSON objects", () => {
+    assert.strictEqual(parsePopExtraction("não consegui analisar").valido,
+        false);
+    assert.deepStrictEqual(normalizePopData([1, 2]).erros,
+        ["popData deve ser um objeto JSON"]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Persisted predictive analysis runs against the Firestore emulator.
+ *
+ * Requires the compiled services (`npm run build`) and a running emulator:
+ *   npm run test:emulator
+ */
+
+const assert = require("assert");
+const admin = require("firebase-admin");
+const {describeWithEmulator, initializeEmulatorApp} = require("./emulator");
+
+describeWithEmulator("PredictiveAnalysisService runs (emulator)", () => {
+  let documents;
+  let analysis;
+
+  before(() => {
+    initializeEmulatorApp();
+    const {DocumentService} = require("../lib/services/DocumentService");
+    const {
+      PredictiveAnalysisService,
+    } = require("../lib/services/PredictiveAnalysisService");
+    documents = new DocumentService();
+    analysis = new PredictiveAnalysisService();
+  });
+
+  it("persists a run for a document with no linked video", async () => {
+    const orgId = `org-sem-video-${Date.now()}`;
+    const {docId} = await documents.createDocument({
+      orgId,
+      tipo: "POP",
+      titulo: "Recebimento de matéria-prima",
+      conteudo: {secoes: [{titulo: "Objetivo", texto: "Conferir lotes"}]},
+      criadoPor: "elaborador-1",
+    });
+    // Only active and in-review documents are analyzed
+    await admin.firestore().collection("documents").doc(docId)
+        .update({status: "ativo", versao: "1.0"});
+
+    const run = await analysis.saveAnalysisRun(orgId);
+
+    assert.strictEqual(run.resumo.total, 1);
+    assert.strictEqual(run.resumo.falhas, 0);
+
+    const stored = await admin.firestore()
+        .collection("companies").doc(orgId)
+        .collection("analyses").doc(`${run.runId}_${docId}`)
+        .get();
+    assert.ok(stored.exists);
+    assert.strictEqual(stored.data().tendencia, "novo");
+    assert.ok(!("scoreConformidade" in stored.data().metrics));
+  });
+});
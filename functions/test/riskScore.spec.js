@@ -0,0 +1,87 @@
+/**
+ * Weighted risk score of the predictive analysis (utils/riskScore).
+ */
+
+const assert = require("assert");
+const {
+  computeRiskScore,
+  riskLevelFromScore,
+} = require("../lib/utils/riskScore");
+const {DEFAULT_THRESHOLDS} = require("../lib/services/AxiomaConfigService");
+
+describe("risk score", () => {
+  const thresholds = DEFAULT_THRESHOLDS.POP;
+  const semRisco = {
+    daysSinceLastRevision: 0,
+    impactoMargem: "baixo",
+    custoManutencao: 0,
+  };
+
+  it("is zero for a fresh, cheap, low-impact document", () => {
+    const {score} = computeRiskScore(semRisco, thresholds);
+    assert.strictEqual(score, 0);
+    assert.strictEqual(riskLevelFromScore(score), "baixo");
+  });
+
+  it("adds each factor as weight × intensity", () => {
+    const {score, contribuicoes} = computeRiskScore({
+      ...semRisco,
+      daysSinceLastRevision: 180,
+      impactoMargem: "alto",
+    }, thresholds);
+
+    assert.strictEqual(score, 45);
+    assert.strictEqual(riskLevelFromScore(score), "médio");
+    assert.deepStrictEqual(
+        contribuicoes.slice(0, 2).map(({fator, pontos}) => [fator, pontos]),
+        [["idade", 30], ["impactoMargem", 15]],
+    );
+  });
+
+  it("reaches half intensity at the thresholds", () => {
+    const {contribuicoes} = computeRiskScore({
+      ...semRisco,
+      scoreConformidade: thresholds.minConformityScore,
+      naoConformidades: thresholds.maxNonConformities,
+    }, thresholds);
+    const intensidade = (fator) =>
+      contribuicoes.find((item) => item.fator === fator).intensidade;
+
+    assert.strictEqual(intensidade("conformidade"), 0.5);
+    assert.strictEqual(intensidade("naoConformidades"), 0.5);
+  });
+
+  it("caps every factor and the score at 100", () => {
+    const {score} = computeRiskScore({
+      daysSinceLastRevision: 5000,
+      scoreConformidade: 0,
+      naoConformidades: 50,
+      impactoMargem: "alto",
+      custoManutencao: 1e6,
+    }, thresholds);
+    assert.strictEqual(score, 100);
+    assert.strictEqual(riskLevelFromScore(score), "alto");
+  });
+
+  it("normalizes custom weights to 100", () => {
+    const pesos = {
+      idade: 1,
+      conformidade: 0,
+      naoConformidades: 0,
+      impactoMargem: 0,
+      custoManutencao: 0,
+    };
+    const {score} = computeRiskScore(
+        {...semRisco, daysSinceLastRevision: 90},
+        thresholds,
+        {pesos, custoReferencia: 1000},
+    );
+    assert.strictEqual(score, 50);
+  });
+
+  it("derives the level from the cutoffs", () => {
+    assert.strictEqual(riskLevelFromScore(24.9), "baixo");
+    assert.strictEqual(riskLevelFromScore(25), "médio");
+    assert.strictEqual(riskLevelFromScore(50), "alto");
+  });
+});
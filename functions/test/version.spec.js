@@ -0,0 +1,48 @@
+/**
+ * Document versioning rules (utils/version).
+ */
+
+const assert = require("assert");
+const {
+  compareVersionNumbers,
+  nextVersion,
+  parseVersion,
+  versionSortKey,
+} = require("../lib/utils/version");
+const {InvalidVersionError} = require("../lib/errors/VersionErrors");
+
+describe("version utils", () => {
+  it("parses '<major>.<minor>'", () => {
+    assert.deepStrictEqual(parseVersion("2.10"), {major: 2, minor: 10});
+  });
+
+  ["", "1", "1.0.0", "01.0", "1.a", "v1.0"].forEach((versao) => {
+    it(`rejects '${versao}'`, () => {
+      assert.throws(() => parseVersion(versao), InvalidVersionError);
+    });
+  });
+
+  it("compares numerically, not lexicographically", () => {
+    assert.ok(compareVersionNumbers("10.0", "9.5") > 0);
+    assert.ok(compareVersionNumbers("2.9", "2.10") < 0);
+    assert.strictEqual(compareVersionNumbers("1.1", "1.1"), 0);
+  });
+
+  it("builds sort keys that order like the versions", () => {
+    assert.strictEqual(versionSortKey("2.10"), "000002.000010");
+    const ordenadas = ["9.0", "10.0", "2.10", "2.9", "0.1"]
+        .sort((a, b) => versionSortKey(b).localeCompare(versionSortKey(a)));
+    assert.deepStrictEqual(ordenadas, ["10.0", "9.0", "2.10", "2.9", "0.1"]);
+  });
+
+  it("publishes 1.0 on the first approval of a draft", () => {
+    assert.strictEqual(nextVersion("0.3", "editorial"), "1.0");
+    assert.strictEqual(nextVersion("0.1", "substantiva"), "1.0");
+  });
+
+  it("bumps the minor for editorial and the major otherwise", () => {
+    assert.strictEqual(nextVersion("1.1", "editorial"), "1.2");
+    assert.strictEqual(nextVersion("1.1", "substantiva"), "2.0");
+    assert.strictEqual(nextVersion("9.4", "reemissao"), "10.0");
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Página de Execução do Checklist
+ *
+ * Exibe os itens agrupados pela seção de origem para resposta, com fotos
+ * de evidência e abertura de NCs nos itens reprovados. A conclusão fica
+ * bloqueada enquanto houver itens obrigatórios sem resposta; concluída,
+ * a execução mostra o score de conformidade.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import AuthGate, { AuthenticatedState } from '@/components/AuthGate';
+import ChecklistItemCard from '@/components/ChecklistItemCard';
+import { useChecklistRun } from '@/hooks/useChecklistRuns';
+import { callApi } from '@/lib/api';
+import {
+  CHECKLIST_STATUS_LABELS,
+  CHECKLIST_STATUS_STYLES,
+  pendingMandatoryItems,
+  scoreStyle,
+} from '@/lib/checklist';
+import { formatDateTime } from '@/lib/format';
+import { ChecklistRun, ChecklistRunItem } from '@/types/checklist';
+
+const INPUT_CLASS = 'w-full border rounded px-3 py-2 text-sm';
+
+/**
+ * Itens agrupados pela seção de origem, na ordem do checklist
+ */
+const groupItems = (itens: ChecklistRunItem[]): { grupo?: string; itens: ChecklistRunItem[] }[] =>
+  itens.reduce<{ grupo?: string; itens: ChecklistRunItem[] }[]>((grupos, item) => {
+    const ultimo = grupos[grupos.length - 1];
+    if (ultimo && ultimo.grupo === item.grupo) {
+      ultimo.itens.push(item);
+    } else {
+      grupos.push({ grupo: item.grupo, itens: [item] });
+    }
+    return grupos;
+  }, []);
+
+const RunControls: React.FC<{ run: ChecklistRun }> = ({ run }) => {
+  const pendentes = pendingMandatoryItems(run.itens);
+  const [cancelando, setCancelando] = useState(false);
+  const [motivo, setMotivo] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const execute = async (request: () => Promise<unknown>) => {
+    setRunning(true);
+    setError(null);
+    try {
+      // A execução é atualizada pela assinatura em tempo real
+      await request();
+      setCancelando(false);
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Erro ao executar a operação');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {pendentes.length > 0 && (
+        <p className="text-sm text-yellow-800">
+          {pendentes.length} item(ns) obrigatório(s) sem resposta: {pendentes.map((item) => item.ordem).join(', ')}
+        </p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => execute(() => callApi('completeChecklistRun', { runId: run.runId }))}
+          disabled={running || pendentes.length > 0}
+          className="px-4 py-2 rounded bg-green-600 hover:bg-green-700 text-white text-sm font-semibold disabled:opacity-50"
+        >
+          Concluir checklist
+        </button>
+        <button
+          onClick={() => setCancelando(!cancelando)}
+          className="px-4 py-2 rounded bg-red-600 hover:bg-red-700 text-white text-sm font-semibold"
+        >
+          Cancelar checklist
+        </button>
+      </div>
+      {cancelando && (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            execute(() => callApi('cancelChecklistRun', { runId: run.runId, motivo }));
+          }}
+          className="bg-gray-50 rounded p-3 space-y-2"
+        >
+          <textarea
+            value={motivo}
+            onChange={(event) => setMotivo(event.target.value)}
+            placeholder="Motivo do cancelamento"
+            required
+            className={INPUT_CLASS}
+          />
+          <button
+            type="submit"
+            disabled={running}
+            className="px-4 py-2 rounded bg-purple-600 text-white text-sm font-semibold disabled:opacity-50"
+          >
+            {running ? 'Enviando...' : 'Confirmar cancelamento'}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+const ChecklistRunDetail: React.FC<{ runId: string; auth: AuthenticatedState }> = ({ runId, auth }) => {
+  const { run, loading, notFound, error } = useChecklistRun(runId);
+
+  if (loading) {
+    return <p className="text-center text-gray-500">Carregando checklist...</p>;
+  }
+  if (error) {
+    return <p className="text-center text-red-600">Erro ao carregar checklist: {error.message}</p>;
+  }
+  if (notFound || !run) {
+    return <p className="text-center text-gray-500">Checklist não encontrado.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${CHECKLIST_STATUS_STYLES[run.status]}`}>
+            {CHECKLIST_STATUS_LABELS[run.status]}
+          </span>
+          {run.scoreConformidade !== undefined && (
+            <span className={`text-3xl font-bold ${scoreStyle(run.scoreConformidade)}`}>
+              {run.scoreConformidade}% de conformidade
+            </span>
+          )}
+        </div>
+        <h2 className="text-2xl font-bold text-gray-800">{run.titulo}</h2>
+        <div className="flex flex-wrap gap-3 text-sm text-gray-600">
+          {run.origem.tipo === 'documento' && run.origem.docId ? (
+            <Link href={`/documentos/${run.origem.docId}`} className="font-semibold text-purple-700 hover:underline">
+              Documento de origem (v{run.origem.versao})
+            </Link>
+          ) : (
+            <span>Modelo <strong>{run.origem.norma || run.origem.templateId}</strong> v{run.origem.versao}</span>
+          )}
+          <span>Iniciado {formatDateTime(run.iniciadoEm)}</span>
+          {run.concluidoEm && <span>Concluído {formatDateTime(run.concluidoEm)}</span>}
+        </div>
+        <p className="text-sm text-gray-700">
+          <strong>{run.resumo.conformes}</strong> conforme(s), <strong>{run.resumo.naoConformes}</strong> não
+          conforme(s), <strong>{run.resumo.naoAplicaveis}</strong> N/A, <strong>{run.resumo.semResposta}</strong> sem
+          resposta
+        </p>
+        {run.status === 'cancelada' && run.motivoCancelamento && (
+          <p className="text-sm text-gray-500">Cancelado: {run.motivoCancelamento}</p>
+        )}
+        {run.status === 'em_andamento' && auth.role && auth.role !== 'leitor' && <RunControls run={run} />}
+      </div>
+
+      {groupItems(run.itens).map((grupo, index) => (
+        <section key={`${grupo.grupo || ''}-${index}`} className="space-y-3">
+          {grupo.grupo && <h3 className="text-lg font-bold text-gray-800">{grupo.grupo}</h3>}
+          <ul className="space-y-3">
+            {grupo.itens.map((item) => (
+              <ChecklistItemCard key={item.ordem} run={run} item={item} role={auth.role} />
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default function ChecklistExecucaoPage() {
+  const { runId } = useParams<{ runId: string }>();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 p-8">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/checklists" className="inline-block mb-6 text-sm text-purple-700 font-semibold">
+          ← Voltar para checklists
+        </Link>
+        <AuthGate>{(auth) => <ChecklistRunDetail runId={runId} auth={auth} />}</AuthGate>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Página de Checklists
+ *
+ * Inicia execuções a partir dos modelos de norma (ISO 9001, 14001,
+ * 45001) e lista em tempo real as execuções da organização com filtro
+ * por status e o score de conformidade das concluídas.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import AuthGate, { AuthenticatedState } from '@/components/AuthGate';
+import StartChecklistRunForm from '@/components/StartChecklistRunForm';
+import { useChecklistRuns } from '@/hooks/useChecklistRuns';
+import { CHECKLIST_STATUS_LABELS, CHECKLIST_STATUS_STYLES, scoreStyle } from '@/lib/checklist';
+import { formatDateTime } from '@/lib/format';
+import { ChecklistRunStatus } from '@/types/checklist';
+
+const SELECT_CLASS = 'border rounded px-3 py-2 text-sm bg-white';
+
+const ChecklistRunList: React.FC<{ auth: AuthenticatedState }> = ({ auth }) => {
+  const router = useRouter();
+  const [status, setStatus] = useState<ChecklistRunStatus | undefined>(undefined);
+  const { runs, loading, error } = useChecklistRuns(auth.orgId, { status });
+
+  return (
+    <div className="space-y-6">
+      {auth.role && auth.role !== 'leitor' && (
+        <StartChecklistRunForm onStarted={(run) => router.push(`/checklists/${run.runId}`)} />
+      )}
+
+      <select
+        value={status || ''}
+        onChange={(event) => setStatus((event.target.value as ChecklistRunStatus) || undefined)}
+        className={SELECT_CLASS}
+      >
+        <option value="">Todos os status</option>
+        {(Object.keys(CHECKLIST_STATUS_LABELS) as ChecklistRunStatus[]).map((item) => (
+          <option key={item} value={item}>{CHECKLIST_STATUS_LABELS[item]}</option>
+        ))}
+      </select>
+
+      {error && <p className="text-sm text-red-600">Erro ao carregar checklists: {error.message}</p>}
+      {loading && <p className="text-center text-gray-500">Carregando checklists...</p>}
+      {!loading && !error && runs.length === 0 && (
+        <p className="text-center text-gray-500">Nenhum checklist encontrado.</p>
+      )}
+
+      <ul className="space-y-3">
+        {runs.map((run) => (
+          <li key={run.runId}>
+            <Link
+              href={`/checklists/${run.runId}`}
+              className="block bg-white rounded-lg shadow-md p-4 hover:shadow-lg transition-shadow"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${CHECKLIST_STATUS_STYLES[run.status]}`}>
+                  {CHECKLIST_STATUS_LABELS[run.status]}
+                </span>
+                {run.scoreConformidade !== undefined && (
+                  <span className={`text-lg font-bold ${scoreStyle(run.scoreConformidade)}`}>
+                    {run.scoreConformidade}%
+                  </span>
+                )}
+              </div>
+              <p className="mt-2 font-semibold text-gray-800">{run.titulo}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {run.origem.tipo === 'template' ? `Modelo ${run.origem.norma || run.origem.templateId}` : `Documento ${run.origem.docId}`}
+                {' '}v{run.origem.versao} — iniciado em {formatDateTime(run.iniciadoEm)}
+                {' '}— {run.itens.length - run.resumo.semResposta}/{run.itens.length} respondido(s)
+                {run.resumo.naoConformes > 0 && <>, {run.resumo.naoConformes} não conforme(s)</>}
+              </p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default function ChecklistsPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 p-8">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/documentos" className="inline-block mb-6 text-sm text-purple-700 font-semibold">
+          ← Voltar para documentos
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">Checklists</h1>
+        <AuthGate>{(auth) => <ChecklistRunList auth={auth} />}</AuthGate>
+      </div>
+    </main>
+  );
+}
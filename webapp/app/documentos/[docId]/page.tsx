@@ -0,0 +1,311 @@
+/**
+ * Página de Detalhe do Documento
+ *
+ * Exibe o documento completo, o POP padronizado para impressão, o POP
+ * de vídeo vinculado, as não-conformidades, as execuções (documentos do
+ * tipo Checklist), a linha do tempo de versões, a análise preditiva
+ * (Modo Axioma) e as ações do fluxo de aprovação permitidas ao papel do
+ * usuário.
+ */
+
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import AuthGate, { AuthenticatedState } from '@/components/AuthGate';
+import DocumentActions from '@/components/DocumentActions';
+import DocumentChecklistRuns from '@/components/DocumentChecklistRuns';
+import DocumentHistoryTimeline from '@/components/DocumentHistoryTimeline';
+import DocumentNonConformities from '@/components/DocumentNonConformities';
+import PopPrintView from '@/components/PopPrintView';
+import { useDocument } from '@/hooks/useDocument';
+import { useDocumentAnalysis } from '@/hooks/useDocumentAnalysis';
+import { formatDateTime } from '@/lib/format';
+import { DocumentAnalysis, DocumentContent, RiskFactor } from '@/types/document';
+
+const RISK_STYLES: Record<DocumentAnalysis['riskLevel'], string> = {
+  alto: 'bg-red-500 text-white',
+  médio: 'bg-orange-500 text-white',
+  baixo: 'bg-blue-500 text-white',
+};
+
+const RISK_FACTOR_LABELS: Record<RiskFactor, string> = {
+  idade: 'Tempo desde a revisão',
+  conformidade: 'Score de conformidade',
+  naoConformidades: 'Não-conformidades',
+  impactoMargem: 'Impacto na margem',
+  custoManutencao: 'Custo de manutenção',
+};
+
+const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-white rounded-lg shadow-md p-6">
+    <h3 className="text-lg font-bold text-gray-800 mb-4">{title}</h3>
+    {children}
+  </section>
+);
+
+/**
+ * @param videoHref - Página do vídeo vinculado; etapas com tempo viram links para o trecho
+ */
+const ContentView: React.FC<{ conteudo?: DocumentContent; videoHref?: string }> = ({ conteudo, videoHref }) => {
+  if (!conteudo) {
+    return <p className="text-sm text-gray-500">Documento sem conteúdo estruturado.</p>;
+  }
+
+  return (
+    <div className="space-y-6 text-sm text-gray-700">
+      {conteudo.secoes.map((secao, index) => (
+        <div key={index}>
+          <h4 className="font-semibold text-gray-800 mb-1">{secao.titulo}</h4>
+          {secao.texto && <p className="whitespace-pre-wrap">{secao.texto}</p>}
+          {secao.itens && secao.itens.length > 0 && (
+            <ul className="list-disc list-inside mt-1 space-y-1">
+              {secao.itens.map((item, itemIndex) => (
+                <li key={itemIndex}>{item}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      {conteudo.tempoEstimado && (
+        <p><strong>Tempo estimado:</strong> {conteudo.tempoEstimado}</p>
+      )}
+
+      {conteudo.etapas && conteudo.etapas.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-800 mb-2">Etapas</h4>
+          <ol className="space-y-3">
+            {conteudo.etapas.map((etapa) => (
+              <li key={etapa.numero} className="border-l-4 border-purple-300 pl-3">
+                <div>
+                  <strong>{etapa.numero}.</strong> {etapa.descricao}
+                  {etapa.tempo && videoHref && (
+                    <Link
+                      href={`${videoHref}?etapa=${etapa.numero}`}
+                      className="ml-2 text-xs font-semibold text-purple-700 hover:underline"
+                      title="Assistir a este trecho do vídeo"
+                    >
+                      ▶ {etapa.tempo}
+                    </Link>
+                  )}
+                  {etapa.tempo && !videoHref && <span className="ml-2 text-xs text-gray-500">⏱ {etapa.tempo}</span>}
+                </div>
+                {etapa.ferramentas && etapa.ferramentas.length > 0 && (
+                  <div className="text-xs text-gray-500">Ferramentas: {etapa.ferramentas.join(', ')}</div>
+                )}
+                {etapa.pontosCriticos && etapa.pontosCriticos.length > 0 && (
+                  <div className="text-xs text-red-600">⚠️ {etapa.pontosCriticos.join('; ')}</div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {conteudo.anexos && conteudo.anexos.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-800 mb-1">Anexos</h4>
+          <ul className="list-disc list-inside">
+            {conteudo.anexos.map((anexo) => (
+              <li key={anexo.anexoId}>
+                {anexo.nome} <span className="text-xs text-gray-500">({Math.ceil(anexo.tamanhoBytes / 1024)} KB)</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DocumentDetail: React.FC<{ docId: string; auth: AuthenticatedState }> = ({ docId, auth }) => {
+  const { document, history, loading, notFound, error } = useDocument(docId);
+  const { analysis, loading: analysisLoading, error: analysisError } = useDocumentAnalysis(
+    docId,
+    document ? `${document.versao}:${document.status}` : null
+  );
+
+  if (loading) {
+    return <p className="text-center text-gray-500">Carregando documento...</p>;
+  }
+  if (error) {
+    return <p className="text-center text-red-600">Erro ao carregar documento: {error.message}</p>;
+  }
+  if (notFound || !document) {
+    return <p className="text-center text-gray-500">Documento não encontrado.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">{document.tipo}</span>
+        <h2 className="text-3xl font-bold text-gray-800 mt-1">{document.titulo}</h2>
+        <div className="mt-3 flex flex-wrap gap-3 text-sm text-gray-600">
+          <span>Versão <strong>v{document.versao}</strong></span>
+          <span>Status <strong>{document.status}</strong></span>
+          <span>Criado por <strong>{document.metadata.criadoPor}</strong></span>
+          <span>Última revisão {formatDateTime(document.metadata.ultimaRevisao)}</span>
+          <span>Custo R$ {document.axiomaMetrics.custoManutencao.toFixed(2)}</span>
+          <span>Impacto {document.axiomaMetrics.impactoMargem}</span>
+        </div>
+      </div>
+
+      <Card title="Ações">
+        <DocumentActions document={document} history={history} role={auth.role} userId={auth.user!.uid} />
+        {document.status === 'revisao' && document.revisao && (
+          <ul className="mt-4 text-xs text-gray-600 space-y-1">
+            {document.revisao.assinaturas.map((assinatura) => (
+              <li key={`${assinatura.papel}-${assinatura.userId}`}>
+                {assinatura.papel}: {assinatura.userId} — {assinatura.decisao || 'pendente'}
+                {assinatura.comentario && <> (“{assinatura.comentario}”)</>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card title="Conteúdo">
+            <ContentView
+              conteudo={document.conteudo}
+              videoHref={document.videoPath ? `/documentos/${document.docId}/video` : undefined}
+            />
+          </Card>
+          {document.tipo === 'POP' && (
+            <Card title="POP para Impressão">
+              <PopPrintView docId={document.docId} />
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card title="Análise Preditiva">
+            {analysisLoading && <p className="text-sm text-gray-500">Analisando...</p>}
+            {analysisError && <p className="text-sm text-red-600">{analysisError.message}</p>}
+            {analysis && (
+              <div className="space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={`px-3 py-1 rounded-full text-xs font-bold ${RISK_STYLES[analysis.riskLevel]}`}>
+                    Risco {analysis.riskLevel}
+                  </span>
+                  <span className="text-sm font-bold text-gray-800">{analysis.riskScore}/100</span>
+                  {analysis.needsRevision && (
+                    <span className="text-xs font-semibold text-red-600">Revisão necessária</span>
+                  )}
+                </div>
+                <div>
+                  <h4 className="font-semibold text-gray-800 mb-1">Composição do score</h4>
+                  <ul className="space-y-2">
+                    {analysis.riskContributions.map((item) => (
+                      <li key={item.fator} title={item.descricao}>
+                        <div className="flex justify-between text-xs text-gray-600">
+                          <span>{RISK_FACTOR_LABELS[item.fator]}</span>
+                          <span>+{item.pontos} / {item.peso}</span>
+                        </div>
+                        <div className="h-1.5 bg-gray-200 rounded">
+                          <div
+                            className="h-1.5 bg-purple-500 rounded"
+                            style={{ width: `${item.intensidade * 100}%` }}
+                          />
+                        </div>
+                        <div className="text-xs text-gray-500">{item.descricao}</div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                {analysis.metrics.razaoExcessoTempo !== undefined && (
+                  <p className="text-xs text-gray-600">
+                    Tempo de execução: mediana {analysis.metrics.razaoExcessoTempo}× o estimado
+                    {' '}({analysis.metrics.execucoesComExcesso} de {analysis.metrics.execucoesAnalisadas} execuções
+                    acima do limite)
+                  </p>
+                )}
+                <div>
+                  <h4 className="font-semibold text-gray-800">Motivos</h4>
+                  <ul className="list-disc list-inside text-gray-700">
+                    {analysis.reasons.map((reason, index) => <li key={index}>{reason}</li>)}
+                  </ul>
+                </div>
+                <div>
+                  <h4 className="font-semibold text-gray-800">Recomendações</h4>
+                  <ul className="list-disc list-inside text-gray-700">
+                    {analysis.recommendations.map((item, index) => <li key={index}>{item}</li>)}
+                  </ul>
+                </div>
+                {analysis.regrasDisparadas.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold text-gray-800">Regras disparadas</h4>
+                    <ul className="space-y-1">
+                      {analysis.regrasDisparadas.map((regra) => (
+                        <li key={regra.id} className="text-xs text-gray-600">
+                          <span className="font-semibold">{regra.id}</span>
+                          {!regra.exigeRevisao && <span className="text-yellow-700"> (alerta)</span>}
+                          <code className="block font-mono text-gray-500 break-all">{regra.expressao}</code>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </Card>
+
+          <Card title="Não-Conformidades">
+            <DocumentNonConformities orgId={auth.orgId} docId={document.docId} role={auth.role} />
+          </Card>
+
+          {document.tipo === 'Checklist' && (
+            <Card title="Execuções do Checklist">
+              <DocumentChecklistRuns orgId={auth.orgId} docId={document.docId} role={auth.role} />
+            </Card>
+          )}
+
+          <Card title="POP de Vídeo Vinculado">
+            {document.videoId ? (
+              <dl className="text-sm text-gray-700 space-y-1">
+                <div><dt className="inline font-semibold">Vídeo: </dt><dd className="inline font-mono">{document.videoId}</dd></div>
+                {document.videoPath && (
+                  <div><dt className="inline font-semibold">Arquivo: </dt><dd className="inline font-mono break-all">{document.videoPath}</dd></div>
+                )}
+                {document.videoPath && (
+                  <div className="pt-2">
+                    <Link
+                      href={`/documentos/${document.docId}/video`}
+                      className="text-sm font-semibold text-purple-700 hover:underline"
+                    >
+                      ▶ Assistir com as etapas
+                    </Link>
+                  </div>
+                )}
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-500">Nenhum vídeo vinculado.</p>
+            )}
+          </Card>
+
+          <Card title="Histórico de Versões">
+            <DocumentHistoryTimeline document={document} history={history} />
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default function DocumentoDetalhePage() {
+  const { docId } = useParams<{ docId: string }>();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <Link href="/documentos" className="inline-block mb-6 text-sm text-purple-700 font-semibold">
+          ← Voltar para documentos
+        </Link>
+        <AuthGate>{(auth) => <DocumentDetail docId={docId} auth={auth} />}</AuthGate>
+      </div>
+    </main>
+  );
+}
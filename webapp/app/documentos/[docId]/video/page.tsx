@@ -0,0 +1,83 @@
+/**
+ * Página do Vídeo do POP
+ *
+ * Reproduz o vídeo vinculado ao documento com a lista de etapas ao lado;
+ * `?etapa=N` abre o vídeo no tempo da etapa N (links da página de detalhe).
+ */
+
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import AuthGate from '@/components/AuthGate';
+import VideoStepPlayer from '@/components/VideoStepPlayer';
+import { useDocument } from '@/hooks/useDocument';
+import { useDocumentVideo } from '@/hooks/useDocumentVideo';
+
+const DocumentVideo: React.FC<{ docId: string; initialStep?: number }> = ({ docId, initialStep }) => {
+  const { document, loading, notFound, error } = useDocument(docId);
+  const video = useDocumentVideo(docId, document?.videoPath || null);
+
+  if (loading) {
+    return <p className="text-center text-gray-500">Carregando documento...</p>;
+  }
+  if (error) {
+    return <p className="text-center text-red-600">Erro ao carregar documento: {error.message}</p>;
+  }
+  if (notFound || !document) {
+    return <p className="text-center text-gray-500">Documento não encontrado.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+          {document.tipo} · v{document.versao} · {document.status}
+        </span>
+        <h2 className="text-3xl font-bold text-gray-800 mt-1">{document.titulo}</h2>
+        <p className="mt-2 text-sm text-gray-600">
+          Clique em uma etapa para assistir ao trecho correspondente. Etapas com pontos críticos
+          aparecem em vermelho; com não-conformidades, em laranja.
+        </p>
+      </div>
+
+      <section className="bg-white rounded-lg shadow-md p-6">
+        {!document.videoPath && <p className="text-sm text-gray-500">Nenhum vídeo vinculado a este documento.</p>}
+        {video.loading && <p className="text-sm text-gray-500">Carregando vídeo...</p>}
+        {video.error && (
+          <p className="text-sm text-red-600">
+            {video.error.message}{' '}
+            <button onClick={video.reload} className="underline font-semibold">Tentar novamente</button>
+          </p>
+        )}
+        {video.playback && (
+          <VideoStepPlayer
+            document={document}
+            playback={video.playback}
+            initialStep={initialStep}
+            onExpired={video.reload}
+          />
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default function DocumentoVideoPage() {
+  const { docId } = useParams<{ docId: string }>();
+  const etapa = Number(useSearchParams().get('etapa'));
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <Link href={`/documentos/${docId}`} className="inline-block mb-6 text-sm text-purple-700 font-semibold">
+          ← Voltar para o documento
+        </Link>
+        <AuthGate>
+          {() => <DocumentVideo docId={docId} initialStep={Number.isInteger(etapa) && etapa > 0 ? etapa : undefined} />}
+        </AuthGate>
+      </div>
+    </main>
+  );
+}
@@ -1,111 +1,185 @@
 /**
- * Página de Demonstração - Gestão de Documentos
- * 
- * Demonstra o componente DocumentCard com dados de exemplo
- * representando diferentes tipos de documentos SGQ
+ * Página de Gestão de Documentos
+ *
+ * Lista em tempo real os documentos da organização do usuário,
+ * com filtros por tipo, status e impacto na margem, busca por título,
+ * ordenação, paginação e estatísticas calculadas por agregação.
  */
 
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import AuthGate from '@/components/AuthGate';
 import DocumentCard from '@/components/DocumentCard';
-import { Document } from '@/types/document';
+import { DocumentFilters, DocumentSort, useDocuments } from '@/hooks/useDocuments';
+import { useDocumentStats } from '@/hooks/useDocumentStats';
+import { DocumentStatus, DocumentType, ImpactoMargem } from '@/types/document';
 
-export default function DocumentosPage() {
-  // Dados de exemplo para demonstração
-  const documentosExemplo: Document[] = [
-    {
-      docId: '550e8400-e29b-41d4-a716-446655440001',
-      orgId: 'org-001',
-      tipo: 'POP',
-      titulo: 'Procedimento de Higienização de Equipamentos',
-      status: 'ativo',
-      versao: '2.1',
-      contentHash: 'abc123def456',
-      metadata: {
-        criadoPor: 'João Silva',
-        dataCriacao: { seconds: 1705881600, nanoseconds: 0 },
-        ultimaRevisao: { seconds: 1706486400, nanoseconds: 0 },
-      },
-      axiomaMetrics: {
-        custoManutencao: 1250.00,
-        impactoMargem: 'alto',
-      },
-    },
-    {
-      docId: '550e8400-e29b-41d4-a716-446655440002',
-      orgId: 'org-001',
-      tipo: 'Manual',
-      titulo: 'Manual de Operação de Linha de Produção',
-      status: 'revisao',
-      versao: '1.5',
-      contentHash: 'xyz789ghi012',
-      metadata: {
-        criadoPor: 'Maria Santos',
-        dataCriacao: { seconds: 1704672000, nanoseconds: 0 },
-        ultimaRevisao: { seconds: 1706400000, nanoseconds: 0 },
-      },
-      axiomaMetrics: {
-        custoManutencao: 2500.00,
-        impactoMargem: 'médio',
-      },
-    },
-    {
-      docId: '550e8400-e29b-41d4-a716-446655440003',
-      orgId: 'org-001',
-      tipo: 'Checklist',
-      titulo: 'Checklist de Inspeção Diária de Qualidade',
-      status: 'ativo',
-      versao: '3.0',
-      contentHash: 'mno345pqr678',
-      metadata: {
-        criadoPor: 'Carlos Oliveira',
-        dataCriacao: { seconds: 1703462400, nanoseconds: 0 },
-        ultimaRevisao: { seconds: 1706313600, nanoseconds: 0 },
-      },
-      axiomaMetrics: {
-        custoManutencao: 450.00,
-        impactoMargem: 'baixo',
-      },
-    },
-    {
-      docId: '550e8400-e29b-41d4-a716-446655440004',
-      orgId: 'org-001',
-      tipo: 'Política',
-      titulo: 'Política de Gestão da Qualidade',
-      status: 'obsoleto',
-      versao: '1.0',
-      contentHash: 'stu901vwx234',
-      metadata: {
-        criadoPor: 'Ana Costa',
-        dataCriacao: { seconds: 1672531200, nanoseconds: 0 },
-        ultimaRevisao: { seconds: 1680307200, nanoseconds: 0 },
-      },
-      axiomaMetrics: {
-        custoManutencao: 800.00,
-        impactoMargem: 'médio',
-      },
-    },
-    {
-      docId: '550e8400-e29b-41d4-a716-446655440005',
-      orgId: 'org-001',
-      tipo: 'POP',
-      titulo: 'Procedimento de Calibração de Instrumentos',
-      status: 'rascunho',
-      versao: '0.3',
-      contentHash: 'jkl567mno890',
-      metadata: {
-        criadoPor: 'Pedro Alves',
-        dataCriacao: { seconds: 1706227200, nanoseconds: 0 },
-        ultimaRevisao: { seconds: 1706400000, nanoseconds: 0 },
-      },
-      axiomaMetrics: {
-        custoManutencao: 950.00,
-        impactoMargem: 'alto',
-      },
-    },
-  ];
+const TIPOS: DocumentType[] = ['POP', 'Manual', 'Checklist', 'Política'];
+const STATUS_LABELS: Record<DocumentStatus, string> = {
+  ativo: 'Ativo',
+  revisao: 'Em Revisão',
+  rascunho: 'Rascunho',
+  obsoleto: 'Obsoleto',
+};
+const IMPACTOS: ImpactoMargem[] = ['baixo', 'médio', 'alto'];
+const SORT_LABELS: Record<DocumentSort, string> = {
+  ultimaRevisao: 'Última revisão',
+  custoManutencao: 'Custo de manutenção',
+};
+
+const SELECT_CLASS = 'border rounded px-3 py-2 text-sm bg-white';
+
+const DocumentList: React.FC<{ orgId: string }> = ({ orgId }) => {
+  const router = useRouter();
+  const [filters, setFilters] = useState<DocumentFilters>({ ordenarPor: 'ultimaRevisao' });
+  const {
+    documents,
+    loading,
+    error,
+    page,
+    hasNext,
+    hasPrevious,
+    nextPage,
+    previousPage,
+  } = useDocuments(orgId, filters);
+
+  // Recontagem sempre que a página em tempo real mudar de conteúdo ou status
+  const stats = useDocumentStats(
+    orgId,
+    documents.map((doc) => `${doc.docId}:${doc.status}`).join(',')
+  );
+
+  const updateFilter = <K extends keyof DocumentFilters>(key: K, value: DocumentFilters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+  };
 
+  return (
+    <>
+      {/* Estatísticas */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-10">
+        <div className="bg-white rounded-lg shadow-md p-6 text-center">
+          <div className="text-3xl font-bold text-green-600">
+            {stats ? stats.ativo : '—'}
+          </div>
+          <div className="text-sm text-gray-600 mt-2">Documentos Ativos</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 text-center">
+          <div className="text-3xl font-bold text-yellow-600">
+            {stats ? stats.revisao : '—'}
+          </div>
+          <div className="text-sm text-gray-600 mt-2">Em Revisão</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 text-center">
+          <div className="text-3xl font-bold text-gray-600">
+            {stats ? stats.rascunho : '—'}
+          </div>
+          <div className="text-sm text-gray-600 mt-2">Rascunhos</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 text-center">
+          <div className="text-3xl font-bold text-red-600">
+            {stats ? stats.obsoleto : '—'}
+          </div>
+          <div className="text-sm text-gray-600 mt-2">Obsoletos</div>
+        </div>
+      </div>
+
+      {/* Filtros */}
+      <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-wrap gap-3 items-center">
+        <input
+          type="search"
+          value={filters.busca || ''}
+          onChange={(event) => updateFilter('busca', event.target.value)}
+          placeholder="Buscar por título..."
+          className="flex-1 min-w-[200px] border rounded px-3 py-2 text-sm"
+        />
+        <select
+          value={filters.tipo || ''}
+          onChange={(event) => updateFilter('tipo', event.target.value as DocumentType)}
+          className={SELECT_CLASS}
+        >
+          <option value="">Todos os tipos</option>
+          {TIPOS.map((tipo) => (
+            <option key={tipo} value={tipo}>{tipo}</option>
+          ))}
+        </select>
+        <select
+          value={filters.status || ''}
+          onChange={(event) => updateFilter('status', event.target.value as DocumentStatus)}
+          className={SELECT_CLASS}
+        >
+          <option value="">Todos os status</option>
+          {(Object.keys(STATUS_LABELS) as DocumentStatus[]).map((status) => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        <select
+          value={filters.impactoMargem || ''}
+          onChange={(event) => updateFilter('impactoMargem', event.target.value as ImpactoMargem)}
+          className={SELECT_CLASS}
+        >
+          <option value="">Qualquer impacto</option>
+          {IMPACTOS.map((impacto) => (
+            <option key={impacto} value={impacto}>Impacto {impacto}</option>
+          ))}
+        </select>
+        <select
+          value={filters.ordenarPor}
+          onChange={(event) =>
+            setFilters((current) => ({ ...current, ordenarPor: event.target.value as DocumentSort }))
+          }
+          className={SELECT_CLASS}
+        >
+          {(Object.keys(SORT_LABELS) as DocumentSort[]).map((sort) => (
+            <option key={sort} value={sort}>Ordenar: {SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <p className="mb-6 text-sm text-red-600">Erro ao carregar documentos: {error.message}</p>
+      )}
+      {loading && <p className="mb-6 text-center text-gray-500">Carregando documentos...</p>}
+      {!loading && !error && documents.length === 0 && (
+        <p className="mb-6 text-center text-gray-500">Nenhum documento encontrado.</p>
+      )}
+
+      {/* Grid de Documentos */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+        {documents.map((doc) => (
+          <DocumentCard
+            key={doc.docId}
+            document={doc}
+            onClick={() => router.push(`/documentos/${doc.docId}`)}
+          />
+        ))}
+      </div>
+
+      {/* Paginação */}
+      <div className="mt-8 flex items-center justify-center gap-4">
+        <button
+          onClick={previousPage}
+          disabled={!hasPrevious}
+          className="px-4 py-2 bg-white rounded shadow text-sm disabled:opacity-40"
+        >
+          ← Anterior
+        </button>
+        <span className="text-sm text-gray-600">Página {page + 1}</span>
+        <button
+          onClick={nextPage}
+          disabled={!hasNext}
+          className="px-4 py-2 bg-white rounded shadow text-sm disabled:opacity-40"
+        >
+          Próxima →
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default function DocumentosPage() {
   return (
     <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 p-8">
       <div className="max-w-7xl mx-auto">
@@ -125,49 +199,17 @@ export default function DocumentosPage() {
             <span className="text-sm font-semibold text-gray-600">Sistema Axioma:</span>
             <span className="text-sm text-purple-600 font-bold">Inteligência de Margem Ativada</span>
           </div>
-        </div>
-
-        {/* Estatísticas */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-10">
-          <div className="bg-white rounded-lg shadow-md p-6 text-center">
-            <div className="text-3xl font-bold text-green-600">
-              {documentosExemplo.filter(d => d.status === 'ativo').length}
-            </div>
-            <div className="text-sm text-gray-600 mt-2">Documentos Ativos</div>
-          </div>
-          <div className="bg-white rounded-lg shadow-md p-6 text-center">
-            <div className="text-3xl font-bold text-yellow-600">
-              {documentosExemplo.filter(d => d.status === 'revisao').length}
-            </div>
-            <div className="text-sm text-gray-600 mt-2">Em Revisão</div>
-          </div>
-          <div className="bg-white rounded-lg shadow-md p-6 text-center">
-            <div className="text-3xl font-bold text-gray-600">
-              {documentosExemplo.filter(d => d.status === 'rascunho').length}
-            </div>
-            <div className="text-sm text-gray-600 mt-2">Rascunhos</div>
-          </div>
-          <div className="bg-white rounded-lg shadow-md p-6 text-center">
-            <div className="text-3xl font-bold text-red-600">
-              {documentosExemplo.filter(d => d.status === 'obsoleto').length}
-            </div>
-            <div className="text-sm text-gray-600 mt-2">Obsoletos</div>
+          <div className="mt-4 flex justify-center gap-6">
+            <Link href="/nao-conformidades" className="text-sm font-semibold text-purple-700 hover:underline">
+              Registro de Não-Conformidades →
+            </Link>
+            <Link href="/checklists" className="text-sm font-semibold text-purple-700 hover:underline">
+              Checklists →
+            </Link>
           </div>
         </div>
 
-        {/* Grid de Documentos */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-          {documentosExemplo.map((doc) => (
-            <DocumentCard
-              key={doc.docId}
-              document={doc}
-              onClick={() => {
-                console.log('Documento clicado:', doc.docId);
-                alert(`Abrindo documento: ${doc.titulo}`);
-              }}
-            />
-          ))}
-        </div>
+        <AuthGate>{({ orgId }) => <DocumentList orgId={orgId} />}</AuthGate>
 
         {/* Footer com informações técnicas */}
         <div className="mt-12 bg-white rounded-lg shadow-md p-6">
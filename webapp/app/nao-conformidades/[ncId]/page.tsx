@@ -0,0 +1,152 @@
+/**
+ * Página de Detalhe da Não-Conformidade
+ *
+ * Exibe a NC com o documento e o trecho do vídeo de origem, a análise de
+ * causa raiz e o plano de ação, com as operações do fluxo CAPA
+ * permitidas no status atual.
+ */
+
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import AuthGate, { AuthenticatedState } from '@/components/AuthGate';
+import NonConformityActions from '@/components/NonConformityActions';
+import { useNonConformity } from '@/hooks/useNonConformities';
+import { formatDateTime } from '@/lib/format';
+import {
+  ISHIKAWA_LABELS,
+  NC_ORIGIN_LABELS,
+  NC_SEVERITY_LABELS,
+  NC_SEVERITY_STYLES,
+  NC_STATUS_LABELS,
+  NC_STATUS_STYLES,
+} from '@/lib/nonConformity';
+import { IshikawaCategory, RootCauseAnalysis } from '@/types/nonConformity';
+
+const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-white rounded-lg shadow-md p-6">
+    <h3 className="text-lg font-bold text-gray-800 mb-4">{title}</h3>
+    {children}
+  </section>
+);
+
+const RootCauseView: React.FC<{ analise: RootCauseAnalysis }> = ({ analise }) => (
+  <div className="space-y-3 text-sm text-gray-700">
+    {analise.metodo === '5porques' ? (
+      <ol className="list-decimal list-inside space-y-1">
+        {(analise.porques || []).map((porque, index) => (
+          <li key={index}>Por quê? {porque}</li>
+        ))}
+      </ol>
+    ) : (
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {(Object.keys(ISHIKAWA_LABELS) as IshikawaCategory[])
+          .filter((categoria) => analise.ishikawa?.[categoria]?.length)
+          .map((categoria) => (
+            <div key={categoria}>
+              <dt className="font-semibold">{ISHIKAWA_LABELS[categoria]}</dt>
+              <dd>{analise.ishikawa?.[categoria]?.join('; ')}</dd>
+            </div>
+          ))}
+      </dl>
+    )}
+    <p><strong>Causa raiz:</strong> {analise.causaRaiz}</p>
+    <p className="text-xs text-gray-500">
+      {analise.metodo === '5porques' ? '5 Porquês' : 'Ishikawa'} — {analise.analisadoPor},{' '}
+      {formatDateTime(analise.analisadoEm)}
+    </p>
+  </div>
+);
+
+const NonConformityDetail: React.FC<{ ncId: string; auth: AuthenticatedState }> = ({ ncId, auth }) => {
+  const { nonConformity: nc, loading, notFound, error } = useNonConformity(ncId);
+
+  if (loading) {
+    return <p className="text-center text-gray-500">Carregando não-conformidade...</p>;
+  }
+  if (error) {
+    return <p className="text-center text-red-600">Erro ao carregar não-conformidade: {error.message}</p>;
+  }
+  if (notFound || !nc) {
+    return <p className="text-center text-gray-500">Não-conformidade não encontrada.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${NC_STATUS_STYLES[nc.status]}`}>
+            {NC_STATUS_LABELS[nc.status]}
+          </span>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${NC_SEVERITY_STYLES[nc.severidade]}`}>
+            Severidade {NC_SEVERITY_LABELS[nc.severidade]}
+          </span>
+        </div>
+        <h2 className="text-2xl font-bold text-gray-800 mt-2">{nc.titulo}</h2>
+        <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{nc.descricao}</p>
+        <div className="mt-3 flex flex-wrap gap-3 text-sm text-gray-600">
+          <span>Responsável <strong>{nc.responsavel || '—'}</strong></span>
+          <span>Origem <strong>{NC_ORIGIN_LABELS[nc.origem]}</strong></span>
+          <span>Registrada {formatDateTime(nc.criadoEm)}</span>
+          {nc.encerradoEm && <span>Encerrada {formatDateTime(nc.encerradoEm)}</span>}
+        </div>
+        {(nc.docId || nc.checklistRunId) && (
+          <div className="mt-3 flex flex-wrap gap-4 text-sm">
+            {nc.checklistRunId && (
+              <Link href={`/checklists/${nc.checklistRunId}`} className="font-semibold text-purple-700 hover:underline">
+                Checklist de origem{nc.checklistItem !== undefined && ` (item ${nc.checklistItem})`}
+              </Link>
+            )}
+            {nc.docId && (
+              <Link href={`/documentos/${nc.docId}`} className="font-semibold text-purple-700 hover:underline">
+                Documento de origem{nc.documentVersao && ` (v${nc.documentVersao})`}
+              </Link>
+            )}
+            {nc.docId && nc.videoPath && (
+              <Link
+                href={`/documentos/${nc.docId}/video${nc.etapa !== undefined ? `?etapa=${nc.etapa}` : ''}`}
+                className="font-semibold text-purple-700 hover:underline"
+              >
+                ▶ {nc.etapa !== undefined ? `Ver a etapa ${nc.etapa} no vídeo` : 'Ver o vídeo'}
+              </Link>
+            )}
+          </div>
+        )}
+        {nc.status === 'cancelada' && nc.motivoCancelamento && (
+          <p className="mt-3 text-sm text-gray-500">Cancelada: {nc.motivoCancelamento}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card title="Análise de Causa Raiz">
+          {nc.causaRaiz ? (
+            <RootCauseView analise={nc.causaRaiz} />
+          ) : (
+            <p className="text-sm text-gray-500">Análise ainda não registrada.</p>
+          )}
+        </Card>
+
+        <Card title="Tratamento (CAPA)">
+          <NonConformityActions nonConformity={nc} role={auth.role} />
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default function NaoConformidadeDetalhePage() {
+  const { ncId } = useParams<{ ncId: string }>();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <Link href="/nao-conformidades" className="inline-block mb-6 text-sm text-purple-700 font-semibold">
+          ← Voltar para não-conformidades
+        </Link>
+        <AuthGate>{(auth) => <NonConformityDetail ncId={ncId} auth={auth} />}</AuthGate>
+      </div>
+    </main>
+  );
+}
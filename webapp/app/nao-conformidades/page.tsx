@@ -0,0 +1,103 @@
+/**
+ * Página do Registro de Não-Conformidades
+ *
+ * Lista em tempo real as NCs da organização com filtro por status,
+ * incluindo os rascunhos levantados pela extração de vídeos, e permite
+ * registrar novas NCs manualmente.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import AuthGate, { AuthenticatedState } from '@/components/AuthGate';
+import RaiseNonConformityForm from '@/components/RaiseNonConformityForm';
+import { useNonConformities } from '@/hooks/useNonConformities';
+import { formatDateTime } from '@/lib/format';
+import {
+  NC_SEVERITY_LABELS,
+  NC_SEVERITY_STYLES,
+  NC_STATUS_LABELS,
+  NC_STATUS_STYLES,
+} from '@/lib/nonConformity';
+import { NonConformityStatus } from '@/types/nonConformity';
+
+const SELECT_CLASS = 'border rounded px-3 py-2 text-sm bg-white';
+
+const NonConformityList: React.FC<{ auth: AuthenticatedState }> = ({ auth }) => {
+  const router = useRouter();
+  const [status, setStatus] = useState<NonConformityStatus | undefined>(undefined);
+  const { nonConformities, loading, error } = useNonConformities(auth.orgId, { status });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start gap-3">
+        <select
+          value={status || ''}
+          onChange={(event) => setStatus((event.target.value as NonConformityStatus) || undefined)}
+          className={SELECT_CLASS}
+        >
+          <option value="">Todos os status</option>
+          {(Object.keys(NC_STATUS_LABELS) as NonConformityStatus[]).map((item) => (
+            <option key={item} value={item}>{NC_STATUS_LABELS[item]}</option>
+          ))}
+        </select>
+        {auth.role && auth.role !== 'leitor' && (
+          <div className="flex-1 min-w-[280px]">
+            <RaiseNonConformityForm onRaised={(nc) => router.push(`/nao-conformidades/${nc.ncId}`)} />
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">Erro ao carregar não-conformidades: {error.message}</p>}
+      {loading && <p className="text-center text-gray-500">Carregando não-conformidades...</p>}
+      {!loading && !error && nonConformities.length === 0 && (
+        <p className="text-center text-gray-500">Nenhuma não-conformidade encontrada.</p>
+      )}
+
+      <ul className="space-y-3">
+        {nonConformities.map((nc) => (
+          <li key={nc.ncId}>
+            <Link
+              href={`/nao-conformidades/${nc.ncId}`}
+              className="block bg-white rounded-lg shadow-md p-4 hover:shadow-lg transition-shadow"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${NC_STATUS_STYLES[nc.status]}`}>
+                  {NC_STATUS_LABELS[nc.status]}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${NC_SEVERITY_STYLES[nc.severidade]}`}>
+                  {NC_SEVERITY_LABELS[nc.severidade]}
+                </span>
+                {nc.origem === 'video' && <span className="text-xs text-gray-500">🎥 extraída do vídeo</span>}
+                {nc.origem === 'checklist' && <span className="text-xs text-gray-500">☑ item reprovado em checklist</span>}
+              </div>
+              <p className="mt-2 font-semibold text-gray-800">{nc.titulo}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {nc.responsavel ? `Responsável ${nc.responsavel}` : 'Sem responsável'}
+                {nc.docId && <> — documento {nc.docId}{nc.etapa !== undefined && <>, etapa {nc.etapa}</>}</>}
+                {' '}— registrada em {formatDateTime(nc.criadoEm)}
+                {nc.acoes.length > 0 && <> — {nc.acoes.length} ação(ões)</>}
+              </p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default function NaoConformidadesPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 p-8">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/documentos" className="inline-block mb-6 text-sm text-purple-700 font-semibold">
+          ← Voltar para documentos
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">Registro de Não-Conformidades</h1>
+        <AuthGate>{(auth) => <NonConformityList auth={auth} />}</AuthGate>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * AuthGate - Controle de Acesso às Páginas do Módulo
+ *
+ * Exibe o formulário de login (e-mail e senha) enquanto não houver
+ * usuário autenticado e avisa quando o token não traz a organização.
+ * O conteúdo protegido recebe o estado de autenticação já resolvido.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { signInWithEmailAndPassword, signOut } from 'firebase/auth';
+import { AuthState, useAuth } from '../hooks/useAuth';
+import { getFirebase } from '../lib/firebase';
+
+export interface AuthenticatedState extends AuthState {
+  orgId: string;
+}
+
+interface AuthGateProps {
+  children: (auth: AuthenticatedState) => React.ReactNode;
+}
+
+const SignInForm: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [senha, setSenha] = useState('');
+  const [erro, setErro] = useState<string | null>(null);
+  const [enviando, setEnviando] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setEnviando(true);
+    setErro(null);
+    try {
+      await signInWithEmailAndPassword(getFirebase().auth, email, senha);
+    } catch {
+      setErro('E-mail ou senha inválidos');
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h3 className="text-lg font-bold text-gray-800">Entrar</h3>
+      <input
+        type="email"
+        value={email}
+        onChange={(event) => setEmail(event.target.value)}
+        placeholder="E-mail"
+        required
+        className="w-full border rounded px-3 py-2 text-sm"
+      />
+      <input
+        type="password"
+        value={senha}
+        onChange={(event) => setSenha(event.target.value)}
+        placeholder="Senha"
+        required
+        className="w-full border rounded px-3 py-2 text-sm"
+      />
+      {erro && <p className="text-sm text-red-600">{erro}</p>}
+      <button
+        type="submit"
+        disabled={enviando}
+        className="w-full bg-purple-600 text-white rounded px-3 py-2 text-sm font-semibold disabled:opacity-50"
+      >
+        {enviando ? 'Entrando...' : 'Entrar'}
+      </button>
+    </form>
+  );
+};
+
+export const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const auth = useAuth();
+
+  if (auth.loading) {
+    return <p className="text-center text-gray-500">Carregando...</p>;
+  }
+
+  if (!auth.user) {
+    return <SignInForm />;
+  }
+
+  if (!auth.orgId) {
+    return (
+      <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-6 text-center space-y-3">
+        <p className="text-sm text-gray-700">
+          Seu usuário não está vinculado a nenhuma organização.
+        </p>
+        <button
+          onClick={() => signOut(getFirebase().auth)}
+          className="text-sm text-purple-600 font-semibold"
+        >
+          Sair
+        </button>
+      </div>
+    );
+  }
+
+  return <>{children({ ...auth, orgId: auth.orgId })}</>;
+};
+
+export default AuthGate;
@@ -0,0 +1,262 @@
+/**
+ * ChecklistItemCard - Resposta de um Item do Checklist
+ *
+ * Responde o item (conforme, não conforme ou N/A) com comentário, anexa
+ * fotos de evidência e, em itens reprovados, abre a não-conformidade
+ * vinculada ao checklist. Respostas e evidências só são aceitas com a
+ * execução em andamento; a NC também pode ser aberta após a conclusão.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { callApi } from '../lib/api';
+import {
+  CHECKLIST_ANSWER_LABELS,
+  CHECKLIST_ANSWER_STYLES,
+  CHECKLIST_EVIDENCE_MAX_BYTES,
+} from '../lib/checklist';
+import { NC_SEVERITY_LABELS } from '../lib/nonConformity';
+import { ChecklistAnswer, ChecklistEvidence, ChecklistRun, ChecklistRunItem } from '../types/checklist';
+import { UserRole } from '../types/document';
+import { NonConformitySeverity } from '../types/nonConformity';
+
+interface ChecklistItemCardProps {
+  run: ChecklistRun;
+  item: ChecklistRunItem;
+  role: UserRole | null;
+}
+
+const INPUT_CLASS = 'w-full border rounded px-3 py-2 text-sm';
+
+/**
+ * Conteúdo do arquivo em base64 (sem o prefixo data:)
+ */
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error || new Error('Erro ao ler o arquivo'));
+    reader.readAsDataURL(file);
+  });
+
+export const ChecklistItemCard: React.FC<ChecklistItemCardProps> = ({ run, item, role }) => {
+  const podeEditar = role !== null && role !== 'leitor';
+  const emAndamento = run.status === 'em_andamento';
+  const podeAbrirNc = podeEditar && run.status !== 'cancelada' && item.resposta === 'nao_conforme' && !item.ncId;
+  const [comentario, setComentario] = useState(item.comentario || '');
+  const [ncAberta, setNcAberta] = useState(false);
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field = (name: string) => fields[name] || '';
+  const setField = (name: string) => (
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => setFields((current) => ({ ...current, [name]: event.target.value }));
+
+  const base = { runId: run.runId, ordem: item.ordem };
+
+  /**
+   * Executa a chamada; o item é atualizado pela assinatura em tempo real
+   */
+  const execute = async (request: () => Promise<unknown>, fallback: string): Promise<boolean> => {
+    setRunning(true);
+    setError(null);
+    try {
+      await request();
+      return true;
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : fallback);
+      return false;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const answer = (resposta: ChecklistAnswer) =>
+    execute(
+      () => callApi('answerChecklistItem', { ...base, resposta, comentario: comentario || undefined }),
+      'Erro ao registrar a resposta'
+    );
+
+  const uploadEvidence = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.size > CHECKLIST_EVIDENCE_MAX_BYTES) {
+      setError(`A foto deve ter no máximo ${CHECKLIST_EVIDENCE_MAX_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+
+    await execute(
+      async () => callApi('addChecklistEvidence', {
+        ...base,
+        nome: file.name,
+        contentType: file.type || 'application/octet-stream',
+        conteudo: await readAsBase64(file),
+      }),
+      'Erro ao enviar a evidência'
+    );
+  };
+
+  const viewEvidence = async (evidencia: ChecklistEvidence) => {
+    // A janela é aberta no clique para não ser bloqueada; a URL assinada vem em seguida
+    const janela = window.open('', '_blank');
+    const ok = await execute(async () => {
+      const { url } = await callApi<{ url: string }>('getChecklistEvidenceUrl', {
+        ...base,
+        evidenciaId: evidencia.evidenciaId,
+      });
+      if (janela) janela.location.href = url;
+    }, 'Erro ao abrir a evidência');
+    if (!ok) janela?.close();
+  };
+
+  const openNonConformity = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const ok = await execute(
+      () => callApi('openChecklistNonConformity', {
+        ...base,
+        severidade: field('severidade') || 'media',
+        responsavel: field('responsavel'),
+        titulo: field('titulo') || undefined,
+        descricao: field('descricao') || undefined,
+      }),
+      'Erro ao abrir a não-conformidade'
+    );
+    if (ok) {
+      setNcAberta(false);
+      setFields({});
+    }
+  };
+
+  return (
+    <li className="bg-white rounded-lg shadow-md p-4 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <p className="text-sm text-gray-800">
+          <span className="font-semibold mr-1">{item.ordem}.</span>
+          {item.descricao}
+          {item.obrigatorio ? (
+            <span className="ml-1 text-red-600" title="Obrigatório">*</span>
+          ) : (
+            <span className="ml-1 text-xs text-gray-500">(opcional)</span>
+          )}
+        </p>
+        {item.resposta && (
+          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${CHECKLIST_ANSWER_STYLES[item.resposta]}`}>
+            {CHECKLIST_ANSWER_LABELS[item.resposta]}
+          </span>
+        )}
+      </div>
+
+      {podeEditar && emAndamento ? (
+        <div className="space-y-2">
+          <textarea
+            value={comentario}
+            onChange={(event) => setComentario(event.target.value)}
+            placeholder="Comentário (enviado com a resposta)"
+            rows={2}
+            className={INPUT_CLASS}
+          />
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(CHECKLIST_ANSWER_LABELS) as ChecklistAnswer[]).map((resposta) => (
+              <button
+                key={resposta}
+                onClick={() => answer(resposta)}
+                disabled={running || (Boolean(item.ncId) && resposta !== 'nao_conforme')}
+                className={`px-3 py-1.5 rounded text-sm font-semibold disabled:opacity-50 ${
+                  item.resposta === resposta ? CHECKLIST_ANSWER_STYLES[resposta] : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {CHECKLIST_ANSWER_LABELS[resposta]}
+              </button>
+            ))}
+            <label className="px-3 py-1.5 rounded text-sm font-semibold bg-blue-50 text-blue-700 cursor-pointer">
+              📷 Foto de evidência
+              <input type="file" accept="image/*" onChange={uploadEvidence} className="hidden" />
+            </label>
+          </div>
+        </div>
+      ) : (
+        item.comentario && <p className="text-sm text-gray-600 whitespace-pre-wrap">{item.comentario}</p>
+      )}
+
+      {item.evidencias.length > 0 && (
+        <ul className="flex flex-wrap gap-2 text-xs">
+          {item.evidencias.map((evidencia) => (
+            <li key={evidencia.evidenciaId}>
+              <button onClick={() => viewEvidence(evidencia)} className="text-purple-700 hover:underline">
+                🖼 {evidencia.nome}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {item.ncId && (
+        <Link href={`/nao-conformidades/${item.ncId}`} className="inline-block text-sm font-semibold text-red-700 hover:underline">
+          Não-conformidade aberta →
+        </Link>
+      )}
+
+      {podeAbrirNc && !ncAberta && (
+        <button
+          onClick={() => setNcAberta(true)}
+          className="px-3 py-1.5 rounded bg-red-600 hover:bg-red-700 text-white text-sm font-semibold"
+        >
+          Abrir não-conformidade
+        </button>
+      )}
+
+      {podeAbrirNc && ncAberta && (
+        <form onSubmit={openNonConformity} className="bg-gray-50 rounded p-3 space-y-2">
+          <input
+            value={field('titulo')}
+            onChange={setField('titulo')}
+            placeholder="Título (padrão: checklist e item)"
+            className={INPUT_CLASS}
+          />
+          <textarea
+            value={field('descricao')}
+            onChange={setField('descricao')}
+            placeholder="Descrição (padrão: comentário do item)"
+            className={INPUT_CLASS}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <select value={field('severidade') || 'media'} onChange={setField('severidade')} className={INPUT_CLASS}>
+              {(Object.keys(NC_SEVERITY_LABELS) as NonConformitySeverity[]).map((severidade) => (
+                <option key={severidade} value={severidade}>Severidade {NC_SEVERITY_LABELS[severidade]}</option>
+              ))}
+            </select>
+            <input
+              value={field('responsavel')}
+              onChange={setField('responsavel')}
+              placeholder="ID do responsável"
+              required
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={running}
+              className="px-4 py-2 rounded bg-purple-600 text-white text-sm font-semibold disabled:opacity-50"
+            >
+              {running ? 'Enviando...' : 'Abrir NC'}
+            </button>
+            <button type="button" onClick={() => setNcAberta(false)} className="px-4 py-2 text-sm text-gray-600">
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+
+      {running && !ncAberta && <p className="text-xs text-gray-500">Enviando...</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </li>
+  );
+};
+
+export default ChecklistItemCard;
@@ -0,0 +1,272 @@
+/**
+ * DocumentActions - Ações do Fluxo de Aprovação
+ *
+ * Oferece apenas as ações permitidas ao papel do usuário no status
+ * atual do documento (submeter, assinar, aprovar, tornar obsoleto,
+ * restaurar versão). Cada ação envia a versão exibida como
+ * precondição; se o documento mudou, o backend rejeita com CONFLICT.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { HistoryEntry } from '../hooks/useDocument';
+import { ApiError, callApi } from '../lib/api';
+import { DocumentAction, getAvailableActions } from '../lib/permissions';
+import {
+  Document,
+  ReviewDecision,
+  ReviewerAssignment,
+  UserRole,
+  VersionChangeType,
+} from '../types/document';
+
+interface DocumentActionsProps {
+  document: Document;
+  history: HistoryEntry[];
+  role: UserRole | null;
+  userId: string;
+}
+
+const ACTION_LABELS: Record<DocumentAction, string> = {
+  submit: 'Submeter para revisão',
+  sign: 'Assinar revisão',
+  approve: 'Aprovar',
+  obsolete: 'Tornar obsoleto',
+  restore: 'Restaurar versão',
+};
+
+const ACTION_STYLES: Record<DocumentAction, string> = {
+  submit: 'bg-yellow-500 hover:bg-yellow-600',
+  sign: 'bg-blue-500 hover:bg-blue-600',
+  approve: 'bg-green-600 hover:bg-green-700',
+  obsolete: 'bg-red-600 hover:bg-red-700',
+  restore: 'bg-gray-600 hover:bg-gray-700',
+};
+
+const INPUT_CLASS = 'w-full border rounded px-3 py-2 text-sm';
+
+/**
+ * Converte a lista de IDs separados por vírgula em signatários
+ */
+const parseReviewers = (revisores: string, aprovador: string): ReviewerAssignment[] => [
+  ...revisores
+    .split(',')
+    .map((userId) => userId.trim())
+    .filter((userId) => userId.length > 0)
+    .map((userId): ReviewerAssignment => ({ userId, papel: 'revisor' })),
+  { userId: aprovador.trim(), papel: 'aprovador' },
+];
+
+/**
+ * Mensagem exibida para falhas da API
+ */
+const describeError = (error: unknown): string => {
+  if (error instanceof ApiError && error.code === 'CONFLICT') {
+    return 'O documento foi alterado por outro usuário. Confira a versão atual e tente novamente.';
+  }
+  return error instanceof Error ? error.message : 'Erro ao executar a ação';
+};
+
+export const DocumentActions: React.FC<DocumentActionsProps> = ({ document, history, role, userId }) => {
+  const actions = getAvailableActions(document, role, userId);
+  const [activeAction, setActiveAction] = useState<DocumentAction | null>(null);
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (actions.length === 0) {
+    return <p className="text-sm text-gray-500">Nenhuma ação disponível para o seu papel neste status.</p>;
+  }
+
+  const field = (name: string) => fields[name] || '';
+  const setField = (name: string) => (
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => setFields((current) => ({ ...current, [name]: event.target.value }));
+
+  const selectAction = (action: DocumentAction) => {
+    setActiveAction(action === activeAction ? null : action);
+    setFields({});
+    setError(null);
+  };
+
+  const run = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!activeAction) return;
+
+    const base = { docId: document.docId };
+    const versaoEsperada = document.versao;
+    const requests: Record<DocumentAction, () => Promise<unknown>> = {
+      submit: () => callApi('submitDocumentForReview', {
+        ...base,
+        signatarios: parseReviewers(field('revisores'), field('aprovador')),
+        versaoEsperada,
+      }),
+      sign: () => callApi('recordReviewDecision', {
+        ...base,
+        decisao: (field('decisao') || 'aprovado') as ReviewDecision,
+        comentario: field('comentario') || undefined,
+      }),
+      approve: () => callApi('approveDocument', {
+        ...base,
+        tipoMudanca: (field('tipoMudanca') || 'substantiva') as VersionChangeType,
+        motivoMudanca: field('motivo') || undefined,
+        versaoEsperada,
+      }),
+      obsolete: () => callApi('obsoleteDocument', {
+        ...base,
+        motivo: field('motivo') || undefined,
+        versaoEsperada,
+      }),
+      restore: () => callApi('restoreDocumentVersion', {
+        ...base,
+        versao: field('versao'),
+        motivo: field('motivo'),
+        versaoEsperada,
+      }),
+    };
+
+    setRunning(true);
+    setError(null);
+    try {
+      // O documento é atualizado pela assinatura em tempo real
+      await requests[activeAction]();
+      setActiveAction(null);
+      setFields({});
+    } catch (requestError) {
+      setError(describeError(requestError));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {actions.map((action) => (
+          <button
+            key={action}
+            onClick={() => selectAction(action)}
+            className={`px-4 py-2 rounded text-white text-sm font-semibold ${ACTION_STYLES[action]}`}
+          >
+            {ACTION_LABELS[action]}
+          </button>
+        ))}
+      </div>
+
+      {activeAction && (
+        <form onSubmit={run} className="bg-gray-50 rounded p-4 space-y-3">
+          {activeAction === 'submit' && (
+            <>
+              <input
+                value={field('revisores')}
+                onChange={setField('revisores')}
+                placeholder="IDs dos revisores (separados por vírgula)"
+                className={INPUT_CLASS}
+              />
+              <input
+                value={field('aprovador')}
+                onChange={setField('aprovador')}
+                placeholder="ID do aprovador"
+                required
+                className={INPUT_CLASS}
+              />
+            </>
+          )}
+
+          {activeAction === 'sign' && (
+            <>
+              <select value={field('decisao') || 'aprovado'} onChange={setField('decisao')} className={INPUT_CLASS}>
+                <option value="aprovado">Aprovar</option>
+                <option value="rejeitado">Rejeitar (volta para rascunho)</option>
+              </select>
+              <textarea
+                value={field('comentario')}
+                onChange={setField('comentario')}
+                placeholder="Comentário"
+                required={field('decisao') === 'rejeitado'}
+                className={INPUT_CLASS}
+              />
+            </>
+          )}
+
+          {activeAction === 'approve' && document.restauracao && (
+            <>
+              <p className="text-sm text-gray-700">
+                Restauração da v{document.restauracao.versaoRestaurada}: aprovada como mudança substantiva,
+                publicada como <strong>v{document.versao}</strong>.
+              </p>
+              <textarea
+                value={field('motivo')}
+                onChange={setField('motivo')}
+                placeholder="Motivo da mudança"
+                className={INPUT_CLASS}
+              />
+            </>
+          )}
+
+          {activeAction === 'approve' && !document.restauracao && (
+            <>
+              <select
+                value={field('tipoMudanca') || 'substantiva'}
+                onChange={setField('tipoMudanca')}
+                className={INPUT_CLASS}
+              >
+                <option value="substantiva">Mudança substantiva (nova versão major)</option>
+                <option value="editorial">Mudança editorial (nova versão minor)</option>
+                <option value="reemissao">Reemissão (conteúdo inalterado)</option>
+              </select>
+              <textarea
+                value={field('motivo')}
+                onChange={setField('motivo')}
+                placeholder="Motivo da mudança"
+                className={INPUT_CLASS}
+              />
+            </>
+          )}
+
+          {activeAction === 'obsolete' && (
+            <textarea
+              value={field('motivo')}
+              onChange={setField('motivo')}
+              placeholder="Motivo da obsolescência"
+              className={INPUT_CLASS}
+            />
+          )}
+
+          {activeAction === 'restore' && (
+            <>
+              <select value={field('versao')} onChange={setField('versao')} required className={INPUT_CLASS}>
+                <option value="">Selecione a versão</option>
+                {history.map((entry) => (
+                  <option key={entry.historyId} value={entry.historyId}>
+                    v{entry.versao} ({entry.historyId})
+                  </option>
+                ))}
+              </select>
+              <textarea
+                value={field('motivo')}
+                onChange={setField('motivo')}
+                placeholder="Motivo da restauração"
+                required
+                className={INPUT_CLASS}
+              />
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={running}
+            className="px-4 py-2 rounded bg-purple-600 text-white text-sm font-semibold disabled:opacity-50"
+          >
+            {running ? 'Enviando...' : `Confirmar: ${ACTION_LABELS[activeAction]}`}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default DocumentActions;
@@ -0,0 +1,60 @@
+/**
+ * DocumentChecklistRuns - Execuções do Checklist do Documento
+ *
+ * Em documentos do tipo Checklist, lista as execuções iniciadas a partir
+ * do documento com o score das concluídas e permite iniciar uma nova
+ * execução com os itens da versão ativa.
+ */
+
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useChecklistRuns } from '../hooks/useChecklistRuns';
+import { CHECKLIST_STATUS_LABELS, CHECKLIST_STATUS_STYLES, scoreStyle } from '../lib/checklist';
+import { formatDateTime } from '../lib/format';
+import { UserRole } from '../types/document';
+import StartChecklistRunForm from './StartChecklistRunForm';
+
+interface DocumentChecklistRunsProps {
+  orgId: string;
+  docId: string;
+  role: UserRole | null;
+}
+
+export const DocumentChecklistRuns: React.FC<DocumentChecklistRunsProps> = ({ orgId, docId, role }) => {
+  const router = useRouter();
+  const { runs, loading, error } = useChecklistRuns(orgId, { docId });
+
+  return (
+    <div className="space-y-3 text-sm">
+      {loading && <p className="text-gray-500">Carregando...</p>}
+      {error && <p className="text-red-600">{error.message}</p>}
+      {!loading && !error && runs.length === 0 && <p className="text-gray-500">Nenhuma execução deste checklist.</p>}
+
+      <ul className="space-y-2">
+        {runs.map((run) => (
+          <li key={run.runId}>
+            <Link href={`/checklists/${run.runId}`} className="block hover:underline">
+              <span className={`mr-2 px-2 py-0.5 rounded-full text-xs font-semibold ${CHECKLIST_STATUS_STYLES[run.status]}`}>
+                {CHECKLIST_STATUS_LABELS[run.status]}
+              </span>
+              <span className="text-gray-800">{run.titulo}</span>
+              <span className="ml-1 text-xs text-gray-500">(v{run.origem.versao}, {formatDateTime(run.iniciadoEm)})</span>
+              {run.scoreConformidade !== undefined && (
+                <span className={`ml-2 font-bold ${scoreStyle(run.scoreConformidade)}`}>{run.scoreConformidade}%</span>
+              )}
+            </Link>
+          </li>
+        ))}
+      </ul>
+
+      {role && role !== 'leitor' && (
+        <StartChecklistRunForm docId={docId} onStarted={(run) => router.push(`/checklists/${run.runId}`)} />
+      )}
+    </div>
+  );
+};
+
+export default DocumentChecklistRuns;
@@ -0,0 +1,89 @@
+/**
+ * DocumentHistoryTimeline - Linha do Tempo de Versões
+ *
+ * Exibe a versão atual e as versões arquivadas (subcoleção 'history'),
+ * com aprovador, tipo e motivo da mudança de cada versão.
+ */
+
+import React from 'react';
+import { HistoryEntry } from '../hooks/useDocument';
+import { formatDateTime } from '../lib/format';
+import { Document, DocumentApproval, VersionChangeType } from '../types/document';
+
+interface DocumentHistoryTimelineProps {
+  document: Document;
+  history: HistoryEntry[];
+}
+
+const CHANGE_TYPE_LABELS: Record<VersionChangeType, string> = {
+  editorial: 'Editorial',
+  substantiva: 'Substantiva',
+  reemissao: 'Reemissão',
+};
+
+/**
+ * Linha de aprovação de uma versão
+ */
+const ApprovalLine: React.FC<{ aprovacao?: DocumentApproval }> = ({ aprovacao }) => {
+  if (!aprovacao) {
+    return <p className="text-xs text-gray-500">Versão não aprovada</p>;
+  }
+  return (
+    <p className="text-xs text-gray-600">
+      Aprovada por <strong>{aprovacao.aprovadoPor}</strong> em {formatDateTime(aprovacao.aprovadoEm)}
+      {' · '}mudança {CHANGE_TYPE_LABELS[aprovacao.tipoMudanca].toLowerCase()}
+      {aprovacao.motivoMudanca && <> — “{aprovacao.motivoMudanca}”</>}
+    </p>
+  );
+};
+
+export const DocumentHistoryTimeline: React.FC<DocumentHistoryTimelineProps> = ({ document, history }) => {
+  return (
+    <ol className="relative border-l-2 border-purple-200 ml-2 space-y-6">
+      <li className="pl-6 relative">
+        <span className="absolute -left-[9px] top-1 w-4 h-4 rounded-full bg-purple-600" />
+        <div className="text-sm font-bold text-gray-800">
+          v{document.versao} <span className="font-normal text-gray-500">(atual · {document.status})</span>
+        </div>
+        <ApprovalLine aprovacao={document.aprovacao} />
+        {document.restauracao && (
+          <p className="text-xs text-gray-600">
+            Restaurada da v{document.restauracao.versaoRestaurada} por {document.restauracao.restauradoPor}
+            {document.restauracao.versaoAnterior && <> (substitui a v{document.restauracao.versaoAnterior})</>}
+            {' '}— “{document.restauracao.motivo}”
+          </p>
+        )}
+        {document.atualizacaoVideo && (
+          <p className="text-xs text-gray-600">
+            Atualizada pelo vídeo {document.atualizacaoVideo.videoId} (base v{document.atualizacaoVideo.versaoAnterior})
+            {' '}em {formatDateTime(document.atualizacaoVideo.atualizadoEm)} — {document.atualizacaoVideo.resumo}
+          </p>
+        )}
+      </li>
+
+      {history.map((entry) => (
+        <li key={entry.historyId} className="pl-6 relative">
+          <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-gray-400" />
+          <div className="text-sm font-semibold text-gray-700">
+            v{entry.versao}
+            <span className="ml-2 font-normal text-xs text-gray-500">
+              arquivada em {formatDateTime(entry.arquivadoEm)}
+            </span>
+          </div>
+          <ApprovalLine aprovacao={entry.documentSnapshot.aprovacao} />
+          <p className="text-xs text-gray-600">
+            Arquivada por <strong>{entry.aprovadoPor}</strong>
+            {entry.motivoMudanca && <> — “{entry.motivoMudanca}”</>}
+            {entry.versaoRestaurada && <> · substituída pela restauração da v{entry.versaoRestaurada}</>}
+          </p>
+        </li>
+      ))}
+
+      {history.length === 0 && (
+        <li className="pl-6 text-xs text-gray-500">Nenhuma versão arquivada.</li>
+      )}
+    </ol>
+  );
+};
+
+export default DocumentHistoryTimeline;
@@ -0,0 +1,62 @@
+/**
+ * DocumentNonConformities - Não-Conformidades do Documento
+ *
+ * Lista as NCs vinculadas ao documento, destacando as em aberto (que
+ * entram na análise preditiva), e permite registrar uma nova NC já
+ * vinculada ao documento e ao seu vídeo.
+ */
+
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useNonConformities } from '../hooks/useNonConformities';
+import { NC_SEVERITY_LABELS, NC_STATUS_LABELS, NC_STATUS_STYLES, OPEN_NC_STATUSES } from '../lib/nonConformity';
+import { UserRole } from '../types/document';
+import RaiseNonConformityForm from './RaiseNonConformityForm';
+
+interface DocumentNonConformitiesProps {
+  orgId: string;
+  docId: string;
+  role: UserRole | null;
+}
+
+export const DocumentNonConformities: React.FC<DocumentNonConformitiesProps> = ({ orgId, docId, role }) => {
+  const { nonConformities, loading, error } = useNonConformities(orgId, { docId });
+  const abertas = nonConformities.filter((nc) => OPEN_NC_STATUSES.includes(nc.status));
+  const rascunhos = abertas.filter((nc) => nc.status === 'rascunho').length;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {loading && <p className="text-gray-500">Carregando...</p>}
+      {error && <p className="text-red-600">{error.message}</p>}
+      {!loading && !error && (
+        <p className="text-gray-700">
+          <strong>{abertas.length}</strong> em aberto
+          {rascunhos > 0 && <> ({rascunhos} rascunho(s) da extração aguardando confirmação)</>}
+          {' '}de {nonConformities.length} registrada(s)
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {abertas.map((nc) => (
+          <li key={nc.ncId}>
+            <Link href={`/nao-conformidades/${nc.ncId}`} className="block hover:underline">
+              <span className={`mr-2 px-2 py-0.5 rounded-full text-xs font-semibold ${NC_STATUS_STYLES[nc.status]}`}>
+                {NC_STATUS_LABELS[nc.status]}
+              </span>
+              <span className="text-gray-800">{nc.titulo}</span>
+              <span className="ml-1 text-xs text-gray-500">
+                ({NC_SEVERITY_LABELS[nc.severidade]}{nc.etapa !== undefined && `, etapa ${nc.etapa}`})
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+
+      {role && role !== 'leitor' && <RaiseNonConformityForm docId={docId} />}
+    </div>
+  );
+};
+
+export default DocumentNonConformities;
@@ -0,0 +1,353 @@
+/**
+ * NonConformityActions - Tratamento da Não-Conformidade (CAPA)
+ *
+ * Oferece as operações permitidas no status atual da NC: confirmar o
+ * rascunho, registrar a análise de causa raiz (5 Porquês ou Ishikawa),
+ * incluir ações corretivas/preventivas, concluir cada ação com
+ * evidência e verificar sua eficácia. Leitores apenas acompanham.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { callApi } from '../lib/api';
+import { formatDate } from '../lib/format';
+import {
+  ACTION_STATUS_LABELS,
+  getNonConformityOperations,
+  ISHIKAWA_LABELS,
+  NC_SEVERITY_LABELS,
+  NonConformityOperation,
+} from '../lib/nonConformity';
+import { UserRole } from '../types/document';
+import { CorrectiveAction, IshikawaCategory, NonConformity, NonConformitySeverity } from '../types/nonConformity';
+
+interface NonConformityActionsProps {
+  nonConformity: NonConformity;
+  role: UserRole | null;
+}
+
+type ActiveForm =
+  | { operacao: NonConformityOperation }
+  | { operacao: 'complete' | 'verify'; acaoId: string };
+
+const OPERATION_LABELS: Record<NonConformityOperation, string> = {
+  confirm: 'Confirmar NC',
+  cancel: 'Cancelar NC',
+  rootCause: 'Análise de causa raiz',
+  addAction: 'Incluir ação',
+};
+
+const OPERATION_STYLES: Record<NonConformityOperation, string> = {
+  confirm: 'bg-green-600 hover:bg-green-700',
+  cancel: 'bg-red-600 hover:bg-red-700',
+  rootCause: 'bg-blue-500 hover:bg-blue-600',
+  addAction: 'bg-purple-600 hover:bg-purple-700',
+};
+
+const INPUT_CLASS = 'w-full border rounded px-3 py-2 text-sm';
+
+/**
+ * Linhas não vazias de um campo de texto
+ */
+const lines = (value: string): string[] =>
+  value.split('\n').map((line) => line.trim()).filter((line) => line.length > 0);
+
+export const NonConformityActions: React.FC<NonConformityActionsProps> = ({ nonConformity, role }) => {
+  const nc = nonConformity;
+  const podeEditar = role !== null && role !== 'leitor';
+  const operacoes = podeEditar ? getNonConformityOperations(nc) : [];
+  const [ativo, setAtivo] = useState<ActiveForm | null>(null);
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field = (name: string) => fields[name] || '';
+  const setField = (name: string) => (
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => setFields((current) => ({ ...current, [name]: event.target.value }));
+
+  const open = (form: ActiveForm) => {
+    const mesmo = ativo?.operacao === form.operacao &&
+      ('acaoId' in form ? 'acaoId' in ativo && ativo.acaoId === form.acaoId : true);
+    setAtivo(mesmo ? null : form);
+    setFields(form.operacao === 'confirm' ? { severidade: nc.severidade } : {});
+    setError(null);
+  };
+
+  const rootCausePayload = () => {
+    const metodo = field('metodo') || '5porques';
+    if (metodo === '5porques') {
+      return { metodo, causaRaiz: field('causaRaiz'), porques: lines(field('porques')) };
+    }
+    const ishikawa = Object.fromEntries(
+      (Object.keys(ISHIKAWA_LABELS) as IshikawaCategory[])
+        .map((categoria) => [categoria, lines(field(`ishikawa.${categoria}`))])
+        .filter(([, causas]) => causas.length > 0)
+    );
+    return { metodo, causaRaiz: field('causaRaiz'), ishikawa };
+  };
+
+  const run = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!ativo) return;
+
+    const base = { ncId: nc.ncId };
+    const acaoId = 'acaoId' in ativo ? ativo.acaoId : undefined;
+    const requests: Record<ActiveForm['operacao'], () => Promise<unknown>> = {
+      confirm: () => callApi('confirmNonConformity', {
+        ...base,
+        responsavel: field('responsavel'),
+        severidade: field('severidade') || undefined,
+      }),
+      cancel: () => callApi('cancelNonConformity', { ...base, motivo: field('motivo') }),
+      rootCause: () => callApi('recordRootCause', { ...base, analise: rootCausePayload() }),
+      addAction: () => callApi('addCorrectiveAction', {
+        ...base,
+        tipo: field('tipo') || 'corretiva',
+        descricao: field('descricao'),
+        responsavel: field('responsavel'),
+        prazo: field('prazo'),
+        verificarEficaciaEm: field('verificarEficaciaEm') || undefined,
+      }),
+      complete: () => callApi('completeCorrectiveAction', { ...base, acaoId, evidencia: field('evidencia') }),
+      verify: () => callApi('verifyCorrectiveAction', {
+        ...base,
+        acaoId,
+        resultado: field('resultado') || 'eficaz',
+        comentario: field('comentario') || undefined,
+      }),
+    };
+
+    setRunning(true);
+    setError(null);
+    try {
+      // A NC é atualizada pela assinatura em tempo real
+      await requests[ativo.operacao]();
+      setAtivo(null);
+      setFields({});
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Erro ao executar a operação');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const submitButton = (label: string) => (
+    <>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={running}
+        className="px-4 py-2 rounded bg-purple-600 text-white text-sm font-semibold disabled:opacity-50"
+      >
+        {running ? 'Enviando...' : label}
+      </button>
+    </>
+  );
+
+  const actionForm = (acao: CorrectiveAction) => {
+    if (!ativo || !('acaoId' in ativo) || ativo.acaoId !== acao.acaoId) {
+      return null;
+    }
+    return (
+      <form onSubmit={run} className="mt-2 bg-gray-50 rounded p-3 space-y-2">
+        {ativo.operacao === 'complete' ? (
+          <textarea
+            value={field('evidencia')}
+            onChange={setField('evidencia')}
+            placeholder="Evidência da execução (registro, foto, link)"
+            required
+            className={INPUT_CLASS}
+          />
+        ) : (
+          <>
+            <select value={field('resultado') || 'eficaz'} onChange={setField('resultado')} className={INPUT_CLASS}>
+              <option value="eficaz">Eficaz</option>
+              <option value="ineficaz">Ineficaz (a NC volta para tratamento)</option>
+            </select>
+            <textarea
+              value={field('comentario')}
+              onChange={setField('comentario')}
+              placeholder="Comentário da verificação"
+              required={field('resultado') === 'ineficaz'}
+              className={INPUT_CLASS}
+            />
+          </>
+        )}
+        {submitButton(ativo.operacao === 'complete' ? 'Concluir ação' : 'Registrar verificação')}
+      </form>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {operacoes.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {operacoes.map((operacao) => (
+              <button
+                key={operacao}
+                onClick={() => open({ operacao })}
+                className={`px-4 py-2 rounded text-white text-sm font-semibold ${OPERATION_STYLES[operacao]}`}
+              >
+                {OPERATION_LABELS[operacao]}
+              </button>
+            ))}
+          </div>
+
+          {ativo && !('acaoId' in ativo) && (
+            <form onSubmit={run} className="bg-gray-50 rounded p-4 space-y-3">
+              {ativo.operacao === 'confirm' && (
+                <>
+                  <input
+                    value={field('responsavel')}
+                    onChange={setField('responsavel')}
+                    placeholder="ID do responsável pelo tratamento"
+                    required
+                    className={INPUT_CLASS}
+                  />
+                  <select value={field('severidade')} onChange={setField('severidade')} className={INPUT_CLASS}>
+                    {(Object.keys(NC_SEVERITY_LABELS) as NonConformitySeverity[]).map((severidade) => (
+                      <option key={severidade} value={severidade}>Severidade {NC_SEVERITY_LABELS[severidade]}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+
+              {ativo.operacao === 'cancel' && (
+                <textarea
+                  value={field('motivo')}
+                  onChange={setField('motivo')}
+                  placeholder="Motivo do cancelamento"
+                  required
+                  className={INPUT_CLASS}
+                />
+              )}
+
+              {ativo.operacao === 'rootCause' && (
+                <>
+                  <select value={field('metodo') || '5porques'} onChange={setField('metodo')} className={INPUT_CLASS}>
+                    <option value="5porques">5 Porquês</option>
+                    <option value="ishikawa">Ishikawa (6M)</option>
+                  </select>
+                  {(field('metodo') || '5porques') === '5porques' ? (
+                    <textarea
+                      value={field('porques')}
+                      onChange={setField('porques')}
+                      placeholder="Um “por quê” por linha"
+                      rows={5}
+                      required
+                      className={INPUT_CLASS}
+                    />
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {(Object.keys(ISHIKAWA_LABELS) as IshikawaCategory[]).map((categoria) => (
+                        <textarea
+                          key={categoria}
+                          value={field(`ishikawa.${categoria}`)}
+                          onChange={setField(`ishikawa.${categoria}`)}
+                          placeholder={`${ISHIKAWA_LABELS[categoria]} (uma causa por linha)`}
+                          rows={2}
+                          className={INPUT_CLASS}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <textarea
+                    value={field('causaRaiz')}
+                    onChange={setField('causaRaiz')}
+                    placeholder="Causa raiz (conclusão da análise)"
+                    required
+                    className={INPUT_CLASS}
+                  />
+                </>
+              )}
+
+              {ativo.operacao === 'addAction' && (
+                <>
+                  <select value={field('tipo') || 'corretiva'} onChange={setField('tipo')} className={INPUT_CLASS}>
+                    <option value="corretiva">Ação corretiva</option>
+                    <option value="preventiva">Ação preventiva</option>
+                  </select>
+                  <textarea
+                    value={field('descricao')}
+                    onChange={setField('descricao')}
+                    placeholder="Descrição da ação"
+                    required
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    value={field('responsavel')}
+                    onChange={setField('responsavel')}
+                    placeholder="ID do responsável pela ação"
+                    required
+                    className={INPUT_CLASS}
+                  />
+                  <label className="block text-xs text-gray-600">
+                    Prazo
+                    <input type="date" value={field('prazo')} onChange={setField('prazo')} required className={INPUT_CLASS} />
+                  </label>
+                  <label className="block text-xs text-gray-600">
+                    Verificar eficácia a partir de (opcional)
+                    <input
+                      type="date"
+                      value={field('verificarEficaciaEm')}
+                      onChange={setField('verificarEficaciaEm')}
+                      className={INPUT_CLASS}
+                    />
+                  </label>
+                </>
+              )}
+
+              {submitButton(`Confirmar: ${OPERATION_LABELS[ativo.operacao]}`)}
+            </form>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-semibold text-gray-800 mb-2">Plano de ação</h4>
+        {nc.acoes.length === 0 && <p className="text-sm text-gray-500">Nenhuma ação registrada.</p>}
+        <ol className="space-y-3">
+          {nc.acoes.map((acao) => (
+            <li key={acao.acaoId} className="border-l-4 border-purple-300 pl-3 text-sm text-gray-700">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-semibold uppercase text-gray-500">{acao.tipo}</span>
+                <span className="text-xs font-semibold text-purple-700">{ACTION_STATUS_LABELS[acao.status]}</span>
+              </div>
+              <p>{acao.descricao}</p>
+              <p className="text-xs text-gray-500">
+                Responsável {acao.responsavel} — prazo {formatDate(acao.prazo)}
+                {acao.verificarEficaciaEm && <> — verificar a partir de {formatDate(acao.verificarEficaciaEm)}</>}
+              </p>
+              {acao.evidencia && <p className="text-xs text-gray-600">Evidência: {acao.evidencia}</p>}
+              {acao.verificacao?.comentario && (
+                <p className="text-xs text-gray-600">Verificação: {acao.verificacao.comentario}</p>
+              )}
+              {podeEditar && nc.status === 'em_tratamento' && acao.status === 'pendente' && (
+                <button
+                  onClick={() => open({ operacao: 'complete', acaoId: acao.acaoId })}
+                  className="mt-1 text-xs font-semibold text-purple-700 hover:underline"
+                >
+                  Concluir ação
+                </button>
+              )}
+              {podeEditar && nc.status === 'verificacao' && acao.status === 'concluida' && (
+                <button
+                  onClick={() => open({ operacao: 'verify', acaoId: acao.acaoId })}
+                  className="mt-1 text-xs font-semibold text-purple-700 hover:underline"
+                >
+                  Verificar eficácia
+                </button>
+              )}
+              {actionForm(acao)}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default NonConformityActions;
@@ -0,0 +1,92 @@
+/**
+ * PopPrintView - POP no Layout Padronizado
+ *
+ * Exibe o POP da versão ativa como gerado pelo backend (exportPopDocument):
+ * visualização em HTML, impressão e download do PDF para o chão de fábrica.
+ * Documentos sem versão ativa (rascunho inicial, obsoletos) mostram o
+ * erro devolvido pela API.
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { fetchApiFile } from '../lib/api';
+
+interface PopPrintViewProps {
+  docId: string;
+}
+
+const BUTTON_CLASS = 'px-3 py-2 rounded text-sm font-semibold text-white disabled:opacity-50';
+
+export const PopPrintView: React.FC<PopPrintViewProps> = ({ docId }) => {
+  const [html, setHtml] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao gerar o POP');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showHtml = () =>
+    run(async () => {
+      const blob = await fetchApiFile('exportPopDocument', { docId, formato: 'html' });
+      setHtml(await blob.text());
+    });
+
+  const downloadPdf = () =>
+    run(async () => {
+      const blob = await fetchApiFile('exportPopDocument', { docId, formato: 'pdf' });
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = `pop-${docId}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={showHtml} disabled={loading} className={`${BUTTON_CLASS} bg-purple-600 hover:bg-purple-700`}>
+          {html ? 'Atualizar visualização' : 'Visualizar POP'}
+        </button>
+        {html && (
+          <button
+            onClick={() => frameRef.current?.contentWindow?.print()}
+            className={`${BUTTON_CLASS} bg-gray-600 hover:bg-gray-700`}
+          >
+            Imprimir
+          </button>
+        )}
+        <button onClick={downloadPdf} disabled={loading} className={`${BUTTON_CLASS} bg-indigo-600 hover:bg-indigo-700`}>
+          Baixar PDF
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">Gerado a partir da versão ativa do documento.</p>
+      {loading && <p className="text-sm text-gray-500">Gerando POP...</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {html && (
+        <iframe
+          ref={frameRef}
+          title="POP padronizado"
+          srcDoc={html}
+          sandbox="allow-same-origin allow-modals"
+          className="w-full h-[800px] border rounded"
+        />
+      )}
+    </div>
+  );
+};
+
+export default PopPrintView;
@@ -0,0 +1,119 @@
+/**
+ * RaiseNonConformityForm - Registro Manual de Não-Conformidade
+ *
+ * Registra uma NC já aberta (callable raiseNonConformity). Na página do
+ * documento, a NC é vinculada ao documento e ao seu vídeo.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { callApi } from '../lib/api';
+import { NC_SEVERITY_LABELS } from '../lib/nonConformity';
+import { NonConformity, NonConformitySeverity } from '../types/nonConformity';
+
+interface RaiseNonConformityFormProps {
+  /** Documento de origem (opcional) */
+  docId?: string;
+  onRaised?: (nc: NonConformity) => void;
+}
+
+const INPUT_CLASS = 'w-full border rounded px-3 py-2 text-sm';
+
+export const RaiseNonConformityForm: React.FC<RaiseNonConformityFormProps> = ({ docId, onRaised }) => {
+  const [aberto, setAberto] = useState(false);
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field = (name: string) => fields[name] || '';
+  const setField = (name: string) => (
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => setFields((current) => ({ ...current, [name]: event.target.value }));
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setRunning(true);
+    setError(null);
+    try {
+      const nc = await callApi<NonConformity>('raiseNonConformity', {
+        titulo: field('titulo'),
+        descricao: field('descricao'),
+        severidade: field('severidade') || 'media',
+        responsavel: field('responsavel'),
+        etapa: field('etapa') ? Number(field('etapa')) : undefined,
+        docId,
+      });
+      setAberto(false);
+      setFields({});
+      onRaised?.(nc);
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Erro ao registrar a não-conformidade');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (!aberto) {
+    return (
+      <button
+        onClick={() => setAberto(true)}
+        className="px-4 py-2 rounded bg-red-600 hover:bg-red-700 text-white text-sm font-semibold"
+      >
+        Registrar não-conformidade
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="bg-gray-50 rounded p-4 space-y-3">
+      <input value={field('titulo')} onChange={setField('titulo')} placeholder="Título" required className={INPUT_CLASS} />
+      <textarea
+        value={field('descricao')}
+        onChange={setField('descricao')}
+        placeholder="Descrição do que foi observado"
+        required
+        className={INPUT_CLASS}
+      />
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <select value={field('severidade') || 'media'} onChange={setField('severidade')} className={INPUT_CLASS}>
+          {(Object.keys(NC_SEVERITY_LABELS) as NonConformitySeverity[]).map((severidade) => (
+            <option key={severidade} value={severidade}>Severidade {NC_SEVERITY_LABELS[severidade]}</option>
+          ))}
+        </select>
+        <input
+          value={field('responsavel')}
+          onChange={setField('responsavel')}
+          placeholder="ID do responsável"
+          required
+          className={INPUT_CLASS}
+        />
+        {docId && (
+          <input
+            type="number"
+            min={1}
+            value={field('etapa')}
+            onChange={setField('etapa')}
+            placeholder="Etapa (opcional)"
+            className={INPUT_CLASS}
+          />
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={running}
+          className="px-4 py-2 rounded bg-purple-600 text-white text-sm font-semibold disabled:opacity-50"
+        >
+          {running ? 'Enviando...' : 'Registrar'}
+        </button>
+        <button type="button" onClick={() => setAberto(false)} className="px-4 py-2 text-sm text-gray-600">
+          Cancelar
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RaiseNonConformityForm;
@@ -0,0 +1,114 @@
+/**
+ * StartChecklistRunForm - Início de uma Execução de Checklist
+ *
+ * Inicia a execução (callable startChecklistRun) a partir de um modelo de
+ * norma (ISO 9001, 14001, 45001...) escolhido na lista ou, na página de um
+ * documento do tipo Checklist, a partir da versão ativa do documento.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { callApi } from '../lib/api';
+import { ChecklistRun, ChecklistTemplate } from '../types/checklist';
+
+interface StartChecklistRunFormProps {
+  /** Documento do tipo Checklist de origem; sem ele, escolhe-se um modelo */
+  docId?: string;
+  onStarted?: (run: ChecklistRun) => void;
+}
+
+const INPUT_CLASS = 'w-full border rounded px-3 py-2 text-sm';
+
+export const StartChecklistRunForm: React.FC<StartChecklistRunFormProps> = ({ docId, onStarted }) => {
+  const [templates, setTemplates] = useState<ChecklistTemplate[] | null>(null);
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (docId) {
+      return undefined;
+    }
+
+    let cancelled = false;
+    callApi<ChecklistTemplate[]>('listChecklistTemplates', {})
+      .then((value) => {
+        if (!cancelled) setTemplates(value);
+      })
+      .catch((requestError: Error) => {
+        if (!cancelled) setError(requestError.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [docId]);
+
+  const field = (name: string) => fields[name] || '';
+  const setField = (name: string) => (
+    event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => setFields((current) => ({ ...current, [name]: event.target.value }));
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setRunning(true);
+    setError(null);
+    try {
+      const run = await callApi<ChecklistRun>('startChecklistRun', {
+        ...(docId ? { docId } : { templateId: field('templateId') }),
+        titulo: field('titulo') || undefined,
+      });
+      setFields({});
+      onStarted?.(run);
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Erro ao iniciar o checklist');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-lg shadow-md p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {!docId && (
+          <select
+            value={field('templateId')}
+            onChange={setField('templateId')}
+            required
+            disabled={!templates}
+            className={INPUT_CLASS}
+          >
+            <option value="">{templates ? 'Escolha o modelo' : 'Carregando modelos...'}</option>
+            {(templates || []).map((template) => (
+              <option key={template.templateId} value={template.templateId}>
+                {template.nome} ({template.norma}, {template.itens.length} itens)
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          value={field('titulo')}
+          onChange={setField('titulo')}
+          placeholder="Título da execução (opcional, ex: Auditoria interna - Linha 2)"
+          className={INPUT_CLASS}
+        />
+      </div>
+      {templates && templates.length === 0 && (
+        <p className="text-sm text-gray-500">
+          Nenhum modelo ativo. Execute <code>node cli/index.js setup-standard</code> para semear os modelos ISO.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={running}
+        className="px-4 py-2 rounded bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold disabled:opacity-50"
+      >
+        {running ? 'Iniciando...' : docId ? 'Iniciar checklist deste documento' : 'Iniciar checklist'}
+      </button>
+    </form>
+  );
+};
+
+export default StartChecklistRunForm;
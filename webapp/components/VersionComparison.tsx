@@ -0,0 +1,119 @@
+/**
+ * VersionComparison - Comparação Lado a Lado de Versões
+ *
+ * Exibe as alterações entre duas versões de um documento
+ * agrupadas por seção (metadados, Axioma, seções, etapas, anexos),
+ * com a versão de origem à esquerda e a de destino à direita.
+ */
+
+import React from 'react';
+import { ChangeGroup, ChangeKind, DocumentVersionDiff } from '../types/document';
+
+interface VersionComparisonProps {
+  diff: DocumentVersionDiff;
+}
+
+/**
+ * Rótulos dos grupos de campos
+ */
+const GROUP_LABELS: Record<ChangeGroup, string> = {
+  documento: 'Documento',
+  metadata: 'Metadados',
+  axiomaMetrics: 'Sistema Axioma',
+  secoes: 'Seções de Conteúdo',
+  etapas: 'Etapas do POP',
+  anexos: 'Anexos',
+};
+
+/**
+ * Retorna as classes CSS para o tipo de alteração
+ */
+const getChangeStyles = (tipo: ChangeKind): { row: string; label: string } => {
+  const styles: Record<ChangeKind, { row: string; label: string }> = {
+    adicionado: { row: 'bg-green-50', label: 'bg-green-500 text-white' },
+    removido: { row: 'bg-red-50', label: 'bg-red-500 text-white' },
+    alterado: { row: 'bg-yellow-50', label: 'bg-yellow-500 text-white' },
+  };
+  return styles[tipo];
+};
+
+/**
+ * Formata um valor da comparação para exibição
+ */
+const renderValue = (value: unknown): React.ReactNode => {
+  if (value === undefined || value === null) {
+    return <span className="text-gray-400 italic">—</span>;
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return (
+      <ul className="list-disc list-inside space-y-1">
+        {value.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    );
+  }
+  if (typeof value === 'object') {
+    return (
+      <pre className="whitespace-pre-wrap text-xs">{JSON.stringify(value, null, 2)}</pre>
+    );
+  }
+  return String(value);
+};
+
+export const VersionComparison: React.FC<VersionComparisonProps> = ({ diff }) => {
+  const grupos = (Object.keys(GROUP_LABELS) as ChangeGroup[])
+    .map((grupo) => ({
+      grupo,
+      alteracoes: diff.alteracoes.filter((alteracao) => alteracao.grupo === grupo),
+    }))
+    .filter((item) => item.alteracoes.length > 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-bold text-gray-800 mb-4">
+        Comparação: v{diff.de} → v{diff.para}
+      </h3>
+
+      {grupos.length === 0 && (
+        <p className="text-sm text-gray-500">Nenhuma diferença entre as versões.</p>
+      )}
+
+      {grupos.map(({ grupo, alteracoes }) => (
+        <div key={grupo} className="mb-6">
+          <h4 className="text-sm font-semibold uppercase tracking-wide text-gray-600 mb-2">
+            {GROUP_LABELS[grupo]}
+          </h4>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 w-1/4">Campo</th>
+                <th className="py-2 pr-4 w-3/8">v{diff.de}</th>
+                <th className="py-2 w-3/8">v{diff.para}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {alteracoes.map((alteracao) => {
+                const styles = getChangeStyles(alteracao.tipo);
+                return (
+                  <tr key={alteracao.campo} className={`border-b align-top ${styles.row}`}>
+                    <td className="py-2 pr-4">
+                      <div className="font-mono text-xs text-gray-700">{alteracao.campo}</div>
+                      <span className={`mt-1 inline-block px-2 py-0.5 rounded-full text-xs font-bold ${styles.label}`}>
+                        {alteracao.tipo}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{renderValue(alteracao.anterior)}</td>
+                    <td className="py-2 text-gray-900">{renderValue(alteracao.atual)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VersionComparison;
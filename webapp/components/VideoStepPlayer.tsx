@@ -0,0 +1,165 @@
+/**
+ * VideoStepPlayer - Vídeo do POP com Navegação por Etapas
+ *
+ * Reproduz o vídeo vinculado ao documento ao lado da lista de etapas.
+ * Clicar em uma etapa leva o vídeo ao seu `tempo`; a etapa em exibição
+ * acompanha a reprodução. Etapas com pontos críticos ou com
+ * não-conformidades identificadas na extração ficam destacadas.
+ */
+
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { toDate } from '../lib/format';
+import {
+  findCurrentStep,
+  formatVideoTime,
+  groupNonConformities,
+  parseStepTimestamp,
+} from '../lib/video';
+import { Document, DocumentStep, VideoPlayback } from '../types/document';
+
+interface VideoStepPlayerProps {
+  document: Document;
+  playback: VideoPlayback;
+  /** Etapa inicial (deep-link ?etapa=N) */
+  initialStep?: number;
+  /** Chamado quando a URL assinada expirou e o vídeo precisa ser recarregado */
+  onExpired: () => void;
+}
+
+/**
+ * Classes da etapa conforme seus destaques
+ */
+const stepStyles = (etapa: DocumentStep, ncs: string[], atual: boolean): string => {
+  const borda =
+    etapa.pontosCriticos && etapa.pontosCriticos.length > 0
+      ? 'border-red-500'
+      : ncs.length > 0
+        ? 'border-orange-400'
+        : 'border-purple-200';
+  return `border-l-4 ${borda} ${atual ? 'bg-purple-50 ring-1 ring-purple-300' : 'bg-white'} rounded p-3`;
+};
+
+/**
+ * URL assinada vencida (o Storage passa a recusar a leitura)
+ */
+const isExpired = (playback: VideoPlayback): boolean => toDate(playback.expiraEm).getTime() <= Date.now();
+
+export const VideoStepPlayer: React.FC<VideoStepPlayerProps> = ({
+  document,
+  playback,
+  initialStep,
+  onExpired,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const etapas = useMemo(
+    () => [...(document.conteudo?.etapas || [])].sort((a, b) => a.numero - b.numero),
+    [document.conteudo]
+  );
+  const { porEtapa, gerais } = useMemo(() => groupNonConformities(document.conteudo), [document.conteudo]);
+
+  // Posição a aplicar quando o vídeo carregar: etapa do deep-link ou,
+  // após renovar a URL, o ponto em que a reprodução parou
+  const pendingSeek = useRef<number | null>(
+    parseStepTimestamp(etapas.find((etapa) => etapa.numero === initialStep)?.tempo)
+  );
+  const [posicao, setPosicao] = useState(0);
+  const [erro, setErro] = useState<string | null>(null);
+
+  const etapaAtual = findCurrentStep(etapas, posicao);
+
+  const seekTo = (etapa: DocumentStep) => {
+    const inicio = parseStepTimestamp(etapa.tempo);
+    const video = videoRef.current;
+    if (inicio === null || !video) {
+      return;
+    }
+    video.currentTime = inicio;
+    video.play().catch(() => undefined);
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (video && pendingSeek.current !== null) {
+      video.currentTime = pendingSeek.current;
+      pendingSeek.current = null;
+    }
+  };
+
+  const handleError = () => {
+    if (isExpired(playback)) {
+      pendingSeek.current = posicao;
+      onExpired();
+      return;
+    }
+    setErro('Não foi possível reproduzir o vídeo.');
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-4">
+        <video
+          key={playback.url}
+          ref={videoRef}
+          src={playback.url}
+          controls
+          preload="metadata"
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={(event) => setPosicao(event.currentTarget.currentTime)}
+          onError={handleError}
+          className="w-full rounded-lg bg-black"
+        />
+        {erro && <p className="text-sm text-red-600">{erro}</p>}
+        <p className="text-xs text-gray-500">
+          Vídeo <span className="font-mono">{playback.videoId}</span> — posição {formatVideoTime(posicao)}
+        </p>
+
+        {gerais.length > 0 && (
+          <div className="bg-orange-50 border border-orange-200 rounded p-4">
+            <h4 className="font-semibold text-orange-800 mb-1">Não-conformidades identificadas</h4>
+            <ul className="list-disc list-inside text-sm text-orange-900 space-y-1">
+              {gerais.map((item, index) => <li key={index}>{item}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <ol className="space-y-2 lg:max-h-[75vh] lg:overflow-y-auto pr-1">
+        {etapas.length === 0 && <li className="text-sm text-gray-500">Documento sem etapas.</li>}
+        {etapas.map((etapa) => {
+          const inicio = parseStepTimestamp(etapa.tempo);
+          const ncs = porEtapa.get(etapa.numero) || [];
+          return (
+            <li key={etapa.numero} className={stepStyles(etapa, ncs, etapa.numero === etapaAtual)}>
+              <button
+                type="button"
+                onClick={() => seekTo(etapa)}
+                disabled={inicio === null}
+                className="w-full text-left text-sm text-gray-800 disabled:cursor-default"
+                title={inicio === null ? 'Etapa sem tempo no vídeo' : `Ir para ${formatVideoTime(inicio)}`}
+              >
+                <span className="font-semibold">{etapa.numero}.</span> {etapa.descricao}
+                <span className="ml-2 text-xs font-mono text-purple-700">
+                  {inicio === null ? 'sem tempo' : `▶ ${formatVideoTime(inicio)}`}
+                </span>
+              </button>
+              {etapa.pontosCriticos && etapa.pontosCriticos.length > 0 && (
+                <ul className="mt-1 text-xs text-red-700 space-y-0.5">
+                  {etapa.pontosCriticos.map((ponto, index) => <li key={index}>⚠️ {ponto}</li>)}
+                </ul>
+              )}
+              {ncs.length > 0 && (
+                <ul className="mt-1 text-xs text-orange-700 space-y-0.5">
+                  {ncs.map((item, index) => <li key={index}>NC: {item}</li>)}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default VideoStepPlayer;
@@ -0,0 +1,49 @@
+/**
+ * useAuth - Estado de autenticação e claims do usuário
+ *
+ * Expõe o usuário atual e as claims usadas no isolamento multi-tenant
+ * (`orgId`) e no controle de ações por papel (`role`).
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { onIdTokenChanged, User } from 'firebase/auth';
+import { getFirebase } from '../lib/firebase';
+import { UserRole } from '../types/document';
+
+export interface AuthState {
+  loading: boolean;
+  user: User | null;
+  /** Organização do usuário (claim orgId) */
+  orgId: string | null;
+  /** Papel do usuário na organização (claim role) */
+  role: UserRole | null;
+}
+
+const INITIAL_STATE: AuthState = { loading: true, user: null, orgId: null, role: null };
+
+export const useAuth = (): AuthState => {
+  const [state, setState] = useState<AuthState>(INITIAL_STATE);
+
+  useEffect(() => {
+    const { auth } = getFirebase();
+
+    return onIdTokenChanged(auth, async (user) => {
+      if (!user) {
+        setState({ loading: false, user: null, orgId: null, role: null });
+        return;
+      }
+
+      const { claims } = await user.getIdTokenResult();
+      setState({
+        loading: false,
+        user,
+        orgId: typeof claims.orgId === 'string' ? claims.orgId : null,
+        role: typeof claims.role === 'string' ? (claims.role as UserRole) : null,
+      });
+    });
+  }, []);
+
+  return state;
+};
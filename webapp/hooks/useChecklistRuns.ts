@@ -0,0 +1,98 @@
+/**
+ * useChecklistRuns - Execuções de Checklist em Tempo Real
+ *
+ * Assina as execuções da organização (filtros por status e documento de
+ * origem) ou uma execução específica. Respostas e evidências são
+ * gravadas pelas funções callable; a interface acompanha pela assinatura.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { QueryConstraint, collection, doc, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { getFirebase } from '../lib/firebase';
+import { ChecklistRun, ChecklistRunStatus } from '../types/checklist';
+
+export interface ChecklistRunFilters {
+  status?: ChecklistRunStatus;
+  docId?: string;
+}
+
+interface Snapshot<T> {
+  key: string;
+  value: T;
+}
+
+export interface ChecklistRunsState {
+  runs: ChecklistRun[];
+  loading: boolean;
+  error: Error | null;
+}
+
+export interface ChecklistRunState {
+  run: ChecklistRun | null;
+  loading: boolean;
+  notFound: boolean;
+  error: Error | null;
+}
+
+/**
+ * Execuções da organização, mais recentes primeiro
+ */
+export const useChecklistRuns = (orgId: string, filters: ChecklistRunFilters = {}): ChecklistRunsState => {
+  const { status, docId } = filters;
+  const key = `${orgId}|${status || ''}|${docId || ''}`;
+  const [result, setResult] = useState<Snapshot<ChecklistRun[]> | null>(null);
+  const [error, setError] = useState<Snapshot<Error> | null>(null);
+
+  useEffect(() => {
+    const constraints: QueryConstraint[] = [where('orgId', '==', orgId)];
+    if (docId) constraints.push(where('origem.docId', '==', docId));
+    if (status) constraints.push(where('status', '==', status));
+    constraints.push(orderBy('iniciadoEm', 'desc'));
+
+    return onSnapshot(
+      query(collection(getFirebase().db, 'checklistRuns'), ...constraints),
+      (snapshot) => setResult({ key, value: snapshot.docs.map((item) => item.data() as ChecklistRun) }),
+      (value) => setError({ key, value })
+    );
+  }, [orgId, status, docId, key]);
+
+  const current = result?.key === key ? result : null;
+  const currentError = error?.key === key ? error.value : null;
+
+  return {
+    runs: current?.value || [],
+    loading: !current && !currentError,
+    error: currentError,
+  };
+};
+
+/**
+ * Uma execução com os itens e as respostas
+ */
+export const useChecklistRun = (runId: string): ChecklistRunState => {
+  const [result, setResult] = useState<Snapshot<ChecklistRun | null> | null>(null);
+  const [error, setError] = useState<Snapshot<Error> | null>(null);
+
+  useEffect(
+    () =>
+      onSnapshot(
+        doc(getFirebase().db, 'checklistRuns', runId),
+        (snapshot) =>
+          setResult({ key: runId, value: snapshot.exists() ? (snapshot.data() as ChecklistRun) : null }),
+        (value) => setError({ key: runId, value })
+      ),
+    [runId]
+  );
+
+  const current = result?.key === runId ? result : null;
+  const currentError = error?.key === runId ? error.value : null;
+
+  return {
+    run: current?.value || null,
+    loading: !current && !currentError,
+    notFound: Boolean(current) && !current?.value,
+    error: currentError,
+  };
+};
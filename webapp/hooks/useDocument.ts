@@ -0,0 +1,89 @@
+/**
+ * useDocument - Documento e Histórico em Tempo Real
+ *
+ * Assina o documento e a subcoleção 'history' (mais recente primeiro).
+ * O histórico é ordenado pela `versaoOrdem` gravada pelo backend
+ * (versionSortKey em functions/src/utils/version.ts); entradas legadas sem o
+ * campo são preenchidas por `node cli/index.js backfill-history-order`.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, doc, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { getFirebase } from '../lib/firebase';
+import { Document, DocumentHistory } from '../types/document';
+
+/**
+ * Entrada do histórico com o ID usado para restauração
+ */
+export interface HistoryEntry extends DocumentHistory {
+  historyId: string;
+}
+
+interface Snapshot<T> {
+  docId: string;
+  value: T;
+}
+
+export interface DocumentState {
+  document: Document | null;
+  history: HistoryEntry[];
+  loading: boolean;
+  notFound: boolean;
+  error: Error | null;
+}
+
+export const useDocument = (docId: string): DocumentState => {
+  const [document, setDocument] = useState<Snapshot<Document | null> | null>(null);
+  const [history, setHistory] = useState<Snapshot<HistoryEntry[]> | null>(null);
+  const [error, setError] = useState<Snapshot<Error> | null>(null);
+
+  useEffect(() => {
+    const { db } = getFirebase();
+    const docRef = doc(db, 'documents', docId);
+    const onError = (value: Error) => setError({ docId, value });
+
+    const unsubscribeDocument = onSnapshot(
+      docRef,
+      (snapshot) => {
+        setDocument({ docId, value: snapshot.exists() ? (snapshot.data() as Document) : null });
+      },
+      onError
+    );
+
+    const unsubscribeHistory = onSnapshot(
+      // Versão mais recente primeiro ('10.0' antes de '9.0'); entradas da
+      // mesma versão ficam na ordem de arquivamento
+      query(
+        collection(docRef, 'history'),
+        orderBy('versaoOrdem', 'desc'),
+        orderBy('arquivadoEm', 'desc')
+      ),
+      (snapshot) => {
+        const entries = snapshot.docs.map((entry) => ({
+          ...(entry.data() as DocumentHistory),
+          historyId: entry.id,
+        }));
+        setHistory({ docId, value: entries });
+      },
+      onError
+    );
+
+    return () => {
+      unsubscribeDocument();
+      unsubscribeHistory();
+    };
+  }, [docId]);
+
+  const currentDocument = document?.docId === docId ? document : null;
+  const currentError = error?.docId === docId ? error.value : null;
+
+  return {
+    document: currentDocument?.value || null,
+    history: history?.docId === docId ? history.value : [],
+    loading: !currentDocument && !currentError,
+    notFound: Boolean(currentDocument) && !currentDocument?.value,
+    error: currentError,
+  };
+};
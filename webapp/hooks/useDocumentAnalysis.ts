@@ -0,0 +1,63 @@
+/**
+ * useDocumentAnalysis - Análise Preditiva do Documento
+ *
+ * Executa a análise preditiva (callable analyzeDocument) e a repete
+ * quando a versão ou o status do documento mudam.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { callApi } from '../lib/api';
+import { DocumentAnalysis } from '../types/document';
+
+interface AnalysisResult {
+  key: string;
+  analysis: DocumentAnalysis | null;
+  error: Error | null;
+}
+
+export interface DocumentAnalysisState {
+  analysis: DocumentAnalysis | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * @param docId - Documento analisado
+ * @param revisionKey - Versão/status atual; null enquanto o documento carrega
+ */
+export const useDocumentAnalysis = (
+  docId: string,
+  revisionKey: string | null
+): DocumentAnalysisState => {
+  const key = `${docId}@${revisionKey}`;
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+
+  useEffect(() => {
+    if (!revisionKey) {
+      return undefined;
+    }
+
+    let cancelled = false;
+    callApi<DocumentAnalysis>('analyzeDocument', { docId })
+      .then((analysis) => {
+        if (!cancelled) setResult({ key, analysis, error: null });
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setResult({ key, analysis: null, error });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [docId, revisionKey, key]);
+
+  const current = result?.key === key ? result : null;
+
+  return {
+    analysis: current?.analysis || null,
+    loading: Boolean(revisionKey) && !current,
+    error: current?.error || null,
+  };
+};
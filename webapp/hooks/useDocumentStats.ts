@@ -0,0 +1,64 @@
+/**
+ * useDocumentStats - Estatísticas por Status via Agregação
+ *
+ * Conta os documentos da organização com consultas de agregação
+ * no servidor (sem carregar os documentos no cliente).
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, getCountFromServer, query, where } from 'firebase/firestore';
+import { getFirebase } from '../lib/firebase';
+import { DocumentStatus } from '../types/document';
+
+export type DocumentStats = Record<DocumentStatus, number>;
+
+const STATUSES: DocumentStatus[] = ['ativo', 'revisao', 'rascunho', 'obsoleto'];
+
+/**
+ * @param orgId - Organização do usuário
+ * @param refreshKey - Valor que, ao mudar, dispara nova contagem
+ *   (ex: carimbo da última atualização da lista em tempo real)
+ */
+export const useDocumentStats = (
+  orgId: string | null,
+  refreshKey: unknown
+): DocumentStats | null => {
+  const [stats, setStats] = useState<{ orgId: string; stats: DocumentStats } | null>(null);
+
+  useEffect(() => {
+    if (!orgId) {
+      return undefined;
+    }
+
+    let cancelled = false;
+    const { db } = getFirebase();
+
+    Promise.all(
+      STATUSES.map((status) =>
+        getCountFromServer(
+          query(
+            collection(db, 'documents'),
+            where('orgId', '==', orgId),
+            where('status', '==', status)
+          )
+        ).then((snapshot) => [status, snapshot.data().count] as const)
+      )
+    )
+      .then((counts) => {
+        if (!cancelled) {
+          setStats({ orgId, stats: Object.fromEntries(counts) as DocumentStats });
+        }
+      })
+      .catch((error) => {
+        console.error('Erro ao contar documentos:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId, refreshKey]);
+
+  return stats && stats.orgId === orgId ? stats.stats : null;
+};
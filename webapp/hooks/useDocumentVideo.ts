@@ -0,0 +1,69 @@
+/**
+ * useDocumentVideo - URL de Reprodução do Vídeo Vinculado
+ *
+ * Obtém a URL assinada do vídeo (callable getDocumentVideoUrl) quando o
+ * documento tem `videoPath`. A URL expira; `reload` pede uma nova e a
+ * anterior continua disponível até a resposta, para o player não ser
+ * desmontado.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { callApi } from '../lib/api';
+import { VideoPlayback } from '../types/document';
+
+interface PlaybackResult {
+  key: string;
+  videoKey: string;
+  playback: VideoPlayback | null;
+  error: Error | null;
+}
+
+export interface DocumentVideoState {
+  playback: VideoPlayback | null;
+  loading: boolean;
+  error: Error | null;
+  reload: () => void;
+}
+
+/**
+ * @param docId - Documento com o vídeo
+ * @param videoPath - Caminho do vídeo; null enquanto o documento carrega ou sem vídeo
+ */
+export const useDocumentVideo = (docId: string, videoPath: string | null): DocumentVideoState => {
+  const [attempt, setAttempt] = useState(0);
+  const videoKey = `${docId}@${videoPath}`;
+  const key = `${videoKey}#${attempt}`;
+  const [result, setResult] = useState<PlaybackResult | null>(null);
+
+  useEffect(() => {
+    if (!videoPath) {
+      return undefined;
+    }
+
+    let cancelled = false;
+    callApi<VideoPlayback>('getDocumentVideoUrl', { docId })
+      .then((playback) => {
+        if (!cancelled) setResult({ key, videoKey, playback, error: null });
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setResult({ key, videoKey, playback: null, error });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [docId, videoPath, videoKey, key]);
+
+  const reload = useCallback(() => setAttempt((value) => value + 1), []);
+  const current = result?.key === key ? result : null;
+  const sameVideo = result?.videoKey === videoKey ? result : null;
+
+  return {
+    playback: sameVideo?.playback || null,
+    loading: Boolean(videoPath) && !current,
+    error: current?.error || null,
+    reload,
+  };
+};
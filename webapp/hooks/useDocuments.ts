@@ -0,0 +1,149 @@
+/**
+ * useDocuments - Lista de Documentos em Tempo Real
+ *
+ * Assina os documentos da organização no Firestore com filtros,
+ * busca por título, ordenação e paginação por cursor. Todos os filtros
+ * são aplicados na consulta, cobertos por `firestore.indexes.json`.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  collection,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  startAfter,
+  where,
+} from 'firebase/firestore';
+import { getFirebase } from '../lib/firebase';
+import { toSearchToken } from '../lib/search';
+import { Document, DocumentStatus, DocumentType, ImpactoMargem } from '../types/document';
+
+/**
+ * Campos de ordenação disponíveis (sempre decrescente)
+ */
+export type DocumentSort = 'ultimaRevisao' | 'custoManutencao';
+
+const SORT_FIELDS: Record<DocumentSort, string> = {
+  ultimaRevisao: 'metadata.ultimaRevisao',
+  custoManutencao: 'axiomaMetrics.custoManutencao',
+};
+
+export interface DocumentFilters {
+  tipo?: DocumentType;
+  status?: DocumentStatus;
+  impactoMargem?: ImpactoMargem;
+  busca?: string;
+  ordenarPor: DocumentSort;
+}
+
+interface PageResult {
+  key: string;
+  documents: Document[];
+  lastSnapshot: QueryDocumentSnapshot | null;
+  hasNext: boolean;
+  error: Error | null;
+}
+
+export interface DocumentsPage {
+  documents: Document[];
+  loading: boolean;
+  error: Error | null;
+  /** Índice da página atual (0 = primeira) */
+  page: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  nextPage: () => void;
+  previousPage: () => void;
+}
+
+/**
+ * @param orgId - Organização do usuário (claim do token)
+ * @param filters - Filtros, busca e ordenação
+ * @param pageSize - Documentos por página
+ */
+export const useDocuments = (
+  orgId: string | null,
+  filters: DocumentFilters,
+  pageSize: number = 12
+): DocumentsPage => {
+  const filtersKey = JSON.stringify({ orgId, filters, pageSize });
+  const searchToken = toSearchToken(filters.busca || '');
+
+  // Pilha de cursores: o cursor i é o último documento da página i.
+  // A pilha pertence a uma combinação de filtros e é descartada quando ela muda.
+  const [paging, setPaging] = useState<{ key: string; cursors: QueryDocumentSnapshot[] }>({
+    key: filtersKey,
+    cursors: [],
+  });
+  const cursors = paging.key === filtersKey ? paging.cursors : [];
+  const cursor = cursors.length > 0 ? cursors[cursors.length - 1] : null;
+  const resultKey = `${filtersKey}#${cursors.length}`;
+
+  const [result, setResult] = useState<PageResult | null>(null);
+
+  useEffect(() => {
+    if (!orgId) {
+      return undefined;
+    }
+
+    const { db } = getFirebase();
+    const constraints: QueryConstraint[] = [where('orgId', '==', orgId)];
+
+    if (filters.tipo) constraints.push(where('tipo', '==', filters.tipo));
+    if (filters.status) constraints.push(where('status', '==', filters.status));
+    if (filters.impactoMargem) {
+      constraints.push(where('axiomaMetrics.impactoMargem', '==', filters.impactoMargem));
+    }
+    if (searchToken) {
+      constraints.push(where('tituloBusca', 'array-contains', searchToken));
+    }
+
+    constraints.push(orderBy(SORT_FIELDS[filters.ordenarPor], 'desc'));
+    if (cursor) constraints.push(startAfter(cursor));
+    // Um documento a mais indica se existe próxima página
+    constraints.push(limit(pageSize + 1));
+
+    return onSnapshot(
+      query(collection(db, 'documents'), ...constraints),
+      (snapshot) => {
+        const pageDocs = snapshot.docs.slice(0, pageSize);
+        setResult({
+          key: resultKey,
+          documents: pageDocs.map((doc) => doc.data() as Document),
+          lastSnapshot: pageDocs.length > 0 ? pageDocs[pageDocs.length - 1] : null,
+          hasNext: snapshot.docs.length > pageSize,
+          error: null,
+        });
+      },
+      (error) => {
+        setResult({ key: resultKey, documents: [], lastSnapshot: null, hasNext: false, error });
+      }
+    );
+  }, [orgId, filters.tipo, filters.status, filters.impactoMargem, filters.ordenarPor,
+    searchToken, cursor, pageSize, resultKey]);
+
+  const current = result && result.key === resultKey ? result : null;
+
+  return {
+    documents: current?.documents || [],
+    loading: Boolean(orgId) && !current,
+    error: current?.error || null,
+    page: cursors.length,
+    hasNext: Boolean(current?.hasNext),
+    hasPrevious: cursors.length > 0,
+    nextPage: () => {
+      if (current?.hasNext && current.lastSnapshot) {
+        setPaging({ key: filtersKey, cursors: [...cursors, current.lastSnapshot] });
+      }
+    },
+    previousPage: () => {
+      setPaging({ key: filtersKey, cursors: cursors.slice(0, -1) });
+    },
+  };
+};
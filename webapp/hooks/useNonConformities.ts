@@ -0,0 +1,98 @@
+/**
+ * useNonConformities - Registro de Não-Conformidades em Tempo Real
+ *
+ * Assina as NCs da organização (filtros por status e documento) ou uma
+ * NC específica. As alterações são feitas pelas funções callable; a
+ * interface acompanha o resultado pela assinatura.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { QueryConstraint, collection, doc, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { getFirebase } from '../lib/firebase';
+import { NonConformity, NonConformityStatus } from '../types/nonConformity';
+
+export interface NonConformityFilters {
+  status?: NonConformityStatus;
+  docId?: string;
+}
+
+interface Snapshot<T> {
+  key: string;
+  value: T;
+}
+
+export interface NonConformitiesState {
+  nonConformities: NonConformity[];
+  loading: boolean;
+  error: Error | null;
+}
+
+export interface NonConformityState {
+  nonConformity: NonConformity | null;
+  loading: boolean;
+  notFound: boolean;
+  error: Error | null;
+}
+
+/**
+ * NCs da organização, mais recentes primeiro
+ */
+export const useNonConformities = (orgId: string, filters: NonConformityFilters = {}): NonConformitiesState => {
+  const { status, docId } = filters;
+  const key = `${orgId}|${status || ''}|${docId || ''}`;
+  const [result, setResult] = useState<Snapshot<NonConformity[]> | null>(null);
+  const [error, setError] = useState<Snapshot<Error> | null>(null);
+
+  useEffect(() => {
+    const constraints: QueryConstraint[] = [where('orgId', '==', orgId)];
+    if (docId) constraints.push(where('docId', '==', docId));
+    if (status) constraints.push(where('status', '==', status));
+    constraints.push(orderBy('criadoEm', 'desc'));
+
+    return onSnapshot(
+      query(collection(getFirebase().db, 'nonConformities'), ...constraints),
+      (snapshot) => setResult({ key, value: snapshot.docs.map((item) => item.data() as NonConformity) }),
+      (value) => setError({ key, value })
+    );
+  }, [orgId, status, docId, key]);
+
+  const current = result?.key === key ? result : null;
+  const currentError = error?.key === key ? error.value : null;
+
+  return {
+    nonConformities: current?.value || [],
+    loading: !current && !currentError,
+    error: currentError,
+  };
+};
+
+/**
+ * Uma NC com a análise de causa raiz e o plano de ação
+ */
+export const useNonConformity = (ncId: string): NonConformityState => {
+  const [result, setResult] = useState<Snapshot<NonConformity | null> | null>(null);
+  const [error, setError] = useState<Snapshot<Error> | null>(null);
+
+  useEffect(
+    () =>
+      onSnapshot(
+        doc(getFirebase().db, 'nonConformities', ncId),
+        (snapshot) =>
+          setResult({ key: ncId, value: snapshot.exists() ? (snapshot.data() as NonConformity) : null }),
+        (value) => setError({ key: ncId, value })
+      ),
+    [ncId]
+  );
+
+  const current = result?.key === ncId ? result : null;
+  const currentError = error?.key === ncId ? error.value : null;
+
+  return {
+    nonConformity: current?.value || null,
+    loading: !current && !currentError,
+    notFound: Boolean(current) && !current?.value,
+    error: currentError,
+  };
+};
@@ -0,0 +1,89 @@
+/**
+ * Cliente da API de Documentos (funções callable e downloads HTTP)
+ *
+ * Encapsula httpsCallable e converte os erros de domínio
+ * retornados pelo backend em mensagens para a interface.
+ */
+
+import { FunctionsError, httpsCallable } from 'firebase/functions';
+import { getFirebase } from './firebase';
+
+/**
+ * Erro de uma chamada à API com o código de domínio do backend
+ * (NOT_FOUND, INVALID_TRANSITION, CONFLICT, VALIDATION, ...)
+ */
+export class ApiError extends Error {
+  readonly code: string;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: string, retryable: boolean) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Invoca uma função callable da API de documentos
+ *
+ * @param name - Nome da função exportada (ex: 'approveDocument')
+ * @param data - Payload da chamada
+ */
+export const callApi = async <T>(name: string, data: Record<string, unknown>): Promise<T> => {
+  try {
+    const result = await httpsCallable<Record<string, unknown>, T>(getFirebase().functions, name)(data);
+    return result.data;
+  } catch (error) {
+    const details = (error as FunctionsError).details as
+      | { code?: string; retryable?: boolean }
+      | undefined;
+    throw new ApiError(
+      error instanceof Error ? error.message : 'Erro ao processar a solicitação',
+      details?.code || 'INTERNAL',
+      Boolean(details?.retryable)
+    );
+  }
+};
+
+/**
+ * URL de um endpoint HTTP das funções (downloads), respeitando os emuladores
+ */
+const functionUrl = (name: string): string => {
+  const { app, functions } = getFirebase();
+  const projectId = app.options.projectId;
+  return process.env.NEXT_PUBLIC_USE_EMULATORS === 'true'
+    ? `http://localhost:5001/${projectId}/${functions.region}/${name}`
+    : `https://${functions.region}-${projectId}.cloudfunctions.net/${name}`;
+};
+
+/**
+ * Baixa um arquivo de um endpoint HTTP autenticado (ex: 'exportPopDocument')
+ * O ID token do usuário vai no cabeçalho Authorization
+ *
+ * @param name - Nome da função exportada
+ * @param params - Parâmetros da query
+ */
+export const fetchApiFile = async (name: string, params: Record<string, string>): Promise<Blob> => {
+  const token = await getFirebase().auth.currentUser?.getIdToken();
+  if (!token) {
+    throw new ApiError('Autenticação obrigatória', 'UNAUTHENTICATED', false);
+  }
+
+  const response = await fetch(`${functionUrl(name)}?${new URLSearchParams(params)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as
+      | { error?: { code?: string; message?: string; retryable?: boolean } }
+      | null;
+    throw new ApiError(
+      body?.error?.message || `Erro ${response.status} ao baixar o arquivo`,
+      body?.error?.code || 'INTERNAL',
+      Boolean(body?.error?.retryable)
+    );
+  }
+
+  return response.blob();
+};
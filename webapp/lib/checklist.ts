@@ -0,0 +1,49 @@
+/**
+ * Rótulos e regras de exibição das execuções de checklist
+ *
+ * A conclusão continua sendo validada pelo backend (ChecklistService);
+ * aqui só se decide o que oferecer na interface.
+ */
+
+import { ChecklistAnswer, ChecklistRunItem, ChecklistRunStatus } from '../types/checklist';
+
+export const CHECKLIST_STATUS_LABELS: Record<ChecklistRunStatus, string> = {
+  em_andamento: 'Em andamento',
+  concluida: 'Concluída',
+  cancelada: 'Cancelada',
+};
+
+export const CHECKLIST_STATUS_STYLES: Record<ChecklistRunStatus, string> = {
+  em_andamento: 'bg-yellow-100 text-yellow-800',
+  concluida: 'bg-green-100 text-green-800',
+  cancelada: 'bg-gray-100 text-gray-500',
+};
+
+export const CHECKLIST_ANSWER_LABELS: Record<ChecklistAnswer, string> = {
+  conforme: 'Conforme',
+  nao_conforme: 'Não conforme',
+  na: 'N/A',
+};
+
+export const CHECKLIST_ANSWER_STYLES: Record<ChecklistAnswer, string> = {
+  conforme: 'bg-green-600 text-white',
+  nao_conforme: 'bg-red-600 text-white',
+  na: 'bg-gray-500 text-white',
+};
+
+/**
+ * Tamanho máximo de uma foto de evidência (mesmo limite do backend)
+ */
+export const CHECKLIST_EVIDENCE_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Itens obrigatórios ainda sem resposta (bloqueiam a conclusão)
+ */
+export const pendingMandatoryItems = (itens: ChecklistRunItem[]): ChecklistRunItem[] =>
+  itens.filter((item) => item.obrigatorio && !item.resposta);
+
+/**
+ * Cor do score de conformidade
+ */
+export const scoreStyle = (score: number): string =>
+  score >= 90 ? 'text-green-700' : score >= 70 ? 'text-yellow-700' : 'text-red-700';
@@ -0,0 +1,59 @@
+/**
+ * Inicialização do Firebase no Frontend
+ *
+ * Configuração lida das variáveis NEXT_PUBLIC_FIREBASE_*.
+ * Com NEXT_PUBLIC_USE_EMULATORS=true conecta aos emuladores locais
+ * (Auth 9099, Firestore 8080, Functions 5001, Storage 9199).
+ */
+
+import { FirebaseApp, getApp, getApps, initializeApp } from 'firebase/app';
+import { Auth, connectAuthEmulator, getAuth } from 'firebase/auth';
+import { Firestore, connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { Functions, connectFunctionsEmulator, getFunctions } from 'firebase/functions';
+import { FirebaseStorage, connectStorageEmulator, getStorage } from 'firebase/storage';
+
+const firebaseConfig = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+interface FirebaseClients {
+  app: FirebaseApp;
+  auth: Auth;
+  db: Firestore;
+  functions: Functions;
+  storage: FirebaseStorage;
+}
+
+let clients: FirebaseClients | null = null;
+
+/**
+ * Retorna os clientes Firebase, inicializando-os na primeira chamada
+ * (somente no navegador)
+ */
+export const getFirebase = (): FirebaseClients => {
+  if (clients) {
+    return clients;
+  }
+
+  const app = getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
+  clients = {
+    app,
+    auth: getAuth(app),
+    db: getFirestore(app),
+    functions: getFunctions(app),
+    storage: getStorage(app),
+  };
+
+  if (process.env.NEXT_PUBLIC_USE_EMULATORS === 'true') {
+    connectAuthEmulator(clients.auth, 'http://localhost:9099', { disableWarnings: true });
+    connectFirestoreEmulator(clients.db, 'localhost', 8080);
+    connectFunctionsEmulator(clients.functions, 'localhost', 5001);
+    connectStorageEmulator(clients.storage, 'localhost', 9199);
+  }
+
+  return clients;
+};
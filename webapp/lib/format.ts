@@ -0,0 +1,24 @@
+/**
+ * Formatação de datas vindas do Firestore e das funções callable
+ */
+
+import { TimestampLike } from '../types/document';
+
+/**
+ * Converte um Timestamp do Firestore ou { seconds, nanoseconds } em Date
+ */
+export const toDate = (value: TimestampLike): Date =>
+  value instanceof Date ? value : new Date(value.seconds * 1000 + value.nanoseconds / 1e6);
+
+/**
+ * Data e hora no formato pt-BR
+ */
+export const formatDateTime = (value: TimestampLike): string =>
+  toDate(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Data (sem hora) no formato pt-BR
+ * Prazos informados como dia ('2026-11-30') são gravados à meia-noite UTC
+ */
+export const formatDate = (value: TimestampLike): string =>
+  toDate(value).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
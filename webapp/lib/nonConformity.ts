@@ -0,0 +1,98 @@
+/**
+ * Rótulos e regras de exibição do registro de não-conformidades
+ *
+ * As transições continuam sendo validadas pelo backend
+ * (NonConformityService); aqui só se decide o que oferecer na interface.
+ */
+
+import {
+  CorrectiveActionStatus,
+  IshikawaCategory,
+  NonConformity,
+  NonConformityOrigin,
+  NonConformitySeverity,
+  NonConformityStatus,
+} from '../types/nonConformity';
+
+export const NC_STATUS_LABELS: Record<NonConformityStatus, string> = {
+  rascunho: 'Rascunho',
+  aberta: 'Aberta',
+  em_tratamento: 'Em tratamento',
+  verificacao: 'Verificação de eficácia',
+  encerrada: 'Encerrada',
+  cancelada: 'Cancelada',
+};
+
+export const NC_STATUS_STYLES: Record<NonConformityStatus, string> = {
+  rascunho: 'bg-gray-200 text-gray-700',
+  aberta: 'bg-red-100 text-red-800',
+  em_tratamento: 'bg-yellow-100 text-yellow-800',
+  verificacao: 'bg-blue-100 text-blue-800',
+  encerrada: 'bg-green-100 text-green-800',
+  cancelada: 'bg-gray-100 text-gray-500',
+};
+
+export const NC_SEVERITY_LABELS: Record<NonConformitySeverity, string> = {
+  baixa: 'Baixa',
+  media: 'Média',
+  alta: 'Alta',
+  critica: 'Crítica',
+};
+
+export const NC_SEVERITY_STYLES: Record<NonConformitySeverity, string> = {
+  baixa: 'bg-blue-500 text-white',
+  media: 'bg-yellow-500 text-white',
+  alta: 'bg-orange-500 text-white',
+  critica: 'bg-red-600 text-white',
+};
+
+export const NC_ORIGIN_LABELS: Record<NonConformityOrigin, string> = {
+  video: 'extração de vídeo',
+  manual: 'registro manual',
+  checklist: 'item reprovado em checklist',
+};
+
+export const ACTION_STATUS_LABELS: Record<CorrectiveActionStatus, string> = {
+  pendente: 'Pendente',
+  concluida: 'Concluída (aguardando verificação)',
+  eficaz: 'Eficaz',
+  ineficaz: 'Ineficaz',
+};
+
+export const ISHIKAWA_LABELS: Record<IshikawaCategory, string> = {
+  metodo: 'Método',
+  maquina: 'Máquina',
+  material: 'Material',
+  mao_de_obra: 'Mão de obra',
+  medicao: 'Medição',
+  meio_ambiente: 'Meio ambiente',
+};
+
+/**
+ * Status em que a NC está em aberto (mesma regra da análise de risco)
+ */
+export const OPEN_NC_STATUSES: NonConformityStatus[] = ['rascunho', 'aberta', 'em_tratamento', 'verificacao'];
+
+/**
+ * Operações do fluxo CAPA oferecidas na interface
+ */
+export type NonConformityOperation = 'confirm' | 'cancel' | 'rootCause' | 'addAction';
+
+/**
+ * Operações disponíveis no status atual da NC
+ * (concluir e verificar ações são oferecidos em cada ação do plano)
+ */
+export const getNonConformityOperations = (nc: NonConformity): NonConformityOperation[] => {
+  switch (nc.status) {
+    case 'rascunho':
+      return ['confirm', 'cancel'];
+    case 'aberta':
+      return nc.causaRaiz ? ['rootCause', 'addAction', 'cancel'] : ['rootCause', 'cancel'];
+    case 'em_tratamento':
+      return ['rootCause', 'addAction', 'cancel'];
+    case 'verificacao':
+      return ['addAction'];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,70 @@
+/**
+ * Permissões de ações sobre documentos por papel e status
+ *
+ * Define quais ações do fluxo de aprovação são oferecidas na interface.
+ * As regras de negócio continuam sendo validadas pelo backend
+ * (máquina de estados, assinaturas e precondição de versão).
+ */
+
+import { Document, UserRole } from '../types/document';
+
+export type DocumentAction = 'submit' | 'sign' | 'approve' | 'obsolete' | 'restore';
+
+/**
+ * Ações permitidas a cada papel da organização
+ */
+const ROLE_ACTIONS: Record<UserRole, DocumentAction[]> = {
+  leitor: [],
+  elaborador: ['submit', 'restore'],
+  revisor: ['sign'],
+  aprovador: ['sign', 'approve'],
+  gestor: ['submit', 'sign', 'approve', 'obsolete', 'restore'],
+};
+
+const ROLE_ORDER = { elaborador: 0, revisor: 1, aprovador: 2 };
+
+/**
+ * Verifica se o usuário tem assinatura pendente e se já é a vez da etapa dele
+ * (mesma regra de findPendingSignature no backend)
+ */
+const hasSignatureTurn = (document: Document, userId: string): boolean => {
+  const pendentes = document.revisao?.assinaturas.filter((assinatura) => !assinatura.decisao) || [];
+  const assinatura = pendentes.find((item) => item.userId === userId);
+  return Boolean(assinatura) &&
+    !pendentes.some((item) => ROLE_ORDER[item.papel] < ROLE_ORDER[assinatura!.papel]);
+};
+
+/**
+ * Verifica se o status atual do documento admite a ação
+ */
+const isAvailableInStatus = (action: DocumentAction, document: Document, userId: string): boolean => {
+  switch (action) {
+    case 'submit':
+      return document.status === 'rascunho';
+    case 'sign':
+      return document.status === 'revisao' && hasSignatureTurn(document, userId);
+    case 'approve':
+      // Aprovação exige todas as assinaturas e o usuário designado como aprovador
+      return (
+        document.status === 'revisao' &&
+        Boolean(document.revisao?.assinaturas.every((assinatura) => assinatura.decisao === 'aprovado')) &&
+        Boolean(document.revisao?.assinaturas.some(
+          (assinatura) => assinatura.papel === 'aprovador' && assinatura.userId === userId
+        ))
+      );
+    case 'obsolete':
+      return document.status !== 'obsoleto';
+    case 'restore':
+      return document.status !== 'obsoleto';
+  }
+};
+
+/**
+ * Lista as ações que o usuário pode executar sobre o documento
+ */
+export const getAvailableActions = (
+  document: Document,
+  role: UserRole | null,
+  userId: string
+): DocumentAction[] =>
+  (role ? ROLE_ACTIONS[role] : []).filter((action) => isAvailableInStatus(action, document, userId));
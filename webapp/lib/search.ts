@@ -0,0 +1,36 @@
+/**
+ * Normalização de termos de busca
+ * Mesma regra usada pelo backend para gerar `tituloBusca`
+ */
+
+const MAX_PREFIX = 15;
+
+/**
+ * Normaliza um texto para busca: minúsculas e sem acentos
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+/**
+ * Converte o termo digitado nos tokens consultáveis
+ * Palavras com menos de 3 letras só casam com palavras inteiras
+ */
+export const toSearchTokens = (term: string): string[] =>
+  normalizeSearchText(term)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0)
+    .map((token) => token.substring(0, MAX_PREFIX));
+
+/**
+ * Token consultado no Firestore: o mais longo (mais seletivo) do termo digitado
+ * A consulta aceita um único array-contains; conferir os demais termos no
+ * cliente deixaria páginas incompletas
+ */
+export const toSearchToken = (term: string): string | null =>
+  toSearchTokens(term).reduce<string | null>(
+    (maisLongo, token) => (maisLongo === null || token.length > maisLongo.length ? token : maisLongo),
+    null
+  );
@@ -0,0 +1,128 @@
+/**
+ * Navegação no vídeo a partir das etapas do POP
+ *
+ * O `tempo` de cada etapa vem da extração do vídeo em texto livre
+ * ("00:01:30", "1:30", "90s", "1min30", "0:45 - 1:10"); aqui ele é
+ * convertido na posição de início, em segundos.
+ *
+ * O `tempo` da etapa é uma posição no vídeo, não uma duração como o
+ * `tempoEstimado` (parseDuration em functions/src/utils/duration.ts). Os
+ * formatos aceitos pelos dois dão o mesmo número de segundos; um número sem
+ * unidade ("15") é recusado aqui, pois o backend o lê como minutos.
+ */
+
+import { DocumentContent, DocumentStep } from '../types/document';
+
+/**
+ * Título da seção com as não-conformidades vistas no vídeo
+ */
+export const NON_CONFORMITY_SECTION = 'Não-Conformidades Identificadas';
+
+const UNIT_SECONDS = new Map<string, number>([
+  ['h', 3600],
+  ['min', 60],
+  ['m', 60],
+  ['s', 1],
+  ['seg', 1],
+]);
+
+/**
+ * Posição (segundos) em que a etapa começa no vídeo
+ *
+ * @returns Segundos ou null quando o texto não traz um tempo reconhecível ou é ambíguo
+ */
+export const parseStepTimestamp = (tempo: string | undefined): number | null => {
+  if (!tempo) {
+    return null;
+  }
+  const value = tempo
+    .trim()
+    .toLowerCase()
+    .replace(/^(aprox\.?|aproximadamente|cerca de|~)\s*/, '');
+
+  // Relógio (hh:mm:ss ou mm:ss); em intervalos vale o início
+  const clock = /(\d{1,3}):([0-5]\d)(?::([0-5]\d))?/.exec(value);
+  if (clock) {
+    const [, a, b, c] = clock;
+    return c === undefined
+      ? Number(a) * 60 + Number(b)
+      : Number(a) * 3600 + Number(b) * 60 + Number(c);
+  }
+
+  // Unidades: "90s", "1min30", "2 min", "1h05m"; em intervalos vale o início.
+  // Como em parseDuration, número sem unidade após horas vale minutos ("1h20")
+  // e após minutos vale segundos ("1min30")
+  const inicio = value.split(/\s*(?:-|–|até)\s*/)[0].replace(/\s+/g, '');
+  const partes = inicio.match(/\d+[a-z]*/g);
+  if (!partes || partes.join('') !== inicio) {
+    return null;
+  }
+
+  let total = 0;
+  let anterior: number | undefined;
+  for (const parte of partes) {
+    const [, numero, unidade] = /^(\d+)([a-z]*)$/.exec(parte) as RegExpExecArray;
+    const segundos = unidade
+      ? UNIT_SECONDS.get(unidade)
+      : anterior === 3600 ? 60 : anterior === 60 ? 1 : undefined;
+    // Unidade desconhecida ou número solto ("15": segundos ou minutos?)
+    if (segundos === undefined) {
+      return null;
+    }
+    total += Number(numero) * segundos;
+    anterior = segundos;
+  }
+
+  return total;
+};
+
+/**
+ * Segundos no formato do player (m:ss ou h:mm:ss)
+ */
+export const formatVideoTime = (segundos: number): string => {
+  const total = Math.max(0, Math.floor(segundos));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/**
+ * Não-conformidades do conteúdo, separadas entre as que citam uma etapa
+ * ("Etapa 3: ...", "na etapa 3") e as gerais
+ */
+export const groupNonConformities = (
+  conteudo: DocumentContent | undefined
+): { porEtapa: Map<number, string[]>; gerais: string[] } => {
+  const porEtapa = new Map<number, string[]>();
+  const gerais: string[] = [];
+  const secao = conteudo?.secoes.find((item) => item.titulo === NON_CONFORMITY_SECTION);
+  const etapas = new Set((conteudo?.etapas || []).map((etapa) => etapa.numero));
+
+  for (const item of secao?.itens || []) {
+    const numero = Number(/etapa\s*(\d+)/i.exec(item)?.[1]);
+    if (etapas.has(numero)) {
+      porEtapa.set(numero, [...(porEtapa.get(numero) || []), item]);
+    } else {
+      gerais.push(item);
+    }
+  }
+
+  return { porEtapa, gerais };
+};
+
+/**
+ * Etapa em exibição na posição atual do vídeo: a última que já começou
+ */
+export const findCurrentStep = (etapas: DocumentStep[], posicao: number): number | null => {
+  let atual: number | null = null;
+  let inicioAtual = -1;
+  for (const etapa of etapas) {
+    const inicio = parseStepTimestamp(etapa.tempo);
+    if (inicio !== null && inicio <= posicao && inicio >= inicioAtual) {
+      atual = etapa.numero;
+      inicioAtual = inicio;
+    }
+  }
+  return atual;
+};
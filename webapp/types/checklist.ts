@@ -0,0 +1,92 @@
+/**
+ * Tipos das Execuções de Checklist para o Frontend
+ * Sincronizados com functions/src/types/checklist.types.ts
+ */
+
+import { TimestampLike } from './document';
+
+export interface ChecklistTemplateItem {
+  ordem: number;
+  descricao: string;
+  obrigatorio: boolean;
+}
+
+/**
+ * Modelo de checklist de uma norma (ex: iso-9001-audit)
+ */
+export interface ChecklistTemplate {
+  templateId: string;
+  nome: string;
+  norma: string;
+  versao: string;
+  ativo: boolean;
+  itens: ChecklistTemplateItem[];
+}
+
+export type ChecklistAnswer = 'conforme' | 'nao_conforme' | 'na';
+
+export type ChecklistRunStatus = 'em_andamento' | 'concluida' | 'cancelada';
+
+/**
+ * Foto de evidência de um item
+ */
+export interface ChecklistEvidence {
+  evidenciaId: string;
+  nome: string;
+  storagePath: string;
+  contentType: string;
+  tamanhoBytes: number;
+  sha256: string;
+  enviadoPor: string;
+  enviadoEm: TimestampLike;
+}
+
+export interface ChecklistRunItem {
+  ordem: number;
+  descricao: string;
+  obrigatorio: boolean;
+  grupo?: string;
+  resposta?: ChecklistAnswer;
+  comentario?: string;
+  evidencias: ChecklistEvidence[];
+  respondidoPor?: string;
+  respondidoEm?: TimestampLike;
+  ncId?: string;
+}
+
+export interface ChecklistRunOrigin {
+  tipo: 'template' | 'documento';
+  templateId?: string;
+  docId?: string;
+  versao: string;
+  norma?: string;
+}
+
+export interface ChecklistRunSummary {
+  conformes: number;
+  naoConformes: number;
+  naoAplicaveis: number;
+  semResposta: number;
+}
+
+/**
+ * Execução de checklist
+ */
+export interface ChecklistRun {
+  runId: string;
+  orgId: string;
+  titulo: string;
+  origem: ChecklistRunOrigin;
+  status: ChecklistRunStatus;
+  itens: ChecklistRunItem[];
+  resumo: ChecklistRunSummary;
+  scoreConformidade?: number;
+  iniciadoPor: string;
+  iniciadoEm: TimestampLike;
+  atualizadoEm: TimestampLike;
+  concluidoPor?: string;
+  concluidoEm?: TimestampLike;
+  canceladoPor?: string;
+  canceladoEm?: TimestampLike;
+  motivoCancelamento?: string;
+}
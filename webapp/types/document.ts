@@ -18,13 +18,134 @@ export type DocumentStatus = 'rascunho' | 'revisao' | 'ativo' | 'obsoleto';
  */
 export type ImpactoMargem = 'alto' | 'médio' | 'baixo';
 
+/**
+ * Data vinda do Firestore (Timestamp) ou das funções callable ({ seconds, nanoseconds })
+ */
+export type TimestampLike = Date | { seconds: number; nanoseconds: number };
+
+/**
+ * Papéis de assinatura no fluxo de revisão e aprovação
+ */
+export type ReviewRole = 'elaborador' | 'revisor' | 'aprovador';
+
+/**
+ * Decisão registrada por um signatário
+ */
+export type ReviewDecision = 'aprovado' | 'rejeitado';
+
+/**
+ * Tipo de mudança declarado na aprovação (editorial, substantiva, reemissão)
+ */
+export type VersionChangeType = 'editorial' | 'substantiva' | 'reemissao';
+
 /**
  * Metadados de criação e revisão do documento
  */
 export interface DocumentMetadata {
   criadoPor: string;
-  dataCriacao: Date | { seconds: number; nanoseconds: number };
-  ultimaRevisao: Date | { seconds: number; nanoseconds: number };
+  dataCriacao: TimestampLike;
+  ultimaRevisao: TimestampLike;
+}
+
+/**
+ * Signatário designado para a revisão de um documento
+ */
+export interface ReviewSignature {
+  userId: string;
+  papel: ReviewRole;
+  decisao?: ReviewDecision;
+  comentario?: string;
+  assinadoEm?: TimestampLike;
+}
+
+/**
+ * Rodada de revisão em andamento ou concluída
+ */
+export interface DocumentReview {
+  rodada: number;
+  submetidoPor: string;
+  submetidoEm: TimestampLike;
+  assinaturas: ReviewSignature[];
+}
+
+/**
+ * Registro da aprovação que ativou a versão atual
+ */
+export interface DocumentApproval {
+  aprovadoPor: string;
+  aprovadoEm: TimestampLike;
+  tipoMudanca: VersionChangeType;
+  motivoMudanca?: string;
+}
+
+/**
+ * Registro da restauração de uma versão arquivada
+ */
+export interface DocumentRestore {
+  versaoRestaurada: string;
+  historyId: string;
+  restauradoPor: string;
+  restauradoEm: TimestampLike;
+  motivo: string;
+  versaoAnterior?: string;
+}
+
+/**
+ * Seção textual do conteúdo de um documento
+ */
+export interface DocumentSection {
+  titulo: string;
+  texto: string;
+  itens?: string[];
+}
+
+/**
+ * Etapa de um procedimento (POP)
+ */
+export interface DocumentStep {
+  numero: number;
+  descricao: string;
+  tempo?: string;
+  ferramentas?: string[];
+  pontosCriticos?: string[];
+}
+
+/**
+ * Anexo armazenado no Storage
+ */
+export interface DocumentAttachment {
+  anexoId: string;
+  nome: string;
+  storagePath: string;
+  contentType: string;
+  tamanhoBytes: number;
+  sha256: string;
+  enviadoPor: string;
+}
+
+/**
+ * Conteúdo estruturado do documento
+ */
+export interface DocumentContent {
+  secoes: DocumentSection[];
+  etapas?: DocumentStep[];
+  tempoEstimado?: string;
+  anexos?: DocumentAttachment[];
+}
+
+/**
+ * Atualização de conteúdo a partir de uma nova extração do vídeo vinculado
+ */
+export interface DocumentVideoUpdate {
+  videoId: string;
+  extraidoEm: TimestampLike;
+  /** Versão em vigor quando a atualização foi aberta */
+  versaoAnterior: string;
+  atualizadoPor: string;
+  atualizadoEm: TimestampLike;
+  /** Resumo legível das alterações */
+  resumo: string;
+  alteracoes: DocumentFieldChange[];
 }
 
 /**
@@ -46,6 +167,150 @@ export interface Document {
   status: DocumentStatus;
   versao: string;
   contentHash: string;
+  conteudo?: DocumentContent;
   metadata: DocumentMetadata;
   axiomaMetrics: AxiomaMetrics;
+  videoId?: string;
+  videoPath?: string;
+  videoExtraidoEm?: TimestampLike;
+  atualizacaoVideo?: DocumentVideoUpdate;
+  revisao?: DocumentReview;
+  aprovacao?: DocumentApproval;
+  restauracao?: DocumentRestore;
+}
+
+/**
+ * Signatário informado ao submeter um documento para revisão
+ */
+export interface ReviewerAssignment {
+  userId: string;
+  papel: Exclude<ReviewRole, 'elaborador'>;
+}
+
+/**
+ * Versão arquivada (subcoleção 'history' do documento)
+ */
+export interface DocumentHistory {
+  docId: string;
+  versao: string;
+  /** Chave de ordenação da versão (ex: '000002.000010' para '2.10') */
+  versaoOrdem: string;
+  documentSnapshot: Document;
+  arquivadoEm: TimestampLike;
+  aprovadoPor: string;
+  motivoMudanca?: string;
+  versaoRestaurada?: string;
+}
+
+/**
+ * Fatores que compõem o score de risco
+ */
+export type RiskFactor =
+  | 'idade'
+  | 'conformidade'
+  | 'naoConformidades'
+  | 'impactoMargem'
+  | 'custoManutencao';
+
+/**
+ * Contribuição de um fator para o score de risco
+ */
+export interface RiskContribution {
+  fator: RiskFactor;
+  peso: number;
+  intensidade: number;
+  pontos: number;
+  descricao: string;
+}
+
+/**
+ * Regra de revisão (failureIndicators) que disparou na análise
+ */
+export interface FiredRule {
+  id: string;
+  expressao: string;
+  motivo: string;
+  recomendacao: string;
+  exigeRevisao: boolean;
+}
+
+/**
+ * Resultado da análise preditiva de um documento (Modo Axioma)
+ */
+export interface DocumentAnalysis {
+  docId: string;
+  titulo: string;
+  status: DocumentStatus;
+  needsRevision: boolean;
+  /** Score de risco de 0 a 100 */
+  riskScore: number;
+  riskLevel: 'alto' | 'médio' | 'baixo';
+  riskContributions: RiskContribution[];
+  reasons: string[];
+  recommendations: string[];
+  regrasDisparadas: FiredRule[];
+  metrics: {
+    daysSinceLastRevision: number;
+    scoreConformidade?: number;
+    naoConformidades?: number;
+    custoManutencao: number;
+    tempoEstimadoSegundos?: number;
+    tempoExecucaoMedianoSegundos?: number;
+    razaoExcessoTempo?: number;
+    execucoesAnalisadas?: number;
+    execucoesComExcesso?: number;
+  };
+}
+
+/**
+ * Tipo de alteração entre duas versões
+ */
+export type ChangeKind = 'adicionado' | 'removido' | 'alterado';
+
+/**
+ * Grupo de campos ao qual uma alteração pertence
+ */
+export type ChangeGroup =
+  | 'documento'
+  | 'metadata'
+  | 'axiomaMetrics'
+  | 'secoes'
+  | 'etapas'
+  | 'anexos';
+
+/**
+ * Alteração de um campo entre duas versões
+ */
+export interface DocumentFieldChange {
+  grupo: ChangeGroup;
+  campo: string;
+  tipo: ChangeKind;
+  anterior?: unknown;
+  atual?: unknown;
+}
+
+/**
+ * Diferenças entre duas versões de um documento
+ */
+export interface DocumentVersionDiff {
+  docId: string;
+  de: string;
+  para: string;
+  alteracoes: DocumentFieldChange[];
+}
+
+/**
+ * Papel do usuário na organização (claim `role` do token)
+ */
+export type UserRole = 'leitor' | 'elaborador' | 'revisor' | 'aprovador' | 'gestor';
+
+/**
+ * URL temporária de reprodução do vídeo vinculado (callable getDocumentVideoUrl)
+ */
+export interface VideoPlayback {
+  docId: string;
+  videoId: string;
+  videoPath: string;
+  url: string;
+  expiraEm: TimestampLike;
 }
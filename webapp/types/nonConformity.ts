@@ -0,0 +1,106 @@
+/**
+ * Tipos do Registro de Não-Conformidades (CAPA) para o Frontend
+ * Sincronizados com functions/src/types/nonConformity.types.ts
+ */
+
+import { TimestampLike } from './document';
+
+/**
+ * Situação da não-conformidade
+ */
+export type NonConformityStatus =
+  | 'rascunho'
+  | 'aberta'
+  | 'em_tratamento'
+  | 'verificacao'
+  | 'encerrada'
+  | 'cancelada';
+
+export type NonConformitySeverity = 'baixa' | 'media' | 'alta' | 'critica';
+
+export type NonConformityOrigin = 'video' | 'manual' | 'checklist';
+
+export type RootCauseMethod = '5porques' | 'ishikawa';
+
+/**
+ * Categorias do diagrama de Ishikawa (6M)
+ */
+export type IshikawaCategory =
+  | 'metodo'
+  | 'maquina'
+  | 'material'
+  | 'mao_de_obra'
+  | 'medicao'
+  | 'meio_ambiente';
+
+export interface RootCauseAnalysis {
+  metodo: RootCauseMethod;
+  porques?: string[];
+  ishikawa?: Partial<Record<IshikawaCategory, string[]>>;
+  causaRaiz: string;
+  analisadoPor: string;
+  analisadoEm: TimestampLike;
+}
+
+export type CorrectiveActionType = 'corretiva' | 'preventiva';
+
+export type CorrectiveActionStatus = 'pendente' | 'concluida' | 'eficaz' | 'ineficaz';
+
+export interface EffectivenessCheck {
+  eficaz: boolean;
+  comentario?: string;
+  verificadoPor: string;
+  verificadoEm: TimestampLike;
+}
+
+/**
+ * Ação corretiva ou preventiva do plano de ação
+ */
+export interface CorrectiveAction {
+  acaoId: string;
+  tipo: CorrectiveActionType;
+  descricao: string;
+  responsavel: string;
+  prazo: TimestampLike;
+  verificarEficaciaEm?: TimestampLike;
+  status: CorrectiveActionStatus;
+  criadaPor: string;
+  criadaEm: TimestampLike;
+  evidencia?: string;
+  concluidaPor?: string;
+  concluidaEm?: TimestampLike;
+  verificacao?: EffectivenessCheck;
+}
+
+/**
+ * Não-conformidade registrada
+ */
+export interface NonConformity {
+  ncId: string;
+  orgId: string;
+  titulo: string;
+  descricao: string;
+  status: NonConformityStatus;
+  severidade: NonConformitySeverity;
+  origem: NonConformityOrigin;
+  responsavel?: string;
+  docId?: string;
+  documentVersao?: string;
+  videoId?: string;
+  videoPath?: string;
+  videoExtraidoEm?: TimestampLike;
+  etapa?: number;
+  checklistRunId?: string;
+  checklistItem?: number;
+  causaRaiz?: RootCauseAnalysis;
+  acoes: CorrectiveAction[];
+  criadoPor: string;
+  criadoEm: TimestampLike;
+  atualizadoEm: TimestampLike;
+  confirmadoPor?: string;
+  confirmadoEm?: TimestampLike;
+  encerradoEm?: TimestampLike;
+  canceladoPor?: string;
+  canceladoEm?: TimestampLike;
+  motivoCancelamento?: string;
+}